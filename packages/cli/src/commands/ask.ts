@@ -10,11 +10,13 @@ import {
   runAgent,
   createProvider,
   Indexer,
+  loadConfig,
   type StepLog,
-  type ProviderType,
 } from '@repo-wiki/core';
 import {
   checkApiKeyForProvider,
+  resolveLlmSettings,
+  resolveEmbeddingProvider,
   checkIndexExists,
   getDbPath,
   ensureDir,
@@ -22,6 +24,7 @@ import {
   formatStepLog,
   formatTime,
   printHeader,
+  printRebuildHint,
 } from '../utils.js';
 
 const SUPPORTED_PROVIDERS = ['openai', 'anthropic', 'ollama', 'lmstudio', 'together', 'groq', 'openai-compatible'];
@@ -30,19 +33,22 @@ export const askCommand = new Command('ask')
   .description('Ask a question about the repository')
   .argument('<question>', 'Question to ask about the codebase')
   .option('-r, --repo <path>', 'Repository path', process.cwd())
-  .option('-p, --provider <provider>', 'LLM provider (openai, anthropic, ollama, lmstudio, together, groq)', 'openai')
+  .option('-p, --provider <provider>', 'LLM provider (openai, anthropic, ollama, lmstudio, together, groq) [default: config or openai]')
   .option('-m, --model <model>', 'LLM model to use')
   .option('-u, --base-url <url>', 'Base URL for API (for local/custom providers)')
-  .option('-s, --max-steps <n>', 'Maximum agent steps', '8')
+  .option('-s, --max-steps <n>', 'Maximum agent steps [default: config or 8]')
   .option('-o, --out <path>', 'Output path for answer markdown')
   .option('--steps <path>', 'Output path for steps JSON')
   .option('-v, --verbose', 'Show detailed step information')
   .action(async (question: string, options) => {
     const spinner = ora();
     const repoPath = path.resolve(options.repo);
-    const providerType = options.provider as ProviderType;
 
     try {
+      const { config, configPath } = await loadConfig(repoPath);
+      const { provider: providerType, model, baseUrl } = resolveLlmSettings(options, config);
+      const maxSteps = options.maxSteps ? parseInt(options.maxSteps, 10) : config.maxSteps;
+
       // Validate provider
       if (!SUPPORTED_PROVIDERS.includes(providerType)) {
         throw new Error(
@@ -54,15 +60,17 @@ export const askCommand = new Command('ask')
       // Check API key (not needed for local providers)
       checkApiKeyForProvider(providerType);
 
-      // Default model per provider
-      const model = options.model ?? getDefaultModel(providerType);
-
       printHeader('RepoWiki Ask');
       console.log(chalk.gray(`Repository: ${repoPath}`));
+      if (configPath) {
+        console.log(chalk.gray(`Config: ${path.relative(repoPath, configPath)}`));
+      }
       console.log(chalk.gray(`Provider: ${providerType} | Model: ${model}`));
       console.log(chalk.gray(`Question: ${question}`));
       console.log('');
 
+      const embeddingProvider = resolveEmbeddingProvider(config);
+
       // Check if index exists
       if (!checkIndexExists(repoPath)) {
         console.log(chalk.yellow('⚠ No index found for this repository.'));
@@ -70,7 +78,7 @@ export const askCommand = new Command('ask')
         console.log('Creating index first...');
         
         spinner.start('Indexing repository...');
-        const indexer = new Indexer({ repoPath });
+        const indexer = new Indexer({ repoPath, ...config.index, embeddings: embeddingProvider });
         const { indexed, skipped } = await indexer.indexRepository();
         indexer.close();
         spinner.succeed(`Indexed ${indexed} files (${skipped} skipped)`);
@@ -81,7 +89,7 @@ export const askCommand = new Command('ask')
       const llmProvider = createProvider({
         provider: providerType,
         model,
-        baseUrl: options.baseUrl,
+        baseUrl,
       });
 
       // Run agent loop
@@ -92,7 +100,11 @@ export const askCommand = new Command('ask')
         dbPath: getDbPath(repoPath),
         question,
         llmProvider,
-        maxSteps: parseInt(options.maxSteps, 10),
+        maxSteps,
+        maxToolOutputChars: config.maxToolOutputChars,
+        embeddingProvider,
+        ranking: config.search,
+        ignore: config.index?.ignore,
         verbose: options.verbose,
       });
 
@@ -138,7 +150,7 @@ export const askCommand = new Command('ask')
           {
             question,
             repoPath,
-            model: options.model,
+            model,
             totalMs: result.totalMs,
             verified: result.verified,
             error: result.error,
@@ -156,6 +168,7 @@ export const askCommand = new Command('ask')
       spinner.fail('Failed');
       console.error('');
       console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      printRebuildHint(error, repoPath);
       
       if (error instanceof Error) {
         if (error.message.includes('API')) {
@@ -177,25 +190,3 @@ export const askCommand = new Command('ask')
       process.exit(1);
     }
   });
-
-/**
- * Get default model for each provider
- */
-function getDefaultModel(provider: ProviderType): string {
-  switch (provider) {
-    case 'openai':
-      return 'gpt-4o';
-    case 'anthropic':
-      return 'claude-3-5-sonnet-latest';
-    case 'ollama':
-      return 'llama3.1';
-    case 'lmstudio':
-      return 'local-model';
-    case 'together':
-      return 'meta-llama/Llama-3-70b-chat-hf';
-    case 'groq':
-      return 'llama-3.1-70b-versatile';
-    default:
-      return 'gpt-4o';
-  }
-}
@@ -1,35 +1,359 @@
 /**
- * Index command - Build or rebuild the repository index
+ * Index command - Build or rebuild the repository index, and report on it
  */
 
 import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
-import { Indexer } from '@repo-wiki/core';
+import * as path from 'node:path';
+import {
+  Indexer,
+  IndexWatcher,
+  loadConfig,
+  type IndexPhase,
+  type IndexProgress,
+  type IndexProgressEvent,
+  type IndexResult,
+  type IndexStats,
+  type SkippedFile,
+  type WatchUpdate,
+} from '@repo-wiki/core';
+import {
+  checkIndexExists,
+  formatAge,
+  formatBytes,
+  formatTime,
+  getDbPath,
+  printRebuildHint,
+  removeIndex,
+  resolveEmbeddingProvider,
+} from '../utils.js';
+
+// Files listed per group by `index status` unless --verbose
+const STATUS_LIST_LIMIT = 20;
+
+const indexStatusCommand = new Command('status')
+  .description('Show when the index was built and which files changed since')
+  .option('-r, --repo <path>', 'Repository path', process.cwd())
+  .option('-v, --verbose', 'List every changed, new and skipped file')
+  .action(async (options) => {
+    const repoPath = path.resolve(options.repo);
+    const indexer = await openExistingIndex(repoPath);
+    try {
+      const stats = indexer.getStats();
+      const { stale, unindexed, removed, skippedFiles } = indexer.checkFreshness();
+
+      console.log(`${chalk.bold('Index:')}        ${stats.dbPath} (${formatBytes(stats.sizeBytes)})`);
+      console.log(`${chalk.bold('Schema:')}       ${formatSchema(stats)}`);
+      console.log(`${chalk.bold('Last indexed:')} ${formatIndexedAt(stats.indexedAt)}`);
+      console.log(
+        `${chalk.bold('Contents:')}     ${stats.files} files, ${stats.chunks} chunks, ${stats.symbols} symbols`
+      );
+      if (stats.commits > 0) {
+        console.log(`${chalk.bold('History:')}      ${stats.commits} commits`);
+      }
+
+      console.log('');
+      if (stale.length + unindexed.length + removed.length === 0) {
+        console.log(chalk.green('Up to date with the working tree'));
+      } else {
+        printFileGroup(chalk.yellow('Changed since indexing:'), stale, options.verbose);
+        printFileGroup(chalk.green('Not indexed yet:'), unindexed, options.verbose);
+        printFileGroup(chalk.red('Deleted or no longer indexed:'), removed, options.verbose);
+        console.log(chalk.gray(`\nRun ${chalk.cyan('repowiki index')} to update the index.`));
+      }
+
+      console.log(`\n${chalk.gray('Skipped:')} ${skippedFiles.length} files${formatSkipReasons(skippedFiles)}`);
+      if (options.verbose) {
+        printSkippedFiles(skippedFiles);
+      }
+    } finally {
+      indexer.close();
+    }
+  });
+
+const indexStatsCommand = new Command('stats')
+  .description('Show index size and file, chunk and symbol counts per language')
+  .option('-r, --repo <path>', 'Repository path', process.cwd())
+  .action(async (options) => {
+    const repoPath = path.resolve(options.repo);
+    const indexer = await openExistingIndex(repoPath);
+    try {
+      const stats = indexer.getStats();
+
+      console.log(`${chalk.bold('Index:')}        ${stats.dbPath}`);
+      console.log(`${chalk.bold('Size:')}         ${formatBytes(stats.sizeBytes)}`);
+      console.log(`${chalk.bold('Schema:')}       ${formatSchema(stats)}`);
+      console.log(`${chalk.bold('Repository:')}   ${stats.repoRoot ?? repoPath}`);
+      console.log(`${chalk.bold('Last indexed:')} ${formatIndexedAt(stats.indexedAt)}`);
+      console.log('');
+
+      const rows = [
+        ...stats.languages.map((l) => [l.language ?? 'other', l.files, l.chunks, l.symbols] as const),
+        ['total', stats.files, stats.chunks, stats.symbols] as const,
+      ];
+      const width = Math.max(8, ...rows.map(([language]) => language.length));
+      const formatRow = (cells: ReadonlyArray<string | number>) =>
+        cells.map((cell, i) => (i === 0 ? String(cell).padEnd(width) : String(cell).padStart(7))).join('  ');
+      console.log(chalk.gray(formatRow(['Language', 'Files', 'Chunks', 'Symbols'])));
+      for (const row of rows) {
+        console.log(row[0] === 'total' ? chalk.bold(formatRow(row)) : formatRow(row));
+      }
+
+      console.log('');
+      console.log(`${chalk.bold('Embeddings:')} ${stats.embeddedChunks} of ${stats.chunks} chunks`);
+      console.log(`${chalk.bold('History:')}    ${stats.commits} commits`);
+    } finally {
+      indexer.close();
+    }
+  });
 
 export const indexCommand = new Command('index')
   .description('Build or rebuild the repository index')
   .option('-r, --repo <path>', 'Repository path', process.cwd())
+  .option('-f, --force', 'Re-index every file, even if unchanged')
+  .option('--rebuild', 'Delete the existing index and build it from scratch')
+  .option('-v, --verbose', 'List skipped files with the reason they were skipped')
+  .option('--history', 'Also index commit messages and diffs (for search_history)')
+  .option('-w, --watch', 'Keep running and update the index as files change')
+  .option('--workers <n>', 'Worker threads that read and parse files (0 parses on the main thread)')
+  // Options after `status` / `stats` belong to the subcommand (see enablePositionalOptions in index.ts)
+  .enablePositionalOptions()
+  .addCommand(indexStatusCommand)
+  .addCommand(indexStatsCommand)
   .action(async (options) => {
     const spinner = ora();
 
     try {
+      const repoPath = path.resolve(options.repo);
+      const { config } = await loadConfig(repoPath);
+      const workers = options.workers !== undefined ? parseWorkerCount(options.workers) : config.index?.workers;
+
+      if (options.rebuild) {
+        removeIndex(getDbPath(repoPath));
+      }
+
       spinner.start('Indexing repository...');
 
+      const embeddings = resolveEmbeddingProvider(config);
+      // The flag turns history on; options from the config file are kept
+      const history = config.index?.history || options.history;
       const indexer = new Indexer({
-        repoPath: options.repo,
+        repoPath,
+        ...config.index,
+        history,
+        embeddings,
+        workers,
       });
 
-      const { indexed, skipped } = await indexer.indexRepository();
+      // Ctrl+C stops after the current batch; files written so far stay indexed
+      const controller = new AbortController();
+      const cancel = () => controller.abort();
+      process.once('SIGINT', cancel);
+      let result: IndexResult;
+      try {
+        result = await indexer.indexRepository({
+          force: options.force,
+          signal: controller.signal,
+          onProgress: (event) => {
+            const text = formatProgressEvent(event);
+            if (text) spinner.text = text;
+          },
+        });
+      } catch (error) {
+        if (!controller.signal.aborted) throw error;
+        indexer.close();
+        spinner.warn('Indexing cancelled');
+        console.log(chalk.gray(`Files indexed so far are kept; run ${chalk.cyan('repowiki index')} again to finish.`));
+        process.exit(130);
+      } finally {
+        process.off('SIGINT', cancel);
+      }
 
-      indexer.close();
+      const { indexed, added, updated, unchanged, skipped, skippedFiles, removed, embedded, commits } = result;
 
       spinner.succeed('Indexing complete');
       console.log(`\n${chalk.green('Indexed:')} ${indexed} files`);
-      console.log(`${chalk.gray('Skipped:')} ${skipped} files`);
+      console.log(`  ${chalk.green('Added:')}     ${added}`);
+      console.log(`  ${chalk.blue('Updated:')}   ${updated}`);
+      console.log(`  ${chalk.gray('Unchanged:')} ${unchanged}`);
+      console.log(`${chalk.gray('Skipped:')} ${skipped} files${formatSkipReasons(skippedFiles)}`);
+      console.log(`${chalk.yellow('Pruned:')}  ${removed} deleted or renamed files`);
+      if (embeddings) {
+        console.log(`${chalk.magenta('Embedded:')} ${embedded} chunks (${embeddings.name}/${embeddings.model})`);
+      }
+      if (history) {
+        console.log(`${chalk.cyan('History:')} ${commits} new commits`);
+      }
+
+      if (options.verbose) {
+        printSkippedFiles(skippedFiles);
+      }
+
+      if (!options.watch) {
+        indexer.close();
+        return;
+      }
+
+      const watcher = new IndexWatcher(indexer, {
+        onUpdate: (update) => console.log(formatWatchUpdate(update)),
+        onError: (error) => console.error(chalk.red('Watch error:'), error.message),
+      });
+      try {
+        watcher.start();
+      } catch (error) {
+        // The index itself was built; only watching is unavailable
+        indexer.close();
+        console.error(
+          chalk.red(`\nCould not watch ${repoPath} for changes:`),
+          error instanceof Error ? error.message : error
+        );
+        console.error(chalk.gray('The index is up to date. Re-run without --watch, or run repowiki index after editing.'));
+        process.exit(1);
+      }
+      console.log(chalk.gray(`\nWatching ${repoPath} for changes (Ctrl+C to stop)...`));
+
+      process.once('SIGINT', () => {
+        void watcher.close().then(() => {
+          indexer.close();
+          process.exit(0);
+        });
+      });
     } catch (error) {
       spinner.fail('Indexing failed');
       console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      printRebuildHint(error, path.resolve(options.repo));
       process.exit(1);
     }
   });
+
+/**
+ * Parse `--workers`; only a non-negative integer is accepted
+ */
+function parseWorkerCount(value: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`--workers must be a non-negative integer (got "${value}")`);
+  }
+  return parseInt(value, 10);
+}
+
+/**
+ * Open the index for reporting; exits when there is none, so that reporting never creates one
+ */
+async function openExistingIndex(repoPath: string): Promise<Indexer> {
+  if (!checkIndexExists(repoPath)) {
+    console.error(chalk.yellow('No index found.'), `Run ${chalk.cyan('repowiki index')} first.`);
+    process.exit(1);
+  }
+
+  try {
+    const { config } = await loadConfig(repoPath);
+    return new Indexer({ repoPath, ...config.index, dbPath: getDbPath(repoPath) });
+  } catch (error) {
+    console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+    printRebuildHint(error, repoPath);
+    process.exit(1);
+  }
+}
+
+function formatSchema({ schemaVersion, indexerVersion }: IndexStats): string {
+  return `v${schemaVersion}, written by @repo-wiki/core ${indexerVersion ?? 'unknown'}`;
+}
+
+/**
+ * e.g. "2026-10-19T08:00:00.000Z (3 hours ago)"
+ */
+function formatIndexedAt(indexedAt: string | undefined): string {
+  if (!indexedAt) {
+    // Indexes from before schema versioning, and first runs that were cancelled
+    return chalk.yellow('unknown (no completed indexing run recorded)');
+  }
+  return `${indexedAt} (${formatAge(Date.now() - Date.parse(indexedAt))})`;
+}
+
+function printFileGroup(title: string, files: string[], verbose: boolean | undefined): void {
+  if (files.length === 0) return;
+
+  console.log(`${title} ${files.length}`);
+  const shown = verbose ? files : files.slice(0, STATUS_LIST_LIMIT);
+  for (const file of shown) {
+    console.log(`  ${file}`);
+  }
+  if (shown.length < files.length) {
+    console.log(chalk.gray(`  ... and ${files.length - shown.length} more (--verbose lists all)`));
+  }
+}
+
+function printSkippedFiles(skippedFiles: SkippedFile[]): void {
+  if (skippedFiles.length === 0) return;
+
+  console.log('');
+  console.log(chalk.gray('Skipped files:'));
+  for (const file of skippedFiles) {
+    const detail = file.detail ? chalk.gray(` (${file.detail})`) : '';
+    console.log(`  ${chalk.yellow(file.reason.padEnd(10))} ${file.path}${detail}`);
+  }
+}
+
+const PHASE_LABELS: Record<IndexPhase, string> = {
+  scanning: 'Scanning repository...',
+  parsing: 'Indexing files...',
+  linking: 'Resolving graph edges...',
+  history: 'Indexing commit history...',
+  embedding: 'Embedding chunks...',
+};
+
+/**
+ * Spinner text for a progress event, or undefined to keep the current text
+ */
+function formatProgressEvent(event: IndexProgressEvent): string | undefined {
+  switch (event.type) {
+    case 'phase':
+      return PHASE_LABELS[event.phase];
+    case 'discovered':
+      return `Indexing ${event.files} files...`;
+    case 'progress':
+      return `Indexing files... ${formatProgress(event)}`;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * e.g. "1200/5000 files, 310 files/s, ETA 12.3s"
+ */
+function formatProgress({ processed, total, filesPerSecond, etaMs }: IndexProgress): string {
+  const eta = processed < total ? `, ETA ${formatTime(etaMs)}` : '';
+  return `${processed}/${total} files, ${Math.round(filesPerSecond)} files/s${eta}`;
+}
+
+/**
+ * One line per watch update, e.g. "12:00:01 src/a.ts, src/b.ts: 1 added, 1 updated"
+ */
+function formatWatchUpdate({ paths, full, result }: WatchUpdate): string {
+  const time = chalk.gray(new Date().toLocaleTimeString());
+  const changes = [
+    result.added && `${result.added} added`,
+    result.updated && `${result.updated} updated`,
+    result.removed && `${result.removed} removed`,
+  ].filter(Boolean);
+  const scope = full ? 're-indexed repository' : paths.join(', ');
+  return `${time} ${scope}: ${changes.length > 0 ? changes.join(', ') : 'no indexed files changed'}`;
+}
+
+/**
+ * Summarize skip reasons, e.g. " (3 lockfile, 1 binary)"
+ */
+function formatSkipReasons(skippedFiles: SkippedFile[]): string {
+  if (skippedFiles.length === 0) return '';
+
+  const counts = new Map<string, number>();
+  for (const file of skippedFiles) {
+    counts.set(file.reason, (counts.get(file.reason) ?? 0) + 1);
+  }
+
+  const parts = Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([reason, count]) => `${count} ${reason}`);
+  return chalk.gray(` (${parts.join(', ')})`);
+}
@@ -5,3 +5,4 @@
 export { askCommand } from './ask.js';
 export { wikiCommand } from './wiki.js';
 export { indexCommand } from './index-cmd.js';
+export { searchCommand } from './search.js';
@@ -0,0 +1,123 @@
+/**
+ * Search command - Query the repository index from the terminal
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import * as path from 'node:path';
+import {
+  Indexer,
+  loadConfig,
+  compileQuery,
+  formatScoreBreakdown,
+  FILE_KINDS,
+  type FileKind,
+  type SearchFilters,
+  type SearchResult,
+} from '@repo-wiki/core';
+import { checkIndexExists, getDbPath, printRebuildHint, resolveEmbeddingProvider } from '../utils.js';
+
+const SEARCH_MODES = ['hybrid', 'keyword', 'semantic'];
+
+/** Snippet lines shown per result */
+const PREVIEW_LINES = 4;
+
+export const searchCommand = new Command('search')
+  .description('Search the repository index')
+  .argument(
+    '<query>',
+    'Search query: words, "exact phrase", +required, -excluded, prefix*, a NEAR b (NEAR/5 for distance)'
+  )
+  .option('-r, --repo <path>', 'Repository path', process.cwd())
+  .option('-k, --top-k <n>', 'Number of results', '10')
+  .option('--mode <mode>', 'hybrid, keyword or semantic [default: hybrid with embeddings, otherwise keyword]')
+  .option('--path <prefix>', 'Only files under this directory')
+  .option('--glob <pattern>', 'Only files matching this glob')
+  .option('-l, --language <language>', 'Only files in this language (e.g. typescript, python)')
+  .option('--kind <kind>', 'Only code, docs or config files')
+  .option('--exclude-tests', 'Leave out tests, fixtures and mocks')
+  .option('-v, --verbose', 'Show the compiled FTS5 query and score breakdowns')
+  .action(async (query: string, options) => {
+    let indexer: Indexer | undefined;
+
+    try {
+      const repoPath = path.resolve(options.repo);
+      const { config } = await loadConfig(repoPath);
+
+      if (!checkIndexExists(repoPath)) {
+        throw new Error(`No index found for ${repoPath}. Run 'repowiki index' first.`);
+      }
+      if (options.kind && !FILE_KINDS.includes(options.kind)) {
+        throw new Error(`Unknown kind: ${options.kind}. Supported: ${FILE_KINDS.join(', ')}`);
+      }
+
+      const embeddings = resolveEmbeddingProvider(config);
+      const mode: string = options.mode ?? (embeddings ? 'hybrid' : 'keyword');
+      if (!SEARCH_MODES.includes(mode)) {
+        throw new Error(`Unknown mode: ${mode}. Supported: ${SEARCH_MODES.join(', ')}`);
+      }
+      if (mode !== 'keyword' && !embeddings) {
+        throw new Error(`Mode "${mode}" requires "embeddings" in repowiki.config`);
+      }
+
+      const topK = parseInt(options.topK, 10);
+      const filters: SearchFilters = {
+        pathPrefix: options.path,
+        glob: options.glob,
+        language: options.language,
+        kind: options.kind as FileKind | undefined,
+        excludeTests: options.excludeTests,
+      };
+
+      indexer = new Indexer({
+        repoPath,
+        dbPath: getDbPath(repoPath),
+        ...config.index,
+        embeddings,
+        ranking: config.search,
+      });
+
+      if (options.verbose) {
+        console.log(chalk.gray(`Mode: ${mode}`));
+        console.log(chalk.gray(`FTS5: ${compileQuery(query) ?? '(no searchable terms)'}`));
+        console.log('');
+      }
+
+      let results: SearchResult[];
+      if (mode === 'semantic') {
+        results = await indexer.semanticSearch(query, topK, filters);
+      } else if (mode === 'hybrid') {
+        results = await indexer.hybridSearch(query, { topK, filters });
+      } else {
+        results = indexer.search(query, topK, filters);
+      }
+
+      if (results.length === 0) {
+        console.log(chalk.yellow(`No results for: ${query}`));
+        return;
+      }
+
+      for (const [i, result] of results.entries()) {
+        const location = `${result.path}:${result.startLine}-${result.endLine}`;
+        console.log(`${chalk.gray(`[${i + 1}]`)} ${chalk.cyan(location)} ${chalk.gray(`(${result.score.toFixed(3)})`)}`);
+        if (options.verbose && result.scoreBreakdown) {
+          console.log(chalk.gray(`    ${formatScoreBreakdown(result.scoreBreakdown)}`));
+        }
+
+        const lines = result.snippet.split('\n');
+        for (const line of lines.slice(0, PREVIEW_LINES)) {
+          console.log(`    ${line}`);
+        }
+        if (lines.length > PREVIEW_LINES) {
+          console.log(chalk.gray(`    ... (${lines.length - PREVIEW_LINES} more lines)`));
+        }
+        console.log('');
+      }
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      printRebuildHint(error, path.resolve(options.repo));
+      process.exit(1);
+    } finally {
+      indexer?.close();
+    }
+  });
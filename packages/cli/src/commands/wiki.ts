@@ -11,17 +11,20 @@ import {
   runAgent,
   createProvider,
   Indexer,
+  loadConfig,
   type Source,
-  type ProviderType,
 } from '@repo-wiki/core';
 import {
   checkApiKeyForProvider,
+  resolveLlmSettings,
+  resolveEmbeddingProvider,
   checkIndexExists,
   getDbPath,
   ensureDir,
   writeFile,
   formatTime,
   printHeader,
+  printRebuildHint,
 } from '../utils.js';
 
 // Wiki page types and their prompts
@@ -96,8 +99,8 @@ interface WikiPage {
 export const wikiCommand = new Command('wiki')
   .description('Generate wiki documentation for the repository')
   .option('-r, --repo <path>', 'Repository path', process.cwd())
-  .option('-o, --out <dir>', 'Output directory for wiki', './wiki')
-  .option('-p, --provider <provider>', 'LLM provider (openai, anthropic, ollama, lmstudio, together, groq)', 'openai')
+  .option('-o, --out <dir>', 'Output directory for wiki [default: config or ./wiki]')
+  .option('-p, --provider <provider>', 'LLM provider (openai, anthropic, ollama, lmstudio, together, groq) [default: config or openai]')
   .option('-m, --model <model>', 'LLM model to use')
   .option('-u, --base-url <url>', 'Base URL for API (for local/custom providers)')
   .option('--page <type>', 'Specific page to generate: overview|build|architecture|modules')
@@ -106,18 +109,24 @@ export const wikiCommand = new Command('wiki')
   .action(async (options) => {
     const spinner = ora();
     const repoPath = path.resolve(options.repo);
-    const outputDir = path.resolve(options.out);
-    const providerType = (options.provider || 'openai') as ProviderType;
 
     try {
+      const { config, configPath } = await loadConfig(repoPath);
+      const { provider: providerType, model, baseUrl } = resolveLlmSettings(options, config);
+      const outputDir = options.out
+        ? path.resolve(options.out)
+        : config.wiki?.outDir
+          ? path.resolve(repoPath, config.wiki.outDir)
+          : path.resolve('./wiki');
+
       // Check API key (not needed for local providers)
       checkApiKeyForProvider(providerType);
 
-      // Default model per provider
-      const model = options.model ?? getDefaultModel(providerType);
-
       printHeader('RepoWiki Generator');
       console.log(chalk.gray(`Repository: ${repoPath}`));
+      if (configPath) {
+        console.log(chalk.gray(`Config: ${path.relative(repoPath, configPath)}`));
+      }
       console.log(chalk.gray(`Output: ${outputDir}`));
       console.log(chalk.gray(`Provider: ${providerType} | Model: ${model}`));
       console.log('');
@@ -152,6 +161,8 @@ export const wikiCommand = new Command('wiki')
         process.exit(1);
       }
 
+      const embeddingProvider = resolveEmbeddingProvider(config);
+
       // Check if index exists
       if (!checkIndexExists(repoPath)) {
         console.log(chalk.yellow('⚠ No index found for this repository.'));
@@ -159,7 +170,7 @@ export const wikiCommand = new Command('wiki')
         console.log('Creating index first...');
         
         spinner.start('Indexing repository...');
-        const indexer = new Indexer({ repoPath });
+        const indexer = new Indexer({ repoPath, ...config.index, embeddings: embeddingProvider });
         const { indexed, skipped } = await indexer.indexRepository();
         indexer.close();
         spinner.succeed(`Indexed ${indexed} files (${skipped} skipped)`);
@@ -173,7 +184,7 @@ export const wikiCommand = new Command('wiki')
       const llmProvider = createProvider({
         provider: providerType,
         model,
-        baseUrl: options.baseUrl,
+        baseUrl,
       });
 
       const generatedPages: WikiPage[] = [];
@@ -191,7 +202,11 @@ export const wikiCommand = new Command('wiki')
           dbPath: getDbPath(repoPath),
           question: pageConfig.prompt,
           llmProvider,
-          maxSteps: 8,
+          maxSteps: config.maxSteps,
+          maxToolOutputChars: config.maxToolOutputChars,
+          embeddingProvider,
+          ranking: config.search,
+          ignore: config.index?.ignore,
           verbose: options.verbose,
         });
 
@@ -256,6 +271,7 @@ ${generatedPages.map((p) => `- [${p.title}](./${p.type}.md)`).join('\n')}
       spinner.fail('Failed');
       console.error('');
       console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      printRebuildHint(error, repoPath);
       
       if (error instanceof Error) {
         if (error.message.includes('API')) {
@@ -277,25 +293,3 @@ ${generatedPages.map((p) => `- [${p.title}](./${p.type}.md)`).join('\n')}
       process.exit(1);
     }
   });
-
-/**
- * Get default model for each provider
- */
-function getDefaultModel(provider: ProviderType): string {
-  switch (provider) {
-    case 'openai':
-      return 'gpt-4o';
-    case 'anthropic':
-      return 'claude-3-5-sonnet-latest';
-    case 'ollama':
-      return 'llama3.1';
-    case 'lmstudio':
-      return 'local-model';
-    case 'together':
-      return 'meta-llama/Llama-3-70b-chat-hf';
-    case 'groq':
-      return 'llama-3.1-70b-versatile';
-    default:
-      return 'gpt-4o';
-  }
-}
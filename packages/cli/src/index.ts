@@ -8,16 +8,20 @@ import { Command } from 'commander';
 import { askCommand } from './commands/ask.js';
 import { wikiCommand } from './commands/wiki.js';
 import { indexCommand } from './commands/index-cmd.js';
+import { searchCommand } from './commands/search.js';
 
 const program = new Command();
 
 program
   .name('repowiki')
   .description('Agentic AI CLI for repository Q&A and wiki generation')
-  .version('0.0.1');
+  .version('0.0.1')
+  // Lets `index` and its `status` / `stats` subcommands both take --repo
+  .enablePositionalOptions();
 
 program.addCommand(askCommand);
 program.addCommand(wikiCommand);
 program.addCommand(indexCommand);
+program.addCommand(searchCommand);
 
 program.parse();
@@ -6,7 +6,13 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import chalk from 'chalk';
-import type { ProviderType } from '@repo-wiki/core';
+import {
+  createEmbeddingProvider,
+  IndexSchemaError,
+  type EmbeddingProvider,
+  type ProviderType,
+  type RepoWikiConfig,
+} from '@repo-wiki/core';
 
 /**
  * Provider to environment variable mapping
@@ -21,6 +27,53 @@ const PROVIDER_ENV_KEYS: Record<string, string | undefined> = {
   'openai-compatible': undefined,  // Optional
 };
 
+/**
+ * Resolve provider, model and base URL: CLI flags, then config file, then defaults
+ * A model from the config file is only used with the provider it was configured for.
+ */
+export function resolveLlmSettings(
+  options: { provider?: string; model?: string; baseUrl?: string },
+  config: RepoWikiConfig
+): { provider: ProviderType; model: string; baseUrl?: string } {
+  const provider = (options.provider ?? config.provider ?? 'openai') as ProviderType;
+  const useConfigDefaults = !options.provider || options.provider === config.provider;
+
+  return {
+    provider,
+    model: options.model ?? (useConfigDefaults ? config.model : undefined) ?? getDefaultModel(provider),
+    baseUrl: options.baseUrl ?? (useConfigDefaults ? config.baseUrl : undefined),
+  };
+}
+
+/**
+ * Create the embedding provider configured in the config file, if any
+ */
+export function resolveEmbeddingProvider(config: RepoWikiConfig): EmbeddingProvider | undefined {
+  return config.embeddings ? createEmbeddingProvider(config.embeddings) : undefined;
+}
+
+/**
+ * Get default model for each provider
+ */
+export function getDefaultModel(provider: ProviderType): string {
+  switch (provider) {
+    case 'openai':
+      return 'gpt-4o';
+    case 'anthropic':
+      return 'claude-3-5-sonnet-latest';
+    case 'ollama':
+      return 'llama3.1';
+    case 'lmstudio':
+      return 'local-model';
+    case 'together':
+      return 'meta-llama/Llama-3-70b-chat-hf';
+    case 'groq':
+      return 'llama-3.1-70b-versatile';
+    default:
+      return 'gpt-4o';
+  }
+}
+
 /**
  * Check if OPENAI_API_KEY is set (legacy function)
  */
@@ -70,6 +123,28 @@ export function getDbPath(repoPath: string): string {
   return path.join(repoPath, '.repo-wiki', 'index.db');
 }
 
+/**
+ * Delete an index database (and SQLite's side files) so that it is rebuilt from scratch
+ */
+export function removeIndex(dbPath: string): void {
+  for (const suffix of ['', '-journal', '-wal', '-shm']) {
+    fs.rmSync(`${dbPath}${suffix}`, { force: true });
+  }
+}
+
+/**
+ * Explain how to rebuild an index that cannot be opened (created by a newer version, or failed to migrate)
+ */
+export function printRebuildHint(error: unknown, repoPath: string): void {
+  if (!(error instanceof IndexSchemaError)) {
+    return;
+  }
+  const repoFlag = repoPath === process.cwd() ? '' : ` --repo ${repoPath}`;
+  console.error('');
+  console.error('Rebuild the index from scratch (this deletes the existing index):');
+  console.error(chalk.cyan(`  repowiki index --rebuild${repoFlag}`));
+}
+
 /**
  * Ensure a directory exists, creating it if necessary
  */
@@ -120,6 +195,41 @@ export function formatTime(ms: number): string {
   return `${seconds}s`;
 }
 
+/**
+ * Format a duration in the past, e.g. "5 minutes ago"
+ */
+export function formatAge(ms: number): string {
+  const units: Array<[string, number]> = [
+    ['day', 86_400_000],
+    ['hour', 3_600_000],
+    ['minute', 60_000],
+  ];
+  for (const [unit, size] of units) {
+    const count = Math.floor(ms / size);
+    if (count >= 1) {
+      return `${count} ${unit}${count === 1 ? '' : 's'} ago`;
+    }
+  }
+  return 'just now';
+}
+
+/**
+ * Format a byte count, e.g. "1.5 MB"
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+}
+
 /**
  * Print a boxed header
  */
@@ -0,0 +1,84 @@
+/**
+ * Project Configuration Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { loadConfig, findConfigFile } from '../config/index.js';
+import * as path from 'node:path';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+
+describe('loadConfig', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'repo-wiki-config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should return an empty config when no file exists', async () => {
+    const result = await loadConfig(testDir);
+
+    expect(result.config).toEqual({});
+    expect(result.configPath).toBeUndefined();
+  });
+
+  it('should load and normalize repowiki.config.json', async () => {
+    fs.writeFileSync(
+      path.join(testDir, 'repowiki.config.json'),
+      JSON.stringify({
+        index: { includeExtensions: ['kt', '.Swift'], maxFileSize: 2048 },
+        provider: 'ollama',
+        model: 'llama3.1',
+        maxSteps: 12,
+        wiki: { outDir: 'docs/wiki' },
+      })
+    );
+
+    const { config, configPath } = await loadConfig(testDir);
+
+    expect(configPath).toBe(path.join(testDir, 'repowiki.config.json'));
+    expect(config.index?.includeExtensions).toEqual(['.kt', '.swift']);
+    expect(config.index?.maxFileSize).toBe(2048);
+    expect(config.provider).toBe('ollama');
+    expect(config.maxSteps).toBe(12);
+    expect(config.wiki?.outDir).toBe('docs/wiki');
+  });
+
+  it('should load an ES module config', async () => {
+    fs.writeFileSync(
+      path.join(testDir, 'repowiki.config.mjs'),
+      `export default { model: 'gpt-4o-mini', maxToolOutputChars: 4000 };\n`
+    );
+
+    const { config } = await loadConfig(testDir);
+
+    expect(config.model).toBe('gpt-4o-mini');
+    expect(config.maxToolOutputChars).toBe(4000);
+  });
+
+  it('should prefer JSON over other formats', () => {
+    fs.writeFileSync(path.join(testDir, 'repowiki.config.mjs'), 'export default {};\n');
+    fs.writeFileSync(path.join(testDir, 'repowiki.config.json'), '{}');
+
+    expect(findConfigFile(testDir)).toBe(path.join(testDir, 'repowiki.config.json'));
+  });
+
+  it('should reject unknown keys and invalid values', async () => {
+    fs.writeFileSync(
+      path.join(testDir, 'repowiki.config.json'),
+      JSON.stringify({ provider: 'nope', maxStep: 3 })
+    );
+
+    await expect(loadConfig(testDir)).rejects.toThrow(/Invalid config in repowiki.config.json/);
+  });
+
+  it('should report malformed JSON', async () => {
+    fs.writeFileSync(path.join(testDir, 'repowiki.config.json'), '{ "model": ');
+
+    await expect(loadConfig(testDir)).rejects.toThrow(/Failed to parse repowiki.config.json/);
+  });
+});
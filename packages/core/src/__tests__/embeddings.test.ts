@@ -0,0 +1,134 @@
+/**
+ * Embeddings Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { LocalEmbeddingProvider } from '../embeddings/local-embedding-provider.js';
+import { blobToVector, cosineSimilarity, vectorToBlob } from '../embeddings/vector.js';
+import { createEmbeddingProvider } from '../embeddings/index.js';
+import { Indexer } from '../indexer/index.js';
+import { createToolRegistry } from '../tools/registry.js';
+import type { EmbeddingProvider } from '../embeddings/types.js';
+import type { ChunkSearchResult } from '../tools/types.js';
+import * as path from 'node:path';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+
+function writeRepoFile(root: string, relativePath: string, content: string): void {
+  const fullPath = path.join(root, relativePath);
+  fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+  fs.writeFileSync(fullPath, content);
+}
+
+describe('LocalEmbeddingProvider', () => {
+  it('should produce deterministic unit vectors', async () => {
+    const provider = new LocalEmbeddingProvider({ dimensions: 64 });
+    const [a, b] = await provider.embed(['parse the config file', 'parse the config file']);
+
+    expect(a).toHaveLength(64);
+    expect(Array.from(a!)).toEqual(Array.from(b!));
+    expect(cosineSimilarity(a!, b!)).toBeCloseTo(1, 5);
+  });
+
+  it('should rank related text above unrelated text', async () => {
+    const provider = new LocalEmbeddingProvider();
+    const [query, related, unrelated] = await provider.embed([
+      'retry payment',
+      'function retryPayment(invoice) { return charge(invoice); }',
+      'render the sidebar navigation menu',
+    ]);
+
+    expect(cosineSimilarity(query!, related!)).toBeGreaterThan(cosineSimilarity(query!, unrelated!));
+  });
+
+  it('should round-trip vectors through SQLite blobs', () => {
+    const vector = Float32Array.from([0.5, -1, 2.25]);
+    const copy = blobToVector(Buffer.concat([Buffer.alloc(1), vectorToBlob(vector)]).subarray(1));
+
+    expect(Array.from(copy)).toEqual([0.5, -1, 2.25]);
+  });
+
+  it('should require a base URL for openai-compatible embeddings', () => {
+    expect(() => createEmbeddingProvider({ provider: 'openai-compatible' })).toThrow(/baseUrl/);
+  });
+});
+
+describe('Indexer semantic search', () => {
+  let testDir: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'repo-wiki-embeddings-'));
+    dbPath = path.join(testDir, '.repo-wiki', 'index.db');
+    writeRepoFile(testDir, 'src/billing.ts', 'export function retryFailedPayment(invoice: Invoice) {\n  return charge(invoice);\n}\n');
+    writeRepoFile(testDir, 'src/sidebar.ts', 'export function renderSidebarMenu(items: MenuItem[]) {\n  return items;\n}\n');
+    writeRepoFile(testDir, 'docs/auth.md', '# Authentication\n\nUsers sign in with a session token.\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should embed chunks and find them by similarity', async () => {
+    const indexer = new Indexer({ repoPath: testDir, dbPath, embeddings: new LocalEmbeddingProvider() });
+    const result = await indexer.indexRepository();
+
+    expect(result.embedded).toBe(3);
+
+    const hits = await indexer.semanticSearch('failed payment retry', 3);
+    expect(hits[0]?.path).toBe(path.join('src', 'billing.ts'));
+    expect(hits[0]!.score).toBeGreaterThan(hits[1]!.score);
+    indexer.close();
+  });
+
+  it('should only embed new or changed chunks on re-index', async () => {
+    const calls: number[] = [];
+    const local = new LocalEmbeddingProvider();
+    const counting: EmbeddingProvider = {
+      name: 'counting',
+      model: local.model,
+      embed: async (texts) => {
+        calls.push(texts.length);
+        return local.embed(texts);
+      },
+    };
+
+    const indexer = new Indexer({ repoPath: testDir, dbPath, embeddings: counting });
+    await indexer.indexRepository();
+    writeRepoFile(testDir, 'src/sidebar.ts', 'export function renderSidebar() {}\n');
+    const second = await indexer.indexRepository();
+    indexer.close();
+
+    expect(calls).toEqual([3, 1]);
+    expect(second.embedded).toBe(1);
+  });
+
+  it('should expose semantic mode through search_chunks', async () => {
+    const indexer = new Indexer({ repoPath: testDir, dbPath, embeddings: new LocalEmbeddingProvider() });
+    await indexer.indexRepository();
+
+    const result = await createToolRegistry(testDir, indexer).executeToolCall('search_chunks', {
+      query: 'session token sign in',
+      mode: 'semantic',
+      topK: 1,
+    });
+    indexer.close();
+
+    expect(result.success).toBe(true);
+    expect((result.data as ChunkSearchResult[])[0]?.path).toBe(path.join('docs', 'auth.md'));
+  });
+
+  it('should report semantic mode as unavailable without a provider', async () => {
+    const indexer = new Indexer({ repoPath: testDir, dbPath });
+    await indexer.indexRepository();
+
+    const result = await createToolRegistry(testDir, indexer).executeToolCall('search_chunks', {
+      query: 'payments',
+      mode: 'semantic',
+    });
+    indexer.close();
+
+    expect(result.success).toBe(false);
+    expect(result.outputSummary).toMatch(/not configured/);
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * Git History Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { isGitRepository, parseUnifiedDiff, readGitBlame, readGitLog, resolveCommit } from '../git/index.js';
+import { Indexer } from '../indexer/index.js';
+import { createToolRegistry } from '../tools/registry.js';
+import type { GitCommit } from '../git/types.js';
+import { execFileSync } from 'node:child_process';
+import * as path from 'node:path';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+
+/**
+ * Commit the given files with a fixed author and date
+ */
+function commit(repo: string, files: Record<string, string>, message: string, date: string, author = 'Alice'): string {
+  for (const [file, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(repo, file)), { recursive: true });
+    fs.writeFileSync(path.join(repo, file), content);
+  }
+  const env = {
+    ...process.env,
+    GIT_AUTHOR_NAME: author,
+    GIT_AUTHOR_EMAIL: `${author.toLowerCase()}@example.com`,
+    GIT_AUTHOR_DATE: date,
+    GIT_COMMITTER_NAME: author,
+    GIT_COMMITTER_EMAIL: `${author.toLowerCase()}@example.com`,
+    GIT_COMMITTER_DATE: date,
+  };
+  execFileSync('git', ['add', '-A'], { cwd: repo, env });
+  execFileSync('git', ['-c', 'commit.gpgsign=false', 'commit', '-q', '-m', message], { cwd: repo, env });
+  return execFileSync('git', ['rev-parse', 'HEAD'], { cwd: repo, encoding: 'utf-8' }).trim();
+}
+
+describe('git history', () => {
+  let testDir: string;
+  let first: string;
+  let second: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'repo-wiki-git-'));
+    execFileSync('git', ['init', '-q'], { cwd: testDir });
+    first = commit(
+      testDir,
+      { 'src/verifier.ts': 'line 1\nline 2\nline 3\n', 'README.md': '# Demo\n' },
+      'Add verifier',
+      '2024-01-10T10:00:00Z'
+    );
+    second = commit(
+      testDir,
+      { 'src/verifier.ts': 'line 1\nchanged 2\nline 3\nline 4\n' },
+      'Check line ranges\n\nSources past the end of the file were accepted.',
+      '2024-02-20T10:00:00Z',
+      'Bob'
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should read commits with messages and file stats', () => {
+    const commits = readGitLog(testDir);
+
+    expect(commits.map((c: GitCommit) => c.subject)).toEqual(['Check line ranges', 'Add verifier']);
+    expect(commits[0]).toMatchObject({
+      sha: second,
+      shortSha: second.slice(0, commits[0]!.shortSha.length),
+      author: 'Bob',
+      email: 'bob@example.com',
+      body: 'Sources past the end of the file were accepted.',
+      files: [{ path: 'src/verifier.ts', additions: 2, deletions: 1 }],
+    });
+    expect(commits[0]?.date.startsWith('2024-02-20')).toBe(true);
+    expect(commits[1]?.files?.map((file) => file.path)).toEqual(['README.md', 'src/verifier.ts']);
+  });
+
+  it('should filter by path, range and limit', () => {
+    expect(readGitLog(testDir, { path: 'README.md' }).map((c) => c.sha)).toEqual([first]);
+    expect(readGitLog(testDir, { range: `${first}..HEAD` }).map((c) => c.sha)).toEqual([second]);
+    const latest = readGitLog(testDir, { limit: 1, stats: false });
+    expect(latest.map((c) => c.sha)).toEqual([second]);
+    expect(latest[0]?.files).toBeUndefined();
+    expect(() => readGitLog(testDir, { range: '--output=/tmp/x' })).toThrow('Invalid revision');
+  });
+
+  it('should group blamed lines into hunks by commit', () => {
+    const hunks = readGitBlame(testDir, 'src/verifier.ts');
+
+    expect(hunks.map((h) => [h.sha, h.author, h.startLine, h.endLine])).toEqual([
+      [first, 'Alice', 1, 1],
+      [second, 'Bob', 2, 2],
+      [first, 'Alice', 3, 3],
+      [second, 'Bob', 4, 4],
+    ]);
+    expect(hunks[1]).toMatchObject({ summary: 'Check line ranges', lines: ['changed 2'] });
+    expect(hunks[1]?.date.startsWith('2024-02-20')).toBe(true);
+
+    const range = readGitBlame(testDir, 'src/verifier.ts', { startLine: 2, endLine: 3, rev: first });
+    expect(range.map((h) => [h.sha, h.startLine, h.endLine, h.lines])).toEqual([[first, 2, 3, ['line 2', 'line 3']]]);
+  });
+
+  it('should resolve known commits only', () => {
+    expect(isGitRepository(testDir)).toBe(true);
+    expect(resolveCommit(testDir, first.slice(0, 7))).toBe(first);
+    expect(resolveCommit(testDir, 'deadbeef')).toBeUndefined();
+    expect(resolveCommit(testDir, 'HEAD')).toBeUndefined();
+  });
+
+  it('should expose history through the git_log and git_blame tools', async () => {
+    const registry = createToolRegistry(testDir);
+
+    const log = await registry.executeToolCall('git_log', { path: 'src/verifier.ts' });
+    const blame = await registry.executeToolCall('git_blame', { path: 'src/verifier.ts', startLine: 2, endLine: 4 });
+    const outside = await registry.executeToolCall('git_blame', { path: '../other.ts' });
+
+    expect(log.success).toBe(true);
+    expect(log.outputSummary).toContain('Found 2 commits touching src/verifier.ts:');
+    expect(log.outputSummary).toContain(`${second.slice(0, 7)} 2024-02-20 Bob <bob@example.com>\n  Check line ranges`);
+    expect(log.outputSummary).toContain('  Sources past the end of the file were accepted.');
+    expect(log.outputSummary).toContain('    +2 -1 src/verifier.ts');
+
+    expect(blame.success).toBe(true);
+    expect(blame.outputSummary).toContain('Blame of src/verifier.ts:2-4 (2 commits):');
+    expect(blame.outputSummary).toContain(`2: ${second.slice(0, 7)} 2024-02-20 Bob "Check line ranges"\n  2 | changed 2`);
+    expect(blame.outputSummary).toContain(`3: ${first.slice(0, 7)} 2024-01-10 Alice "Add verifier"`);
+
+    expect(outside.success).toBe(false);
+  });
+
+  it('should compact tool output to the output budget', async () => {
+    for (let i = 0; i < 30; i++) {
+      const day = String((i % 28) + 1).padStart(2, '0');
+      commit(testDir, { [`src/file${i}.ts`]: `export const n = ${i};\n` }, `Add file ${i}`, `2024-03-${day}T10:00:00Z`);
+    }
+    const registry = createToolRegistry(testDir);
+    registry.updateContext({ maxOutputChars: 600 });
+
+    const log = await registry.executeToolCall('git_log', { limit: 30 });
+
+    expect(log.success).toBe(true);
+    expect(log.outputSummary.length).toBeLessThanOrEqual(600);
+    expect(log.outputSummary).toContain('more commits not shown');
+    expect(log.outputSummary).toMatch(/^[0-9a-f]{7,} 2024-03-\d\d Alice: Add file 29$/m);
+    expect((log.data as GitCommit[]).length).toBe(30);
+  });
+});
+
+describe('parseUnifiedDiff', () => {
+  it('should split a patch into per-file hunks with new-file line ranges', () => {
+    const patch = [
+      'diff --git a/src/loop.ts b/src/loop.ts',
+      'index 1111111..2222222 100644',
+      '--- a/src/loop.ts',
+      '+++ b/src/loop.ts',
+      '@@ -10,3 +10,4 @@ export function runAgent() {',
+      '   const step = next();',
+      "-  if (call.name === 'final_answer') {",
+      "+  if (content.startsWith('DONE')) {",
+      '+    return finish();',
+      '   }',
+      '@@ -40 +41,0 @@',
+      '-// legacy',
+      'diff --git a/old.md b/old.md',
+      'deleted file mode 100644',
+      '--- a/old.md',
+      '+++ /dev/null',
+      '@@ -1,2 +0,0 @@',
+      '-# Old',
+      '--- notes',
+      'diff --git a/logo.png b/logo.png',
+      'Binary files a/logo.png and b/logo.png differ',
+    ].join('\n');
+
+    const hunks = parseUnifiedDiff(patch);
+
+    expect(hunks.map((h) => [h.path, h.startLine, h.endLine])).toEqual([
+      ['src/loop.ts', 10, 13],
+      ['src/loop.ts', 41, 41],
+      ['old.md', 1, 1],
+    ]);
+    expect(hunks[0]?.content).toContain("+  if (content.startsWith('DONE')) {");
+    expect(hunks[2]?.content).toBe('@@ -1,2 +0,0 @@\n-# Old\n--- notes');
+  });
+});
+
+describe('history index', () => {
+  let testDir: string;
+  let dbPath: string;
+  let switched: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'repo-wiki-history-'));
+    dbPath = path.join(testDir, '.repo-wiki', 'index.db');
+    fs.writeFileSync(path.join(testDir, '.gitignore'), '.repo-wiki/\n');
+    execFileSync('git', ['init', '-q'], { cwd: testDir });
+    commit(
+      testDir,
+      { 'src/loop.ts': "if (call.name === 'final_answer') {\n  return finish();\n}\n" },
+      'Add agent loop',
+      '2024-01-10T10:00:00Z'
+    );
+    switched = commit(
+      testDir,
+      {
+        'src/loop.ts': "if (content.startsWith('DONE')) {\n  return finish();\n}\n",
+        'package-lock.json': '{"final_answer": true}\n',
+      },
+      'Replace the answer tool with a text protocol',
+      '2024-02-20T10:00:00Z',
+      'Bob'
+    );
+    commit(testDir, { 'docs/guide.md': '# Guide\n' }, 'Document the DONE protocol', '2024-03-01T10:00:00Z');
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should index commit messages and diffs incrementally', async () => {
+    const indexer = new Indexer({ repoPath: testDir, dbPath, history: true });
+    const first = await indexer.indexRepository();
+    const second = await indexer.indexRepository();
+
+    const removed = indexer.searchHistory('final_answer');
+    const byMessage = indexer.searchHistory('protocol');
+    const lockfile = indexer.searchHistory('final_answer', { pathPrefix: 'package-lock.json' });
+    indexer.close();
+
+    expect(first.commits).toBe(3);
+    expect(second.commits).toBe(0);
+    expect(removed.map((c) => c.subject)).toEqual(['Replace the answer tool with a text protocol', 'Add agent loop']);
+    expect(removed[0]).toMatchObject({ sha: switched, author: 'Bob', messageMatch: true });
+    expect(removed[1]?.messageMatch).toBe(false);
+    expect(removed[0]?.hunks).toEqual([
+      expect.objectContaining({ path: path.join('src', 'loop.ts'), startLine: 1, endLine: 3 }),
+    ]);
+    expect(removed[0]?.hunks[0]?.content).toContain("-if (call.name === 'final_answer') {");
+    expect(byMessage.map((c) => c.subject)).toEqual([
+      'Document the DONE protocol',
+      'Replace the answer tool with a text protocol',
+    ]);
+    expect(byMessage.every((c) => c.messageMatch)).toBe(true);
+    expect(lockfile).toEqual([]);
+  });
+
+  it('should filter by path and author and keep only the newest commits', async () => {
+    const indexer = new Indexer({ repoPath: testDir, dbPath, history: true });
+    await indexer.indexRepository();
+
+    expect(indexer.searchHistory('done', { pathPrefix: 'docs' }).map((c) => c.subject)).toEqual([
+      'Document the DONE protocol',
+    ]);
+    expect(indexer.searchHistory('final_answer', { author: 'ALICE' }).map((c) => c.subject)).toEqual([
+      'Add agent loop',
+    ]);
+    indexer.close();
+
+    const limited = new Indexer({ repoPath: testDir, dbPath, history: { maxCommits: 1 } });
+    await limited.indexRepository();
+    expect(limited.searchHistory('final_answer')).toEqual([]);
+    expect(limited.hasHistory()).toBe(true);
+    limited.close();
+  });
+
+  it('should search history through the search_history tool', async () => {
+    const indexer = new Indexer({ repoPath: testDir, dbPath });
+    await indexer.indexRepository();
+    const registry = createToolRegistry(testDir, indexer);
+
+    const missing = await registry.executeToolCall('search_history', { query: 'final_answer' });
+    const historyIndexer = new Indexer({ repoPath: testDir, dbPath, history: true });
+    await historyIndexer.indexRepository();
+    historyIndexer.close();
+    const result = await registry.executeToolCall('search_history', { query: 'final_answer' });
+    indexer.close();
+
+    expect(missing.outputSummary).toContain("Run 'repo-wiki index --history' first");
+    expect(result.success).toBe(true);
+    expect(result.outputSummary).toContain('Found 2 commits matching "final_answer":');
+    expect(result.outputSummary).toContain(
+      `${switched.slice(0, 7)} 2024-02-20 Bob <bob@example.com>\n  Replace the answer tool with a text protocol`
+    );
+    expect(result.outputSummary).toContain(`    ${path.join('src', 'loop.ts')}:1-3\n      @@ -1,3 +1,3 @@`);
+    expect(result.outputSummary).toContain("      -if (call.name === 'final_answer') {");
+  });
+});
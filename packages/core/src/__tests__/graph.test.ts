@@ -0,0 +1,504 @@
+/**
+ * Code Graph Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { extractCalls, extractHeritage, extractImports, extractScriptCalls, ImportResolver } from '../graph/index.js';
+import { extractOccurrences, extractSymbols } from '../symbols/index.js';
+import { Indexer } from '../indexer/index.js';
+import { createToolRegistry } from '../tools/registry.js';
+import type { GraphNeighbor } from '../graph/types.js';
+import * as path from 'node:path';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+
+/** `relation id depth` for compact assertions, with POSIX paths */
+function describeNeighbors(neighbors: GraphNeighbor[]): string[] {
+  return neighbors.map((n) => `${n.relation} ${n.node.id.split(path.sep).join('/')} ${n.depth}`);
+}
+
+function writeFiles(root: string, files: Record<string, string>): void {
+  for (const [file, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+    fs.writeFileSync(path.join(root, file), content);
+  }
+}
+
+describe('extractImports', () => {
+  it('should extract TypeScript import, export-from, require and dynamic imports', () => {
+    const source = [
+      "import { z } from 'zod';",
+      "import type {",
+      "  Config,",
+      "} from './config.js';",
+      "import './polyfill';",
+      "export * from './tools/index.js';",
+      "const fs = require('node:fs');",
+      "const lazy = await import('./lazy.js');",
+      "import { z as zod } from 'zod';",
+    ].join('\n');
+
+    expect(extractImports(source, 'typescript')).toEqual([
+      { specifier: 'zod', line: 1, bindings: [{ local: 'z', imported: 'z' }, { local: 'zod', imported: 'z' }] },
+      { specifier: './config.js', line: 2, bindings: [{ local: 'Config', imported: 'Config' }] },
+      { specifier: './polyfill', line: 5, bindings: [] },
+      { specifier: './tools/index.js', line: 6, bindings: [] },
+      { specifier: 'node:fs', line: 7, bindings: [{ local: 'fs', imported: '*' }] },
+      { specifier: './lazy.js', line: 8, bindings: [] },
+    ]);
+  });
+
+  it('should extract default, namespace and destructured bindings', () => {
+    const source = [
+      "import Database, * as sqlite from 'better-sqlite3';",
+      "const { readFileSync, join: joinPath } = require('node:path');",
+    ].join('\n');
+
+    expect(extractImports(source, 'javascript').map((i) => i.bindings)).toEqual([
+      [
+        { local: 'Database', imported: 'default' },
+        { local: 'sqlite', imported: '*' },
+      ],
+      [
+        { local: 'readFileSync', imported: 'readFileSync' },
+        { local: 'joinPath', imported: 'join' },
+      ],
+    ]);
+    expect(extractImports('from .models import (\n    User,\n    Team as Group,\n)\n', 'python')[0]?.bindings).toEqual([
+      { local: 'User', imported: 'User' },
+      { local: 'Group', imported: 'Team' },
+    ]);
+  });
+
+  it('should extract Python, Go and Java imports', () => {
+    expect(extractImports('import os.path\nfrom ..utils import helper\n', 'python').map((i) => i.specifier)).toEqual([
+      'os.path',
+      '..utils',
+    ]);
+    expect(extractImports('import (\n\t"fmt"\n\tlog "example.com/app/log"\n)\n', 'go').map((i) => i.specifier)).toEqual([
+      'fmt',
+      'example.com/app/log',
+    ]);
+    expect(extractImports('import java.util.List;\nimport static com.x.Util.run;\n', 'java').map((i) => i.specifier)).toEqual([
+      'java.util.List',
+      'com.x.Util.run',
+    ]);
+  });
+});
+
+describe('extractCalls', () => {
+  it('should attribute calls to the innermost enclosing function', () => {
+    const source = [
+      'export function outer() {', // 1
+      '  const inner = () => helper();', // 2
+      '  helper();', // 3
+      '  return new Parser().parse(inner());', // 4
+      '}', // 5
+      'class Parser {', // 6
+      '  parse(value) {', // 7
+      '    return this.parse(value);', // 8
+      '  }', // 9
+      '}', // 10
+      'outer();', // 11
+    ].join('\n');
+    const symbols = extractSymbols(source, 'typescript');
+    const calls = extractCalls(symbols, extractOccurrences(source, 'typescript', symbols));
+
+    expect(calls.map((c) => `${c.caller.container ? `${c.caller.container}.` : ''}${c.caller.name} -> ${c.callee} ${c.line}`)).toEqual([
+      'outer -> helper 2',
+      'outer -> Parser 4',
+      'outer -> parse 4',
+      'outer -> inner 4',
+      'Parser.parse -> parse 8',
+    ]);
+  });
+});
+
+describe('extractScriptCalls', () => {
+  const callsOf = (source: string) =>
+    extractScriptCalls('src/tools.ts', source, extractSymbols(source, 'typescript')).map(
+      (c) =>
+        `${c.caller.container ? `${c.caller.container}.` : ''}${c.caller.name} -> ` +
+        `${c.receiver ? `${c.receiver}.` : ''}${c.callee} ${c.line}`
+    );
+
+  it('should tie member calls to the receiver class', () => {
+    const source = [
+      "import * as paths from 'node:path';", // 1
+      'export class Runner {', // 2
+      '  private queue = new Queue();', // 3
+      '  constructor(private readonly logger: Logger) {}', // 4
+      '  run(items: Item[], cache: Cache) {', // 5
+      '    this.check();', // 6
+      '    this.queue.push(paths.join("a", "b"));', // 7
+      '    const parser = new Parser();', // 8
+      '    items.forEach((item) => parser.parse(item));', // 9
+      '    this.logger.info(cache.get());', // 10
+      '    return Runner.create();', // 11
+      '  }', // 12
+      '}', // 13
+    ].join('\n');
+
+    expect(callsOf(source)).toEqual([
+      'Runner.run -> Runner.check 6',
+      'Runner.run -> Queue.push 7',
+      'Runner.run -> paths.join 7',
+      'Runner.run -> Parser 8',
+      'Runner.run -> Parser.parse 9',
+      'Runner.run -> Logger.info 10',
+      'Runner.run -> Cache.get 10',
+      'Runner.run -> Runner.create 11',
+    ]);
+  });
+
+  it('should skip unknown receivers, strings and comments', () => {
+    const source = [
+      'export function render(registry) {', // 1
+      '  // helper() is not called here', // 2
+      "  const label = 'helper()';", // 3
+      '  const view = `${format(label)} helper()`;', // 4
+      '  registry.execute();', // 5
+      '  return load().then(show);', // 6
+      '}', // 7
+    ].join('\n');
+
+    expect(callsOf(source)).toEqual(['render -> format 4', 'render -> load 6']);
+  });
+});
+
+describe('extractHeritage', () => {
+  const heritageOf = (source: string, language: string) =>
+    extractHeritage(source, language, extractSymbols(source, language)).map(
+      (h) => `${h.type.name} ${h.relation} ${h.supertype}`
+    );
+
+  it('should read extends and implements clauses of TypeScript and Java types', () => {
+    const typescript = [
+      'export class OpenAIProvider<T extends object = {}>',
+      '  extends BaseProvider<Map<string, T>>',
+      '  implements LlmProvider, Disposable {',
+      '}',
+      'interface Streaming extends LlmProvider, events.Emitter {}',
+      'class Mixed extends mixin(A, B) {}',
+    ].join('\n');
+    const java = 'public final class Server extends Base implements Runnable, java.io.Closeable {\n}\n';
+
+    expect(heritageOf(typescript, 'typescript')).toEqual([
+      'OpenAIProvider extends BaseProvider',
+      'OpenAIProvider implements LlmProvider',
+      'OpenAIProvider implements Disposable',
+      'Streaming extends LlmProvider',
+      'Streaming extends events.Emitter',
+    ]);
+    expect(heritageOf(java, 'java')).toEqual([
+      'Server extends Base',
+      'Server implements Runnable',
+      'Server implements java.io.Closeable',
+    ]);
+  });
+
+  it('should read Python bases, Rust supertraits and impl blocks', () => {
+    const python = 'class Repo(Base, Generic[T], metaclass=ABCMeta):\n    pass\n';
+    const rust = 'pub trait Provider: Send + Sync + fmt::Debug {}\npub struct Client;\nimpl<T> Provider for Client {}\nimpl Client {}\n';
+
+    expect(heritageOf(python, 'python')).toEqual(['Repo extends Base']);
+    expect(heritageOf(rust, 'rust')).toEqual([
+      'Provider extends Send',
+      'Provider extends Sync',
+      'Provider extends fmt::Debug',
+      'Client implements Provider',
+    ]);
+  });
+});
+
+describe('ImportResolver', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'repo-wiki-resolve-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  const p = (file: string) => file.split('/').join(path.sep);
+
+  it('should resolve extensions, index files and ESM .js specifiers', () => {
+    const resolver = new ImportResolver(testDir, [p('src/a.ts'), p('src/tools/index.ts'), p('src/view.tsx'), p('src/b.js')]);
+
+    expect(resolver.resolve(p('src/main.ts'), './a.js', 'typescript')).toBe(p('src/a.ts'));
+    expect(resolver.resolve(p('src/main.ts'), './a', 'typescript')).toBe(p('src/a.ts'));
+    expect(resolver.resolve(p('src/main.ts'), './tools', 'typescript')).toBe(p('src/tools/index.ts'));
+    expect(resolver.resolve(p('src/main.ts'), './view.js', 'typescript')).toBe(p('src/view.tsx'));
+    expect(resolver.resolve(p('src/main.ts'), './b.js', 'javascript')).toBe(p('src/b.js'));
+    expect(resolver.resolve(p('src/main.ts'), './styles.css', 'typescript')).toBe(p('src/styles.css'));
+    expect(resolver.resolve(p('src/main.ts'), '@scope/pkg/sub', 'typescript')).toBe('@scope/pkg');
+    expect(resolver.resolve(p('src/main.ts'), 'lodash/fp', 'typescript')).toBe('lodash');
+    expect(resolver.resolve(p('src/main.ts'), 'node:fs', 'typescript')).toBe('node:fs');
+  });
+
+  it('should resolve tsconfig paths and baseUrl through extends', () => {
+    writeFiles(testDir, {
+      'tsconfig.base.json': '{\n  // shared\n  "compilerOptions": { "baseUrl": ".", "paths": { "@app/*": ["packages/app/src/*"] } },\n}\n',
+      'packages/web/tsconfig.json': '{ "extends": "../../tsconfig.base.json" }',
+    });
+    const resolver = new ImportResolver(testDir, [p('packages/app/src/util/index.ts'), p('shared/log.ts')]);
+
+    expect(resolver.resolve(p('packages/web/src/main.ts'), '@app/util', 'typescript')).toBe(
+      p('packages/app/src/util/index.ts')
+    );
+    expect(resolver.resolve(p('packages/web/src/main.ts'), 'shared/log', 'typescript')).toBe(p('shared/log.ts'));
+    expect(resolver.resolve(p('packages/web/src/main.ts'), 'react', 'typescript')).toBe('react');
+  });
+
+  it('should resolve Python, Rust and Java modules', () => {
+    writeFiles(testDir, { 'Cargo.toml': '[package]\nname = "app"\n' });
+    const resolver = new ImportResolver(testDir, [
+      p('pkg/utils.py'),
+      p('pkg/core/__init__.py'),
+      p('src/lib.rs'),
+      p('src/net/mod.rs'),
+      p('src/net/client.rs'),
+      p('src/main/java/com/x/Util.java'),
+    ]);
+
+    expect(resolver.resolve(p('pkg/core/run.py'), '..utils', 'python')).toBe(p('pkg/utils.py'));
+    expect(resolver.resolve(p('app.py'), 'pkg.core', 'python')).toBe(p('pkg/core/__init__.py'));
+    expect(resolver.resolve(p('app.py'), 'os.path', 'python')).toBe('os');
+    expect(resolver.resolve(p('src/lib.rs'), 'crate::net::client::Client', 'rust')).toBe(p('src/net/client.rs'));
+    expect(resolver.resolve(p('src/net/client.rs'), 'super::Config', 'rust')).toBe(p('src/net/mod.rs'));
+    expect(resolver.resolve(p('src/lib.rs'), 'serde::Deserialize', 'rust')).toBe('serde');
+    expect(resolver.resolve(p('A.java'), 'com.x.Util.run', 'java')).toBe(p('src/main/java/com/x/Util.java'));
+  });
+});
+
+describe('Indexer graph', () => {
+  let testDir: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'repo-wiki-graph-'));
+    dbPath = path.join(testDir, '.repo-wiki', 'index.db');
+    writeFiles(testDir, {
+      'src/index.ts': "export { runAgent } from './agent/loop.js';\n",
+      'src/agent/loop.ts': "import { z } from 'zod';\nimport { ToolRegistry } from '../tools';\n\nexport function runAgent() {}\n",
+      'src/tools/index.ts': "import { z } from 'zod';\nexport class ToolRegistry {}\n",
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should report imports, exports and reverse edges', async () => {
+    const indexer = new Indexer({ repoPath: testDir, dbPath });
+    await indexer.indexRepository();
+
+    const neighbors = indexer.graphNeighbors('src/agent/loop.ts');
+    indexer.close();
+
+    expect(describeNeighbors(neighbors)).toEqual([
+      'exports src/agent/loop.ts#runAgent 1',
+      'imports src/tools/index.ts 1',
+      'imports zod 1',
+      'importedBy src/index.ts 1',
+    ]);
+    expect(neighbors[0]?.node).toMatchObject({ type: 'function', name: 'runAgent', kind: 'function' });
+    expect(neighbors[2]?.node.type).toBe('module');
+  });
+
+  it('should traverse up to depth in the requested direction', async () => {
+    const indexer = new Indexer({ repoPath: testDir, dbPath });
+    await indexer.indexRepository();
+
+    const outgoing = indexer.graphNeighbors('./src/index.ts', { depth: 2, direction: 'outgoing', relations: ['imports'] });
+    const incoming = indexer.graphNeighbors('src/tools/index.ts', { depth: 3, direction: 'incoming' });
+    const dependents = indexer.graphNeighbors('zod', { relations: ['imports'] });
+    indexer.close();
+
+    expect(describeNeighbors(outgoing)).toEqual([
+      'imports src/agent/loop.ts 1',
+      'imports src/tools/index.ts 2',
+      'imports zod 2',
+    ]);
+    expect(outgoing[1]?.via).toBe(path.join('src', 'agent', 'loop.ts'));
+    expect(describeNeighbors(incoming)).toEqual(['importedBy src/agent/loop.ts 1', 'importedBy src/index.ts 2']);
+    expect(describeNeighbors(dependents)).toEqual(['importedBy src/agent/loop.ts 1', 'importedBy src/tools/index.ts 1']);
+  });
+
+  it('should re-resolve imports when the imported file appears later', async () => {
+    writeFiles(testDir, { 'src/main.ts': "import { helper } from './helper.js';\n" });
+    const indexer = new Indexer({ repoPath: testDir, dbPath });
+    await indexer.indexRepository();
+    const before = indexer.graphNeighbors('src/main.ts');
+
+    writeFiles(testDir, { 'src/helper.ts': 'export function helper() {}\n' });
+    await indexer.indexRepository();
+    const after = indexer.graphNeighbors('src/main.ts');
+    indexer.close();
+
+    expect(before[0]?.node.type).toBe('module');
+    expect(after[0]?.node).toMatchObject({ id: path.join('src', 'helper.ts'), type: 'file' });
+  });
+
+  it('should re-resolve only the edges an update affects, matching a full run', async () => {
+    writeFiles(testDir, {
+      'src/main.ts': "import { helper } from './helper.js';\n\nexport function main() {\n  helper();\n  sharedUtil();\n}\n",
+      'src/app.ts': "import { helper } from './barrel.js';\n\nexport function start() {\n  helper();\n}\n",
+      'src/barrel.ts': "export * from './helper.js';\n",
+    });
+    const indexer = new Indexer({ repoPath: testDir, dbPath });
+    await indexer.indexRepository();
+    const snapshot = () =>
+      ['src/main.ts', 'src/main.ts#main', 'src/app.ts#start', 'src/agent/loop.ts'].map((id) =>
+        describeNeighbors(indexer.graphNeighbors(id, { direction: 'outgoing' }))
+      );
+
+    writeFiles(testDir, {
+      'src/helper.ts': 'export function helper() {}\n',
+      'src/util.ts': 'export function sharedUtil() {}\n',
+    });
+    await indexer.updatePaths(['src/helper.ts', 'src/util.ts']);
+    const added = snapshot();
+
+    // An edit re-resolves the edited file's importers, not the whole graph
+    const resolve = vi.spyOn(ImportResolver.prototype, 'resolve');
+    writeFiles(testDir, { 'src/helper.ts': 'export function helper() {\n  return 1;\n}\n' });
+    await indexer.updatePaths(['src/helper.ts']);
+    const resolvedFrom = new Set(resolve.mock.calls.map(([from]) => from.split(path.sep).join('/')));
+    resolve.mockRestore();
+
+    fs.rmSync(path.join(testDir, 'src', 'util.ts'));
+    await indexer.updatePaths(['src/util.ts']);
+    const removed = snapshot();
+    await indexer.indexRepository({ force: true });
+    const full = snapshot();
+    indexer.close();
+
+    expect(resolvedFrom).toEqual(new Set(['src/main.ts', 'src/app.ts', 'src/barrel.ts']));
+    expect(added[1]).toEqual(['calls src/helper.ts#helper 1', 'calls src/util.ts#sharedUtil 1']);
+    expect(added[2]).toEqual(['calls src/helper.ts#helper 1']);
+    expect(removed).toEqual(full);
+    expect(full[1]).toEqual(['calls src/helper.ts#helper 1']);
+  });
+
+  it('should link functions to the functions and methods they call', async () => {
+    writeFiles(testDir, {
+      'src/index.ts': "export { runAgent } from './agent/loop.js';\nexport * from './tools/index.js';\n",
+      'src/app.ts':
+        "import { runAgent, ToolRegistry } from './index.js';\n\nexport function main() {\n  const tools = new ToolRegistry();\n" +
+        "  runAgent();\n  tools.execute();\n  // Unknown receivers and names in comments or strings are not calls: step()\n" +
+        "  registry.validate();\n  return 'step()';\n}\n",
+      'src/agent/loop.ts':
+        "import { ToolRegistry } from '../tools';\n\nexport function runAgent() {\n  const registry = new ToolRegistry();\n" +
+        '  return step(registry);\n}\n\nfunction step(registry: ToolRegistry) {\n  return registry.execute();\n}\n',
+      'src/tools/index.ts': 'export class ToolRegistry {\n  execute() {\n    return this.validate();\n  }\n  validate() {}\n}\n',
+    });
+    const indexer = new Indexer({ repoPath: testDir, dbPath });
+    await indexer.indexRepository();
+
+    const callees = indexer.graphNeighbors('src/agent/loop.ts#runAgent', {
+      depth: 2,
+      direction: 'outgoing',
+      relations: ['calls'],
+    });
+    const throughBarrel = indexer.graphNeighbors('src/app.ts#main', { direction: 'outgoing' });
+    const callers = indexer.graphNeighbors('src/tools/index.ts#execute', { direction: 'incoming' });
+    const members = indexer.graphNeighbors('src/tools/index.ts#ToolRegistry.execute', { direction: 'outgoing' });
+    indexer.close();
+
+    expect(describeNeighbors(callees)).toEqual([
+      'calls src/agent/loop.ts#step 1',
+      'calls src/tools/index.ts#ToolRegistry 1',
+      'calls src/tools/index.ts#ToolRegistry.execute 2',
+    ]);
+    expect(callees[2]?.node).toMatchObject({ type: 'function', kind: 'method', name: 'ToolRegistry.execute' });
+    expect(describeNeighbors(throughBarrel)).toEqual([
+      'calls src/agent/loop.ts#runAgent 1',
+      'calls src/tools/index.ts#ToolRegistry 1',
+      'calls src/tools/index.ts#ToolRegistry.execute 1',
+    ]);
+    expect(describeNeighbors(callers)).toEqual([
+      'calledBy src/agent/loop.ts#step 1',
+      'calledBy src/app.ts#main 1',
+    ]);
+    expect(describeNeighbors(members)).toEqual(['calls src/tools/index.ts#ToolRegistry.validate 1']);
+  });
+
+  it('should record extends and implements edges across files', async () => {
+    writeFiles(testDir, {
+      'src/llm/types.ts': 'export interface LlmProvider {}\nexport interface StreamingProvider extends LlmProvider {}\n',
+      'src/llm/openai.ts':
+        "import type { LlmProvider } from './types.js';\nexport class OpenAIProvider implements LlmProvider {}\n",
+      'src/llm/compatible.ts':
+        "import { OpenAIProvider } from './openai.js';\nimport * as types from './types.js';\n" +
+        'export class CompatibleProvider extends OpenAIProvider implements types.StreamingProvider {}\n',
+    });
+    const indexer = new Indexer({ repoPath: testDir, dbPath });
+    await indexer.indexRepository();
+
+    const implementations = indexer.graphNeighbors('src/llm/types.ts#LlmProvider', { relations: ['implements'] });
+    const hierarchy = indexer.typeHierarchy('LlmProvider');
+    const supertypes = indexer.typeHierarchy('src/llm/compatible.ts#CompatibleProvider', { direction: 'supertypes' });
+    const missing = indexer.typeHierarchy('runAgent');
+    indexer.close();
+
+    expect(describeNeighbors(implementations)).toEqual(['implementedBy src/llm/openai.ts#OpenAIProvider 1']);
+    expect(hierarchy?.type).toMatchObject({ name: 'LlmProvider', kind: 'interface' });
+    expect(describeNeighbors(hierarchy?.subtypes ?? [])).toEqual([
+      'extendedBy src/llm/types.ts#StreamingProvider 1',
+      'implementedBy src/llm/openai.ts#OpenAIProvider 1',
+      'implementedBy src/llm/compatible.ts#CompatibleProvider 2',
+    ]);
+    expect(hierarchy?.supertypes).toEqual([]);
+    expect(describeNeighbors(supertypes?.supertypes ?? [])).toEqual([
+      'extends src/llm/openai.ts#OpenAIProvider 1',
+      'implements src/llm/types.ts#StreamingProvider 1',
+      'implements src/llm/types.ts#LlmProvider 2',
+    ]);
+    expect(supertypes?.subtypes).toEqual([]);
+    expect(missing).toBeNull();
+  });
+
+  it('should expose the hierarchy through the type_hierarchy tool', async () => {
+    writeFiles(testDir, {
+      'src/base.ts': 'export abstract class Base {}\n',
+      'src/child.ts': "import { Base } from './base.js';\nexport class Child extends Base {}\nexport class GrandChild extends Child {}\n",
+    });
+    const indexer = new Indexer({ repoPath: testDir, dbPath });
+    await indexer.indexRepository();
+    const registry = createToolRegistry(testDir, indexer);
+
+    const result = await registry.executeToolCall('type_hierarchy', { name: 'Base' });
+    const missing = await registry.executeToolCall('type_hierarchy', { name: 'Nope' });
+    indexer.close();
+
+    const child = `${path.join('src', 'child.ts')}#Child`;
+    expect(result.success).toBe(true);
+    expect(result.outputSummary).toContain(`Type hierarchy of ${path.join('src', 'base.ts')}#Base (class)`);
+    expect(result.outputSummary).toContain('Supertypes (0):\n  (none)');
+    expect(result.outputSummary).toContain(
+      `Subtypes (2):\n  - extendedBy ← ${child} (class)\n    - extendedBy ← ${path.join('src', 'child.ts')}#GrandChild (class)`
+    );
+    expect(missing.outputSummary).toContain('No class, interface or trait found for "Nope"');
+  });
+
+  it('should expose the graph through the graph_neighbors tool', async () => {
+    const indexer = new Indexer({ repoPath: testDir, dbPath });
+    await indexer.indexRepository();
+    const registry = createToolRegistry(testDir, indexer);
+
+    const result = await registry.executeToolCall('graph_neighbors', {
+      nodeId: 'src/tools/index.ts',
+      depth: 2,
+      relation: 'imports',
+    });
+    indexer.close();
+
+    expect(result.success).toBe(true);
+    const loop = path.join('src', 'agent', 'loop.ts');
+    expect(result.outputSummary).toContain(`importedBy ← ${loop} (file)`);
+    expect(result.outputSummary).toContain(`importedBy ← ${path.join('src', 'index.ts')} (file) [depth 2, via ${loop}]`);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Ignore Rules Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createIgnoreMatcher, walkRepository } from '../indexer/ignore.js';
+import { matchGlob } from '../indexer/glob.js';
+import { createToolRegistry } from '../tools/registry.js';
+import type { FileEntry } from '../tools/types.js';
+import * as path from 'node:path';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+
+function writeRepoFile(root: string, relativePath: string, content = ''): void {
+  const fullPath = path.join(root, relativePath);
+  fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+  fs.writeFileSync(fullPath, content);
+}
+
+describe('matchGlob', () => {
+  it('should match files at any depth with **/', () => {
+    expect(matchGlob('index.ts', '**/*.ts')).toBe(true);
+    expect(matchGlob('src/a/b.ts', '**/*.ts')).toBe(true);
+    expect(matchGlob('src/a/b.js', '**/*.ts')).toBe(false);
+  });
+
+  it('should keep * within a single segment', () => {
+    expect(matchGlob('src/index.ts', 'src/*.ts')).toBe(true);
+    expect(matchGlob('src/a/index.ts', 'src/*.ts')).toBe(false);
+  });
+
+  it('should support character classes', () => {
+    expect(matchGlob('file1.ts', 'file[0-9].ts')).toBe(true);
+    expect(matchGlob('filex.ts', 'file[!x].ts')).toBe(false);
+  });
+});
+
+describe('IgnoreMatcher', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'repo-wiki-ignore-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should apply built-in defaults', () => {
+    const matcher = createIgnoreMatcher(testDir);
+
+    expect(matcher.isIgnored('node_modules', true)).toBe(true);
+    expect(matcher.isIgnored('packages/core/node_modules/zod/index.js')).toBe(true);
+    expect(matcher.isIgnored('.git/config')).toBe(true);
+    expect(matcher.isIgnored('.github/workflows/ci.yml')).toBe(false);
+  });
+
+  it('should honor root .gitignore with negation and anchoring', () => {
+    writeRepoFile(testDir, '.gitignore', ['*.log', '!keep.log', '/build/', 'generated/**/*.ts'].join('\n'));
+    const matcher = createIgnoreMatcher(testDir);
+
+    expect(matcher.isIgnored('debug.log')).toBe(true);
+    expect(matcher.isIgnored('src/debug.log')).toBe(true);
+    expect(matcher.isIgnored('keep.log')).toBe(false);
+    expect(matcher.isIgnored('build/out.js')).toBe(true);
+    expect(matcher.isIgnored('src/build/out.js')).toBe(false);
+    expect(matcher.isIgnored('generated/api/client.ts')).toBe(true);
+  });
+
+  it('should only match directory patterns against directories', () => {
+    writeRepoFile(testDir, '.gitignore', 'vendor/\n');
+    const matcher = createIgnoreMatcher(testDir);
+
+    expect(matcher.isIgnored('vendor', true)).toBe(true);
+    expect(matcher.isIgnored('vendor/sdk/index.ts')).toBe(true);
+    expect(matcher.isIgnored('vendor', false)).toBe(false);
+  });
+
+  it('should scope nested .gitignore files to their directory', () => {
+    writeRepoFile(testDir, 'packages/a/.gitignore', 'out/\n*.gen.ts\n');
+    const matcher = createIgnoreMatcher(testDir);
+
+    expect(matcher.isIgnored('packages/a/out/index.js')).toBe(true);
+    expect(matcher.isIgnored('packages/a/src/api.gen.ts')).toBe(true);
+    expect(matcher.isIgnored('packages/b/out/index.js')).toBe(false);
+  });
+
+  it('should not re-include files inside an ignored directory', () => {
+    writeRepoFile(testDir, '.gitignore', 'sdk/\n!sdk/keep.ts\n');
+    const matcher = createIgnoreMatcher(testDir);
+
+    expect(matcher.isIgnored('sdk/keep.ts')).toBe(true);
+  });
+
+  it('should read .repowikiignore and extra patterns', () => {
+    writeRepoFile(testDir, '.repowikiignore', 'fixtures/\n');
+    const matcher = createIgnoreMatcher(testDir, { extraPatterns: ['*.snap'] });
+
+    expect(matcher.isIgnored('test/fixtures/data.json')).toBe(true);
+    expect(matcher.isIgnored('test/__snapshots__/a.snap')).toBe(true);
+    expect(matcher.isIgnored('test/a.test.ts')).toBe(false);
+  });
+
+  it('should walk only non-ignored files', () => {
+    writeRepoFile(testDir, '.gitignore', 'vendor/\n');
+    writeRepoFile(testDir, 'src/index.ts');
+    writeRepoFile(testDir, 'vendor/sdk.ts');
+    writeRepoFile(testDir, 'node_modules/pkg/index.js');
+
+    const files = Array.from(walkRepository(testDir, createIgnoreMatcher(testDir))).map((e) => e.relativePath);
+
+    expect(files).toContain('.gitignore');
+    expect(files).toContain(path.join('src', 'index.ts'));
+    expect(files).not.toContain(path.join('vendor', 'sdk.ts'));
+    expect(files).not.toContain(path.join('node_modules', 'pkg', 'index.js'));
+  });
+
+  it('should apply the same rules to list_files', async () => {
+    writeRepoFile(testDir, '.gitignore', 'generated/\n');
+    writeRepoFile(testDir, 'src/index.ts');
+    writeRepoFile(testDir, 'generated/client.ts');
+
+    const result = await createToolRegistry(testDir).executeToolCall('list_files', { glob: '**/*.ts' });
+    const paths = (result.data as FileEntry[]).map((f) => f.path);
+
+    expect(paths).toEqual([path.join('src', 'index.ts')]);
+  });
+});
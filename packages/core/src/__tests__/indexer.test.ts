@@ -0,0 +1,650 @@
+/**
+ * Indexer Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Indexer, type IndexProgress, type IndexProgressEvent } from '../indexer/index.js';
+import { parseFile } from '../indexer/parse.js';
+import { IndexSchemaError, SCHEMA_VERSION, INDEXER_VERSION } from '../indexer/schema.js';
+import { IndexWatcher, type WatchUpdate } from '../indexer/watcher.js';
+import { chunkFile } from '../indexer/chunker.js';
+import { classifyByName, classifyContent, isBinaryContent } from '../indexer/detect.js';
+import * as path from 'node:path';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import Database from 'better-sqlite3';
+
+function writeRepoFile(root: string, relativePath: string, content: string): void {
+  const fullPath = path.join(root, relativePath);
+  fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+  fs.writeFileSync(fullPath, content);
+}
+
+function filler(name: string, lines: number): string {
+  return Array.from({ length: lines }, (_, i) => `  const ${name}${i} = ${i};`).join('\n');
+}
+
+describe('chunkFile', () => {
+  it('should keep small files in a single chunk', () => {
+    const chunks = chunkFile('a.ts', 'const a = 1;\nconst b = 2;\n');
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]?.startLine).toBe(1);
+    expect(chunks[0]?.endLine).toBe(3);
+  });
+
+  it('should split at top-level declarations', () => {
+    const content = [
+      '/** First */',
+      'export function first() {',
+      filler('a', 30),
+      '}',
+      '',
+      'export function second() {',
+      filler('b', 30),
+      '}',
+    ].join('\n');
+
+    const chunks = chunkFile('a.ts', content, { maxLines: 40 });
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0]?.startLine).toBe(1);
+    expect(chunks[0]?.content).toContain('function first');
+    expect(chunks[1]?.startLine).toBe(35);
+    expect(chunks[1]?.content).toContain('function second');
+    expect(chunks[1]?.content).not.toContain('function first');
+  });
+
+  it('should window oversized blocks with overlap', () => {
+    const content = ['function big() {', filler('x', 100), '}'].join('\n');
+
+    const chunks = chunkFile('a.ts', content, { maxLines: 40, overlapLines: 10 });
+
+    expect(chunks.length).toBeGreaterThan(2);
+    expect(chunks[0]?.endLine).toBe(40);
+    expect(chunks[1]?.startLine).toBe(31);
+    expect(chunks[chunks.length - 1]?.endLine).toBe(102);
+  });
+
+  it('should split markdown at headings', () => {
+    const content = ['# Title', filler('p', 20), '## Usage', filler('q', 20)].join('\n');
+
+    const chunks = chunkFile('README.md', content, { maxLines: 30 });
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[1]?.content.startsWith('## Usage')).toBe(true);
+  });
+});
+
+describe('parseFile', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'repo-wiki-parse-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  const parse = (relativePath: string, previous?: Parameters<typeof parseFile>[0]['previous']) =>
+    parseFile(
+      { filePath: path.join(testDir, relativePath), relativePath, previous, force: false },
+      { maxFileSize: 1024, chunking: {} }
+    );
+
+  it('should chunk a changed file and extract its symbols and edges', () => {
+    writeRepoFile(
+      testDir,
+      'a.ts',
+      "import { loadPapa } from './papa';\n\nexport function fetchMike() {\n  return loadPapa();\n}\n"
+    );
+
+    const outcome = parse('a.ts');
+
+    expect(outcome.status).toBe('changed');
+    if (outcome.status !== 'changed') return;
+    expect(outcome.metadata.language).toBe('typescript');
+    expect(outcome.chunks).toHaveLength(1);
+    expect(outcome.chunks[0]?.terms).toContain('mike');
+    expect(outcome.analysis?.symbols.map((s) => s.name)).toEqual(['fetchMike']);
+    expect(outcome.analysis?.edges).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ relation: 'imports', target: './papa', specifier: './papa' }),
+        expect.objectContaining({ relation: 'calls', target: '', specifier: './papa', symbol: 'loadPapa' }),
+      ])
+    );
+  });
+
+  it('should skip or leave unchanged files without chunking them', () => {
+    writeRepoFile(testDir, 'big.ts', 'x'.repeat(2048));
+    writeRepoFile(testDir, 'same.ts', 'export const november = 1;\n');
+    const first = parse('same.ts');
+    if (first.status !== 'changed') throw new Error('expected a changed file');
+
+    expect(parse('big.ts')).toMatchObject({ status: 'skipped', decision: { reason: 'too-large' } });
+    expect(
+      parse('same.ts', { lastModified: first.mtimeMs, size: first.size, contentHash: first.contentHash })
+    ).toEqual({ status: 'unchanged', mtimeMs: first.mtimeMs, size: first.size, touched: false });
+    expect(parse('same.ts', { lastModified: 0, size: first.size, contentHash: first.contentHash })).toMatchObject({
+      status: 'unchanged',
+      touched: true,
+    });
+  });
+});
+
+describe('file classification', () => {
+  it('should recognize lockfiles and minified names', () => {
+    expect(classifyByName('package-lock.json')?.reason).toBe('lockfile');
+    expect(classifyByName(path.join('web', 'yarn.lock'))?.reason).toBe('lockfile');
+    expect(classifyByName('public/vendor.min.js')?.reason).toBe('minified');
+    expect(classifyByName('src/index.ts')).toBeUndefined();
+  });
+
+  it('should detect binary content', () => {
+    expect(isBinaryContent(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01]))).toBe(true);
+    expect(isBinaryContent(Buffer.from('export const a = 1;\n'))).toBe(false);
+  });
+
+  it('should detect generated headers and minified content', () => {
+    expect(classifyContent('// Code generated by protoc-gen-go. DO NOT EDIT.\npackage api\n')?.reason).toBe('generated');
+    expect(classifyContent('/* @generated */\nexport {};\n')?.reason).toBe('generated');
+    expect(classifyContent(`!function(){${'a+b;'.repeat(1000)}}();`)?.reason).toBe('minified');
+    expect(classifyContent(`${'export const a = 1;\n'.repeat(10)}// mentions @generated below the header\n`)).toBeUndefined();
+  });
+
+  it('should require generator phrasing in a header comment', () => {
+    const autogenerated = '/*\n * This file is auto-generated by openapi-generator.\n * Do not edit manually.\n */\nexport {};\n';
+    expect(classifyContent(autogenerated)).toEqual({
+      reason: 'generated',
+      detail: 'header contains "auto-generated by openapi-generator. * Do not edit"',
+    });
+    expect(classifyContent('# Generated by the protocol buffer compiler.  DO NOT EDIT!\nimport sys\n')?.reason).toBe(
+      'generated'
+    );
+    expect(classifyContent('// <auto-generated>\nnamespace App;\n')?.reason).toBe('generated');
+
+    // Hand-written files that talk about generated output
+    expect(classifyContent('/**\n * Handles auto-generated IDs\n */\nexport function nextId() {}\n')).toBeUndefined();
+    expect(classifyContent('// Code generated by the build is written to dist/\nexport {};\n')).toBeUndefined();
+    expect(classifyContent('def ids():\n    """Return auto-generated IDs. Do not edit them."""\n')).toBeUndefined();
+    expect(classifyContent("const banner = '@generated';\nexport { banner };\n")).toBeUndefined();
+  });
+
+  it('should read header comments in the syntax of the file language', () => {
+    // Markdown headings are not comments; HTML comments are
+    expect(classifyContent('# Lockfiles\n\n## DO NOT EDIT the lockfile by hand\n', 'markdown')).toBeUndefined();
+    expect(classifyContent('<!-- @generated by docgen -->\n# API\n', 'markdown')?.reason).toBe('generated');
+    expect(classifyContent('#!/usr/bin/env python\n# @generated\nimport sys\n', 'python')?.reason).toBe('generated');
+    expect(classifyContent('#!/usr/bin/env node\n// @generated\nrun();\n', 'javascript')?.reason).toBe('generated');
+    expect(classifyContent('# @generated\nexport {};\n', 'typescript')).toBeUndefined();
+
+    // Comments after the first line of code are not the header
+    expect(classifyContent('import { a } from "./a";\n\n// DO NOT EDIT below this line\nexport {};\n', 'typescript')).toBeUndefined();
+    expect(classifyContent('/* Helpers */ export const a = 1;\n// DO NOT EDIT\n', 'typescript')).toBeUndefined();
+    expect(classifyContent('// Copyright 2024\n\n// Code generated by stringer. DO NOT EDIT.\npackage api\n', 'go')?.reason).toBe(
+      'generated'
+    );
+  });
+});
+
+describe('Indexer', () => {
+  let testDir: string;
+  let indexer: Indexer;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'repo-wiki-indexer-'));
+    writeRepoFile(
+      testDir,
+      'src/big.ts',
+      [
+        'export function alpha() {',
+        filler('a', 80),
+        '}',
+        '',
+        'export function runAgentLoop() {',
+        '  return "agent loop";',
+        '}',
+        '',
+        'export function omega() {',
+        filler('o', 80),
+        '}',
+      ].join('\n')
+    );
+    indexer = new Indexer({ repoPath: testDir, dbPath: path.join(testDir, '.repo-wiki', 'index.db') });
+  });
+
+  afterEach(() => {
+    indexer.close();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should rank the matching chunk rather than the whole file', async () => {
+    await indexer.indexRepository();
+
+    const results = indexer.search('runAgentLoop', 5);
+
+    expect(results).toHaveLength(1);
+    expect(results[0]?.path).toBe(path.join('src', 'big.ts'));
+    expect(results[0]?.startLine).toBeLessThanOrEqual(87);
+    expect(results[0]?.endLine).toBeGreaterThanOrEqual(87);
+    expect(results[0]?.snippet).toContain('runAgentLoop');
+    expect(results[0]?.snippet).not.toContain('a0 =');
+  });
+
+  it('should replace chunks when a file is re-indexed', async () => {
+    await indexer.indexRepository();
+    writeRepoFile(testDir, 'src/big.ts', 'export function renamedThing() {}\n');
+    await indexer.indexRepository();
+
+    expect(indexer.search('runAgentLoop', 5)).toHaveLength(0);
+    expect(indexer.search('renamedThing', 5)).toHaveLength(1);
+  });
+
+  it('should skip unchanged files on re-index', async () => {
+    const first = await indexer.indexRepository();
+    expect(first.added).toBe(1);
+
+    writeRepoFile(testDir, 'src/other.ts', 'export const other = 1;\n');
+    const second = await indexer.indexRepository();
+
+    expect(second.added).toBe(1);
+    expect(second.updated).toBe(0);
+    expect(second.unchanged).toBe(1);
+    expect(second.indexed).toBe(2);
+  });
+
+  it('should treat a touched file with identical content as unchanged', async () => {
+    await indexer.indexRepository();
+    const filePath = path.join(testDir, 'src', 'big.ts');
+    const future = new Date(Date.now() + 60_000);
+    fs.utimesSync(filePath, future, future);
+
+    const result = await indexer.indexRepository();
+
+    expect(result.unchanged).toBe(1);
+    expect(result.updated).toBe(0);
+  });
+
+  it('should re-index every file when forced', async () => {
+    await indexer.indexRepository();
+
+    const result = await indexer.indexRepository({ force: true });
+
+    expect(result.updated).toBe(1);
+    expect(result.unchanged).toBe(0);
+  });
+
+  it('should prune deleted and renamed files', async () => {
+    writeRepoFile(testDir, 'src/old-name.ts', 'export const movedSymbol = 1;\n');
+    await indexer.indexRepository();
+
+    fs.renameSync(path.join(testDir, 'src', 'old-name.ts'), path.join(testDir, 'src', 'new-name.ts'));
+    fs.rmSync(path.join(testDir, 'src', 'big.ts'));
+    const result = await indexer.indexRepository();
+
+    expect(result.removed).toBe(2);
+    expect(result.added).toBe(1);
+    expect(indexer.readFile(path.join('src', 'old-name.ts'))).toBeNull();
+    expect(indexer.search('runAgentLoop', 5)).toHaveLength(0);
+    expect(indexer.search('movedSymbol', 5).map((r) => r.path)).toEqual([path.join('src', 'new-name.ts')]);
+  });
+
+  it('should honor configured extensions, ignore patterns and size limit', async () => {
+    indexer.close();
+    writeRepoFile(testDir, 'app/Main.kt', 'fun kotlinEntry() {}\n');
+    writeRepoFile(testDir, 'schema.json', '{ "jsonOnlyKey": true }\n');
+    writeRepoFile(testDir, 'vendor/sdk.ts', 'export const vendoredThing = 1;\n');
+    writeRepoFile(testDir, 'src/huge.ts', `export const hugeThing = "${'x'.repeat(16_384)}";\n`);
+    indexer = new Indexer({
+      repoPath: testDir,
+      includeExtensions: ['kt'],
+      excludeExtensions: ['.json'],
+      ignore: ['vendor/'],
+      maxFileSize: 8192,
+    });
+
+    const result = await indexer.indexRepository();
+
+    expect(result.skipped).toBe(1);
+    expect(indexer.search('kotlinEntry', 5)).toHaveLength(1);
+    expect(indexer.search('jsonOnlyKey', 5)).toHaveLength(0);
+    expect(indexer.search('vendoredThing', 5)).toHaveLength(0);
+    expect(indexer.search('hugeThing', 5)).toHaveLength(0);
+  });
+
+  it('should report skipped files with reasons', async () => {
+    writeRepoFile(testDir, 'package-lock.json', '{}');
+    writeRepoFile(testDir, 'assets/logo.json', '\u0000\u0001binary');
+    writeRepoFile(testDir, 'src/gen.ts', '// @generated by tool\nexport const generatedThing = 1;\n');
+
+    const result = await indexer.indexRepository();
+    const reasons = Object.fromEntries(result.skippedFiles.map((f) => [f.path, f.reason]));
+
+    expect(result.skipped).toBe(3);
+    expect(reasons['package-lock.json']).toBe('lockfile');
+    expect(reasons[path.join('assets', 'logo.json')]).toBe('binary');
+    expect(reasons[path.join('src', 'gen.ts')]).toBe('generated');
+    expect(indexer.search('generatedThing', 5)).toHaveLength(0);
+  });
+
+  it('should write files in batches and report progress', async () => {
+    for (let i = 0; i < 250; i++) {
+      writeRepoFile(testDir, `gen/file${i}.ts`, `export const oscar${i} = ${i};\n`);
+    }
+    const progress: IndexProgress[] = [];
+
+    const result = await indexer.indexRepository({
+      onProgress: (event) => {
+        if (event.type === 'progress') progress.push(event);
+      },
+    });
+
+    expect(result.added).toBe(251);
+    expect(progress.map((p) => [p.processed, p.total])).toEqual([
+      [200, 251],
+      [251, 251],
+    ]);
+    expect(progress[0]?.filesPerSecond).toBeGreaterThan(0);
+    expect(progress[1]?.etaMs).toBe(0);
+    expect(indexer.findDefinitions('oscar249').map((d) => d.path)).toEqual([path.join('gen', 'file249.ts')]);
+  });
+
+  it('should emit phase, discovered, processed and skipped events', async () => {
+    writeRepoFile(testDir, 'package-lock.json', '{}\n');
+    const events: IndexProgressEvent[] = [];
+
+    await indexer.indexRepository({ onProgress: (event) => events.push(event) });
+
+    expect(events.filter((e) => e.type === 'phase').map((e) => e.phase)).toEqual(['scanning', 'parsing', 'linking']);
+    expect(events).toContainEqual({ type: 'discovered', files: 2 });
+    expect(events).toContainEqual({ type: 'processed', path: path.join('src', 'big.ts'), change: 'added' });
+    expect(events).toContainEqual({ type: 'skipped', path: 'package-lock.json', reason: 'lockfile' });
+    expect(events.at(-1)).toEqual({ type: 'phase', phase: 'linking' });
+
+    events.length = 0;
+    await indexer.indexRepository({ onProgress: (event) => events.push(event) });
+    expect(events).toContainEqual({ type: 'processed', path: path.join('src', 'big.ts'), change: 'unchanged' });
+  });
+
+  it('should stop after the current batch when aborted and keep the index consistent', async () => {
+    writeRepoFile(testDir, 'src/doomed.ts', 'export const quebec = 1;\n');
+    await indexer.indexRepository();
+    const { indexedAt } = indexer.getMeta();
+    fs.rmSync(path.join(testDir, 'src', 'doomed.ts'));
+    for (let i = 0; i < 250; i++) {
+      writeRepoFile(testDir, `gen/file${i}.ts`, `export const romeo${i} = ${i};\n`);
+    }
+
+    const alreadyAborted = new AbortController();
+    alreadyAborted.abort();
+    await expect(indexer.indexRepository({ signal: alreadyAborted.signal })).rejects.toThrow();
+
+    const controller = new AbortController();
+    const run = indexer.indexRepository({
+      signal: controller.signal,
+      onProgress: (event) => {
+        if (event.type === 'progress') controller.abort();
+      },
+    });
+
+    await expect(run).rejects.toMatchObject({ name: 'AbortError' });
+    // The first batch of 200 is written; nothing is pruned and the last-indexed time is kept
+    expect(indexer.getStats().files).toBe(202);
+    expect(indexer.readFile(path.join('src', 'doomed.ts'))).not.toBeNull();
+    expect(indexer.getMeta().indexedAt).toBe(indexedAt);
+
+    const result = await indexer.indexRepository();
+    expect(result).toMatchObject({ added: 50, unchanged: 201, removed: 1 });
+    expect(indexer.getStats().files).toBe(251);
+  });
+
+  it('should report counts per language', async () => {
+    writeRepoFile(testDir, 'tools/run.py', 'def run_golf():\n    return 1\n');
+    writeRepoFile(testDir, 'README.md', '# Hotel\n');
+    await indexer.indexRepository();
+
+    const stats = indexer.getStats();
+
+    expect(stats).toMatchObject({ files: 3, schemaVersion: SCHEMA_VERSION, repoRoot: testDir, commits: 0 });
+    expect(stats.dbPath).toBe(path.join(testDir, '.repo-wiki', 'index.db'));
+    expect(stats.sizeBytes).toBeGreaterThan(0);
+    expect(stats.languages.map((l) => [l.language, l.files])).toEqual([
+      ['markdown', 1],
+      ['python', 1],
+      ['typescript', 1],
+    ]);
+    const typescript = stats.languages.find((l) => l.language === 'typescript');
+    expect(typescript?.chunks).toBeGreaterThan(1);
+    expect(typescript?.symbols).toBe(3);
+    expect(stats.chunks).toBe(stats.languages.reduce((sum, l) => sum + l.chunks, 0));
+  });
+
+  it('should list stale, unindexed, removed and skipped files without changing the index', async () => {
+    writeRepoFile(testDir, 'src/gone.ts', 'export const india = 1;\n');
+    writeRepoFile(testDir, 'src/same.ts', 'export const juliet = 1;\n');
+    await indexer.indexRepository();
+
+    writeRepoFile(testDir, 'src/big.ts', 'export function kilo() {}\n');
+    writeRepoFile(testDir, 'src/new.ts', 'export const lima = 1;\n');
+    writeRepoFile(testDir, 'package-lock.json', '{}\n');
+    fs.rmSync(path.join(testDir, 'src', 'gone.ts'));
+    // Touched with the same content: not stale
+    const samePath = path.join(testDir, 'src', 'same.ts');
+    fs.utimesSync(samePath, new Date(), new Date(Date.now() + 5000));
+
+    const freshness = indexer.checkFreshness();
+
+    expect(freshness).toEqual({
+      stale: [path.join('src', 'big.ts')],
+      unindexed: [path.join('src', 'new.ts')],
+      removed: [path.join('src', 'gone.ts')],
+      skippedFiles: [{ path: 'package-lock.json', reason: 'lockfile' }],
+    });
+    expect(indexer.search('kilo', 5)).toHaveLength(0);
+    expect(indexer.readFile(path.join('src', 'gone.ts'))).not.toBeNull();
+  });
+
+  it('should update only the given paths', async () => {
+    writeRepoFile(testDir, 'src/lib/old.ts', 'export const staleEcho = 1;\n');
+    writeRepoFile(testDir, 'src/untouched.ts', 'export const untouched = 1;\n');
+    await indexer.indexRepository();
+
+    writeRepoFile(testDir, 'src/big.ts', 'export function renamedThing() {}\n');
+    fs.rmSync(path.join(testDir, 'src', 'lib'), { recursive: true });
+    writeRepoFile(testDir, 'src/feature/use.ts', "import { renamedThing } from '../big';\n\nrenamedThing();\n");
+    writeRepoFile(testDir, 'dist/out.ts', 'export const builtFoxtrot = 1;\n');
+    fs.rmSync(path.join(testDir, 'src', 'untouched.ts'));
+
+    const result = await indexer.updatePaths(['src/big.ts', 'src/lib', 'src/feature', 'dist/out.ts']);
+
+    expect(result).toMatchObject({ added: 1, updated: 1, removed: 1 });
+    expect(indexer.search('renamedThing', 5).map((r) => r.path).sort()).toEqual([
+      path.join('src', 'big.ts'),
+      path.join('src', 'feature', 'use.ts'),
+    ]);
+    expect(indexer.search('staleEcho', 5)).toHaveLength(0);
+    expect(indexer.search('builtFoxtrot', 5)).toHaveLength(0);
+    // Not among the given paths, so still indexed
+    expect(indexer.readFile(path.join('src', 'untouched.ts'))).not.toBeNull();
+    const imports = indexer.graphNeighbors(path.join('src', 'feature', 'use.ts'), { relations: ['imports'] });
+    expect(imports.map((n) => n.node.id)).toEqual([path.join('src', 'big.ts')]);
+  });
+});
+
+describe('index schema', () => {
+  let testDir: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'repo-wiki-schema-'));
+    dbPath = path.join(testDir, 'index.db');
+    writeRepoFile(testDir, 'src/a.ts', 'export const a = 1;\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should record the schema version, indexer version and repository root', async () => {
+    const indexer = new Indexer({ repoPath: testDir, dbPath });
+    const created = indexer.getMeta();
+    await indexer.indexRepository();
+    const indexed = indexer.getMeta();
+    indexer.close();
+
+    expect(created).toEqual({
+      schemaVersion: SCHEMA_VERSION,
+      indexerVersion: INDEXER_VERSION,
+      repoRoot: testDir,
+      indexedAt: undefined,
+    });
+    expect(INDEXER_VERSION).toMatch(/^\d+\.\d+\.\d+/);
+    expect(Date.parse(indexed.indexedAt ?? '')).not.toBeNaN();
+  });
+
+  it('should migrate an index created before schema versioning', async () => {
+    const db = new Database(dbPath);
+    db.exec(`
+      CREATE TABLE files (id INTEGER PRIMARY KEY AUTOINCREMENT, path TEXT UNIQUE NOT NULL, content TEXT NOT NULL,
+        last_modified INTEGER NOT NULL);
+    `);
+    db.prepare(`INSERT INTO files (path, content, last_modified) VALUES (?, ?, 0)`).run(
+      path.join('src', 'a.ts'),
+      'export const a = 1;\n'
+    );
+    db.close();
+
+    const indexer = new Indexer({ repoPath: testDir, dbPath });
+    const meta = indexer.getMeta();
+    const result = await indexer.indexRepository();
+    indexer.close();
+
+    expect(meta.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(meta.repoRoot).toBe(testDir);
+    expect(result.updated).toBe(1);
+  });
+
+  it('should refuse an index created by a newer version', () => {
+    const db = new Database(dbPath);
+    db.exec(`
+      CREATE TABLE meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+      INSERT INTO meta (key, value) VALUES ('schema_version', '${SCHEMA_VERSION + 1}');
+    `);
+    db.close();
+
+    let error: unknown;
+    try {
+      new Indexer({ repoPath: testDir, dbPath });
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(IndexSchemaError);
+    expect((error as IndexSchemaError).dbPath).toBe(dbPath);
+    expect((error as Error).message).toContain('newer version');
+    // The database was closed, so it can be deleted and rebuilt
+    fs.rmSync(dbPath);
+    const indexer = new Indexer({ repoPath: testDir, dbPath });
+    expect(indexer.getMeta().schemaVersion).toBe(SCHEMA_VERSION);
+    indexer.close();
+  });
+});
+
+// Per-directory watching is the fallback where recursive fs.watch is unavailable (Linux before Node 20)
+describe.each([
+  { mode: 'default', recursive: undefined },
+  { mode: 'per-directory', recursive: false },
+])('IndexWatcher ($mode)', ({ recursive }) => {
+  let testDir: string;
+  let indexer: Indexer;
+  let watcher: IndexWatcher;
+  let updates: WatchUpdate[];
+
+  /** Wait until the watcher has applied `count` updates in total */
+  async function waitForUpdates(count: number): Promise<void> {
+    const deadline = Date.now() + 4000;
+    while (updates.length < count && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    expect(updates.length).toBeGreaterThanOrEqual(count);
+  }
+
+  beforeEach(async () => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'repo-wiki-watch-'));
+    writeRepoFile(testDir, 'src/a.ts', 'export const originalAlpha = 1;\n');
+    indexer = new Indexer({ repoPath: testDir, dbPath: path.join(testDir, '.repo-wiki', 'index.db') });
+    await indexer.indexRepository();
+    updates = [];
+    watcher = new IndexWatcher(indexer, { debounceMs: 50, recursive, onUpdate: (update) => updates.push(update) });
+    watcher.start();
+  });
+
+  afterEach(async () => {
+    await watcher.close();
+    indexer.close();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should apply debounced changes and ignore ignored paths', async () => {
+    writeRepoFile(testDir, 'src/a.ts', 'export const editedBravo = 1;\n');
+    writeRepoFile(testDir, 'src/b.ts', 'export function addedCharlie() {}\n');
+    writeRepoFile(testDir, 'node_modules/dep/index.ts', 'export const depDelta = 1;\n');
+    await waitForUpdates(1);
+
+    expect(updates[0]?.full).toBe(false);
+    expect(updates[0]?.paths).toContain(path.join('src', 'b.ts'));
+    expect(updates[0]?.paths.some((p) => p.startsWith('node_modules'))).toBe(false);
+    expect(indexer.search('editedBravo', 5)).toHaveLength(1);
+    expect(indexer.search('originalAlpha', 5)).toHaveLength(0);
+    expect(indexer.findDefinitions('addedCharlie').map((d) => d.path)).toEqual([path.join('src', 'b.ts')]);
+    expect(indexer.search('depDelta', 5)).toHaveLength(0);
+
+    fs.rmSync(path.join(testDir, 'src'), { recursive: true });
+    await waitForUpdates(2);
+    await watcher.flush();
+
+    expect(indexer.search('editedBravo', 5)).toHaveLength(0);
+    expect(indexer.findDefinitions('addedCharlie')).toEqual([]);
+  });
+
+  it('should watch directories created after it started', async () => {
+    writeRepoFile(testDir, 'src/deep/nested/c.ts', 'export const nestedEcho = 1;\n');
+    await waitForUpdates(1);
+    await watcher.flush();
+    expect(indexer.search('nestedEcho', 5)).toHaveLength(1);
+
+    const count = updates.length;
+    writeRepoFile(testDir, 'src/deep/nested/c.ts', 'export const nestedFoxtrot = 1;\n');
+    await waitForUpdates(count + 1);
+
+    expect(indexer.search('nestedFoxtrot', 5)).toHaveLength(1);
+  });
+
+  it('should re-index the repository when an ignore file changes', async () => {
+    writeRepoFile(testDir, '.repowikiignore', 'src/\n');
+    await waitForUpdates(1);
+
+    expect(updates[0]).toMatchObject({ full: true, paths: [] });
+    expect(updates[0]?.result.removed).toBe(1);
+    expect(indexer.search('originalAlpha', 5)).toHaveLength(0);
+  });
+
+  it('should not react to writes to its database in a watched directory', async () => {
+    await watcher.close();
+    indexer.close();
+    indexer = new Indexer({ repoPath: testDir, dbPath: path.join(testDir, 'data', 'index.db') });
+    await indexer.indexRepository();
+    watcher = new IndexWatcher(indexer, { debounceMs: 50, recursive, onUpdate: (update) => updates.push(update) });
+    watcher.start();
+
+    writeRepoFile(testDir, 'src/a.ts', 'export const editedGolf = 1;\n');
+    await waitForUpdates(1);
+    // Every update writes the database; none of those writes may start another
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    await watcher.flush();
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0]?.paths).toEqual([path.join('src', 'a.ts')]);
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Parse Pool Tests
+ * Worker threads run workers/parse-worker.mjs, which loads the worker from
+ * its TypeScript source, so nothing needs building first.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ParsePool } from '../indexer/pool.js';
+import { Indexer } from '../indexer/index.js';
+import { parseFile, type ParseOptions, type ParseRequest } from '../indexer/parse.js';
+import { pathToFileURL } from 'node:url';
+import * as path from 'node:path';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+
+const WORKER_SCRIPT = vi.hoisted(() => new URL('./workers/parse-worker.mjs', import.meta.url));
+
+// The Indexer creates its own pools; point them at the source worker too
+vi.mock('../indexer/pool.js', async (importOriginal) => {
+  const pool = await importOriginal<typeof import('../indexer/pool.js')>();
+  class SourceParsePool extends pool.ParsePool {
+    constructor(...[size, options, extractors, workerScript]: ConstructorParameters<typeof pool.ParsePool>) {
+      super(size, options, extractors, workerScript ?? WORKER_SCRIPT);
+    }
+  }
+  return { ...pool, ParsePool: SourceParsePool };
+});
+
+const OPTIONS: ParseOptions = { maxFileSize: 1024 * 1024, chunking: {} };
+
+function writeRepoFile(root: string, relativePath: string, content: string): string {
+  const fullPath = path.join(root, relativePath);
+  fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+  fs.writeFileSync(fullPath, content);
+  return fullPath;
+}
+
+describe('ParsePool', () => {
+  let testDir: string;
+  let requests: ParseRequest[];
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'repo-wiki-pool-'));
+    const request = (relativePath: string, content: string): ParseRequest => ({
+      filePath: writeRepoFile(testDir, relativePath, content),
+      relativePath,
+      force: false,
+    });
+    requests = [
+      request(
+        path.join('src', 'sierra.ts'),
+        "import { tango } from './tango.js';\n\nexport class Sierra {\n  run() {\n    return tango();\n  }\n}\n"
+      ),
+      request(path.join('src', 'tango.ts'), 'export function tango() {\n  return 1;\n}\n'),
+      request(path.join('tools', 'uniform.py'), 'def uniform_victor():\n    return 2\n'),
+      request('README.md', '# Whiskey\n\nSome prose.\n'),
+      request(path.join('gen', 'api.ts'), '// @generated by protoc. DO NOT EDIT.\nexport const xray = 1;\n'),
+    ];
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should parse in worker threads with the same results as the main thread', async () => {
+    const indexed = requests[1]!;
+    const { mtimeMs, size } = fs.statSync(indexed.filePath);
+    const previous = { lastModified: mtimeMs, size, contentHash: 'unchanged' };
+    const all = [...requests, { ...indexed, previous }];
+
+    const pool = new ParsePool(2, OPTIONS, undefined, WORKER_SCRIPT);
+    try {
+      expect(pool.size).toBe(2);
+      const outcomes = await Promise.all(all.map((request) => pool.parse(request)));
+
+      expect(outcomes).toEqual(all.map((request) => parseFile(request, OPTIONS)));
+      expect(outcomes.map((outcome) => outcome.status)).toEqual([
+        'changed',
+        'changed',
+        'changed',
+        'changed',
+        'skipped',
+        'unchanged',
+      ]);
+    } finally {
+      await pool.close();
+    }
+  });
+
+  it('should reject files a worker cannot read', async () => {
+    const pool = new ParsePool(1, OPTIONS, undefined, WORKER_SCRIPT);
+    try {
+      const missing = { filePath: path.join(testDir, 'missing.ts'), relativePath: 'missing.ts', force: false };
+      await expect(pool.parse(missing)).rejects.toThrow(/ENOENT/);
+      // The worker carries on
+      await expect(pool.parse(requests[1]!)).resolves.toMatchObject({ status: 'changed' });
+    } finally {
+      await pool.close();
+    }
+  });
+
+  it('should parse on the main thread once its workers crash', async () => {
+    const crashingScript = writeRepoFile(
+      testDir,
+      'crash-worker.mjs',
+      "import { parentPort } from 'node:worker_threads';\n" +
+        "parentPort.on('message', () => {\n  throw new Error('worker crashed');\n});\n"
+    );
+    const pool = new ParsePool(1, OPTIONS, undefined, pathToFileURL(crashingScript));
+    try {
+      const settled = await Promise.allSettled(requests.map((request) => pool.parse(request)));
+
+      // The file being parsed fails with the crash; the rest fall back to this thread
+      expect(settled[0]).toMatchObject({ status: 'rejected', reason: { message: 'worker crashed' } });
+      expect(settled.slice(1)).toEqual(
+        requests.slice(1).map((request) => ({ status: 'fulfilled', value: parseFile(request, OPTIONS) }))
+      );
+      expect(pool.size).toBe(0);
+    } finally {
+      await pool.close();
+    }
+  });
+
+  it('should parse on the main thread once its workers exit mid-task', async () => {
+    const exitingScript = writeRepoFile(
+      testDir,
+      'exit-worker.mjs',
+      "import { parentPort } from 'node:worker_threads';\nparentPort.on('message', () => process.exit(3));\n"
+    );
+    const pool = new ParsePool(1, OPTIONS, undefined, pathToFileURL(exitingScript));
+    try {
+      const settled = await Promise.allSettled(requests.map((request) => pool.parse(request)));
+
+      expect(settled[0]).toMatchObject({
+        status: 'rejected',
+        reason: { message: 'Parse worker exited with code 3' },
+      });
+      expect(settled.slice(1)).toEqual(
+        requests.slice(1).map((request) => ({ status: 'fulfilled', value: parseFile(request, OPTIONS) }))
+      );
+      expect(pool.size).toBe(0);
+    } finally {
+      await pool.close();
+    }
+  });
+
+  it('should reject requests still being parsed when closed', async () => {
+    const pool = new ParsePool(2, OPTIONS, undefined, WORKER_SCRIPT);
+    const parsing = Promise.allSettled(requests.map((request) => pool.parse(request)));
+
+    await pool.close();
+    const settled = await parsing;
+
+    expect(pool.size).toBe(0);
+    expect(settled).toEqual(requests.map(() => ({ status: 'rejected', reason: new Error('Parse pool closed') })));
+  });
+});
+
+describe('Indexer with worker threads', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'repo-wiki-pool-'));
+    writeRepoFile(testDir, 'src/yankee.ts', 'export function yankeeZulu() {\n  return 1;\n}\n');
+    for (let i = 0; i < 250; i++) {
+      writeRepoFile(
+        testDir,
+        `gen/file${i}.ts`,
+        `import { yankeeZulu } from '../src/yankee.js';\n\nexport function alphaRun${i}() {\n  return yankeeZulu();\n}\n`
+      );
+    }
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should build the same index as the main thread', async () => {
+    const build = async (workers: number, name: string) => {
+      const indexer = new Indexer({ repoPath: testDir, dbPath: path.join(testDir, '.repo-wiki', name), workers });
+      try {
+        const result = await indexer.indexRepository();
+        const { files, chunks, symbols } = indexer.getStats();
+        const callers = indexer.graphNeighbors(path.join('src', 'yankee.ts') + '#yankeeZulu', {
+          direction: 'incoming',
+          relations: ['calls'],
+          limit: 500,
+        });
+        const hits = indexer.search('alphaRun42').map((hit) => hit.path);
+        return { result, files, chunks, symbols, callers: callers.length, topHit: hits[0] };
+      } finally {
+        indexer.close();
+      }
+    };
+
+    const inWorkers = await build(2, 'workers.db');
+    const onMainThread = await build(0, 'main.db');
+
+    expect(inWorkers).toEqual(onMainThread);
+    expect(inWorkers).toMatchObject({ files: 251, callers: 250, topHit: path.join('gen', 'file42.ts') });
+  });
+
+  it('should stop parsing when aborted and resume on the next run', async () => {
+    const indexer = new Indexer({ repoPath: testDir, dbPath: path.join(testDir, '.repo-wiki', 'index.db'), workers: 2 });
+    try {
+      const controller = new AbortController();
+      const run = indexer.indexRepository({
+        signal: controller.signal,
+        onProgress: (event) => {
+          if (event.type === 'progress') controller.abort();
+        },
+      });
+
+      await expect(run).rejects.toMatchObject({ name: 'AbortError' });
+      expect(indexer.getStats().files).toBe(200);
+
+      const result = await indexer.indexRepository();
+      expect(result).toMatchObject({ added: 51, unchanged: 200 });
+    } finally {
+      indexer.close();
+    }
+  });
+});
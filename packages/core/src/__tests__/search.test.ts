@@ -0,0 +1,317 @@
+/**
+ * Search Ranking Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { fuseResults, formatScoreBreakdown } from '../indexer/ranking.js';
+import { expandIdentifiers, splitIdentifier } from '../indexer/tokenize.js';
+import { compileQuery, parseQuery, queryText } from '../indexer/query.js';
+import { detectFileKind, detectLanguage, isTestPath } from '../indexer/languages.js';
+import { Indexer } from '../indexer/index.js';
+import { LocalEmbeddingProvider } from '../embeddings/local-embedding-provider.js';
+import { createToolRegistry } from '../tools/registry.js';
+import type { SearchResult } from '../types.js';
+import type { ChunkSearchResult } from '../tools/types.js';
+import Database from 'better-sqlite3';
+import * as path from 'node:path';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+
+function writeRepoFile(root: string, relativePath: string, content: string): void {
+  const fullPath = path.join(root, relativePath);
+  fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+  fs.writeFileSync(fullPath, content);
+}
+
+function hit(file: string, score: number): SearchResult {
+  return { path: file, score, snippet: '', startLine: 1, endLine: 10 };
+}
+
+describe('identifier tokenization', () => {
+  it('should split camelCase, snake_case, dotted names and acronyms', () => {
+    expect(splitIdentifier('createToolRegistry')).toEqual(['create', 'tool', 'registry']);
+    expect(splitIdentifier('create_tool_registry')).toEqual(['create', 'tool', 'registry']);
+    expect(splitIdentifier('path.join')).toEqual(['path', 'join']);
+    expect(splitIdentifier('HTTPServer2')).toEqual(['http', 'server', '2']);
+  });
+
+  it('should index compound identifiers as whole tokens and sub-words', () => {
+    const terms = expandIdentifiers('const registry = createToolRegistry(); registry.execute(); createToolRegistry();');
+
+    expect(terms.split('\n')).toEqual([
+      'createtoolregistry create tool registry',
+      'registryexecute registry execute',
+    ]);
+  });
+
+});
+
+describe('query language', () => {
+  it('should expand plain words to identifier spellings joined with OR', () => {
+    expect(compileQuery('ToolRegistry run')).toBe('(("toolregistry" OR "tool" OR "registry") OR "run")');
+  });
+
+  it('should parse phrases, modifiers, prefixes and NEAR groups', () => {
+    expect(parseQuery('"tool calls" +agent -test regist* loop NEAR/3 step NOT mock').clauses).toEqual([
+      { type: 'phrase', text: 'tool calls', modifier: 'optional' },
+      { type: 'term', text: 'agent', modifier: 'required' },
+      { type: 'term', text: 'test', modifier: 'excluded' },
+      { type: 'prefix', text: 'regist', modifier: 'optional' },
+      { type: 'near', operands: [{ type: 'term', text: 'loop' }, { type: 'term', text: 'step' }], distance: 3, modifier: 'optional' },
+      { type: 'term', text: 'mock', modifier: 'excluded' },
+    ]);
+  });
+
+  it('should compile required, excluded and optional clauses', () => {
+    expect(compileQuery('+agent +loop "tool calls" -test -mock')).toBe(
+      '("agent" AND "loop" AND ("agent" OR "tool calls")) NOT ("test" OR "mock")'
+    );
+    expect(compileQuery('regist* agent NEAR loop')).toBe('("regist"* OR NEAR("agent" "loop", 10))');
+    expect(compileQuery('-test')).toBeNull();
+  });
+
+  it('should neutralize FTS5 syntax in the input', () => {
+    expect(compileQuery('content:x OR y)')).toBe('(("content" OR "x") OR "y")');
+    expect(compileQuery('"say ""hi"')).toBe('("say" OR "hi")');
+    expect(compileQuery('+"a "" b" NEAR(')).toBe('"a" AND ("a" OR "b" OR "near")');
+  });
+
+  it('should strip operators for embedding queries', () => {
+    expect(queryText('+agent "tool calls" -test regist*')).toBe('agent tool calls regist');
+  });
+});
+
+describe('file metadata', () => {
+  it('should detect languages and kinds from paths', () => {
+    expect(detectLanguage('src/index.tsx')).toBe('typescript');
+    expect(detectLanguage('Makefile')).toBeUndefined();
+    expect(detectFileKind('README.md')).toBe('docs');
+    expect(detectFileKind('package.json')).toBe('config');
+    expect(detectFileKind('vitest.config.ts')).toBe('config');
+    expect(detectFileKind('src/config/index.ts')).toBe('code');
+  });
+
+  it('should recognize test files across ecosystems', () => {
+    expect(isTestPath('packages/core/src/__tests__/tools.test.ts')).toBe(true);
+    expect(isTestPath('src/app.spec.js')).toBe(true);
+    expect(isTestPath('pkg/handler_test.go')).toBe(true);
+    expect(isTestPath('tests/test_parser.py')).toBe(true);
+    expect(isTestPath('src/main/java/ParserTest.java')).toBe(true);
+    expect(isTestPath('src/testing/helpers.ts')).toBe(false);
+  });
+
+  it('should recognize fixtures and test data as tests', () => {
+    expect(isTestPath('test/fixtures/repo/index.ts')).toBe(true);
+    expect(isTestPath('packages/core/src/__fixtures__/sample.py')).toBe(true);
+    expect(isTestPath('fixtures/users.json')).toBe(true);
+    expect(isTestPath('pkg/parser/testdata/input.go')).toBe(true);
+    expect(isTestPath('src/fixtureLoader.ts')).toBe(false);
+  });
+});
+
+describe('fuseResults', () => {
+  const keyword = [hit('a.ts', 12), hit('b.ts', 8), hit('c.ts', 1)];
+  const semantic = [hit('d.ts', 0.95), hit('b.ts', 0.8), hit('c.ts', 0.7)];
+
+  it('should rank chunks found by both retrievers first with RRF', () => {
+    const fused = fuseResults(keyword, semantic, 4);
+
+    expect(fused.map((r) => r.path)).toEqual(['b.ts', 'c.ts', 'a.ts', 'd.ts']);
+    expect(fused[0]!.scoreBreakdown).toMatchObject({
+      fusion: 'rrf',
+      keyword: { rank: 2, score: 8 },
+      semantic: { rank: 2, score: 0.8 },
+    });
+    expect(fused[0]!.score).toBeCloseTo(2 / 62, 6);
+  });
+
+  it('should honor per-query weights', () => {
+    const keywordOnly = fuseResults(keyword, semantic, 1, { semanticWeight: 0 });
+    const semanticOnly = fuseResults(keyword, semantic, 1, { keywordWeight: 0 });
+
+    expect(keywordOnly[0]?.path).toBe('a.ts');
+    expect(semanticOnly[0]?.path).toBe('d.ts');
+  });
+
+  it('should combine normalized scores with weighted fusion', () => {
+    const fused = fuseResults(keyword, semantic, 4, { fusion: 'weighted' });
+
+    // a: 1 + 0; b: 7/11 + 0.4; c: 0 + 0; d: 0 + 1
+    expect(fused[0]?.path).toBe('b.ts');
+    expect(fused[0]!.score).toBeCloseTo(7 / 11 + 0.4, 6);
+    expect(fused.find((r) => r.path === 'c.ts')!.score).toBe(0);
+  });
+
+  it('should describe score breakdowns', () => {
+    const [top] = fuseResults(keyword, semantic, 1);
+
+    expect(formatScoreBreakdown(top!.scoreBreakdown!)).toBe('rrf 0.032 = keyword #2 (8.00) + semantic #2 (0.800)');
+  });
+});
+
+describe('Indexer search', () => {
+  let testDir: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'repo-wiki-search-'));
+    dbPath = path.join(testDir, '.repo-wiki', 'index.db');
+    writeRepoFile(testDir, 'src/billing.ts', 'export function retryFailedPayment(invoice: Invoice) {\n  return charge(invoice);\n}\n');
+    writeRepoFile(testDir, 'src/sidebar.ts', 'export function renderSidebarMenu(items: MenuItem[]) {\n  return items;\n}\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should match identifiers by sub-words and across naming styles', async () => {
+    writeRepoFile(testDir, 'src/registry.ts', 'export class ToolRegistry {}\n');
+    writeRepoFile(testDir, 'py/registry.py', 'def create_tool_registry():\n    pass\n');
+    const indexer = new Indexer({ repoPath: testDir, dbPath });
+    await indexer.indexRepository();
+
+    const bySubWords = indexer.search('tool registry').map((r) => r.path);
+    const byCamelCase = indexer.search('createToolRegistry').map((r) => r.path);
+    indexer.close();
+
+    expect(bySubWords).toEqual(expect.arrayContaining([path.join('src', 'registry.ts'), path.join('py', 'registry.py')]));
+    expect(byCamelCase[0]).toBe(path.join('py', 'registry.py'));
+  });
+
+  it('should backfill identifier terms in indexes built without them', async () => {
+    const db = new Database(path.join(testDir, 'old.db'));
+    db.exec(`
+      CREATE TABLE files (id INTEGER PRIMARY KEY AUTOINCREMENT, path TEXT UNIQUE NOT NULL, content TEXT NOT NULL,
+        last_modified INTEGER NOT NULL);
+      INSERT INTO files (path, content, last_modified) VALUES ('a.ts', 'new ToolRegistry()', 0);
+      CREATE TABLE chunks (id INTEGER PRIMARY KEY AUTOINCREMENT, file_id INTEGER NOT NULL, path TEXT NOT NULL,
+        start_line INTEGER NOT NULL, end_line INTEGER NOT NULL, content TEXT NOT NULL);
+      CREATE VIRTUAL TABLE chunks_fts USING fts5(path, content, content='chunks', content_rowid='id');
+      INSERT INTO chunks (file_id, path, start_line, end_line, content) VALUES (1, 'a.ts', 1, 1, 'new ToolRegistry()');
+      INSERT INTO chunks_fts(chunks_fts) VALUES('rebuild');
+    `);
+    db.close();
+
+    const indexer = new Indexer({ repoPath: testDir, dbPath: path.join(testDir, 'old.db') });
+    const results = indexer.search('registry');
+    indexer.close();
+
+    expect(results.map((r) => r.path)).toEqual(['a.ts']);
+  });
+
+  it('should evaluate phrases, required, excluded and prefix terms', async () => {
+    writeRepoFile(testDir, 'src/agent.ts', '// Handle tool calls from the model\nexport function runAgentStep() {}\n');
+    writeRepoFile(testDir, 'src/calls.ts', '// Count calls per tool\nexport function countCalls() {}\n');
+    const indexer = new Indexer({ repoPath: testDir, dbPath });
+    await indexer.indexRepository();
+
+    const paths = (query: string) => indexer.search(query).map((r) => r.path).sort();
+
+    expect(paths('"tool calls"')).toEqual([path.join('src', 'agent.ts')]);
+    expect(paths('+tool -agent')).toEqual([path.join('src', 'calls.ts')]);
+    expect(paths('runAge*')).toEqual([path.join('src', 'agent.ts')]);
+    expect(paths('tool NEAR/3 model')).toEqual([path.join('src', 'agent.ts')]);
+    expect(paths('tool NEAR/2 model')).toEqual([]);
+    for (const query of ['"', 'NEAR', '"*" OR (', '-', 'a:b^c', '"!!!"']) {
+      expect(() => indexer.search(query)).not.toThrow();
+    }
+    indexer.close();
+  });
+
+  it('should apply path, glob, language, test and kind filters', async () => {
+    writeRepoFile(testDir, 'src/__tests__/billing.test.ts', 'it("retries charge", () => charge(invoice));\n');
+    writeRepoFile(testDir, 'docs/billing.md', '# Billing\n\nWe charge the invoice monthly.\n');
+    writeRepoFile(testDir, 'scripts/charge.py', 'def charge(invoice):\n    pass\n');
+    writeRepoFile(testDir, 'testdata/charge.ts', 'export const invoice = { charge: 10 };\n');
+    const indexer = new Indexer({ repoPath: testDir, dbPath });
+    await indexer.indexRepository();
+
+    const paths = (filters: Parameters<Indexer['search']>[2]) =>
+      indexer.search('charge invoice', 10, filters).map((r) => r.path).sort();
+
+    expect(paths({ pathPrefix: 'src' })).toEqual([
+      path.join('src', '__tests__', 'billing.test.ts'),
+      path.join('src', 'billing.ts'),
+    ]);
+    expect(paths({ pathPrefix: 'sr' })).toEqual([]);
+    expect(paths({ glob: '**/*.py' })).toEqual([path.join('scripts', 'charge.py')]);
+    expect(paths({ language: 'Python' })).toEqual([path.join('scripts', 'charge.py')]);
+    expect(paths({ kind: 'docs' })).toEqual([path.join('docs', 'billing.md')]);
+    expect(paths({ kind: 'code' })).toContain(path.join('testdata', 'charge.ts'));
+    expect(paths({ kind: 'code', excludeTests: true })).toEqual([
+      path.join('scripts', 'charge.py'),
+      path.join('src', 'billing.ts'),
+    ]);
+    indexer.close();
+  });
+
+  it('should expose filters through search_chunks', async () => {
+    writeRepoFile(testDir, 'src/__tests__/billing.test.ts', 'it("retries charge", () => charge(invoice));\n');
+    const indexer = new Indexer({ repoPath: testDir, dbPath, embeddings: new LocalEmbeddingProvider() });
+    await indexer.indexRepository();
+
+    const result = await createToolRegistry(testDir, indexer).executeToolCall('search_chunks', {
+      query: 'charge invoice',
+      excludeTests: true,
+      language: 'typescript',
+    });
+    indexer.close();
+
+    const paths = (result.data as ChunkSearchResult[]).map((r) => r.path);
+    expect(paths[0]).toBe(path.join('src', 'billing.ts'));
+    expect(paths).not.toContain(path.join('src', '__tests__', 'billing.test.ts'));
+  });
+
+  it('should grep indexed file contents', async () => {
+    writeRepoFile(testDir, 'docs/billing.md', 'Call charge(invoice) to bill.\n');
+    const indexer = new Indexer({ repoPath: testDir, dbPath });
+    await indexer.indexRepository();
+    // Only the index is searched, not the working tree
+    writeRepoFile(testDir, 'src/unindexed.ts', 'charge(invoice);\n');
+
+    const all = indexer.grep(/charge\(/);
+    const scoped = indexer.grep(/charge\(/, { glob: 'src/**' });
+    const limited = indexer.grep(/\w/, { maxMatches: 2 });
+    indexer.close();
+
+    expect(all.matches.map((m) => `${m.path}:${m.line}`)).toEqual([
+      `${path.join('docs', 'billing.md')}:1`,
+      `${path.join('src', 'billing.ts')}:2`,
+    ]);
+    expect(scoped.matches).toHaveLength(1);
+    expect(limited).toMatchObject({ truncated: true });
+    expect(limited.matches).toHaveLength(2);
+  });
+
+  it('should fall back to keyword ranking without embeddings', async () => {
+    const indexer = new Indexer({ repoPath: testDir, dbPath });
+    await indexer.indexRepository();
+
+    const results = await indexer.hybridSearch('charge', { topK: 5 });
+    indexer.close();
+
+    expect(results).toHaveLength(1);
+    expect(results[0]?.scoreBreakdown?.keyword?.rank).toBe(1);
+    expect(results[0]?.scoreBreakdown?.semantic).toBeUndefined();
+  });
+
+  it('should default search_chunks to hybrid mode with embeddings', async () => {
+    const indexer = new Indexer({
+      repoPath: testDir,
+      dbPath,
+      embeddings: new LocalEmbeddingProvider(),
+      ranking: { fusion: 'weighted' },
+    });
+    await indexer.indexRepository();
+
+    const result = await createToolRegistry(testDir, indexer).executeToolCall('search_chunks', { query: 'charge invoice' });
+    indexer.close();
+
+    const top = (result.data as ChunkSearchResult[])[0];
+    expect(top?.path).toBe(path.join('src', 'billing.ts'));
+    expect(top?.scoreBreakdown?.fusion).toBe('weighted');
+    expect(top?.scoreBreakdown?.keyword).toBeDefined();
+    expect(top?.scoreBreakdown?.semantic).toBeDefined();
+    expect(result.outputSummary).toContain('weighted');
+  });
+});
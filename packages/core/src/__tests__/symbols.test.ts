@@ -0,0 +1,359 @@
+/**
+ * Symbol Extraction Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  extractOccurrences,
+  extractSymbols,
+  type ExtractedSymbol,
+  type SymbolExtractor,
+} from '../symbols/index.js';
+import { Indexer } from '../indexer/index.js';
+import { createToolRegistry } from '../tools/registry.js';
+import type { SymbolDefinition } from '../symbols/types.js';
+import type { FindReferencesResult } from '../indexer/index.js';
+import Database from 'better-sqlite3';
+import * as path from 'node:path';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+
+/** `kind container.name start-end` for compact assertions */
+function describeSymbols(symbols: ExtractedSymbol[]): string[] {
+  return symbols.map(
+    (s) => `${s.kind} ${s.container ? `${s.container}.` : ''}${s.name} ${s.startLine}-${s.endLine}${s.exported ? ' exported' : ''}`
+  );
+}
+
+describe('extractSymbols', () => {
+  it('should extract TypeScript declarations and class members', () => {
+    const source = [
+      'import { z } from "zod";', // 1
+      'export interface Options {', // 2
+      '  name: string;', // 3
+      '}', // 4
+      'export type Mode = "a" | "b";', // 5
+      'const PATTERN = /{/;', // 6
+      'export const LIMIT = 10;', // 7
+      'const helper = (value: string) => {', // 8
+      '  return `${value} }`;', // 9
+      '};', // 10
+      'export class Registry {', // 11
+      '  private tools = new Map();', // 12
+      '  constructor() {}', // 13
+      '  async run(name: string): Promise<void> {', // 14
+      '    if (name) {', // 15
+      '      this.tools.get(name);', // 16
+      '    }', // 17
+      '  }', // 18
+      '  private reset() {}', // 19
+      '}', // 20
+      'function internal() {}', // 21
+      'export { internal };', // 22
+    ].join('\n');
+
+    expect(describeSymbols(extractSymbols(source, 'typescript'))).toEqual([
+      'interface Options 2-4 exported',
+      'type Mode 5-5 exported',
+      'const LIMIT 7-7 exported',
+      'function helper 8-10',
+      'class Registry 11-20 exported',
+      'method Registry.run 14-18 exported',
+      'method Registry.reset 19-19',
+      'function internal 21-21 exported',
+    ]);
+  });
+
+  it('should extract Python functions, classes, methods and constants', () => {
+    const source = [
+      'MAX_RETRIES = 3', // 1
+      '', // 2
+      'class Client:', // 3
+      '    """Talks to the API."""', // 4
+      '    def send(self, payload):', // 5
+      '        def encode():', // 6
+      '            return payload', // 7
+      '        return encode()', // 8
+      '', // 9
+      '    def _close(self):', // 10
+      '        pass', // 11
+      '', // 12
+      'async def fetch(', // 13
+      '    url,', // 14
+      '):', // 15
+      '    # done', // 16
+      '    return url', // 17
+    ].join('\n');
+
+    expect(describeSymbols(extractSymbols(source, 'python'))).toEqual([
+      'const MAX_RETRIES 1-1 exported',
+      'class Client 3-11 exported',
+      'method Client.send 5-8 exported',
+      'method Client._close 10-11',
+      'function fetch 13-17 exported',
+    ]);
+  });
+
+  it('should extract Go functions, methods and types', () => {
+    const source = [
+      'package server', // 1
+      'type Server struct {', // 2
+      '\taddr string', // 3
+      '}', // 4
+      'type (', // 5
+      '\tHandler interface {', // 6
+      '\t\tServe()', // 7
+      '\t}', // 8
+      '\tid int', // 9
+      ')', // 10
+      'const Version = "1.0"', // 11
+      'func (s *Server) Start() error {', // 12
+      '\treturn nil', // 13
+      '}', // 14
+      'func newServer() *Server { return &Server{} }', // 15
+    ].join('\n');
+
+    expect(describeSymbols(extractSymbols(source, 'go'))).toEqual([
+      'struct Server 2-4 exported',
+      'interface Handler 6-8 exported',
+      'type id 9-9',
+      'const Version 11-11 exported',
+      'method Server.Start 12-14 exported',
+      'function newServer 15-15',
+    ]);
+  });
+
+  it('should extract Rust items and impl methods', () => {
+    const source = [
+      'pub struct Parser<\'a> {', // 1
+      '    input: &\'a str,', // 2
+      '}', // 3
+      'impl<\'a> Parser<\'a> {', // 4
+      '    pub fn new(input: &\'a str) -> Self {', // 5
+      '        Self { input }', // 6
+      '    }', // 7
+      '    fn peek(&self) -> char { \'{\' }', // 8
+      '}', // 9
+      'pub trait Visit {', // 10
+      '    fn visit(&self);', // 11
+      '}', // 12
+      'const MAX: usize = 8;', // 13
+    ].join('\n');
+
+    expect(describeSymbols(extractSymbols(source, 'rust'))).toEqual([
+      'struct Parser 1-3 exported',
+      'method Parser.new 5-7 exported',
+      'method Parser.peek 8-8',
+      'trait Visit 10-12 exported',
+      'method Visit.visit 11-11 exported',
+      'const MAX 13-13',
+    ]);
+  });
+
+  it('should extract Java types, methods and constants', () => {
+    const source = [
+      'package com.example;', // 1
+      '@Service', // 2
+      'public class UserService {', // 3
+      '    public static final int LIMIT = 10;', // 4
+      '    private final Repo repo = new Repo();', // 5
+      '    public UserService() {}', // 6
+      '    public List<User> findAll(String query) {', // 7
+      '        return repo.find(query);', // 8
+      '    }', // 9
+      '    interface Listener {', // 10
+      '        void onChange(User user);', // 11
+      '    }', // 12
+      '}', // 13
+    ].join('\n');
+
+    expect(describeSymbols(extractSymbols(source, 'java'))).toEqual([
+      'class UserService 3-13 exported',
+      'const UserService.LIMIT 4-4 exported',
+      'method UserService.findAll 7-9 exported',
+      'interface UserService.Listener 10-12',
+      'method Listener.onChange 11-11 exported',
+    ]);
+  });
+
+  it('should return nothing for unsupported languages and prefer custom extractors', () => {
+    const custom: SymbolExtractor = {
+      languages: ['ruby'],
+      extract: () => [{ name: 'call', kind: 'method', startLine: 1, endLine: 2, exported: true, signature: 'def call' }],
+    };
+
+    expect(extractSymbols('def call\nend\n', 'ruby')).toEqual([]);
+    expect(extractSymbols('def call\nend\n', 'ruby', [custom])).toHaveLength(1);
+    expect(extractSymbols('export function a() {}', undefined)).toEqual([]);
+  });
+});
+
+describe('extractOccurrences', () => {
+  /** `line role name` for one identifier */
+  function rolesOf(content: string, language: string, name: string): string[] {
+    return extractOccurrences(content, language, extractSymbols(content, language))
+      .filter((o) => o.name === name)
+      .map((o) => `${o.line} ${o.role}`);
+  }
+
+  it('should tell declarations, imports, calls and references apart', () => {
+    const source = [
+      'import {', // 1
+      '  ToolResult,', // 2
+      '  type ToolContext,', // 3
+      '} from "./types.js";', // 4
+      'export { ToolResult as Result } from "./types.js";', // 5
+      '// ToolResult in a comment', // 6
+      'const label = "ToolResult";', // 7
+      'export function wrap(value: unknown): ToolResult {', // 8
+      '  const result = new ToolResult(value);', // 9
+      '  return `${format(result)} ToolResult`;', // 10
+      '}', // 11
+      'export function format(result: ToolResult) {}', // 12
+    ].join('\n');
+
+    expect(rolesOf(source, 'typescript', 'ToolResult')).toEqual(['2 import', '5 import', '8 reference', '9 call', '12 reference']);
+    expect(rolesOf(source, 'typescript', 'format')).toEqual(['10 call', '12 declaration']);
+    expect(rolesOf(source, 'typescript', 'result')).toEqual(['9 declaration', '10 reference', '12 reference']);
+  });
+
+  it('should recognize imports in other languages', () => {
+    expect(rolesOf('from .client import (\n    Client,\n)\nClient().send()\n', 'python', 'Client')).toEqual([
+      '2 import',
+      '4 call',
+    ]);
+    expect(rolesOf('use crate::parser::Parser;\nfn main() { Parser::new(); }\n', 'rust', 'Parser')).toEqual([
+      '1 import',
+      '2 reference',
+    ]);
+    expect(rolesOf('import com.example.UserService;\nclass A { UserService service; }\n', 'java', 'UserService')).toEqual([
+      '1 import',
+      '2 reference',
+    ]);
+  });
+});
+
+describe('Indexer definitions', () => {
+  let testDir: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'repo-wiki-symbols-'));
+    dbPath = path.join(testDir, '.repo-wiki', 'index.db');
+    fs.mkdirSync(path.join(testDir, 'src', '__tests__'), { recursive: true });
+    fs.writeFileSync(
+      path.join(testDir, 'src', 'loop.ts'),
+      'export async function runAgent(config: Config) {\n  return config;\n}\n\nexport class Loop {\n  step() {}\n}\n'
+    );
+    fs.writeFileSync(path.join(testDir, 'src', '__tests__', 'loop.test.ts'), 'function runAgent() {}\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should resolve names to definitions, exported and non-test first', async () => {
+    const indexer = new Indexer({ repoPath: testDir, dbPath });
+    await indexer.indexRepository();
+
+    const definitions = indexer.findDefinitions('runAgent');
+    const qualified = indexer.findDefinitions('Loop.step');
+    const caseInsensitive = indexer.findDefinitions('runagent', { kind: 'function', limit: 1 });
+    indexer.close();
+
+    expect(definitions.map((d) => `${d.path}:${d.startLine}-${d.endLine}`)).toEqual([
+      `${path.join('src', 'loop.ts')}:1-3`,
+      `${path.join('src', '__tests__', 'loop.test.ts')}:1-1`,
+    ]);
+    expect(definitions[0]?.signature).toBe('export async function runAgent(config: Config) {');
+    expect(qualified).toMatchObject([{ name: 'step', kind: 'method', container: 'Loop', startLine: 6 }]);
+    expect(caseInsensitive).toHaveLength(1);
+  });
+
+  it('should replace symbols when files change or are removed', async () => {
+    const indexer = new Indexer({ repoPath: testDir, dbPath });
+    await indexer.indexRepository();
+
+    fs.writeFileSync(path.join(testDir, 'src', 'loop.ts'), 'export function runLoop() {}\n');
+    fs.rmSync(path.join(testDir, 'src', '__tests__', 'loop.test.ts'));
+    await indexer.indexRepository();
+
+    expect(indexer.findDefinitions('runAgent')).toEqual([]);
+    expect(indexer.findDefinitions('runLoop')).toHaveLength(1);
+    indexer.close();
+  });
+
+  it('should backfill symbols in indexes built without them', () => {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    const db = new Database(dbPath.replace('index.db', 'old.db'));
+    db.exec(`
+      CREATE TABLE files (id INTEGER PRIMARY KEY AUTOINCREMENT, path TEXT UNIQUE NOT NULL, content TEXT NOT NULL,
+        last_modified INTEGER NOT NULL);
+      INSERT INTO files (path, content, last_modified) VALUES ('a.ts', 'export class ToolRegistry {}', 0);
+    `);
+    db.close();
+
+    const indexer = new Indexer({ repoPath: testDir, dbPath: dbPath.replace('index.db', 'old.db') });
+    const definitions = indexer.findDefinitions('ToolRegistry');
+    indexer.close();
+
+    expect(definitions).toMatchObject([{ path: 'a.ts', kind: 'class', exported: true }]);
+  });
+
+  it('should find references with roles, context and filters', async () => {
+    fs.writeFileSync(
+      path.join(testDir, 'src', 'main.ts'),
+      'import { runAgent } from "./loop.js";\n\nawait runAgent(config);\n'
+    );
+    const indexer = new Indexer({ repoPath: testDir, dbPath });
+    await indexer.indexRepository();
+
+    const all = indexer.findReferences('runAgent', { contextLines: 1 });
+    const calls = indexer.findReferences('runAgent', { role: 'call', filters: { excludeTests: true } });
+    const qualified = indexer.findReferences('Loop.step');
+    indexer.close();
+
+    expect(all.references.map((r) => `${r.path}:${r.line} ${r.role}`)).toEqual([
+      `${path.join('src', 'loop.ts')}:1 declaration`,
+      `${path.join('src', 'main.ts')}:1 import`,
+      `${path.join('src', 'main.ts')}:3 call`,
+      `${path.join('src', '__tests__', 'loop.test.ts')}:1 declaration`,
+    ]);
+    expect(all.counts).toEqual({ declaration: 2, import: 1, call: 1, reference: 0 });
+    expect(all.files).toBe(3);
+    expect(all.references[2]).toMatchObject({ text: 'await runAgent(config);', before: [''], after: [''] });
+    expect(calls.references).toHaveLength(1);
+    expect(qualified.references).toMatchObject([{ line: 6, role: 'declaration' }]);
+  });
+
+  it('should expose references through find_references', async () => {
+    const indexer = new Indexer({ repoPath: testDir, dbPath });
+    await indexer.indexRepository();
+
+    const result = await createToolRegistry(testDir, indexer).executeToolCall('find_references', {
+      name: 'runAgent',
+      limit: 1,
+    });
+    indexer.close();
+
+    expect(result.success).toBe(true);
+    expect((result.data as FindReferencesResult).references).toHaveLength(1);
+    expect(result.outputSummary).toContain('2 declarations, 0 imports, 0 calls, 0 other references in 2 files (showing 1 of 2)');
+    expect(result.outputSummary).toContain(`${path.join('src', 'loop.ts')}:1: [declaration] export async function runAgent`);
+  });
+
+  it('should expose definitions through find_definition', async () => {
+    const indexer = new Indexer({ repoPath: testDir, dbPath });
+    await indexer.indexRepository();
+
+    const registry = createToolRegistry(testDir, indexer);
+    const found = await registry.executeToolCall('find_definition', { name: 'runAgent', limit: 1 });
+    const missing = await registry.executeToolCall('find_definition', { name: 'missingSymbol' });
+    indexer.close();
+
+    expect(found.success).toBe(true);
+    expect(found.data as SymbolDefinition[]).toHaveLength(1);
+    expect(found.outputSummary).toContain(`${path.join('src', 'loop.ts')}:1-3 function runAgent (exported)`);
+    expect(missing.outputSummary).toContain('No definition found');
+  });
+});
@@ -46,7 +46,15 @@ export function bar() {
       expect(names).toContain('graph_neighbors');
       expect(names).toContain('list_files');
       expect(names).toContain('get_repo_summary');
-      expect(names.length).toBe(5);
+      expect(names).toContain('grep');
+      expect(names).toContain('find_definition');
+      expect(names).toContain('find_references');
+      expect(names).toContain('type_hierarchy');
+      expect(names).toContain('list_packages');
+      expect(names).toContain('git_log');
+      expect(names).toContain('git_blame');
+      expect(names).toContain('search_history');
+      expect(names.length).toBe(13);
     });
   });
 
@@ -65,7 +73,7 @@ export function bar() {
     it('should return schemas for all tools', () => {
       const schemas = registry.getToolSchemas();
       
-      expect(schemas.length).toBe(5);
+      expect(schemas.length).toBe(13);
       
       const searchSchema = schemas.find((s) => s.name === 'search_chunks');
       expect(searchSchema).toBeDefined();
@@ -142,6 +150,74 @@ export function bar() {
     });
   });
 
+  describe('executeToolCall - grep', () => {
+    it('should return path:line matches from the working tree', async () => {
+      const result = await registry.executeToolCall('grep', { pattern: 'return foo\\(\\)' });
+
+      expect(result.success).toBe(true);
+      expect(result.outputSummary).toContain('test.ts:3:   return foo();');
+      expect(result.data).toMatchObject({ matches: [{ path: 'test.ts', line: 3 }], truncated: false });
+    });
+
+    it('should apply glob, case and context options', async () => {
+      const result = await registry.executeToolCall('grep', {
+        pattern: 'HELLO',
+        glob: 'foo.*',
+        ignoreCase: true,
+        contextLines: 1,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({
+        matches: [{ path: 'foo.ts', line: 2, before: ['export function foo() {'], after: ['}'] }],
+      });
+      expect(result.outputSummary).toContain('foo.ts-1- export function foo() {');
+    });
+
+    it('should report truncation at maxMatches', async () => {
+      const result = await registry.executeToolCall('grep', { pattern: 'function', maxMatches: 1 });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({ truncated: true });
+      expect(result.outputSummary).toContain('limit of 1 reached');
+    });
+
+    it('should reject invalid patterns and globs outside the repository', async () => {
+      const invalid = await registry.executeToolCall('grep', { pattern: '(' });
+      const outside = await registry.executeToolCall('grep', { pattern: 'foo', glob: '../**/*.ts' });
+
+      expect(invalid.success).toBe(false);
+      expect(invalid.outputSummary).toContain('Invalid regular expression');
+      expect(outside.success).toBe(false);
+      expect(outside.outputSummary).toContain('Access denied');
+    });
+  });
+
+  describe('configured ignore patterns', () => {
+    it('should leave files ignored by index.ignore out of list_files and grep', async () => {
+      fs.mkdirSync(path.join(testDir, 'vendor'));
+      fs.writeFileSync(path.join(testDir, 'vendor', 'lib.ts'), 'export function lib() {\n  return foo();\n}\n');
+      const paths = async () => {
+        const files = await registry.executeToolCall('list_files', { glob: '**/*.ts' });
+        const grep = await registry.executeToolCall('grep', { pattern: 'return foo\\(\\)' });
+        return {
+          files: (files.data as Array<{ path: string }>).map((file) => file.path).sort(),
+          matches: (grep.data as { matches: Array<{ path: string }> }).matches.map((match) => match.path),
+        };
+      };
+
+      const before = await paths();
+      registry.updateContext({ ignore: ['vendor/'] });
+      const after = await paths();
+
+      expect(before).toEqual({
+        files: ['foo.ts', 'test.ts', path.join('vendor', 'lib.ts')],
+        matches: ['test.ts', path.join('vendor', 'lib.ts')],
+      });
+      expect(after).toEqual({ files: ['foo.ts', 'test.ts'], matches: ['test.ts'] });
+    });
+  });
+
   describe('executeToolCall - graph_neighbors', () => {
     it('should find import relationships', async () => {
       const result = await registry.executeToolCall('graph_neighbors', {
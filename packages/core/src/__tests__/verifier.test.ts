@@ -13,6 +13,7 @@ import type { Source, AgentConfig } from '../types.js';
 import * as path from 'node:path';
 import * as fs from 'node:fs';
 import * as os from 'node:os';
+import { execFileSync } from 'node:child_process';
 
 describe('verifySources', () => {
   let testDir: string;
@@ -133,6 +134,10 @@ describe('formatSources', () => {
     expect(formatted).toContain('src/utils.ts:1-15');
   });
 
+  it('should format commit sources', () => {
+    expect(formatSources([{ kind: 'commit', commit: 'a1b2c3d' }])).toBe('- commit a1b2c3d');
+  });
+
   it('should return "No sources" for empty array', () => {
     const formatted = formatSources([]);
     
@@ -217,4 +222,23 @@ describe('verifyMarkdownSources', () => {
     expect(result.valid).toBe(false);
     expect(result.errors[0]).toContain('No valid sources');
   });
+
+  it('should accept commit SHAs that exist in the repository', () => {
+    const identity = ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', '-c', 'commit.gpgsign=false'];
+    execFileSync('git', ['init', '-q'], { cwd: testDir });
+    execFileSync('git', ['add', '-A'], { cwd: testDir });
+    execFileSync('git', [...identity, 'commit', '-q', '-m', 'Initial'], { cwd: testDir });
+    const sha = execFileSync('git', ['rev-parse', 'HEAD'], { cwd: testDir, encoding: 'utf-8' }).trim();
+
+    const markdown = `Answer\n\n## Sources\n- \`index.ts\`:1-1\n- \`${sha.slice(0, 7)}\` Initial commit\n`;
+    expect(parseSourcesFromMarkdown(markdown)).toEqual([
+      { path: 'index.ts', startLine: 1, endLine: 1 },
+      { kind: 'commit', commit: sha.slice(0, 7) },
+    ]);
+    expect(verifyMarkdownSources(markdown, testDir).valid).toBe(true);
+
+    const unknown = verifyMarkdownSources('## Sources\n- `0123456789abcdef`\n', testDir);
+    expect(unknown.valid).toBe(false);
+    expect(unknown.errors[0]).toContain('commit not found');
+  });
 });
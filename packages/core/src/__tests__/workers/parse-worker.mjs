@@ -0,0 +1,8 @@
+/**
+ * Test entry for the parse worker: runs indexer/parse-worker.ts from source
+ */
+
+import { register } from 'node:module';
+
+register('./typescript-hooks.mjs', import.meta.url);
+await import('../../indexer/parse-worker.ts');
@@ -0,0 +1,26 @@
+/**
+ * Module hooks that load the TypeScript sources directly, transpiling each
+ * file on import. Lets worker threads run source modules without a build.
+ */
+
+import * as fs from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import ts from 'typescript';
+
+export async function resolve(specifier, context, nextResolve) {
+  // Sources import each other by their compiled `.js` names
+  if (/^\.\.?\//.test(specifier) && specifier.endsWith('.js') && context.parentURL?.endsWith('.ts')) {
+    const url = new URL(specifier.replace(/\.js$/, '.ts'), context.parentURL);
+    if (fs.existsSync(fileURLToPath(url))) return { url: url.href, shortCircuit: true };
+  }
+  return nextResolve(specifier, context);
+}
+
+export async function load(url, context, nextLoad) {
+  if (!url.endsWith('.ts')) return nextLoad(url, context);
+  const { outputText } = ts.transpileModule(fs.readFileSync(fileURLToPath(url), 'utf-8'), {
+    fileName: fileURLToPath(url),
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+  });
+  return { format: 'module', source: outputText, shortCircuit: true };
+}
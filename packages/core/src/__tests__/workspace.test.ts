@@ -0,0 +1,263 @@
+/**
+ * Workspace Discovery Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { discoverWorkspace } from '../workspace/index.js';
+import { ImportResolver } from '../graph/index.js';
+import { Indexer } from '../indexer/index.js';
+import { createToolRegistry } from '../tools/registry.js';
+import type { WorkspacePackage } from '../workspace/types.js';
+import * as path from 'node:path';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+
+function writeFiles(root: string, files: Record<string, string>): void {
+  for (const [file, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+    fs.writeFileSync(path.join(root, file), content);
+  }
+}
+
+/** Package fields with POSIX paths for compact assertions */
+function describePackages(packages: WorkspacePackage[]) {
+  const posix = (file: string) => file.split(path.sep).join('/');
+  return packages.map((pkg) => ({
+    name: pkg.name,
+    kind: pkg.kind,
+    path: posix(pkg.path),
+    entryPoints: pkg.entryPoints.map(posix),
+    dependencies: pkg.dependencies,
+  }));
+}
+
+const p = (file: string) => file.split('/').join(path.sep);
+
+describe('discoverWorkspace', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'repo-wiki-workspace-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should discover npm workspaces with source entry points and internal dependencies', () => {
+    writeFiles(testDir, {
+      'package.json': JSON.stringify({ name: 'root', private: true, workspaces: ['packages/*'] }),
+      'packages/core/package.json': JSON.stringify({
+        name: '@acme/core',
+        version: '1.2.0',
+        main: 'dist/index.js',
+        types: 'dist/index.d.ts',
+        dependencies: { zod: '^3' },
+      }),
+      'packages/core/src/index.ts': 'export const core = 1;\n',
+      'packages/core/dist/index.js': 'exports.core = 1;\n',
+      'packages/cli/package.json': JSON.stringify({
+        name: '@acme/cli',
+        bin: { acme: './bin/cli.js' },
+        dependencies: { '@acme/core': 'workspace:*', commander: '^11' },
+      }),
+      'packages/cli/bin/cli.js': '#!/usr/bin/env node\n',
+      'packages/cli/node_modules/dep/package.json': JSON.stringify({ name: 'dep' }),
+    });
+
+    const packages = discoverWorkspace(testDir);
+
+    expect(describePackages(packages)).toEqual([
+      {
+        name: '@acme/cli',
+        kind: 'npm',
+        path: 'packages/cli',
+        entryPoints: ['packages/cli/bin/cli.js'],
+        dependencies: ['@acme/core'],
+      },
+      {
+        name: '@acme/core',
+        kind: 'npm',
+        path: 'packages/core',
+        entryPoints: ['packages/core/src/index.ts'],
+        dependencies: [],
+      },
+    ]);
+    expect(packages[1]?.version).toBe('1.2.0');
+  });
+
+  it('should read pnpm-workspace.yaml and treat a repository without workspaces as one package', () => {
+    writeFiles(testDir, {
+      'pnpm-workspace.yaml': "packages:\n  - 'apps/*'\n  - '!apps/legacy'\n",
+      'apps/web/package.json': JSON.stringify({ name: 'web' }),
+      'apps/web/src/index.tsx': 'export {};\n',
+      'apps/legacy/package.json': JSON.stringify({ name: 'legacy' }),
+    });
+    expect(describePackages(discoverWorkspace(testDir))).toEqual([
+      { name: 'web', kind: 'npm', path: 'apps/web', entryPoints: ['apps/web/src/index.tsx'], dependencies: [] },
+    ]);
+
+    const single = fs.mkdtempSync(path.join(os.tmpdir(), 'repo-wiki-workspace-'));
+    try {
+      writeFiles(single, { 'package.json': JSON.stringify({ name: 'solo' }), 'index.js': '' });
+      expect(describePackages(discoverWorkspace(single))).toEqual([
+        { name: 'solo', kind: 'npm', path: '.', entryPoints: ['index.js'], dependencies: [] },
+      ]);
+    } finally {
+      fs.rmSync(single, { recursive: true, force: true });
+    }
+  });
+
+  it('should discover Cargo workspaces, Go modules and Python projects', () => {
+    writeFiles(testDir, {
+      'Cargo.toml': '[workspace]\nmembers = [\n  "crates/*", # all crates\n]\nexclude = ["crates/scratch"]\n',
+      'crates/net-core/Cargo.toml': '[package]\nname = "net-core"\nversion = "0.1.0"\n\n[dependencies]\nserde = "1"\n',
+      'crates/net-core/src/lib.rs': 'pub fn connect() {}\n',
+      'crates/app/Cargo.toml':
+        '[package]\nname = "app"\n\n[dependencies.net_core]\npath = "../net-core"\n\n[[bin]]\nname = "app"\npath = "src/bin/app.rs"\n',
+      'crates/app/src/bin/app.rs': 'fn main() {}\n',
+      'crates/scratch/Cargo.toml': '[package]\nname = "scratch"\n',
+      'go.work': 'go 1.21\n\nuse (\n  ./svc\n  ./lib // shared\n)\n',
+      'svc/go.mod': 'module example.com/svc\n\nrequire (\n  example.com/lib v0.0.0\n  github.com/pkg/errors v0.9.1\n)\n',
+      'svc/cmd/server/main.go': 'package main\n',
+      'lib/go.mod': 'module example.com/lib\n',
+      'lib/lib.go': 'package lib\n',
+      'lib/lib_test.go': 'package lib\n',
+      'py/core/pyproject.toml': '[project]\nname = "Acme_Core"\n',
+      'py/core/src/acme_core/__init__.py': '',
+      'py/api/pyproject.toml': '[project]\nname = "acme-api"\ndependencies = [\n  "acme-core>=1.0",\n  "fastapi",\n]\n',
+      'py/api/acme_api/__init__.py': '',
+    });
+
+    expect(describePackages(discoverWorkspace(testDir))).toEqual([
+      { name: 'app', kind: 'cargo', path: 'crates/app', entryPoints: ['crates/app/src/bin/app.rs'], dependencies: ['net-core'] },
+      {
+        name: 'net-core',
+        kind: 'cargo',
+        path: 'crates/net-core',
+        entryPoints: ['crates/net-core/src/lib.rs'],
+        dependencies: [],
+      },
+      { name: 'example.com/lib', kind: 'go', path: 'lib', entryPoints: ['lib/lib.go'], dependencies: [] },
+      {
+        name: 'acme-api',
+        kind: 'python',
+        path: 'py/api',
+        entryPoints: ['py/api/acme_api/__init__.py'],
+        dependencies: ['Acme_Core'],
+      },
+      {
+        name: 'Acme_Core',
+        kind: 'python',
+        path: 'py/core',
+        entryPoints: ['py/core/src/acme_core/__init__.py'],
+        dependencies: [],
+      },
+      {
+        name: 'example.com/svc',
+        kind: 'go',
+        path: 'svc',
+        entryPoints: ['svc/cmd/server/main.go'],
+        dependencies: ['example.com/lib'],
+      },
+    ]);
+  });
+
+  it('should resolve workspace package names to in-repo files', () => {
+    writeFiles(testDir, {
+      'package.json': JSON.stringify({ workspaces: ['packages/*'] }),
+      'packages/core/package.json': JSON.stringify({ name: '@acme/core', main: 'dist/index.js' }),
+      'Cargo.toml': '[workspace]\nmembers = ["crates/net-core"]\n',
+      'crates/net-core/Cargo.toml': '[package]\nname = "net-core"\n',
+      'go.work': 'use ./lib\n',
+      'lib/go.mod': 'module example.com/lib\n',
+    });
+    const files = [
+      'packages/core/src/index.ts',
+      'packages/core/src/tools/index.ts',
+      'crates/net-core/src/lib.rs',
+      'crates/net-core/src/client.rs',
+    ].map(p);
+    for (const file of files) writeFiles(testDir, { [file]: '' });
+    const resolver = new ImportResolver(testDir, files, discoverWorkspace(testDir));
+
+    expect(resolver.resolve(p('apps/web/main.ts'), '@acme/core', 'typescript')).toBe(p('packages/core/src/index.ts'));
+    expect(resolver.resolve(p('apps/web/main.ts'), '@acme/core/tools', 'typescript')).toBe(
+      p('packages/core/src/tools/index.ts')
+    );
+    expect(resolver.resolve(p('apps/web/main.ts'), '@acme/other', 'typescript')).toBe('@acme/other');
+    expect(resolver.resolve(p('app/src/main.rs'), 'net_core::client::Client', 'rust')).toBe(
+      p('crates/net-core/src/client.rs')
+    );
+    expect(resolver.resolve(p('app/src/main.rs'), 'net_core::connect', 'rust')).toBe(p('crates/net-core/src/lib.rs'));
+    expect(resolver.resolve(p('svc/main.go'), 'example.com/lib/util', 'go')).toBe(p('lib/util'));
+  });
+});
+
+describe('Workspace graph and list_packages', () => {
+  let testDir: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'repo-wiki-workspace-'));
+    dbPath = path.join(testDir, '.repo-wiki', 'index.db');
+    writeFiles(testDir, {
+      'package.json': JSON.stringify({ private: true, workspaces: ['packages/*'] }),
+      'packages/core/package.json': JSON.stringify({ name: '@acme/core', version: '1.0.0', main: 'dist/index.js' }),
+      'packages/core/src/index.ts': "export { runAgent } from './loop.js';\n",
+      'packages/core/src/loop.ts': 'export function runAgent() {}\n',
+      'packages/cli/package.json': JSON.stringify({ name: '@acme/cli', dependencies: { '@acme/core': '*' } }),
+      'packages/cli/src/index.ts': "import { runAgent } from '@acme/core';\n\nexport function main() {\n  runAgent();\n}\n",
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should link imports and calls across packages', async () => {
+    const indexer = new Indexer({ repoPath: testDir, dbPath });
+    await indexer.indexRepository();
+
+    const imports = indexer.graphNeighbors(p('packages/cli/src/index.ts'), { direction: 'outgoing', relations: ['imports'] });
+    const calls = indexer.graphNeighbors(p('packages/cli/src/index.ts#main'), { direction: 'outgoing', relations: ['calls'] });
+    indexer.close();
+
+    expect(imports.map((n) => n.node.id)).toEqual([p('packages/core/src/index.ts')]);
+    expect(calls.map((n) => n.node.id)).toEqual([`${p('packages/core/src/loop.ts')}#runAgent`]);
+  });
+
+  it('should discover packages again when a manifest changes', async () => {
+    writeFiles(testDir, { 'packages/core/package.json': JSON.stringify({ name: '@acme/engine', main: 'dist/index.js' }) });
+    const indexer = new Indexer({ repoPath: testDir, dbPath });
+    await indexer.indexRepository();
+    const imports = () =>
+      indexer
+        .graphNeighbors(p('packages/cli/src/index.ts'), { direction: 'outgoing', relations: ['imports'] })
+        .map((n) => n.node.id);
+    const before = imports();
+
+    writeFiles(testDir, { 'packages/core/package.json': JSON.stringify({ name: '@acme/core', main: 'dist/index.js' }) });
+    await indexer.updatePaths([p('packages/core/package.json')]);
+    const after = imports();
+    indexer.close();
+
+    expect(before).toEqual(['@acme/core']);
+    expect(after).toEqual([p('packages/core/src/index.ts')]);
+  });
+
+  it('should list packages through the list_packages tool', async () => {
+    const registry = createToolRegistry(testDir);
+
+    const result = await registry.executeToolCall('list_packages', {});
+    const filtered = await registry.executeToolCall('list_packages', { kind: 'cargo' });
+
+    expect(result.success).toBe(true);
+    expect(result.outputSummary).toContain('Found 2 packages:');
+    expect(result.outputSummary).toContain(`- @acme/cli (${p('packages/cli')}) [npm]`);
+    expect(result.outputSummary).toContain(`  depends on: @acme/core`);
+    expect(result.outputSummary).toContain(`- @acme/core (${p('packages/core')}) [npm 1.0.0]`);
+    expect(result.outputSummary).toContain(`  entry points: ${p('packages/core/src/index.ts')}`);
+    expect(filtered.outputSummary).toContain('No cargo packages found');
+  });
+});
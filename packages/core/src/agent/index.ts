@@ -12,7 +12,7 @@ import type {
   DEFAULT_AGENT_CONFIG,
 } from '../types.js';
 import { LLMClient } from '../llm/index.js';
-import { Indexer } from '../indexer/index.js';
+import { Indexer, type IndexResult } from '../indexer/index.js';
 import { executeTool, type ToolContext } from './tools.js';
 import { verifySources, createVerificationErrorPrompt, formatSources } from './verifier.js';
 
@@ -193,7 +193,7 @@ export class Agent {
   /**
    * Index the repository before running queries
    */
-  async indexRepository(): Promise<{ indexed: number; skipped: number }> {
+  async indexRepository(): Promise<IndexResult> {
     return this.indexer.indexRepository();
   }
 
@@ -5,6 +5,8 @@
 
 import type { Source } from '../types.js';
 import type { LlmProvider, ToolCallResult } from '../llm/types.js';
+import type { EmbeddingProvider } from '../embeddings/types.js';
+import type { FusionOptions } from '../indexer/ranking.js';
 
 // ============================================================================
 // Agent Configuration
@@ -25,6 +27,12 @@ export interface AgentLoopConfig {
   maxExcerptLines?: number;
   /** Maximum characters for tool output in context (default: 8000) */
   maxToolOutputChars?: number;
+  /** Embedding provider for semantic search (optional) */
+  embeddingProvider?: EmbeddingProvider;
+  /** Hybrid search fusion defaults (default: equal-weight RRF) */
+  ranking?: FusionOptions;
+  /** Extra gitignore-style patterns (`index.ignore`), shared by the indexer and the tools */
+  ignore?: string[];
   /** Enable verbose logging */
   verbose?: boolean;
 }
@@ -22,6 +22,8 @@ import type {
   ContextMessage,
 } from './loop-types.js';
 import { DEFAULT_AGENT_LOOP_CONFIG } from './loop-types.js';
+import { COMMIT_SOURCE_PATTERN } from './verifier.js';
+import { resolveCommit } from '../git/index.js';
 
 // ============================================================================
 // Main Agent Loop Function
@@ -42,9 +44,13 @@ export async function runAgent(config: AgentLoopConfig): Promise<AgentLoopResult
   const indexer = new Indexer({
     repoPath: config.repoRoot,
     dbPath: config.dbPath,
+    embeddings: config.embeddingProvider,
+    ranking: config.ranking,
+    ignore: config.ignore,
   });
 
   const toolRegistry = createToolRegistry(config.repoRoot, indexer);
+  toolRegistry.updateContext({ maxOutputChars: maxToolOutputChars, ignore: config.ignore });
   const toolSchemas = toolRegistry.getToolSchemas();
 
   // Build system prompt
@@ -372,8 +378,18 @@ function verifySourcesInAnswer(
     sources.push({ path, startLine, endLine });
   }
 
+  // Commits cited from git_log / git_blame: - `a1b2c3d`
+  for (const [, commit] of sourcesSection.matchAll(COMMIT_SOURCE_PATTERN)) {
+    foundAny = true;
+    if (!resolveCommit(repoRoot, commit!)) {
+      errors.push(`Commit ${commit} not found in repository`);
+      continue;
+    }
+    sources.push({ kind: 'commit', commit: commit! });
+  }
+
   if (!foundAny) {
-    errors.push('No valid sources found. Format must be: - `path/to/file`:startLine-endLine');
+    errors.push('No valid sources found. Format must be: - `path/to/file`:startLine-endLine or - `commitSha`');
   }
 
   return {
@@ -52,15 +52,18 @@ Your final answer MUST include a "## Sources" section with:
 - At least ONE source
 - Each source in format: \`- \\\`file/path\\\`:startLine-endLine\`
 - Sources must reference files and lines you actually examined
+- A commit you examined with \`git_log\`, \`git_blame\` or \`search_history\` may be cited by its SHA: \`- \\\`a1b2c3d\\\`\`
 - WITHOUT valid sources, your answer will be REJECTED and you must try again
 
 ## Workflow
 
 1. Understand the question
-2. Use \`search_chunks\` to find relevant code
-3. Use \`get_excerpt\` to read specific sections
-4. Use \`list_files\` or \`graph_neighbors\` if needed
-5. When you have enough evidence, respond with DONE + answer + Sources
+2. If the question names a function, class or type, use \`find_definition\` to jump straight to it
+3. Use \`search_chunks\` to find relevant code (narrow it with \`kind\`, \`language\`, \`pathPrefix\` or \`excludeTests\` when looking for implementation code); use \`grep\` for exact identifiers or strings, e.g. every call site of a function
+4. Use \`get_excerpt\` to read specific sections
+5. Use \`list_files\` if needed, or \`graph_neighbors\` to see what a file imports and what depends on it, or what a function ("path#name") calls and is called by; use \`find_references\` to see where a symbol is imported, called or used; use \`type_hierarchy\` to list what implements or extends an interface or class; in a monorepo, use \`list_packages\` to find where a package lives and what it depends on
+6. For "why" and "who" questions about history, use \`git_blame\` on the lines in question and \`git_log\` for the commits that changed a file; for "when did we switch from X to Y" questions, use \`search_history\` to find the commits that added or removed X
+7. When you have enough evidence, respond with DONE + answer + Sources
 
 ## Example Final Answer
 
@@ -97,7 +100,7 @@ ${errors.map((e) => `- ${e}`).join('\n')}
 You MUST:
 1. Use tools to find and examine relevant code
 2. Provide a new answer with a proper "## Sources" section
-3. Each source must be in format: \`- \\\`file/path\\\`:startLine-endLine\`
+3. Each source must be in format: \`- \\\`file/path\\\`:startLine-endLine\` (or \`- \\\`commitSha\\\`\` for a commit)
 
 Use search_chunks or get_excerpt to gather evidence, then provide your answer with DONE.`;
 }
@@ -6,6 +6,10 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import type { Source, VerificationResult, AgentConfig } from '../types.js';
+import { resolveCommit } from '../git/index.js';
+
+/** `- \`a1b2c3d\`` with no line range: a commit cited as a source */
+export const COMMIT_SOURCE_PATTERN = /^[ \t]*[-*]\s*`([0-9a-f]{7,40})`(?!\s*:\s*\d)/gim;
 
 /**
  * Verify that sources are valid and exist
@@ -25,6 +29,14 @@ export function verifySources(
   }
 
   for (const source of sources) {
+    // Commits cited from git history must exist in the repository
+    if (source.kind === 'commit') {
+      if (!resolveCommit(config.repoPath, source.commit)) {
+        errors.push(`Source ${source.commit}: commit not found in repository`);
+      }
+      continue;
+    }
+
     // Validate source structure
     if (!source.path) {
       errors.push('Source missing path');
@@ -93,7 +105,7 @@ export function formatSources(sources: Source[]): string {
   }
 
   return sources
-    .map((s) => `- ${s.path}:${s.startLine}-${s.endLine}`)
+    .map((s) => (s.kind === 'commit' ? `- commit ${s.commit}` : `- ${s.path}:${s.startLine}-${s.endLine}`))
     .join('\n');
 }
 
@@ -112,13 +124,14 @@ Please try again with a valid answer that includes:
    - path: relative file path that exists in the repository
    - startLine: starting line number (>= 1)
    - endLine: ending line number (>= startLine)
+   Commits from git history may be cited by their SHA instead.
 
 Use the search_index or read_file tools to find relevant code first.`;
 }
 
 /**
  * Parse sources from markdown answer text
- * Expects format: - `path/to/file`:10-25
+ * Expects format: - `path/to/file`:10-25, or - `a1b2c3d` for a commit
  */
 export function parseSourcesFromMarkdown(answerMd: string): Source[] {
   const sources: Source[] = [];
@@ -148,6 +161,10 @@ export function parseSourcesFromMarkdown(answerMd: string): Source[] {
     }
   }
 
+  for (const commit of sourcesSection.matchAll(COMMIT_SOURCE_PATTERN)) {
+    sources.push({ kind: 'commit', commit: commit[1]! });
+  }
+
   return sources;
 }
 
@@ -163,7 +180,7 @@ export function verifyMarkdownSources(
   if (sources.length === 0) {
     return {
       valid: false,
-      errors: ['No valid sources found in answer. Format: - `path/to/file`:startLine-endLine'],
+      errors: ['No valid sources found in answer. Format: - `path/to/file`:startLine-endLine or - `commitSha`'],
     };
   }
 
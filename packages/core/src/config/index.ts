@@ -0,0 +1,183 @@
+/**
+ * Project Configuration
+ * Loads `repowiki.config.(json|ts|mjs|js)` from the repository root
+ *
+ * The config file supplies defaults for indexing and the agent; explicit
+ * options (e.g. CLI flags) always take precedence over it.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { z } from 'zod';
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+const ExtensionSchema = z
+  .string()
+  .min(1)
+  .transform((ext) => (ext.startsWith('.') ? ext : `.${ext}`).toLowerCase());
+
+export const IndexConfigSchema = z
+  .object({
+    includeExtensions: z.array(ExtensionSchema).optional().describe('Extensions indexed in addition to the defaults'),
+    excludeExtensions: z.array(ExtensionSchema).optional().describe('Default extensions that should not be indexed'),
+    ignore: z.array(z.string()).optional().describe('Extra gitignore-style patterns'),
+    maxFileSize: z.number().int().positive().optional().describe('Files larger than this (bytes) are skipped'),
+    history: z
+      .union([
+        z.boolean(),
+        z
+          .object({
+            maxCommits: z.number().int().positive().optional().describe('Newest commits to keep in the index'),
+          })
+          .strict(),
+      ])
+      .optional()
+      .describe('Also index commit messages and diffs for search_history'),
+    workers: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe('Worker threads that read and parse files (0 parses on the main thread)'),
+  })
+  .strict();
+
+export const EmbeddingsConfigSchema = z
+  .object({
+    provider: z.enum(['ollama', 'openai', 'openai-compatible', 'local']).describe('Embedding provider'),
+    model: z.string().min(1).optional().describe('Embedding model (provider default when omitted)'),
+    baseUrl: z.string().url().optional().describe('Base URL for local/custom embedding servers'),
+  })
+  .strict();
+
+export const SearchConfigSchema = z
+  .object({
+    fusion: z.enum(['rrf', 'weighted']).optional().describe('How keyword and semantic rankings are merged'),
+    keywordWeight: z.number().min(0).optional().describe('Weight of the keyword (BM25) ranking'),
+    semanticWeight: z.number().min(0).optional().describe('Weight of the semantic (embedding) ranking'),
+    rrfK: z.number().positive().optional().describe('Reciprocal rank fusion constant'),
+  })
+  .strict();
+
+export const RepoWikiConfigSchema = z
+  .object({
+    index: IndexConfigSchema.optional(),
+    embeddings: EmbeddingsConfigSchema.optional().describe('Enables semantic search when set'),
+    search: SearchConfigSchema.optional().describe('Hybrid ranking defaults'),
+    provider: z
+      .enum(['openai', 'anthropic', 'ollama', 'lmstudio', 'together', 'groq', 'openai-compatible'])
+      .optional()
+      .describe('Default LLM provider'),
+    model: z.string().min(1).optional().describe('Default LLM model'),
+    baseUrl: z.string().url().optional().describe('Base URL for local/custom providers'),
+    maxSteps: z.number().int().min(1).max(50).optional().describe('Maximum agent steps'),
+    maxToolOutputChars: z.number().int().min(500).optional().describe('Maximum characters per tool output'),
+    wiki: z
+      .object({
+        outDir: z.string().min(1).optional().describe('Wiki output directory, relative to the repository root'),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+export type IndexConfig = z.infer<typeof IndexConfigSchema>;
+export type EmbeddingsConfig = z.infer<typeof EmbeddingsConfigSchema>;
+export type SearchConfig = z.infer<typeof SearchConfigSchema>;
+export type RepoWikiConfig = z.infer<typeof RepoWikiConfigSchema>;
+
+/**
+ * Identity helper that gives `repowiki.config.ts` files type checking
+ */
+export function defineConfig(config: z.input<typeof RepoWikiConfigSchema>): z.input<typeof RepoWikiConfigSchema> {
+  return config;
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/** Candidate file names, in lookup order */
+export const CONFIG_FILE_NAMES = [
+  'repowiki.config.json',
+  'repowiki.config.ts',
+  'repowiki.config.mjs',
+  'repowiki.config.js',
+] as const;
+
+export interface LoadedConfig {
+  /** Validated configuration (empty when no file exists) */
+  config: RepoWikiConfig;
+  /** Absolute path of the file the config was read from */
+  configPath?: string;
+}
+
+/**
+ * Find the config file for a repository, if any
+ */
+export function findConfigFile(repoPath: string): string | undefined {
+  for (const fileName of CONFIG_FILE_NAMES) {
+    const candidate = path.join(path.resolve(repoPath), fileName);
+    if (fs.existsSync(candidate)) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Load and validate the repository's config file
+ * Returns an empty config when the repository has none.
+ */
+export async function loadConfig(repoPath: string): Promise<LoadedConfig> {
+  const configPath = findConfigFile(repoPath);
+  if (!configPath) {
+    return { config: {} };
+  }
+
+  const raw = configPath.endsWith('.json')
+    ? readJsonConfig(configPath)
+    : await importModuleConfig(configPath);
+
+  const validation = RepoWikiConfigSchema.safeParse(raw);
+  if (!validation.success) {
+    const errors = validation.error.errors
+      .map((e) => `${e.path.join('.') || '(root)'}: ${e.message}`)
+      .join('; ');
+    throw new Error(`Invalid config in ${path.basename(configPath)}: ${errors}`);
+  }
+
+  return { config: validation.data, configPath };
+}
+
+function readJsonConfig(configPath: string): unknown {
+  try {
+    return JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(
+      `Failed to parse ${path.basename(configPath)}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+async function importModuleConfig(configPath: string): Promise<unknown> {
+  try {
+    const mod = (await import(pathToFileURL(configPath).href)) as { default?: unknown };
+    return mod.default ?? mod;
+  } catch (error) {
+    const code = (error as { code?: string }).code;
+    if (configPath.endsWith('.ts') && code === 'ERR_UNKNOWN_FILE_EXTENSION') {
+      throw new Error(
+        `Cannot load ${path.basename(configPath)}: this Node.js version cannot import TypeScript files. ` +
+        `Use Node.js 22.6+ with --experimental-strip-types, or rename it to repowiki.config.json.`
+      );
+    }
+    throw new Error(
+      `Failed to load ${path.basename(configPath)}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Shared JSON POST helper for remote embedding providers
+ */
+
+export interface PostJsonOptions {
+  /** Request timeout in ms */
+  timeout: number;
+  /** Extra headers (e.g. Authorization) */
+  headers?: Record<string, string>;
+  /** Used in connection error messages */
+  serverName: string;
+}
+
+export async function postJson<T>(url: string, body: unknown, options: PostJsonOptions): Promise<T> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), options.timeout);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...options.headers },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Embedding API error (${response.status}): ${errorText}`);
+    }
+
+    return (await response.json()) as T;
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.name === 'AbortError') {
+        throw new Error(`Embedding request timed out after ${options.timeout}ms`);
+      }
+      const cause = (error as { cause?: { code?: string } }).cause;
+      if (error.message.includes('ECONNREFUSED') || cause?.code === 'ECONNREFUSED') {
+        throw new Error(`Cannot connect to ${options.serverName}. Make sure the server is running.`);
+      }
+      throw error;
+    }
+    throw new Error(`Embedding request failed: ${String(error)}`);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Embeddings for semantic search
+ */
+
+import type { EmbeddingProvider, EmbeddingProviderConfig } from './types.js';
+import { OllamaEmbeddingProvider } from './ollama-embedding-provider.js';
+import { OpenAICompatibleEmbeddingProvider } from './openai-compatible-embedding-provider.js';
+import { LocalEmbeddingProvider } from './local-embedding-provider.js';
+
+export * from './types.js';
+export { OllamaEmbeddingProvider } from './ollama-embedding-provider.js';
+export { OpenAICompatibleEmbeddingProvider } from './openai-compatible-embedding-provider.js';
+export { LocalEmbeddingProvider, type LocalEmbeddingProviderConfig } from './local-embedding-provider.js';
+export { cosineSimilarity, normalizeVector, vectorToBlob, blobToVector } from './vector.js';
+
+/**
+ * Supported embedding provider types
+ */
+export type EmbeddingProviderType = 'ollama' | 'openai' | 'openai-compatible' | 'local';
+
+export interface EmbeddingProviderFactoryConfig extends EmbeddingProviderConfig {
+  provider: EmbeddingProviderType;
+}
+
+/**
+ * Create an embedding provider instance
+ *
+ * @example
+ * ```typescript
+ * const embeddings = createEmbeddingProvider({ provider: 'ollama', model: 'nomic-embed-text' });
+ * ```
+ */
+export function createEmbeddingProvider(config: EmbeddingProviderFactoryConfig): EmbeddingProvider {
+  switch (config.provider) {
+    case 'ollama':
+      return new OllamaEmbeddingProvider(config);
+
+    case 'openai':
+      return new OpenAICompatibleEmbeddingProvider({
+        ...config,
+        apiKey: config.apiKey ?? process.env['OPENAI_API_KEY'],
+      });
+
+    case 'openai-compatible':
+      if (!config.baseUrl) {
+        throw new Error('baseUrl is required for openai-compatible embeddings');
+      }
+      return new OpenAICompatibleEmbeddingProvider(config);
+
+    case 'local':
+      return new LocalEmbeddingProvider();
+
+    default:
+      throw new Error(`Unknown embedding provider: ${config.provider as string}`);
+  }
+}
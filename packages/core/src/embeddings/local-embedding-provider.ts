@@ -0,0 +1,84 @@
+/**
+ * Local Embedding Provider
+ * Deterministic, dependency-free embeddings using feature hashing
+ *
+ * Words and character trigrams are hashed into a fixed number of buckets.
+ * Quality is far below a neural model, but it needs no server, is fully
+ * reproducible, and is useful for tests and offline use.
+ */
+
+import type { EmbeddingProvider } from './types.js';
+import { normalizeVector } from './vector.js';
+
+export interface LocalEmbeddingProviderConfig {
+  /** Vector dimensions (default: 256) */
+  dimensions?: number;
+}
+
+/**
+ * Local Embedding Provider
+ *
+ * @example
+ * ```typescript
+ * const embeddings = new LocalEmbeddingProvider({ dimensions: 256 });
+ * const [vector] = await embeddings.embed(['retry failed payments']);
+ * ```
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local';
+  readonly model: string;
+
+  private dimensions: number;
+
+  constructor(config: LocalEmbeddingProviderConfig = {}) {
+    this.dimensions = config.dimensions ?? 256;
+    this.model = `hashing-${this.dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): Float32Array {
+    const vector = new Float32Array(this.dimensions);
+
+    for (const word of tokenizeWords(text)) {
+      this.addFeature(vector, `w:${word}`, 1);
+
+      const padded = `^${word}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        this.addFeature(vector, `t:${padded.slice(i, i + 3)}`, 0.5);
+      }
+    }
+
+    return normalizeVector(vector);
+  }
+
+  private addFeature(vector: Float32Array, feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    const bucket = hash % this.dimensions;
+    // Signed hashing keeps collisions from only ever adding up
+    const sign = (hash >>> 31) === 0 ? 1 : -1;
+    vector[bucket] = vector[bucket]! + sign * weight;
+  }
+}
+
+/**
+ * Lowercased words, with camelCase and snake_case identifiers split apart
+ */
+function tokenizeWords(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 1);
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,53 @@
+/**
+ * Ollama Embedding Provider
+ * Computes embeddings with a local Ollama server (e.g. nomic-embed-text)
+ *
+ * @see https://github.com/ollama/ollama/blob/main/docs/api.md#generate-embeddings
+ */
+
+import type { EmbeddingProvider, EmbeddingProviderConfig } from './types.js';
+import { postJson } from './http.js';
+
+interface OllamaEmbedResponse {
+  model: string;
+  embeddings: number[][];
+}
+
+/**
+ * Ollama Embedding Provider
+ *
+ * @example
+ * ```typescript
+ * const embeddings = new OllamaEmbeddingProvider({ model: 'nomic-embed-text' });
+ * const vectors = await embeddings.embed(['function parseConfig()']);
+ * ```
+ */
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'ollama';
+  readonly model: string;
+
+  private baseUrl: string;
+  private timeout: number;
+
+  constructor(config: EmbeddingProviderConfig = {}) {
+    this.model = config.model ?? 'nomic-embed-text';
+    this.baseUrl = (config.baseUrl ?? 'http://localhost:11434').replace(/\/$/, '');
+    this.timeout = config.timeout ?? 60000;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    if (texts.length === 0) return [];
+
+    const data = await postJson<OllamaEmbedResponse>(
+      `${this.baseUrl}/api/embed`,
+      { model: this.model, input: texts },
+      { timeout: this.timeout, serverName: `Ollama at ${this.baseUrl}` }
+    );
+
+    if (!Array.isArray(data.embeddings) || data.embeddings.length !== texts.length) {
+      throw new Error(`Ollama returned ${data.embeddings?.length ?? 0} embeddings for ${texts.length} inputs`);
+    }
+
+    return data.embeddings.map((embedding) => Float32Array.from(embedding));
+  }
+}
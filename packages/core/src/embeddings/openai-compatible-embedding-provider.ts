@@ -0,0 +1,70 @@
+/**
+ * OpenAI-Compatible Embedding Provider
+ * Works with OpenAI and any server implementing the `/embeddings` endpoint
+ * (LM Studio, vLLM, LocalAI, Together AI, ...)
+ */
+
+import type { EmbeddingProvider, EmbeddingProviderConfig } from './types.js';
+import { postJson } from './http.js';
+
+interface OpenAIEmbeddingResponse {
+  data: Array<{
+    index: number;
+    embedding: number[];
+  }>;
+  model: string;
+}
+
+/**
+ * OpenAI-Compatible Embedding Provider
+ *
+ * @example
+ * ```typescript
+ * const embeddings = new OpenAICompatibleEmbeddingProvider({
+ *   model: 'text-embedding-3-small',
+ *   apiKey: process.env.OPENAI_API_KEY,
+ * });
+ * ```
+ */
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+
+  private baseUrl: string;
+  private apiKey?: string;
+  private timeout: number;
+
+  constructor(config: EmbeddingProviderConfig = {}) {
+    this.model = config.model ?? 'text-embedding-3-small';
+    this.baseUrl = (config.baseUrl ?? 'https://api.openai.com/v1').replace(/\/$/, '');
+    this.apiKey = config.apiKey;
+    this.timeout = config.timeout ?? 60000;
+    this.name = this.baseUrl.includes('api.openai.com') ? 'openai' : 'openai-compatible';
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    if (texts.length === 0) return [];
+
+    const headers: Record<string, string> = {};
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const data = await postJson<OpenAIEmbeddingResponse>(
+      `${this.baseUrl}/embeddings`,
+      { model: this.model, input: texts },
+      { timeout: this.timeout, headers, serverName: this.baseUrl }
+    );
+
+    if (!Array.isArray(data.data) || data.data.length !== texts.length) {
+      throw new Error(`Embedding API returned ${data.data?.length ?? 0} embeddings for ${texts.length} inputs`);
+    }
+
+    // Results carry their input index; don't rely on response order
+    const vectors = new Array<Float32Array>(texts.length);
+    for (const item of data.data) {
+      vectors[item.index] = Float32Array.from(item.embedding);
+    }
+    return vectors;
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Embedding Provider Types
+ * Defines the interface for turning text into vectors for semantic search
+ */
+
+export interface EmbeddingProviderConfig {
+  /** Embedding model name/identifier */
+  model?: string;
+  /** Base URL for API (optional) */
+  baseUrl?: string;
+  /** API key (optional, can use env var) */
+  apiKey?: string;
+  /** Request timeout in ms (default: 60000) */
+  timeout?: number;
+}
+
+/**
+ * Embedding Provider Interface
+ * All embedding providers must implement this interface
+ */
+export interface EmbeddingProvider {
+  /** Provider name for identification */
+  readonly name: string;
+
+  /**
+   * Model being used
+   * Stored alongside each vector so vectors from different models are never compared.
+   */
+  readonly model: string;
+
+  /**
+   * Embed a batch of texts
+   * @param texts - Texts to embed
+   * @returns One vector per input, in the same order
+   */
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
@@ -0,0 +1,51 @@
+/**
+ * Vector Utilities
+ * Similarity and SQLite BLOB (de)serialization for embeddings
+ */
+
+/**
+ * Cosine similarity of two vectors (0 when either is all zeros or lengths differ)
+ */
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    const x = a[i]!;
+    const y = b[i]!;
+    dot += x * y;
+    normA += x * x;
+    normB += y * y;
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Scale a vector to unit length in place
+ */
+export function normalizeVector(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (const value of vector) {
+    norm += value * value;
+  }
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) {
+      vector[i] = vector[i]! / norm;
+    }
+  }
+  return vector;
+}
+
+export function vectorToBlob(vector: Float32Array): Buffer {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength);
+}
+
+export function blobToVector(blob: Buffer): Float32Array {
+  // Copy so the Float32Array is 4-byte aligned regardless of the Buffer's offset
+  return new Float32Array(new Uint8Array(blob).buffer);
+}
@@ -0,0 +1,74 @@
+/**
+ * Git Blame
+ * Last commit to change each line, grouped into hunks
+ */
+
+import type { BlameHunk, GitBlameOptions } from './types.js';
+import { assertRevision, runGit } from './command.js';
+
+interface CommitInfo {
+  author: string;
+  date: string;
+  summary: string;
+}
+
+/**
+ * Blame a repository-relative file
+ */
+export function readGitBlame(repoPath: string, filePath: string, options: GitBlameOptions = {}): BlameHunk[] {
+  const args = ['blame', '--porcelain'];
+  if (options.startLine !== undefined || options.endLine !== undefined) {
+    args.push('-L', `${options.startLine ?? 1},${options.endLine ?? ''}`);
+  }
+  if (options.rev) {
+    assertRevision(options.rev);
+    args.push(options.rev);
+  }
+  args.push('--', filePath);
+
+  return parseBlame(runGit(repoPath, args));
+}
+
+/**
+ * Porcelain output: a `<sha> <orig> <final> [<count>]` header per line, commit
+ * details after the first header of each commit, then the line prefixed by a tab
+ */
+function parseBlame(output: string): BlameHunk[] {
+  const commits = new Map<string, CommitInfo>();
+  const hunks: BlameHunk[] = [];
+  let sha = '';
+  let lineNo = 0;
+
+  for (const line of output.split('\n')) {
+    const header = line.match(/^([0-9a-f]{40}) \d+ (\d+)(?: \d+)?$/);
+    if (header) {
+      sha = header[1]!;
+      lineNo = Number(header[2]);
+      if (!commits.has(sha)) commits.set(sha, { author: '', date: '', summary: '' });
+      continue;
+    }
+
+    if (line.startsWith('\t')) {
+      const previous = hunks[hunks.length - 1];
+      if (previous && previous.sha === sha && previous.endLine === lineNo - 1) {
+        previous.endLine = lineNo;
+        previous.lines.push(line.slice(1));
+      } else {
+        const info = commits.get(sha)!;
+        hunks.push({ sha, ...info, startLine: lineNo, endLine: lineNo, lines: [line.slice(1)] });
+      }
+      continue;
+    }
+
+    const info = commits.get(sha);
+    if (!info) continue;
+    const space = line.indexOf(' ');
+    const key = line.slice(0, space);
+    const value = line.slice(space + 1);
+    if (key === 'author') info.author = value;
+    else if (key === 'author-time') info.date = new Date(Number(value) * 1000).toISOString();
+    else if (key === 'summary') info.summary = value;
+  }
+
+  return hunks;
+}
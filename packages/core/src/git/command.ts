@@ -0,0 +1,64 @@
+/**
+ * Git Command Runner
+ * Runs the `git` binary against a repository and surfaces its errors
+ */
+
+import { execFileSync } from 'node:child_process';
+
+const GIT_TIMEOUT_MS = 30_000;
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+
+/** Full or abbreviated commit SHA */
+export const COMMIT_SHA_PATTERN = /^[0-9a-f]{7,40}$/i;
+
+/**
+ * Run git in `repoPath` and return its stdout
+ * @throws Error with git's message when git is missing or the command fails
+ */
+export function runGit(repoPath: string, args: string[]): string {
+  try {
+    return execFileSync('git', args, {
+      cwd: repoPath,
+      encoding: 'utf-8',
+      timeout: GIT_TIMEOUT_MS,
+      maxBuffer: GIT_MAX_BUFFER,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+  } catch (error) {
+    const failure = error as NodeJS.ErrnoException & { stderr?: string };
+    if (failure.code === 'ENOENT') {
+      throw new Error('git is not installed or not on PATH');
+    }
+    const message = failure.stderr?.trim().split('\n')[0] || failure.message;
+    throw new Error(`git ${args[0]} failed: ${message}`);
+  }
+}
+
+export function isGitRepository(repoPath: string): boolean {
+  try {
+    return runGit(repoPath, ['rev-parse', '--is-inside-work-tree']).trim() === 'true';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Full SHA of a commit, or undefined when the SHA is unknown to the repository
+ */
+export function resolveCommit(repoPath: string, sha: string): string | undefined {
+  if (!COMMIT_SHA_PATTERN.test(sha)) return undefined;
+  try {
+    return runGit(repoPath, ['rev-parse', '--verify', '--quiet', `${sha}^{commit}`]).trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reject revisions git would read as options (`--output=...`)
+ */
+export function assertRevision(revision: string): void {
+  if (revision.startsWith('-') || /\s/.test(revision)) {
+    throw new Error(`Invalid revision: "${revision}"`);
+  }
+}
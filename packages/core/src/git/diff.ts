@@ -0,0 +1,77 @@
+/**
+ * Unified Diff Parsing
+ * Splits `git log --patch` output into per-file hunks
+ */
+
+import type { DiffHunk } from './types.js';
+
+/** Longer hunks are cut; the index keeps their beginning */
+export const MAX_HUNK_CHARS = 4000;
+
+/**
+ * Hunks of a patch; binary files and mode-only changes have none
+ */
+export function parseUnifiedDiff(patch: string): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let oldPath: string | undefined;
+  let newPath: string | undefined;
+  let current: { hunk: DiffHunk; lines: string[] } | undefined;
+
+  const flush = () => {
+    if (!current) return;
+    const content = current.lines.join('\n');
+    current.hunk.content = content.length > MAX_HUNK_CHARS ? `${content.slice(0, MAX_HUNK_CHARS)}\n...` : content;
+    hunks.push(current.hunk);
+    current = undefined;
+  };
+
+  for (const line of patch.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      flush();
+      oldPath = undefined;
+      newPath = undefined;
+      continue;
+    }
+    if (!current && line.startsWith('--- ')) {
+      oldPath = diffPath(line.slice(4));
+      continue;
+    }
+    if (!current && line.startsWith('+++ ')) {
+      newPath = diffPath(line.slice(4));
+      continue;
+    }
+
+    const header = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+    if (header) {
+      flush();
+      const path = newPath ?? oldPath;
+      if (!path) continue;
+      const start = Number(header[1]);
+      const length = header[2] === undefined ? 1 : Number(header[2]);
+      current = {
+        hunk: { path, startLine: Math.max(start, 1), endLine: Math.max(start + length - 1, start, 1), content: '' },
+        lines: [line],
+      };
+      continue;
+    }
+
+    if (current && /^[ +\-\\]/.test(line)) {
+      current.lines.push(line);
+    } else {
+      flush();
+    }
+  }
+  flush();
+
+  return hunks;
+}
+
+/**
+ * `a/src/x.ts` → `src/x.ts`; `/dev/null` (added or deleted file) → undefined
+ */
+function diffPath(text: string): string | undefined {
+  const value = text.replace(/\t.*$/, '');
+  if (value === '/dev/null') return undefined;
+  const unquoted = value.startsWith('"') ? value.slice(1, -1) : value;
+  return unquoted.replace(/^[ab]\//, '');
+}
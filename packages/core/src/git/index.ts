@@ -0,0 +1,10 @@
+/**
+ * Git Module
+ * Repository history through the git binary
+ */
+
+export * from './types.js';
+export { runGit, isGitRepository, resolveCommit, COMMIT_SHA_PATTERN } from './command.js';
+export { readGitLog, listCommits, readCommitDiffs, DEFAULT_GIT_LOG_LIMIT } from './log.js';
+export { readGitBlame } from './blame.js';
+export { parseUnifiedDiff, MAX_HUNK_CHARS } from './diff.js';
@@ -0,0 +1,118 @@
+/**
+ * Git Log
+ * Commit history with messages and per-file stats or diffs
+ */
+
+import type { CommitDiff, GitCommit, GitFileStat, GitLogOptions } from './types.js';
+import { assertRevision, runGit } from './command.js';
+import { parseUnifiedDiff } from './diff.js';
+
+export const DEFAULT_GIT_LOG_LIMIT = 20;
+
+/** Commits per `git log` call when reading diffs */
+const DIFF_BATCH_SIZE = 50;
+
+const RECORD = '\x1e';
+const FIELD = '\x1f';
+const FORMAT = `${RECORD}${['%H', '%h', '%an', '%ae', '%aI', '%s', '%b'].join('%x1f')}${FIELD}`;
+
+/**
+ * Commits reachable from `range`, newest first
+ */
+export function readGitLog(repoPath: string, options: GitLogOptions = {}): GitCommit[] {
+  const { path: filePath, range, limit = DEFAULT_GIT_LOG_LIMIT, stats = true } = options;
+  const args = ['log', `--format=${FORMAT}`, `--max-count=${limit}`, '--no-color'];
+  if (stats) args.push('--numstat');
+  if (range) {
+    assertRevision(range);
+    args.push(range);
+  }
+  args.push('--');
+  if (filePath) args.push(filePath);
+
+  return parseRecords(runGit(repoPath, args)).map(({ commit, rest }) =>
+    stats ? { ...commit, files: parseNumstat(rest) } : commit
+  );
+}
+
+/**
+ * SHAs of the newest commits reachable from HEAD that touch `repoPath`
+ * (empty for a repository without commits)
+ */
+export function listCommits(repoPath: string, limit: number): string[] {
+  try {
+    return runGit(repoPath, ['rev-list', `--max-count=${limit}`, 'HEAD', '--', '.'])
+      .split('\n')
+      .filter(Boolean);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Commits with their diff hunks, in the order given
+ * Paths are relative to `repoPath`, and changes outside it are left out.
+ * Merge commits have no hunks: their changes are in the commits they merge.
+ */
+export function readCommitDiffs(repoPath: string, shas: string[]): CommitDiff[] {
+  const commits: CommitDiff[] = [];
+  for (let i = 0; i < shas.length; i += DIFF_BATCH_SIZE) {
+    const batch = shas.slice(i, i + DIFF_BATCH_SIZE);
+    batch.forEach(assertRevision);
+    const output = runGit(repoPath, [
+      'log',
+      '--no-walk=unsorted',
+      `--format=${FORMAT}`,
+      '--patch',
+      '--unified=2',
+      '--no-color',
+      '--no-ext-diff',
+      '--relative',
+      ...batch,
+      '--',
+    ]);
+    for (const { commit, rest } of parseRecords(output)) {
+      commits.push({ ...commit, hunks: parseUnifiedDiff(rest) });
+    }
+  }
+  return commits;
+}
+
+/**
+ * Split `--format=FORMAT` output into commits and the text git printed after each header
+ */
+function parseRecords(output: string): Array<{ commit: GitCommit; rest: string }> {
+  return output
+    .split(RECORD)
+    .filter((record) => record.trim())
+    .map((record) => {
+      const [sha = '', shortSha = '', author = '', email = '', date = '', subject = '', body = '', ...rest] =
+        record.split(FIELD);
+      // UTC like blame dates, so that the two agree on the day
+      const commit: GitCommit = {
+        sha,
+        shortSha,
+        author,
+        email,
+        date: new Date(date).toISOString(),
+        subject,
+        body: body.trim(),
+      };
+      return { commit, rest: rest.join(FIELD) };
+    });
+}
+
+/**
+ * `12\t3\tpath` lines; binary files report `-`
+ */
+function parseNumstat(text: string): GitFileStat[] {
+  return text
+    .split('\n')
+    .map((line) => line.match(/^(\d+|-)\t(\d+|-)\t(.+)$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(([, additions, deletions, path]) => ({
+      path: path!,
+      additions: additions === '-' ? null : Number(additions),
+      deletions: deletions === '-' ? null : Number(deletions),
+    }));
+}
@@ -0,0 +1,76 @@
+/**
+ * Git Types
+ * Commits and blame hunks read from the repository's history
+ */
+
+export interface GitFileStat {
+  path: string;
+  /** Null for binary files */
+  additions: number | null;
+  deletions: number | null;
+}
+
+export interface GitCommit {
+  sha: string;
+  shortSha: string;
+  author: string;
+  email: string;
+  /** Author date, ISO 8601 (UTC) */
+  date: string;
+  subject: string;
+  /** Message after the subject line */
+  body: string;
+  /** Files changed by the commit (when stats were requested) */
+  files?: GitFileStat[];
+}
+
+/**
+ * One `@@` hunk of a commit's diff
+ */
+export interface DiffHunk {
+  /** Path after the change (before it, for deleted files) */
+  path: string;
+  /** Line range of the hunk in the new file, 1-indexed and inclusive (start only for pure deletions) */
+  startLine: number;
+  endLine: number;
+  /** The `@@` header and its context, added, and removed lines */
+  content: string;
+}
+
+export interface CommitDiff extends GitCommit {
+  hunks: DiffHunk[];
+}
+
+export interface GitLogOptions {
+  /** Only commits touching this repository-relative file or directory */
+  path?: string;
+  /** Revision or range (`main`, `v1.0..HEAD`, `HEAD~20..`); default: HEAD */
+  range?: string;
+  /** Maximum commits (default: 20) */
+  limit?: number;
+  /** Include per-file line counts (default: true) */
+  stats?: boolean;
+}
+
+/**
+ * Consecutive lines last changed by the same commit
+ */
+export interface BlameHunk {
+  sha: string;
+  author: string;
+  /** Author date, ISO 8601 (UTC) */
+  date: string;
+  summary: string;
+  /** 1-indexed, inclusive */
+  startLine: number;
+  endLine: number;
+  lines: string[];
+}
+
+export interface GitBlameOptions {
+  /** 1-indexed, inclusive; default: the whole file */
+  startLine?: number;
+  endLine?: number;
+  /** Blame the file as of this revision instead of the working tree */
+  rev?: string;
+}
@@ -0,0 +1,210 @@
+/**
+ * Call Extraction
+ * Which function or method each call site belongs to, and what it calls
+ *
+ * TypeScript and JavaScript calls are read from the syntax tree, with member
+ * calls tied to the receiver's class where the file declares it. Other
+ * languages fall back to call occurrences (best-effort: receivers and
+ * overloads are not resolved).
+ */
+
+import ts from 'typescript';
+import type { ExtractedSymbol, SymbolKind } from '../symbols/types.js';
+import type { ExtractedOccurrence } from '../symbols/occurrences.js';
+
+export interface ExtractedCall {
+  /** Innermost function or method containing the call */
+  caller: ExtractedSymbol;
+  /** Called identifier (`new X()` calls `X`) */
+  callee: string;
+  /**
+   * Class or imported module the callee is a member of (`this.run()` is a
+   * member of the caller's class); unset for plain calls
+   */
+  receiver?: string;
+  /** 1-indexed line of the first call from this caller */
+  line: number;
+}
+
+/** Symbols that can make calls */
+const CALLER_KINDS: ReadonlySet<SymbolKind> = new Set(['function', 'method']);
+
+/** Symbols that can be called (constructors are calls to the class) */
+export const CALLABLE_KINDS: ReadonlySet<SymbolKind> = new Set(['function', 'method', 'class', 'struct', 'macro']);
+
+/**
+ * Graph node id of a symbol: `path#name`, or `path#Container.name` for members
+ */
+export function symbolNodeId(filePath: string, symbol: Pick<ExtractedSymbol, 'name' | 'container'>): string {
+  return `${filePath}#${symbol.container ? `${symbol.container}.` : ''}${symbol.name}`;
+}
+
+/**
+ * Pair call occurrences with their enclosing function; each caller/callee pair is
+ * reported once. Calls outside any function (module initialization) are dropped.
+ */
+export function extractCalls(symbols: ExtractedSymbol[], occurrences: ExtractedOccurrence[]): ExtractedCall[] {
+  const callers = symbols.filter((symbol) => CALLER_KINDS.has(symbol.kind));
+  const calls: ExtractedCall[] = [];
+  const seen = new Set<string>();
+
+  for (const occurrence of occurrences) {
+    if (occurrence.role !== 'call') continue;
+
+    const caller = findCaller(callers, occurrence.line);
+    if (!caller) continue;
+
+    const key = `${caller.container ?? ''}.${caller.name}\0${occurrence.name}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    calls.push({ caller, callee: occurrence.name, line: occurrence.line });
+  }
+
+  return calls;
+}
+
+/**
+ * Calls of a TypeScript or JavaScript file, from its syntax tree
+ * Strings and comments never produce calls. A member call is kept only when its
+ * receiver is known: `this` (the enclosing class), a class or imported name, or
+ * a variable, parameter or property declared with a class type or initialized
+ * with `new`. Calls on anything else (`items.map()`, `getRegistry().run()`) are
+ * dropped rather than linked to whatever shares the method's name.
+ */
+export function extractScriptCalls(filePath: string, content: string, symbols: ExtractedSymbol[]): ExtractedCall[] {
+  const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true);
+  const callers = symbols.filter((symbol) => CALLER_KINDS.has(symbol.kind));
+  const calls: ExtractedCall[] = [];
+  const seen = new Set<string>();
+
+  const add = (name: ts.Node, callee: string, receiver?: string) => {
+    const line = sourceFile.getLineAndCharacterOfPosition(name.getStart(sourceFile)).line + 1;
+    const caller = findCaller(callers, line);
+    if (!caller) return;
+
+    const key = `${caller.container ?? ''}.${caller.name}\0${receiver ?? ''}.${callee}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    calls.push(receiver ? { caller, callee, receiver, line } : { caller, callee, line });
+  };
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isCallExpression(node) || ts.isNewExpression(node)) {
+      const callee = node.expression;
+      if (ts.isIdentifier(callee)) {
+        if (callee.text !== 'require') add(callee, callee.text);
+      } else if (ts.isPropertyAccessExpression(callee)) {
+        const receiver = receiverClass(callee.expression);
+        if (receiver) add(callee.name, callee.name.text, receiver);
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return calls;
+}
+
+/**
+ * Innermost function or method spanning a line (nested functions start later
+ * than the functions around them)
+ */
+function findCaller(callers: ExtractedSymbol[], line: number): ExtractedSymbol | undefined {
+  let caller: ExtractedSymbol | undefined;
+  for (const candidate of callers) {
+    if (
+      candidate.startLine <= line &&
+      line <= candidate.endLine &&
+      (!caller || candidate.startLine >= caller.startLine)
+    ) {
+      caller = candidate;
+    }
+  }
+  return caller;
+}
+
+/**
+ * Class (or module) a member call's receiver belongs to, when it can be told
+ * without type checking
+ */
+function receiverClass(receiver: ts.Expression): string | undefined {
+  if (receiver.kind === ts.SyntaxKind.ThisKeyword) {
+    return enclosingClass(receiver)?.name?.text;
+  }
+  if (ts.isIdentifier(receiver)) {
+    const declaration = findDeclaration(receiver);
+    // Undeclared names are classes, functions or imports (`Registry.create()`, `path.join()`)
+    return declaration ? declaredClass(declaration) : receiver.text;
+  }
+  // `this.registry.run()` through a property declared on the class
+  if (ts.isPropertyAccessExpression(receiver) && receiver.expression.kind === ts.SyntaxKind.ThisKeyword) {
+    const name = receiver.name.text;
+    const members = enclosingClass(receiver)?.members ?? [];
+    const declaration = members
+      .flatMap((member): ValueDeclaration[] =>
+        ts.isPropertyDeclaration(member)
+          ? [member]
+          : ts.isConstructorDeclaration(member)
+            ? member.parameters.filter((param) => ts.isParameterPropertyDeclaration(param, member))
+            : []
+      )
+      .find((member) => member.name.getText() === name);
+    return declaration ? declaredClass(declaration) : undefined;
+  }
+  return undefined;
+}
+
+/** Class `this` refers to at a node; functions other than arrows rebind it */
+function enclosingClass(node: ts.Node): ts.ClassLikeDeclaration | undefined {
+  for (let current = node.parent; current; current = current.parent) {
+    if (ts.isClassLike(current)) return current;
+    if (ts.isFunctionDeclaration(current) || ts.isFunctionExpression(current)) return undefined;
+  }
+  return undefined;
+}
+
+type ValueDeclaration = ts.VariableDeclaration | ts.ParameterDeclaration | ts.PropertyDeclaration;
+
+/**
+ * Nearest variable or parameter declaring an identifier, searching the blocks
+ * and functions around it
+ */
+function findDeclaration(identifier: ts.Identifier): ValueDeclaration | undefined {
+  const name = identifier.text;
+  const declares = (declaration: ts.VariableDeclaration | ts.ParameterDeclaration) =>
+    ts.isIdentifier(declaration.name) && declaration.name.text === name;
+
+  for (let scope = identifier.parent; scope; scope = scope.parent) {
+    if (ts.isFunctionLike(scope)) {
+      const parameter = scope.parameters.find(declares);
+      if (parameter) return parameter;
+    }
+    if (ts.isBlock(scope) || ts.isSourceFile(scope) || ts.isModuleBlock(scope)) {
+      for (const statement of scope.statements) {
+        if (!ts.isVariableStatement(statement)) continue;
+        const variable = statement.declarationList.declarations.find(declares);
+        if (variable) return variable;
+      }
+    }
+    if ((ts.isForOfStatement(scope) || ts.isForInStatement(scope)) && ts.isVariableDeclarationList(scope.initializer)) {
+      const variable = scope.initializer.declarations.find(declares);
+      if (variable) return variable;
+    }
+  }
+  return undefined;
+}
+
+/** `x: Registry` or `x = new Registry()`; anything else is unknown */
+function declaredClass(declaration: ValueDeclaration): string | undefined {
+  if (declaration.type && ts.isTypeReferenceNode(declaration.type) && ts.isIdentifier(declaration.type.typeName)) {
+    return declaration.type.typeName.text;
+  }
+  let initializer = declaration.initializer;
+  while (initializer && (ts.isAwaitExpression(initializer) || ts.isParenthesizedExpression(initializer))) {
+    initializer = initializer.expression;
+  }
+  if (initializer && ts.isNewExpression(initializer) && ts.isIdentifier(initializer.expression)) {
+    return initializer.expression.text;
+  }
+  return undefined;
+}
@@ -0,0 +1,128 @@
+/**
+ * Heritage Extraction
+ * Supertypes named in class, interface and trait declarations, and Rust
+ * `impl Trait for Type` blocks
+ */
+
+import type { ExtractedSymbol, SymbolKind } from '../symbols/types.js';
+
+export interface ExtractedHeritage {
+  /** The declared type */
+  type: ExtractedSymbol;
+  relation: 'extends' | 'implements';
+  /** Supertype name as written, without type arguments (`Base`, `abc.ABC`, `fmt::Display`) */
+  supertype: string;
+  /** 1-indexed line of the declaration */
+  line: number;
+}
+
+/** Symbols that take part in the type hierarchy */
+export const TYPE_KINDS: ReadonlySet<SymbolKind> = new Set(['class', 'interface', 'struct', 'trait', 'enum']);
+
+/** Declarations rarely spread their heritage clause over more lines than this */
+const MAX_HEADER_LINES = 10;
+
+const RUST_IMPL_FOR = /^\s*(?:unsafe\s+)?impl\s+(?:[\w:]+::)?([\w:]+?)\s+for\s+(?:[\w:]+::)?(\w+)/;
+const PYTHON_NON_BASES = new Set(['object', 'Generic', 'Protocol']);
+
+/**
+ * Extract extends/implements relations of the types declared in a file
+ * @param symbols - Symbols extracted from the same content
+ */
+export function extractHeritage(
+  content: string,
+  language: string | undefined,
+  symbols: ExtractedSymbol[]
+): ExtractedHeritage[] {
+  const rawLines = content.split('\n');
+  const heritage: ExtractedHeritage[] = [];
+  const add = (type: ExtractedSymbol, relation: ExtractedHeritage['relation'], names: string[], line: number) => {
+    for (const supertype of names) {
+      heritage.push({ type, relation, supertype, line });
+    }
+  };
+
+  for (const symbol of symbols) {
+    if (!TYPE_KINDS.has(symbol.kind)) continue;
+    const lines = rawLines.slice(symbol.startLine - 1, symbol.startLine - 1 + MAX_HEADER_LINES);
+
+    switch (language) {
+      case 'typescript':
+      case 'javascript':
+      case 'java': {
+        // Type parameters may themselves say `extends`, so they go first
+        const header = stripBrackets(headerOf(lines, '{'), '<', '>');
+        const extended = header.match(/\bextends\s+(.+?)(?=\s+implements\b|$)/s)?.[1];
+        const implemented = header.match(/\bimplements\s+(.+)$/s)?.[1];
+        add(symbol, 'extends', typeNames(extended, ','), symbol.startLine);
+        add(symbol, 'implements', typeNames(implemented, ','), symbol.startLine);
+        break;
+      }
+      case 'python': {
+        if (symbol.kind !== 'class') break;
+        const bases = headerOf(lines, ':').match(/^[^(]*\((.*)\)/s)?.[1];
+        const names = typeNames(bases && stripBrackets(bases, '[', ']'), ',').filter((name) => !PYTHON_NON_BASES.has(name));
+        add(symbol, 'extends', names, symbol.startLine);
+        break;
+      }
+      case 'rust': {
+        if (symbol.kind !== 'trait') break;
+        const bounds = stripBrackets(headerOf(lines, '{'), '<', '>').match(/\btrait\s+\w+\s*:(.+?)(?:\bwhere\b|$)/s)?.[1];
+        add(symbol, 'extends', typeNames(bounds, '+'), symbol.startLine);
+        break;
+      }
+    }
+  }
+
+  // Rust implementations live in separate blocks; the type must be declared in the same file
+  if (language === 'rust') {
+    rawLines.forEach((line, index) => {
+      const impl = stripBrackets(line, '<', '>').match(RUST_IMPL_FOR);
+      const type = impl && symbols.find((s) => s.name === impl[2] && !s.container && TYPE_KINDS.has(s.kind));
+      if (type) add(type, 'implements', [impl[1]!], index + 1);
+    });
+  }
+
+  return heritage;
+}
+
+/**
+ * Declaration text up to the body opener (`{` or `:`), at bracket depth 0
+ */
+function headerOf(lines: string[], opener: '{' | ':'): string {
+  const text = lines.join('\n');
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+    if (char === '(' || char === '<' || char === '[') depth++;
+    else if ((char === ')' || char === '>' || char === ']') && depth > 0 && text[i - 1] !== '=') depth--;
+    else if (char === opener && depth === 0) return text.slice(0, i);
+  }
+  return text;
+}
+
+/**
+ * Remove bracketed segments, including nested ones (`Base<Map<K, V>>` → `Base`)
+ */
+function stripBrackets(text: string, open: string, close: string): string {
+  let result = '';
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+    if (char === open) depth++;
+    else if (char === close && depth > 0 && text[i - 1] !== '=') depth--;
+    else if (depth === 0) result += char;
+  }
+  return result;
+}
+
+/**
+ * Plain type names from a separated list; calls, keyword arguments and lifetimes are skipped
+ */
+function typeNames(list: string | undefined, separator: string): string[] {
+  if (!list) return [];
+  return list
+    .split(separator)
+    .map((item) => item.trim().replace(/\s+/g, ''))
+    .filter((item) => /^[\w$]+(?:(?:\.|::)[\w$]+)*$/.test(item));
+}
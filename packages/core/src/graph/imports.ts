@@ -0,0 +1,133 @@
+/**
+ * Import Extraction
+ * Module specifiers imported by a file, per language
+ */
+
+import { findImportStatements } from '../symbols/occurrences.js';
+
+export interface ExtractedImport {
+  /** Specifier as written (`./loop.js`, `zod`, `..models`, `crate::parser`) */
+  specifier: string;
+  /** 1-indexed line of the statement */
+  line: number;
+  /** Names bound by the import (TypeScript/JavaScript and Python `from` imports) */
+  bindings: ImportBinding[];
+}
+
+export interface ImportBinding {
+  /** Name in the importing file */
+  local: string;
+  /** Name exported by the module; 'default' for default imports */
+  imported: string;
+}
+
+const QUOTED = String.raw`['"\`]([^'"\`]+)['"\`]`;
+const SCRIPT_IMPORT = new RegExp(String.raw`\bfrom\s*${QUOTED}|^\s*import\s*${QUOTED}|\brequire\s*\(\s*${QUOTED}\s*\)`, 'g');
+const DYNAMIC_IMPORT = new RegExp(String.raw`\bimport\s*\(\s*${QUOTED}\s*\)`, 'g');
+const PYTHON_FROM = /^\s*from\s+([\w.]+)\s+import\b/;
+const PYTHON_IMPORT = /^\s*import\s+(.+)$/;
+const GO_IMPORT = /(?:^|\s)(?:[\w.]+\s+)?"([^"]+)"/g;
+const RUST_USE = /^\s*(?:pub(?:\s*\([^)]*\))?\s+)?use\s+((?:::)?[\w:]+?)(?:::\{|::\*|\s+as\s|\s*;)/;
+const JAVA_IMPORT = /^\s*import\s+(?:static\s+)?([\w.]+?)(?:\.\*)?\s*;/;
+
+/** `import a, { b as c } from` / `const { b: c } = require(` clauses */
+const SCRIPT_IMPORT_CLAUSE = /\bimport\s+(?:type\s+)?([^'"`]*?)\s*from\s*['"`]/;
+const SCRIPT_REQUIRE_CLAUSE = /\b(?:const|let|var)\s+(\{[^}]*\}|[\w$]+)\s*=\s*require\s*\(/;
+const PYTHON_FROM_NAMES = /\bimport\s+\(?([^)]*)\)?/;
+
+/**
+ * Extract imported specifiers; a specifier imported twice is reported once
+ */
+export function extractImports(content: string, language: string | undefined): ExtractedImport[] {
+  const imports = new Map<string, ExtractedImport>();
+  const add = (specifier: string | undefined, line: number, bindings: ImportBinding[] = []) => {
+    if (!specifier) return;
+    const existing = imports.get(specifier);
+    if (existing) {
+      existing.bindings.push(...bindings);
+    } else {
+      imports.set(specifier, { specifier, line, bindings });
+    }
+  };
+
+  for (const statement of findImportStatements(content, language)) {
+    switch (language) {
+      case 'typescript':
+      case 'javascript':
+        for (const match of statement.text.matchAll(SCRIPT_IMPORT)) {
+          add(match[1] ?? match[2] ?? match[3], statement.startLine, scriptBindings(statement.text));
+        }
+        break;
+      case 'python': {
+        const from = statement.text.match(PYTHON_FROM);
+        if (from) {
+          add(from[1], statement.startLine, pythonBindings(statement.text));
+        } else {
+          const modules = statement.text.match(PYTHON_IMPORT)?.[1] ?? '';
+          for (const module of modules.split(',')) {
+            add(module.trim().split(/\s+as\s+/)[0], statement.startLine);
+          }
+        }
+        break;
+      }
+      case 'go':
+        for (const match of statement.text.matchAll(GO_IMPORT)) {
+          add(match[1], statement.startLine);
+        }
+        break;
+      case 'rust':
+        add(statement.text.match(RUST_USE)?.[1], statement.startLine);
+        break;
+      case 'java':
+        add(statement.text.match(JAVA_IMPORT)?.[1], statement.startLine);
+        break;
+    }
+  }
+
+  // import('./lazy.js') can appear anywhere in script code
+  if (language === 'typescript' || language === 'javascript') {
+    const lines = content.split('\n');
+    lines.forEach((line, index) => {
+      for (const match of line.matchAll(DYNAMIC_IMPORT)) {
+        add(match[1], index + 1);
+      }
+    });
+  }
+
+  return [...imports.values()];
+}
+
+function scriptBindings(statement: string): ImportBinding[] {
+  const bindings: ImportBinding[] = [];
+  const clause = statement.match(SCRIPT_IMPORT_CLAUSE)?.[1] ?? statement.match(SCRIPT_REQUIRE_CLAUSE)?.[1];
+  if (!clause) return bindings;
+
+  const isRequire = !SCRIPT_IMPORT_CLAUSE.test(statement);
+  const braces = clause.match(/\{([^}]*)\}/);
+  const defaultName = clause.match(/^([\w$]+)/)?.[1];
+  if (defaultName) {
+    // `const x = require()` binds the whole module, like a namespace import
+    bindings.push({ local: defaultName, imported: isRequire ? '*' : 'default' });
+  }
+  const namespace = clause.match(/\*\s*as\s+([\w$]+)/)?.[1];
+  if (namespace) {
+    bindings.push({ local: namespace, imported: '*' });
+  }
+
+  for (const item of braces?.[1]?.split(',') ?? []) {
+    const match = item.trim().match(isRequire ? /^([\w$]+)(?:\s*:\s*([\w$]+))?/ : /^(?:type\s+)?([\w$]+)(?:\s+as\s+([\w$]+))?/);
+    if (match) {
+      bindings.push({ local: match[2] ?? match[1]!, imported: match[1]! });
+    }
+  }
+  return bindings;
+}
+
+function pythonBindings(statement: string): ImportBinding[] {
+  const names = statement.replace(/#.*$/gm, '').match(PYTHON_FROM_NAMES)?.[1] ?? '';
+  return names
+    .split(',')
+    .map((name) => name.trim().split(/\s+as\s+/))
+    .filter(([imported]) => imported && /^\w+$/.test(imported))
+    .map(([imported, local]) => ({ local: local ?? imported!, imported: imported! }));
+}
@@ -0,0 +1,11 @@
+/**
+ * Graph Module
+ * Import resolution and graph types for the persisted code graph
+ */
+
+export * from './types.js';
+export { extractImports, type ExtractedImport, type ImportBinding } from './imports.js';
+export { extractCalls, extractScriptCalls, symbolNodeId, CALLABLE_KINDS, type ExtractedCall } from './calls.js';
+export { extractHeritage, TYPE_KINDS, type ExtractedHeritage } from './heritage.js';
+export { ImportResolver, packageName } from './resolve.js';
+export { loadTsconfigPaths, parseJsonWithComments, type TsconfigPaths } from './tsconfig.js';
@@ -0,0 +1,335 @@
+/**
+ * Import Resolution
+ * Maps import specifiers to indexed files, or to external module names
+ *
+ * TypeScript/JavaScript: relative paths with implicit extensions, `index.*`,
+ * ESM `.js` → `.ts` mapping, tsconfig/jsconfig `paths` and `baseUrl`.
+ * Python, Go, Rust and Java are resolved best-effort from package layout.
+ * Names of workspace packages (npm packages, crates, Go modules) resolve
+ * to their in-repo sources.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { toPosixPath } from '../indexer/glob.js';
+import { loadTsconfigPaths, type TsconfigPaths } from './tsconfig.js';
+import type { WorkspacePackage } from '../workspace/types.js';
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+/** ESM imports name the emitted file; the source has a TypeScript extension */
+const ESM_SOURCE_EXTENSIONS: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+};
+
+const TSCONFIG_NAMES = ['tsconfig.json', 'jsconfig.json'];
+
+export class ImportResolver {
+  private repoPath: string;
+  /** POSIX path → stored path */
+  private files = new Map<string, string>();
+  /** File name → POSIX paths, for suffix lookups */
+  private byBasename = new Map<string, string[]>();
+  /** Directory → path mappings of its nearest tsconfig */
+  private tsconfigs = new Map<string, TsconfigPaths | null>();
+  private packages: WorkspacePackage[];
+  /** Go module path → POSIX directory, longest first */
+  private goModules: Array<{ name: string; dir: string }> | undefined;
+
+  constructor(repoPath: string, files: Iterable<string>, packages: WorkspacePackage[] = []) {
+    this.repoPath = repoPath;
+    this.packages = packages;
+    for (const file of files) {
+      const posix = toPosixPath(file);
+      this.files.set(posix, file);
+      const name = path.posix.basename(posix);
+      this.byBasename.set(name, [...(this.byBasename.get(name) ?? []), posix]);
+    }
+  }
+
+  /**
+   * Resolve a specifier imported by `fromPath`
+   * @returns The stored path of the imported file, a repository-relative path
+   *          for unindexed relative imports, or the external module name
+   */
+  resolve(fromPath: string, specifier: string, language: string | undefined): string {
+    const from = toPosixPath(fromPath);
+
+    switch (language) {
+      case 'typescript':
+      case 'javascript':
+        return this.resolveScript(from, specifier);
+      case 'python':
+        return this.resolvePython(from, specifier);
+      case 'go':
+        return this.resolveGo(specifier);
+      case 'rust':
+        return this.resolveRust(from, specifier);
+      case 'java':
+        return this.resolveJava(specifier);
+      default:
+        return specifier;
+    }
+  }
+
+  // ==========================================================================
+  // TypeScript / JavaScript
+  // ==========================================================================
+
+  private resolveScript(from: string, specifier: string): string {
+    if (specifier.startsWith('.')) {
+      const base = path.posix.join(path.posix.dirname(from), specifier);
+      return this.findScriptFile(base) ?? this.relativeFallback(base, specifier);
+    }
+
+    const config = this.nearestTsconfig(path.posix.dirname(from));
+    if (config) {
+      for (const target of matchPaths(config.paths, specifier)) {
+        const found = this.findScriptFile(this.toRepoPath(path.resolve(config.baseDir, target)));
+        if (found) return found;
+      }
+      if (config.hasBaseUrl) {
+        const found = this.findScriptFile(this.toRepoPath(path.resolve(config.baseDir, specifier)));
+        if (found) return found;
+      }
+    }
+
+    return this.resolveWorkspaceScript(specifier) ?? packageName(specifier);
+  }
+
+  /**
+   * `@scope/pkg` → the package's main entry; `@scope/pkg/sub` → its `sub` module
+   */
+  private resolveWorkspaceScript(specifier: string): string | undefined {
+    const name = packageName(specifier);
+    const pkg = this.packages.find((candidate) => candidate.kind === 'npm' && candidate.name === name);
+    if (!pkg) return undefined;
+
+    const subpath = specifier.slice(name.length + 1);
+    if (!subpath) {
+      return pkg.entryPoints[0] !== undefined ? this.findFile([toPosixPath(pkg.entryPoints[0])]) : undefined;
+    }
+    const dir = toPosixPath(pkg.path);
+    return this.findScriptFile(path.posix.join(dir, subpath)) ?? this.findScriptFile(path.posix.join(dir, 'src', subpath));
+  }
+
+  private findScriptFile(base: string): string | undefined {
+    const extension = path.posix.extname(base);
+    const candidates = [
+      base,
+      ...(ESM_SOURCE_EXTENSIONS[extension] ?? []).map((ext) => base.slice(0, -extension.length) + ext),
+      ...SCRIPT_EXTENSIONS.map((ext) => base + ext),
+      ...SCRIPT_EXTENSIONS.map((ext) => `${base}/index${ext}`),
+    ];
+    return this.findFile(candidates);
+  }
+
+  private nearestTsconfig(dir: string): TsconfigPaths | null {
+    const cached = this.tsconfigs.get(dir);
+    if (cached !== undefined) return cached;
+
+    let result: TsconfigPaths | null = null;
+    const configName = TSCONFIG_NAMES.find((name) =>
+      fs.existsSync(path.join(this.repoPath, dir, name))
+    );
+    if (configName) {
+      result = loadTsconfigPaths(path.join(this.repoPath, dir, configName));
+    } else if (dir !== '.' && dir !== '') {
+      result = this.nearestTsconfig(path.posix.dirname(dir));
+    }
+
+    this.tsconfigs.set(dir, result);
+    return result;
+  }
+
+  // ==========================================================================
+  // Python
+  // ==========================================================================
+
+  private resolvePython(from: string, specifier: string): string {
+    const relative = specifier.match(/^(\.+)(.*)$/);
+    if (relative) {
+      let dir = path.posix.dirname(from);
+      for (let i = 1; i < relative[1]!.length; i++) dir = path.posix.dirname(dir);
+      const module = relative[2] ? path.posix.join(dir, ...relative[2].split('.')) : dir;
+      return this.findFile([`${module}.py`, `${module}/__init__.py`]) ?? specifier;
+    }
+
+    const parts = specifier.split('.');
+    // `import a.b.c` may name a package, a module, or an attribute of a module
+    for (let length = parts.length; length > 0; length--) {
+      const module = parts.slice(0, length).join('/');
+      const found = this.findBySuffix(`${module}.py`) ?? this.findBySuffix(`${module}/__init__.py`);
+      if (found) return found;
+    }
+    return parts[0]!;
+  }
+
+  // ==========================================================================
+  // Go
+  // ==========================================================================
+
+  private resolveGo(specifier: string): string {
+    // Packages of a workspace module resolve to their directory
+    for (const { name, dir } of this.getGoModules()) {
+      if (specifier === name && dir !== '.') return this.toStoredPath(dir);
+      if (specifier.startsWith(`${name}/`)) {
+        return this.toStoredPath(path.posix.join(dir, specifier.slice(name.length + 1)));
+      }
+    }
+    return specifier;
+  }
+
+  private getGoModules(): Array<{ name: string; dir: string }> {
+    if (this.goModules) return this.goModules;
+
+    const modules = this.packages
+      .filter((pkg) => pkg.kind === 'go')
+      .map((pkg) => ({ name: pkg.name, dir: toPosixPath(pkg.path) }));
+    if (modules.length === 0) {
+      // Without workspace information, fall back to the root go.mod
+      const goMod = path.join(this.repoPath, 'go.mod');
+      const name = fs.existsSync(goMod) ? fs.readFileSync(goMod, 'utf-8').match(/^module\s+(\S+)/m)?.[1] : undefined;
+      if (name) modules.push({ name, dir: '.' });
+    }
+
+    this.goModules = modules.sort((a, b) => b.name.length - a.name.length);
+    return this.goModules;
+  }
+
+  // ==========================================================================
+  // Rust
+  // ==========================================================================
+
+  private resolveRust(from: string, specifier: string): string {
+    const segments = specifier.replace(/^::/, '').split('::');
+    const head = segments[0];
+
+    let baseDir: string | undefined;
+    const crate = this.packages.find(
+      (pkg) => pkg.kind === 'cargo' && pkg.name.replace(/-/g, '_') === head
+    );
+    if (head === 'crate') {
+      baseDir = this.crateSourceDir(from);
+    } else if (crate) {
+      // Another crate of the workspace: its library root is `src/lib.rs`
+      baseDir = path.posix.join(toPosixPath(crate.path), 'src');
+    } else if (head === 'self' || head === 'super') {
+      const stem = path.posix.basename(from, '.rs');
+      const dir = path.posix.dirname(from);
+      const moduleDir = ['mod', 'lib', 'main'].includes(stem) ? dir : path.posix.join(dir, stem);
+      baseDir = head === 'super' ? path.posix.dirname(moduleDir) : moduleDir;
+    }
+    if (!baseDir) return head ?? specifier;
+
+    // The path may end in items (types, functions) rather than modules
+    const modules = segments.slice(1);
+    for (let length = modules.length; length > 0; length--) {
+      const module = path.posix.join(baseDir, ...modules.slice(0, length));
+      const found = this.findFile([`${module}.rs`, `${module}/mod.rs`]);
+      if (found) return found;
+    }
+    return this.findFile([`${baseDir}/lib.rs`, `${baseDir}/main.rs`, `${baseDir}.rs`, `${baseDir}/mod.rs`]) ?? specifier;
+  }
+
+  private crateSourceDir(from: string): string | undefined {
+    for (let dir = path.posix.dirname(from); ; dir = path.posix.dirname(dir)) {
+      if (fs.existsSync(path.join(this.repoPath, dir, 'Cargo.toml'))) {
+        return path.posix.join(dir, 'src');
+      }
+      if (dir === '.' || dir === '') return undefined;
+    }
+  }
+
+  // ==========================================================================
+  // Java
+  // ==========================================================================
+
+  private resolveJava(specifier: string): string {
+    const parts = specifier.split('.');
+    // Static imports and nested classes name members of a class file
+    for (let length = parts.length; length > 1; length--) {
+      const found = this.findBySuffix(`${parts.slice(0, length).join('/')}.java`);
+      if (found) return found;
+    }
+    return specifier;
+  }
+
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  private findFile(candidates: string[]): string | undefined {
+    for (const candidate of candidates) {
+      const stored = this.files.get(path.posix.normalize(candidate));
+      if (stored) return stored;
+    }
+    return undefined;
+  }
+
+  /**
+   * Shortest indexed path ending with `suffix` at a directory boundary
+   */
+  private findBySuffix(suffix: string): string | undefined {
+    const matches = (this.byBasename.get(path.posix.basename(suffix)) ?? [])
+      .filter((file) => file === suffix || file.endsWith(`/${suffix}`))
+      .sort((a, b) => a.length - b.length);
+    return matches[0] ? this.files.get(matches[0]) : undefined;
+  }
+
+  /**
+   * Relative imports of unindexed files (styles, assets) keep their path
+   */
+  private relativeFallback(base: string, specifier: string): string {
+    const normalized = path.posix.normalize(base);
+    return normalized.startsWith('..') ? specifier : this.toStoredPath(normalized);
+  }
+
+  private toRepoPath(absolutePath: string): string {
+    return toPosixPath(path.relative(this.repoPath, absolutePath));
+  }
+
+  private toStoredPath(posixPath: string): string {
+    return posixPath.split('/').join(path.sep);
+  }
+}
+
+/**
+ * Targets of the longest tsconfig `paths` pattern matching a specifier
+ */
+function matchPaths(paths: Record<string, string[]>, specifier: string): string[] {
+  let best: { prefixLength: number; targets: string[] } | undefined;
+
+  for (const [pattern, targets] of Object.entries(paths)) {
+    const star = pattern.indexOf('*');
+    if (star === -1) {
+      if (pattern === specifier) return targets;
+      continue;
+    }
+    const prefix = pattern.slice(0, star);
+    const suffix = pattern.slice(star + 1);
+    if (
+      specifier.length >= prefix.length + suffix.length &&
+      specifier.startsWith(prefix) &&
+      specifier.endsWith(suffix) &&
+      (!best || prefix.length > best.prefixLength)
+    ) {
+      const captured = specifier.slice(prefix.length, specifier.length - suffix.length);
+      best = { prefixLength: prefix.length, targets: targets.map((target) => target.replace('*', captured)) };
+    }
+  }
+
+  return best?.targets ?? [];
+}
+
+/**
+ * Package a bare specifier belongs to: `@scope/pkg/sub` → `@scope/pkg`, `pkg/sub` → `pkg`
+ */
+export function packageName(specifier: string): string {
+  if (specifier.includes(':')) return specifier;
+  const parts = specifier.split('/');
+  return specifier.startsWith('@') && parts.length > 1 ? `${parts[0]}/${parts[1]}` : parts[0]!;
+}
@@ -0,0 +1,103 @@
+/**
+ * tsconfig Path Mappings
+ * Reads `baseUrl` and `paths` (following `extends`) for import resolution
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+export interface TsconfigPaths {
+  /** Absolute directory that `paths` targets are relative to */
+  baseDir: string;
+  /** Pattern → target patterns, e.g. `"@app/*": ["src/app/*"]` */
+  paths: Record<string, string[]>;
+  /** Whether bare specifiers resolve against baseUrl */
+  hasBaseUrl: boolean;
+}
+
+interface CompilerOptions {
+  /** Absolute */
+  baseUrl?: string;
+  paths?: Record<string, string[]>;
+  /** Directory of the config declaring `paths` */
+  pathsDir?: string;
+}
+
+/**
+ * Load path mappings from a tsconfig file; null when it defines neither baseUrl nor paths
+ */
+export function loadTsconfigPaths(configPath: string): TsconfigPaths | null {
+  const options = readCompilerOptions(configPath, new Set());
+  if (!options.baseUrl && !options.paths) return null;
+
+  return {
+    // Without baseUrl, paths are relative to the config that declares them
+    baseDir: options.baseUrl ?? options.pathsDir ?? path.dirname(configPath),
+    paths: options.paths ?? {},
+    hasBaseUrl: options.baseUrl !== undefined,
+  };
+}
+
+/**
+ * Compiler options merged over the extended configs
+ */
+function readCompilerOptions(configPath: string, seen: Set<string>): CompilerOptions {
+  if (seen.has(configPath) || !fs.existsSync(configPath)) return {};
+  seen.add(configPath);
+
+  let config: { extends?: string | string[]; compilerOptions?: CompilerOptions };
+  try {
+    config = parseJsonWithComments(fs.readFileSync(configPath, 'utf-8')) as typeof config;
+  } catch {
+    return {};
+  }
+
+  const dir = path.dirname(configPath);
+  let options: CompilerOptions = {};
+  // Only relative extends are followed; package configs rarely define paths
+  for (const base of [config.extends ?? []].flat()) {
+    if (base.startsWith('.')) {
+      const basePath = path.resolve(dir, base.endsWith('.json') ? base : `${base}.json`);
+      options = { ...options, ...readCompilerOptions(basePath, seen) };
+    }
+  }
+
+  const own = config.compilerOptions ?? {};
+  if (own.baseUrl !== undefined) options.baseUrl = path.resolve(dir, own.baseUrl);
+  if (own.paths) {
+    options.paths = own.paths;
+    options.pathsDir = dir;
+  }
+  return options;
+}
+
+/**
+ * JSON.parse for tsconfig-style JSON: comments and trailing commas allowed
+ */
+export function parseJsonWithComments(text: string): unknown {
+  let result = '';
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i]!;
+    if (char === '"') {
+      let end = i + 1;
+      while (end < text.length && text[end] !== '"') {
+        end += text[end] === '\\' ? 2 : 1;
+      }
+      result += text.slice(i, end + 1);
+      i = end + 1;
+    } else if (text.startsWith('//', i)) {
+      const end = text.indexOf('\n', i);
+      i = end === -1 ? text.length : end;
+    } else if (text.startsWith('/*', i)) {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length : end + 2;
+    } else {
+      result += char;
+      i++;
+    }
+  }
+
+  return JSON.parse(result.replace(/,(\s*[}\]])/g, '$1'));
+}
@@ -0,0 +1,73 @@
+/**
+ * Graph Types
+ * Nodes and edges of the code graph built at index time
+ *
+ * Node ids are repository-relative file paths (`src/agent/loop.ts`), external
+ * module names (`zod`, `node:fs`) or symbols (`src/agent/loop.ts#runAgent`).
+ */
+
+import type { SymbolKind } from '../symbols/types.js';
+
+/** Relations stored as edges (source → target) */
+export type GraphRelation = 'imports' | 'exports' | 'calls' | 'extends' | 'implements';
+
+export const GRAPH_RELATIONS: readonly GraphRelation[] = ['imports', 'exports', 'calls', 'extends', 'implements'];
+
+/** Relations as seen from the target of an edge */
+export type ReverseGraphRelation = 'importedBy' | 'exportedBy' | 'calledBy' | 'extendedBy' | 'implementedBy';
+
+export const REVERSE_RELATIONS: Record<GraphRelation, ReverseGraphRelation> = {
+  imports: 'importedBy',
+  exports: 'exportedBy',
+  calls: 'calledBy',
+  extends: 'extendedBy',
+  implements: 'implementedBy',
+};
+
+export type GraphDirection = 'outgoing' | 'incoming' | 'both';
+
+export interface GraphNode {
+  id: string;
+  /** Symbols other than functions and classes (interfaces, types, constants) are 'symbol' */
+  type: 'file' | 'function' | 'class' | 'module' | 'symbol';
+  name: string;
+  /** Symbol kind for symbol nodes */
+  kind?: SymbolKind;
+}
+
+export interface GraphNeighbor {
+  node: GraphNode;
+  relation: GraphRelation | ReverseGraphRelation;
+  /** Number of edges between the start node and this one */
+  depth: number;
+  /** The node this one was reached from (omitted at depth 1) */
+  via?: string;
+}
+
+export interface GraphNeighborsOptions {
+  /** Traversal depth (default: 1) */
+  depth?: number;
+  /** Follow edges from the node, to the node, or both (default: 'both') */
+  direction?: GraphDirection;
+  /** Only follow these relations (both directions of each) */
+  relations?: GraphRelation[];
+  /** Maximum number of neighbors to return (default: 100) */
+  limit?: number;
+}
+
+export type TypeHierarchyDirection = 'supertypes' | 'subtypes' | 'both';
+
+export interface TypeHierarchyOptions {
+  /** Levels of inheritance to follow (default: 5) */
+  depth?: number;
+  /** Which side of the hierarchy to return (default: 'both') */
+  direction?: TypeHierarchyDirection;
+}
+
+export interface TypeHierarchy {
+  type: GraphNode;
+  /** Types this one extends or implements, transitively */
+  supertypes: GraphNeighbor[];
+  /** Types extending or implementing this one, transitively */
+  subtypes: GraphNeighbor[];
+}
@@ -41,8 +41,187 @@ export {
   type ProviderFactoryConfig,
 } from './llm/provider-factory.js';
 
+// Embeddings
+export {
+  createEmbeddingProvider,
+  OllamaEmbeddingProvider,
+  OpenAICompatibleEmbeddingProvider,
+  LocalEmbeddingProvider,
+  type EmbeddingProvider,
+  type EmbeddingProviderConfig,
+  type EmbeddingProviderType,
+  type EmbeddingProviderFactoryConfig,
+} from './embeddings/index.js';
+
+// Symbols
+export {
+  extractSymbols,
+  getSymbolExtractor,
+  DEFAULT_SYMBOL_EXTRACTORS,
+  SYMBOL_KINDS,
+  TypeScriptSymbolExtractor,
+  PythonSymbolExtractor,
+  GoSymbolExtractor,
+  RustSymbolExtractor,
+  JavaSymbolExtractor,
+  extractOccurrences,
+  OCCURRENCE_ROLES,
+  type SymbolKind,
+  type SymbolExtractor,
+  type ExtractedSymbol,
+  type SymbolDefinition,
+  type OccurrenceRole,
+  type ExtractedOccurrence,
+  type SymbolReference,
+} from './symbols/index.js';
+
+// Graph
+export {
+  extractImports,
+  extractCalls,
+  extractScriptCalls,
+  symbolNodeId,
+  extractHeritage,
+  ImportResolver,
+  loadTsconfigPaths,
+  GRAPH_RELATIONS,
+  REVERSE_RELATIONS,
+  TYPE_KINDS,
+  type ExtractedImport,
+  type ImportBinding,
+  type ExtractedCall,
+  type ExtractedHeritage,
+  type TsconfigPaths,
+  type GraphRelation,
+  type ReverseGraphRelation,
+  type GraphDirection,
+  type GraphNode,
+  type GraphNeighbor,
+  type GraphNeighborsOptions,
+  type TypeHierarchy,
+  type TypeHierarchyOptions,
+  type TypeHierarchyDirection,
+} from './graph/index.js';
+
+// Workspace
+export {
+  discoverWorkspace,
+  discoverNpmPackages,
+  discoverCargoPackages,
+  discoverGoModules,
+  discoverPythonPackages,
+  normalizePythonName,
+  WORKSPACE_KINDS,
+  type WorkspaceKind,
+  type WorkspacePackage,
+} from './workspace/index.js';
+
+// Git
+export {
+  runGit,
+  isGitRepository,
+  resolveCommit,
+  readGitLog,
+  readGitBlame,
+  listCommits,
+  readCommitDiffs,
+  parseUnifiedDiff,
+  COMMIT_SHA_PATTERN,
+  DEFAULT_GIT_LOG_LIMIT,
+  MAX_HUNK_CHARS,
+  type GitCommit,
+  type GitFileStat,
+  type GitLogOptions,
+  type BlameHunk,
+  type GitBlameOptions,
+  type DiffHunk,
+  type CommitDiff,
+} from './git/index.js';
+
+// Configuration
+export {
+  loadConfig,
+  findConfigFile,
+  defineConfig,
+  RepoWikiConfigSchema,
+  CONFIG_FILE_NAMES,
+  type RepoWikiConfig,
+  type IndexConfig,
+  type EmbeddingsConfig,
+  type SearchConfig,
+  type LoadedConfig,
+} from './config/index.js';
+
 // Indexer
-export { Indexer, type IndexerConfig } from './indexer/index.js';
+export {
+  Indexer,
+  DEFAULT_INDEXED_EXTENSIONS,
+  DEFAULT_MAX_FILE_SIZE,
+  DEFAULT_HISTORY_MAX_COMMITS,
+  type IndexerConfig,
+  type IndexOptions,
+  type IndexResult,
+  type HistoryIndexOptions,
+  type HistorySearchOptions,
+  type HistorySearchResult,
+  type HybridSearchOptions,
+  type SearchFilters,
+  type FindDefinitionOptions,
+  type FindReferencesOptions,
+  type FindReferencesResult,
+  type IndexProgress,
+  type IndexProgressEvent,
+  type IndexPhase,
+  type FileChange,
+  type IndexStats,
+  type LanguageStats,
+  type IndexFreshness,
+} from './indexer/index.js';
+export {
+  IndexSchemaError,
+  SCHEMA_VERSION,
+  INDEXER_VERSION,
+  type IndexMeta,
+} from './indexer/schema.js';
+export {
+  IndexWatcher,
+  DEFAULT_WATCH_DEBOUNCE_MS,
+  type IndexWatcherOptions,
+  type WatchUpdate,
+} from './indexer/watcher.js';
+export { DEFAULT_INDEX_WORKERS } from './indexer/pool.js';
+export {
+  parseQuery,
+  compileQuery,
+  queryText,
+  DEFAULT_NEAR_DISTANCE,
+  type ParsedQuery,
+  type QueryClause,
+  type QueryOperand,
+  type QueryModifier,
+} from './indexer/query.js';
+export {
+  detectLanguage,
+  detectFileKind,
+  isTestPath,
+  FILE_KINDS,
+  type FileKind,
+} from './indexer/languages.js';
+export {
+  fuseResults,
+  formatScoreBreakdown,
+  DEFAULT_FUSION_OPTIONS,
+  type FusionMethod,
+  type FusionOptions,
+} from './indexer/ranking.js';
+export {
+  compileGrepPattern,
+  formatGrepMatches,
+  DEFAULT_GREP_MAX_MATCHES,
+  type GrepOptions,
+  type GrepResult,
+} from './indexer/grep.js';
+export { LOCKFILE_NAMES, type SkipReason, type SkippedFile } from './indexer/detect.js';
 
 // Tools (new system)
 export {
@@ -53,11 +232,27 @@ export {
   graphNeighbors,
   listFiles,
   getRepoSummary,
+  grep,
+  findDefinition,
+  findReferences,
+  typeHierarchy,
+  listPackages,
+  gitLog,
+  gitBlame,
+  searchHistory,
   SearchChunksArgsSchema,
   GetExcerptArgsSchema,
   GraphNeighborsArgsSchema,
   ListFilesArgsSchema,
   GetRepoSummaryArgsSchema,
+  GrepArgsSchema,
+  FindDefinitionArgsSchema,
+  FindReferencesArgsSchema,
+  TypeHierarchyArgsSchema,
+  ListPackagesArgsSchema,
+  GitLogArgsSchema,
+  GitBlameArgsSchema,
+  SearchHistoryArgsSchema,
   zodToJsonSchema,
   TOOL_JSON_SCHEMAS,
   type SearchChunksArgs,
@@ -65,6 +260,14 @@ export {
   type GraphNeighborsArgs,
   type ListFilesArgs as NewListFilesArgs,
   type GetRepoSummaryArgs,
+  type GrepArgs,
+  type FindDefinitionArgs,
+  type FindReferencesArgs,
+  type TypeHierarchyArgs,
+  type ListPackagesArgs,
+  type GitLogArgs,
+  type GitBlameArgs,
+  type SearchHistoryArgs,
   type ToolResult as NewToolResult,
   type ToolContext as NewToolContext,
   type ToolHandler,
@@ -0,0 +1,180 @@
+/**
+ * Line-range chunker
+ * Splits file contents into searchable chunks with stable line ranges
+ *
+ * Chunks follow top-level structure (declarations, markdown headings) where
+ * possible and fall back to overlapping line windows for long blocks.
+ */
+
+import * as path from 'node:path';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface Chunk {
+  /** Start line (1-indexed, inclusive) */
+  startLine: number;
+  /** End line (1-indexed, inclusive) */
+  endLine: number;
+  /** Chunk text */
+  content: string;
+}
+
+export interface ChunkerOptions {
+  /** Maximum lines per chunk (default: 60) */
+  maxLines?: number;
+  /** Lines shared between consecutive windows of a long block (default: 10) */
+  overlapLines?: number;
+}
+
+export const DEFAULT_CHUNKER_OPTIONS = {
+  maxLines: 60,
+  overlapLines: 10,
+} as const;
+
+// ============================================================================
+// Boundary Detection
+// ============================================================================
+
+const MARKDOWN_EXTENSIONS = new Set(['.md', '.mdx', '.markdown']);
+
+/**
+ * Top-level declarations that start a new logical block (column 0 only)
+ */
+const DECLARATION_PATTERN = new RegExp(
+  [
+    // TypeScript / JavaScript
+    String.raw`^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:function\*?|class|interface|type|enum|const|let|var|namespace|module)\b`,
+    // Python
+    String.raw`^(?:async\s+)?(?:def|class)\s`,
+    // Rust
+    String.raw`^(?:pub(?:\([\w:]+\))?\s+)?(?:async\s+)?(?:unsafe\s+)?(?:fn|struct|enum|trait|impl|mod|static|type)\b`,
+    // Go
+    String.raw`^(?:func|type|var)\b`,
+    // Java / C-family type declarations
+    String.raw`^(?:public\s+|private\s+|protected\s+)?(?:final\s+|abstract\s+|static\s+)*(?:class|interface|record|struct|enum)\s`,
+  ].join('|')
+);
+
+/** Comment or decorator lines that belong to the declaration below them */
+const LEADING_TRIVIA_PATTERN = /^(?:\/\/|\/\*|\*|\s+\*|#(?!#)|@\w)/;
+
+const MARKDOWN_HEADING_PATTERN = /^#{1,6}\s/;
+
+function findBoundaries(lines: string[], isMarkdown: boolean): number[] {
+  const boundaries: number[] = [];
+  let inFence = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i] ?? '';
+
+    if (isMarkdown) {
+      if (line.startsWith('```')) {
+        inFence = !inFence;
+      }
+      if (!inFence && MARKDOWN_HEADING_PATTERN.test(line)) {
+        boundaries.push(i);
+      }
+      continue;
+    }
+
+    if (!DECLARATION_PATTERN.test(line)) {
+      continue;
+    }
+
+    // Pull attached doc comments and decorators into the block
+    let start = i;
+    while (start > 0 && LEADING_TRIVIA_PATTERN.test(lines[start - 1] ?? '')) {
+      start--;
+    }
+    const previous = boundaries[boundaries.length - 1];
+    if (previous === undefined || start > previous) {
+      boundaries.push(start);
+    }
+  }
+
+  return boundaries;
+}
+
+// ============================================================================
+// Chunking
+// ============================================================================
+
+/**
+ * Split a file into chunks with 1-indexed, inclusive line ranges
+ */
+export function chunkFile(filePath: string, content: string, options: ChunkerOptions = {}): Chunk[] {
+  const maxLines = Math.max(1, options.maxLines ?? DEFAULT_CHUNKER_OPTIONS.maxLines);
+  const overlapLines = Math.min(
+    Math.max(0, options.overlapLines ?? DEFAULT_CHUNKER_OPTIONS.overlapLines),
+    maxLines - 1
+  );
+
+  const lines = content.split('\n');
+  if (lines.length <= maxLines) {
+    return toChunks(lines, [[0, lines.length]]);
+  }
+
+  const isMarkdown = MARKDOWN_EXTENSIONS.has(path.extname(filePath).toLowerCase());
+  const boundaries = findBoundaries(lines, isMarkdown);
+
+  // Blocks are [start, end) index ranges between boundaries
+  const blocks: Array<[number, number]> = [];
+  let blockStart = 0;
+  for (const boundary of boundaries) {
+    if (boundary > blockStart) {
+      blocks.push([blockStart, boundary]);
+      blockStart = boundary;
+    }
+  }
+  blocks.push([blockStart, lines.length]);
+
+  // Greedily pack small blocks together; window oversized ones
+  const ranges: Array<[number, number]> = [];
+  let current: [number, number] | undefined;
+
+  for (const [start, end] of blocks) {
+    if (end - start > maxLines) {
+      if (current) {
+        ranges.push(current);
+        current = undefined;
+      }
+      const step = maxLines - overlapLines;
+      for (let windowStart = start; windowStart < end; windowStart += step) {
+        const windowEnd = Math.min(end, windowStart + maxLines);
+        ranges.push([windowStart, windowEnd]);
+        if (windowEnd === end) break;
+      }
+      continue;
+    }
+
+    if (current && end - current[0] <= maxLines) {
+      current[1] = end;
+    } else {
+      if (current) ranges.push(current);
+      current = [start, end];
+    }
+  }
+  if (current) ranges.push(current);
+
+  return toChunks(lines, ranges);
+}
+
+function toChunks(lines: string[], ranges: Array<[number, number]>): Chunk[] {
+  const chunks: Chunk[] = [];
+
+  for (const [start, end] of ranges) {
+    const chunkLines = lines.slice(start, end);
+    const text = chunkLines.join('\n');
+    if (text.trim().length === 0) continue;
+
+    chunks.push({
+      startLine: start + 1,
+      endLine: end,
+      content: text,
+    });
+  }
+
+  return chunks;
+}
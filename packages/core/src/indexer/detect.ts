@@ -0,0 +1,237 @@
+/**
+ * File Classification
+ * Detects files that should not be indexed: binaries, lockfiles,
+ * minified bundles and generated code
+ */
+
+import * as path from 'node:path';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SkipReason = 'too-large' | 'binary' | 'lockfile' | 'minified' | 'generated' | 'unreadable';
+
+export interface SkippedFile {
+  /** Path relative to the repository root */
+  path: string;
+  /** Why the file was not indexed */
+  reason: SkipReason;
+  /** Human-readable detail (e.g. size, matched marker) */
+  detail?: string;
+}
+
+export interface SkipDecision {
+  reason: SkipReason;
+  detail?: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const LOCKFILE_NAMES = new Set([
+  'package-lock.json',
+  'npm-shrinkwrap.json',
+  'yarn.lock',
+  'pnpm-lock.yaml',
+  'bun.lockb',
+  'Cargo.lock',
+  'poetry.lock',
+  'Pipfile.lock',
+  'uv.lock',
+  'composer.lock',
+  'Gemfile.lock',
+  'go.sum',
+  'flake.lock',
+  'packages.lock.json',
+]);
+
+/** Bytes inspected for binary detection and generated-file headers */
+const SNIFF_BYTES = 8000;
+
+/** Lines inspected for generated-file markers */
+const HEADER_LINES = 5;
+
+interface CommentSyntax {
+  /** Line comment markers */
+  line: string[];
+  /** Block comment openers and their closers */
+  block: Array<[open: string, close: string]>;
+}
+
+const C_COMMENTS: CommentSyntax = { line: ['//'], block: [['/*', '*/']] };
+const HASH_COMMENTS: CommentSyntax = { line: ['#'], block: [] };
+const MARKUP_COMMENTS: CommentSyntax = { line: [], block: [['<!--', '-->']] };
+
+/** Comment syntax by language id (see languages.ts); prose only has HTML comments */
+const COMMENT_SYNTAX: Record<string, CommentSyntax> = {
+  typescript: C_COMMENTS,
+  javascript: C_COMMENTS,
+  go: C_COMMENTS,
+  rust: C_COMMENTS,
+  java: C_COMMENTS,
+  kotlin: C_COMMENTS,
+  swift: C_COMMENTS,
+  c: C_COMMENTS,
+  cpp: C_COMMENTS,
+  csharp: C_COMMENTS,
+  protobuf: C_COMMENTS,
+  json: C_COMMENTS,
+  php: { line: ['//', '#'], block: [['/*', '*/']] },
+  vue: { line: ['//'], block: [['<!--', '-->'], ['/*', '*/']] },
+  sql: { line: ['--'], block: [['/*', '*/']] },
+  python: HASH_COMMENTS,
+  ruby: HASH_COMMENTS,
+  shell: HASH_COMMENTS,
+  yaml: HASH_COMMENTS,
+  toml: HASH_COMMENTS,
+  ini: { line: [';', '#'], block: [] },
+  xml: MARKUP_COMMENTS,
+  markdown: MARKUP_COMMENTS,
+  restructuredtext: MARKUP_COMMENTS,
+  text: MARKUP_COMMENTS,
+};
+
+/** Files of other languages may use any of the common comment styles */
+const DEFAULT_COMMENTS: CommentSyntax = {
+  line: ['//', '#', '--', ';'],
+  block: [
+    ['/*', '*/'],
+    ['<!--', '-->'],
+  ],
+};
+
+/** Lines allowed before a header comment */
+const PREAMBLE = /^(?:#!|<\?xml\b)/;
+
+/** Any single line longer than this marks a file as minified */
+const MAX_LINE_LENGTH = 2000;
+
+/** Average line length above this (for files of some size) marks a file as minified */
+const MAX_AVERAGE_LINE_LENGTH = 300;
+
+/** Generator phrasing, matched in header comments only */
+const GENERATED_MARKERS = [
+  /@generated\b/,
+  /\bDO NOT EDIT\b/,
+  /<auto-generated\b/i,
+  // "Auto-generated by protoc. Do not edit." (mentioning generated output alone is not enough)
+  /\b(?:auto-?generated|automatically generated|generated (?:by|from|automatically))\b[\s\S]*?\bdo not (?:edit|modify)\b/i,
+];
+
+const MINIFIED_NAME_PATTERN = /[.-]min\.(?:js|mjs|cjs|css)$/i;
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+/**
+ * Decide from the path alone whether a file should be skipped
+ */
+export function classifyByName(relativePath: string): SkipDecision | undefined {
+  const baseName = path.basename(relativePath);
+
+  if (LOCKFILE_NAMES.has(baseName)) {
+    return { reason: 'lockfile' };
+  }
+  if (MINIFIED_NAME_PATTERN.test(baseName)) {
+    return { reason: 'minified', detail: 'minified file name' };
+  }
+
+  return undefined;
+}
+
+/**
+ * Check raw bytes for binary content (NUL bytes or mostly control characters)
+ */
+export function isBinaryContent(buffer: Buffer): boolean {
+  const length = Math.min(buffer.length, SNIFF_BYTES);
+  if (length === 0) return false;
+
+  let suspicious = 0;
+  for (let i = 0; i < length; i++) {
+    const byte = buffer[i]!;
+    if (byte === 0) return true;
+    // Control characters other than tab, LF, FF, CR
+    if (byte < 7 || (byte > 13 && byte < 32 && byte !== 27)) {
+      suspicious++;
+    }
+  }
+
+  return suspicious / length > 0.3;
+}
+
+/**
+ * Detect minified or generated text content
+ * @param language - Language id (see detectLanguage) selecting the comment syntax of the header
+ */
+export function classifyContent(content: string, language?: string): SkipDecision | undefined {
+  const comments = headerComments(content, (language && COMMENT_SYNTAX[language]) || DEFAULT_COMMENTS);
+  for (const marker of GENERATED_MARKERS) {
+    const match = comments.match(marker);
+    if (match) {
+      return { reason: 'generated', detail: `header contains "${match[0].replace(/\s+/g, ' ')}"` };
+    }
+  }
+
+  const lines = content.split('\n');
+  let longest = 0;
+  for (const line of lines) {
+    if (line.length > longest) longest = line.length;
+  }
+
+  if (longest > MAX_LINE_LENGTH) {
+    return { reason: 'minified', detail: `line of ${longest} characters` };
+  }
+
+  const average = content.length / lines.length;
+  if (content.length > SNIFF_BYTES && average > MAX_AVERAGE_LINE_LENGTH) {
+    return { reason: 'minified', detail: `average line length ${Math.round(average)}` };
+  }
+
+  return undefined;
+}
+
+/**
+ * Text of the comments heading the first HEADER_LINES lines (after a shebang or
+ * XML declaration); collection stops at the first line of code
+ */
+function headerComments(content: string, syntax: CommentSyntax): string {
+  const comments: string[] = [];
+  const lines = content.slice(0, SNIFF_BYTES).split('\n').slice(0, HEADER_LINES);
+  if (PREAMBLE.test(lines[0] ?? '')) lines.shift();
+  let close: string | undefined;
+
+  for (const line of lines) {
+    let text = line.trimStart();
+    if (!close) {
+      const block = syntax.block.find(([open]) => text.startsWith(open));
+      if (block) {
+        text = text.slice(block[0].length);
+        close = block[1];
+      } else if (syntax.line.some((marker) => text.startsWith(marker))) {
+        comments.push(text);
+        continue;
+      } else if (text.trim()) {
+        // The first line of code ends the header
+        break;
+      } else {
+        continue;
+      }
+    }
+
+    const end = text.indexOf(close);
+    if (end === -1) {
+      comments.push(text);
+      continue;
+    }
+    comments.push(text.slice(0, end));
+    const rest = text.slice(end + close.length);
+    close = undefined;
+    // Code after the comment closes ends the header
+    if (rest.trim()) break;
+  }
+
+  return comments.join('\n');
+}
@@ -0,0 +1,94 @@
+/**
+ * Glob Matching
+ * Translates glob patterns (*, **, ?, [...]) into regular expressions
+ */
+
+/**
+ * Convert a glob pattern into a regular expression source (without anchors)
+ *
+ * - `*` matches within a single path segment
+ * - `**` matches across segments (`**\/` may also match nothing)
+ * - `?` matches one character other than `/`
+ * - `[abc]`, `[!abc]` and `[a-z]` are character classes
+ * - `\x` matches `x` literally
+ */
+export function globToRegExpSource(pattern: string): string {
+  let source = '';
+  let i = 0;
+
+  while (i < pattern.length) {
+    const char = pattern[i] ?? '';
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        const atSegmentStart = i === 0 || pattern[i - 1] === '/';
+        if (atSegmentStart && pattern[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 3;
+        } else {
+          source += '.*';
+          i += 2;
+        }
+      } else {
+        source += '[^/]*';
+        i++;
+      }
+      continue;
+    }
+
+    if (char === '?') {
+      source += '[^/]';
+      i++;
+      continue;
+    }
+
+    if (char === '[') {
+      const close = pattern.indexOf(']', i + 2);
+      if (close !== -1) {
+        let body = pattern.slice(i + 1, close);
+        const negated = body.startsWith('!') || body.startsWith('^');
+        if (negated) body = body.slice(1);
+        body = body.replace(/[\\\]^]/g, '\\$&');
+        source += `[${negated ? '^' : ''}${body}]`;
+        i = close + 1;
+        continue;
+      }
+    }
+
+    if (char === '\\' && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[i + 1] ?? '');
+      i += 2;
+      continue;
+    }
+
+    source += escapeRegExp(char);
+    i++;
+  }
+
+  return source;
+}
+
+/**
+ * Compile a glob pattern into an anchored regular expression
+ */
+export function globToRegExp(pattern: string, flags = ''): RegExp {
+  return new RegExp(`^${globToRegExpSource(pattern)}$`, flags);
+}
+
+/**
+ * Check whether a relative path matches a glob pattern
+ */
+export function matchGlob(filepath: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(toPosixPath(filepath));
+}
+
+/**
+ * Normalize OS-specific separators to forward slashes
+ */
+export function toPosixPath(filepath: string): string {
+  return filepath.replace(/\\/g, '/');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
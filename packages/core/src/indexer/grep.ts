@@ -0,0 +1,92 @@
+/**
+ * Line-Oriented Regex Search
+ * Shared by Indexer.grep (index content) and the grep tool's working-tree fallback
+ */
+
+import type { GrepMatch } from '../types.js';
+
+export interface GrepOptions {
+  /** Only files matching this glob */
+  glob?: string;
+  /** Lines of context before and after each match (default: 0) */
+  contextLines?: number;
+  /** Stop after this many matches (default: 50) */
+  maxMatches?: number;
+}
+
+export interface GrepResult {
+  matches: GrepMatch[];
+  /** Files whose content was scanned */
+  filesSearched: number;
+  /** True when maxMatches was reached before every file was scanned */
+  truncated: boolean;
+}
+
+export const DEFAULT_GREP_MAX_MATCHES = 50;
+
+/** Lines longer than this are not tested (guards against pathological regexes) */
+const MAX_LINE_LENGTH = 4000;
+
+/**
+ * Compile a user pattern; the global/sticky flags are never set so `test` is stateless
+ */
+export function compileGrepPattern(pattern: string, ignoreCase = false): RegExp {
+  try {
+    return new RegExp(pattern, ignoreCase ? 'iu' : 'u');
+  } catch {
+    // Fall back to non-unicode mode, which accepts more legacy escapes
+    return new RegExp(pattern, ignoreCase ? 'i' : '');
+  }
+}
+
+/**
+ * Collect matching lines from one file
+ * @param limit - Maximum number of matches to return
+ */
+export function grepContent(
+  filePath: string,
+  content: string,
+  regex: RegExp,
+  contextLines: number,
+  limit: number
+): GrepMatch[] {
+  const matches: GrepMatch[] = [];
+  const lines = content.split('\n');
+
+  for (let i = 0; i < lines.length && matches.length < limit; i++) {
+    const line = lines[i]!.replace(/\r$/, '');
+    if (line.length > MAX_LINE_LENGTH || !regex.test(line)) continue;
+
+    const match: GrepMatch = { path: filePath, line: i + 1, text: line };
+    if (contextLines > 0) {
+      match.before = lines.slice(Math.max(0, i - contextLines), i).map(stripCr);
+      match.after = lines.slice(i + 1, i + 1 + contextLines).map(stripCr);
+    }
+    matches.push(match);
+  }
+
+  return matches;
+}
+
+/**
+ * Format matches grep-style: `path:line: text`, context lines as `path-line- text`
+ */
+export function formatGrepMatches(matches: GrepMatch[]): string {
+  return matches
+    .map((match) => {
+      const lines: string[] = [];
+      match.before?.forEach((text, i) => {
+        lines.push(`${match.path}-${match.line - match.before!.length + i}- ${text}`);
+      });
+      lines.push(`${match.path}:${match.line}: ${match.text}`);
+      match.after?.forEach((text, i) => {
+        lines.push(`${match.path}-${match.line + 1 + i}- ${text}`);
+      });
+      return lines.join('\n');
+    })
+    .join(matches.some((m) => m.before?.length || m.after?.length) ? '\n--\n' : '\n');
+}
+
+function stripCr(line: string): string {
+  return line.replace(/\r$/, '');
+}
@@ -0,0 +1,262 @@
+/**
+ * Ignore Rules
+ * Shared .gitignore-style matching used by the indexer and the file tools
+ *
+ * Rules are read from built-in defaults, caller-supplied patterns, and every
+ * `.gitignore` / `.repowikiignore` file between the repository root and the
+ * path being checked. As in git, the last matching rule wins and a file
+ * cannot be re-included once one of its parent directories is excluded.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { globToRegExpSource, toPosixPath } from './glob.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const REPOWIKI_IGNORE_FILE = '.repowikiignore';
+
+/** Files whose patterns apply to their directory and everything below it */
+export const IGNORE_FILES = ['.gitignore', REPOWIKI_IGNORE_FILE];
+
+/**
+ * Always-ignored directories (VCS metadata, dependencies, build output)
+ */
+export const DEFAULT_IGNORE_PATTERNS = [
+  '.git/',
+  '.repo-wiki/',
+  'node_modules/',
+  'dist/',
+  '.next/',
+  '.nuxt/',
+  'coverage/',
+  '__pycache__/',
+  '.venv/',
+  'venv/',
+];
+
+// ============================================================================
+// Rule Parsing
+// ============================================================================
+
+export interface IgnoreRule {
+  /** Original pattern text */
+  pattern: string;
+  /** Compiled matcher for paths relative to baseDir */
+  regex: RegExp;
+  /** `!pattern` re-includes a previously ignored path */
+  negated: boolean;
+  /** `pattern/` only matches directories */
+  directoryOnly: boolean;
+  /** Directory (relative to repo root, '' for root) the rule applies within */
+  baseDir: string;
+}
+
+/**
+ * Parse .gitignore-formatted text into rules
+ */
+export function parseIgnorePatterns(content: string, baseDir = ''): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine;
+
+    // Trailing spaces are ignored unless escaped
+    line = line.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) continue;
+
+    let negated = false;
+    if (line.startsWith('!')) {
+      negated = true;
+      line = line.slice(1);
+    } else if (line.startsWith('\\!') || line.startsWith('\\#')) {
+      line = line.slice(1);
+    }
+
+    let directoryOnly = false;
+    if (line.endsWith('/')) {
+      directoryOnly = true;
+      line = line.replace(/\/+$/, '');
+    }
+    if (!line) continue;
+
+    // A slash anywhere but the end anchors the pattern to baseDir
+    const anchored = line.includes('/');
+    if (line.startsWith('/')) {
+      line = line.slice(1);
+    }
+
+    const body = globToRegExpSource(line);
+    const regex = anchored ? new RegExp(`^${body}$`) : new RegExp(`(?:^|/)${body}$`);
+
+    rules.push({ pattern: rawLine.trim(), regex, negated, directoryOnly, baseDir });
+  }
+
+  return rules;
+}
+
+// ============================================================================
+// Matcher
+// ============================================================================
+
+export interface IgnoreMatcherOptions {
+  /** Additional gitignore-style patterns applied at the repository root */
+  extraPatterns?: string[];
+  /** Skip DEFAULT_IGNORE_PATTERNS (default: false) */
+  noDefaults?: boolean;
+}
+
+export class IgnoreMatcher {
+  private repoPath: string;
+  private baseRules: IgnoreRule[];
+  private dirRules = new Map<string, IgnoreRule[]>();
+  private dirIgnored = new Map<string, boolean>();
+
+  constructor(repoPath: string, options: IgnoreMatcherOptions = {}) {
+    this.repoPath = path.resolve(repoPath);
+    this.baseRules = [
+      ...(options.noDefaults ? [] : parseIgnorePatterns(DEFAULT_IGNORE_PATTERNS.join('\n'))),
+      ...parseIgnorePatterns((options.extraPatterns ?? []).join('\n')),
+    ];
+  }
+
+  /**
+   * Check whether a repository-relative path is ignored
+   */
+  isIgnored(relativePath: string, isDirectory = false): boolean {
+    const normalized = normalizeRelative(relativePath);
+    if (!normalized) return false;
+
+    const parent = parentDir(normalized);
+    if (parent && this.isDirectoryIgnored(parent)) {
+      return true;
+    }
+
+    return this.matchRules(normalized, isDirectory);
+  }
+
+  private isDirectoryIgnored(dir: string): boolean {
+    const cached = this.dirIgnored.get(dir);
+    if (cached !== undefined) return cached;
+
+    const parent = parentDir(dir);
+    const ignored = (parent !== '' && this.isDirectoryIgnored(parent)) || this.matchRules(dir, true);
+    this.dirIgnored.set(dir, ignored);
+    return ignored;
+  }
+
+  private matchRules(relativePath: string, isDirectory: boolean): boolean {
+    let ignored = false;
+
+    for (const rule of this.rulesFor(parentDir(relativePath))) {
+      if (rule.directoryOnly && !isDirectory) continue;
+
+      let subject = relativePath;
+      if (rule.baseDir) {
+        if (!relativePath.startsWith(`${rule.baseDir}/`)) continue;
+        subject = relativePath.slice(rule.baseDir.length + 1);
+      }
+
+      if (rule.regex.test(subject)) {
+        ignored = !rule.negated;
+      }
+    }
+
+    return ignored;
+  }
+
+  /**
+   * Rules that apply to entries of `dir`, ordered from lowest to highest precedence
+   */
+  private rulesFor(dir: string): IgnoreRule[] {
+    const cached = this.dirRules.get(dir);
+    if (cached) return cached;
+
+    const inherited = dir === '' ? this.baseRules : this.rulesFor(parentDir(dir));
+    const own: IgnoreRule[] = [];
+
+    for (const fileName of IGNORE_FILES) {
+      const filePath = path.join(this.repoPath, dir, fileName);
+      try {
+        own.push(...parseIgnorePatterns(fs.readFileSync(filePath, 'utf-8'), dir));
+      } catch {
+        // No ignore file in this directory
+      }
+    }
+
+    const rules = own.length > 0 ? [...inherited, ...own] : inherited;
+    this.dirRules.set(dir, rules);
+    return rules;
+  }
+}
+
+/**
+ * Create an ignore matcher for a repository
+ */
+export function createIgnoreMatcher(repoPath: string, options: IgnoreMatcherOptions = {}): IgnoreMatcher {
+  return new IgnoreMatcher(repoPath, options);
+}
+
+// ============================================================================
+// Walker
+// ============================================================================
+
+export interface WalkEntry {
+  /** Absolute path */
+  fullPath: string;
+  /** Path relative to the repository root (OS separators) */
+  relativePath: string;
+}
+
+/**
+ * Walk all non-ignored files under the repository root (or a directory inside it)
+ * Yields lazily so callers can stop early (e.g. when a limit is reached).
+ */
+export function* walkRepository(repoPath: string, matcher: IgnoreMatcher, from: string = repoPath): Generator<WalkEntry> {
+  const root = path.resolve(repoPath);
+  const pending: string[] = [path.resolve(root, from)];
+
+  while (pending.length > 0) {
+    const dir = pending.pop()!;
+
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      // Ignore permission errors
+      continue;
+    }
+
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    const subdirectories: string[] = [];
+
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      const relativePath = path.relative(root, fullPath);
+
+      if (entry.isDirectory()) {
+        if (!matcher.isIgnored(relativePath, true)) {
+          subdirectories.push(fullPath);
+        }
+      } else if (entry.isFile()) {
+        if (!matcher.isIgnored(relativePath, false)) {
+          yield { fullPath, relativePath };
+        }
+      }
+    }
+
+    // Depth-first, in name order
+    pending.push(...subdirectories.reverse());
+  }
+}
+
+function normalizeRelative(relativePath: string): string {
+  return toPosixPath(relativePath).replace(/^\.\/+/, '').replace(/\/+$/, '');
+}
+
+function parentDir(relativePath: string): string {
+  const index = relativePath.lastIndexOf('/');
+  return index === -1 ? '' : relativePath.slice(0, index);
+}
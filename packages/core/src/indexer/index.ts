@@ -1,26 +1,70 @@
 /**
  * SQLite-based repository indexer
- * Stores file contents and provides search functionality
+ * Stores file contents, splits them into line-range chunks and provides search functionality
  */
 
 import Database from 'better-sqlite3';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
+import { setImmediate } from 'node:timers/promises';
 import type { IndexedFile, SearchResult } from '../types.js';
+import type { ChunkerOptions } from './chunker.js';
+import { createIgnoreMatcher, walkRepository, type IgnoreMatcher } from './ignore.js';
+import {
+  createMetaTable,
+  IndexSchemaError,
+  INDEXER_VERSION,
+  readMeta,
+  runMigrations,
+  SCHEMA_VERSION,
+  writeMeta,
+  type IndexMeta,
+  type Migration,
+} from './schema.js';
+import { classifyByName, type SkipDecision, type SkippedFile } from './detect.js';
+import {
+  analyzeFile,
+  inspectFile,
+  type FileAnalysis,
+  type FileInspection,
+  type IndexedFileState,
+  type ParseOutcome,
+} from './parse.js';
+import { DEFAULT_INDEX_WORKERS, MIN_FILES_PER_WORKER, ParsePool } from './pool.js';
+import type { EmbeddingProvider } from '../embeddings/types.js';
+import { blobToVector, cosineSimilarity, vectorToBlob } from '../embeddings/vector.js';
+import { fuseResults, type FusionOptions } from './ranking.js';
+import { expandIdentifiers } from './tokenize.js';
+import { compileQuery, queryText } from './query.js';
+import { getFileMetadata, type FileKind } from './languages.js';
+import { globToRegExp, toPosixPath } from './glob.js';
+import {
+  DEFAULT_SYMBOL_EXTRACTORS,
+  OCCURRENCE_ROLES,
+  type OccurrenceRole,
+  type SymbolDefinition,
+  type SymbolReference,
+  type SymbolExtractor,
+  type SymbolKind,
+} from '../symbols/index.js';
+import { DEFAULT_GREP_MAX_MATCHES, grepContent, type GrepOptions, type GrepResult } from './grep.js';
+import {
+  ImportResolver,
+  CALLABLE_KINDS,
+  REVERSE_RELATIONS,
+  symbolNodeId,
+  TYPE_KINDS,
+  type GraphNeighbor,
+  type GraphNeighborsOptions,
+  type GraphNode,
+  type GraphRelation,
+  type TypeHierarchy,
+  type TypeHierarchyOptions,
+} from '../graph/index.js';
+import { discoverWorkspace, type WorkspacePackage } from '../workspace/index.js';
+import { isGitRepository, listCommits, readCommitDiffs, type CommitDiff, type DiffHunk } from '../git/index.js';
 
-const IGNORED_DIRS = new Set([
-  'node_modules',
-  '.git',
-  'dist',
-  '.next',
-  '.nuxt',
-  'coverage',
-  '__pycache__',
-  '.venv',
-  'venv',
-]);
-
-const INDEXED_EXTENSIONS = new Set([
+export const DEFAULT_INDEXED_EXTENSIONS: readonly string[] = [
   '.ts',
   '.tsx',
   '.js',
@@ -38,191 +82,1570 @@ const INDEXED_EXTENSIONS = new Set([
   '.yaml',
   '.yml',
   '.toml',
+];
+
+/** Files larger than this are not indexed unless configured otherwise (1 MiB) */
+export const DEFAULT_MAX_FILE_SIZE = 1024 * 1024;
+
+/** Files written to the database per transaction while indexing */
+const INDEX_BATCH_SIZE = 200;
+
+/** Manifests and configs that workspace discovery and import resolution read */
+const RESOLUTION_CONFIG_FILES = new Set([
+  'package.json',
+  'pnpm-workspace.yaml',
+  'Cargo.toml',
+  'go.mod',
+  'go.work',
+  'pyproject.toml',
+  'tsconfig.json',
+  'jsconfig.json',
 ]);
 
+/** Levels of barrel files (`export * from`) followed to find where an imported name is defined */
+const MAX_REEXPORT_DEPTH = 4;
+
+/** Chunks sent to the embedding provider per request */
+const EMBEDDING_BATCH_SIZE = 32;
+
+/** Each retriever contributes this many candidates per requested result to hybrid fusion */
+const HYBRID_CANDIDATE_FACTOR = 3;
+
+/** Newest commits kept in the history index unless configured otherwise */
+export const DEFAULT_HISTORY_MAX_COMMITS = 1000;
+
+/** Diff hunks stored per commit; the rest of a huge commit is found through its message only */
+const MAX_HISTORY_HUNKS_PER_COMMIT = 200;
+
+/** Messages and hunks each contribute this many candidates per requested commit */
+const HISTORY_CANDIDATE_FACTOR = 5;
+
 export interface IndexerConfig {
   repoPath: string;
   dbPath?: string;
+  /** Chunk size and overlap used when splitting files */
+  chunking?: ChunkerOptions;
+  /** Extensions indexed in addition to DEFAULT_INDEXED_EXTENSIONS */
+  includeExtensions?: string[];
+  /** Default extensions that should not be indexed */
+  excludeExtensions?: string[];
+  /** Extra gitignore-style patterns */
+  ignore?: string[];
+  /** Files larger than this (bytes) are skipped (default: DEFAULT_MAX_FILE_SIZE) */
+  maxFileSize?: number;
+  /** Enables semantic search; chunks are embedded after each indexing run */
+  embeddings?: EmbeddingProvider;
+  /** Default fusion method and weights for hybridSearch */
+  ranking?: FusionOptions;
+  /** Symbol extractors for additional languages; they take precedence over the built-in ones */
+  symbolExtractors?: SymbolExtractor[];
+  /** Also index commit messages and diff hunks for searchHistory (git repositories only) */
+  history?: boolean | HistoryIndexOptions;
+  /** Worker threads that read and parse files (default: DEFAULT_INDEX_WORKERS; 0 parses on the main thread) */
+  workers?: number;
+}
+
+export interface HistoryIndexOptions {
+  /** Newest commits to keep in the index (default: DEFAULT_HISTORY_MAX_COMMITS) */
+  maxCommits?: number;
+}
+
+export interface IndexOptions {
+  /** Re-read and re-chunk every file even if it looks unchanged */
+  force?: boolean;
+  /** Called for each progress event (see IndexProgressEvent) */
+  onProgress?: (event: IndexProgressEvent) => void;
+  /**
+   * Cancels the run; it then rejects with the signal's reason
+   * Batches already written stay in the index and graph edges are resolved for
+   * them, but nothing is pruned and the last-indexed time is not updated. The
+   * next run picks up the remaining files.
+   */
+  signal?: AbortSignal;
+}
+
+/** Steps of an indexing run, in order; `history` and `embedding` only run when configured */
+export type IndexPhase = 'scanning' | 'parsing' | 'linking' | 'history' | 'embedding';
+
+/** How a processed file compared with the index */
+export type FileChange = 'added' | 'updated' | 'unchanged';
+
+export type IndexProgressEvent =
+  | { type: 'phase'; phase: IndexPhase }
+  /** Files found to process (before skip rules are applied) */
+  | { type: 'discovered'; files: number }
+  | { type: 'processed'; path: string; change: FileChange }
+  | ({ type: 'skipped' } & SkippedFile)
+  /** After each batch of files is written */
+  | ({ type: 'progress' } & IndexProgress);
+
+export interface IndexProgress {
+  /** Files parsed and written so far */
+  processed: number;
+  /** Files to process in this run */
+  total: number;
+  filesPerSecond: number;
+  /** Estimated milliseconds until all files are processed */
+  etaMs: number;
+}
+
+/**
+ * Restrictions applied to search results (in SQL, before ranking limits)
+ */
+export interface SearchFilters {
+  /** Only paths under this directory/prefix (e.g. "packages/core/src") */
+  pathPrefix?: string;
+  /** Only paths matching this glob (e.g. "src/**") */
+  glob?: string;
+  /** Only files of this language (e.g. "typescript", "python", "markdown") */
+  language?: string;
+  /** Leave out tests, fixtures and mocks */
+  excludeTests?: boolean;
+  /** Only code, docs or config files */
+  kind?: FileKind;
+}
+
+export interface HybridSearchOptions extends FusionOptions {
+  /** Number of results to return (default: 10) */
+  topK?: number;
+  /** Restrictions applied to both keyword and semantic results */
+  filters?: SearchFilters;
+}
+
+export interface FindDefinitionOptions {
+  /** Only symbols of this kind */
+  kind?: SymbolKind;
+  /** Maximum number of definitions to return (default: 10) */
+  limit?: number;
+}
+
+export interface FindReferencesOptions {
+  /** Only occurrences with this role */
+  role?: OccurrenceRole;
+  /** Restrict to matching files */
+  filters?: SearchFilters;
+  /** Lines of context before and after each occurrence (default: 0) */
+  contextLines?: number;
+  /** Maximum number of references to return (default: 50) */
+  limit?: number;
+}
+
+export interface FindReferencesResult {
+  /** References in path and line order, test files last */
+  references: SymbolReference[];
+  /** Occurrences per role over all matches, not only the returned ones */
+  counts: Record<OccurrenceRole, number>;
+  /** Files containing at least one occurrence */
+  files: number;
+}
+
+export interface HistorySearchOptions {
+  /** Number of commits to return (default: 10) */
+  limit?: number;
+  /** Only commits changing files under this directory/prefix */
+  pathPrefix?: string;
+  /** Only commits whose author name or email contains this text (case-insensitive) */
+  author?: string;
+  /** Matching hunks returned per commit (default: 3) */
+  maxHunks?: number;
+}
+
+export interface HistorySearchResult extends CommitDiff {
+  /** Message match plus best hunk match (higher is better) */
+  score: number;
+  /** Whether the query matched the commit message */
+  messageMatch: boolean;
+}
+
+export interface IndexResult {
+  /** Files present in the index after this run */
+  indexed: number;
+  /** Files indexed for the first time */
+  added: number;
+  /** Files whose content changed and were re-indexed */
+  updated: number;
+  /** Files skipped because mtime or content hash matched */
+  unchanged: number;
+  /** Files not indexed (see skippedFiles for reasons) */
+  skipped: number;
+  /** Every skipped file with the reason it was skipped */
+  skippedFiles: SkippedFile[];
+  /** Index rows removed because the file was deleted or renamed */
+  removed: number;
+  /** Chunks embedded in this run (0 when no embedding provider is configured) */
+  embedded: number;
+  /** Commits added to the history index in this run (0 when history indexing is off) */
+  commits: number;
+}
+
+export interface LanguageStats {
+  /** Language detected from the file extension (undefined for unrecognized extensions) */
+  language?: string;
+  files: number;
+  chunks: number;
+  symbols: number;
+}
+
+export interface IndexStats extends IndexMeta {
+  /** Path of the index database */
+  dbPath: string;
+  /** Size of the database on disk, including the SQLite write-ahead log (bytes) */
+  sizeBytes: number;
+  files: number;
+  chunks: number;
+  symbols: number;
+  /** Chunks that have an embedding */
+  embeddedChunks: number;
+  /** Commits in the history index */
+  commits: number;
+  /** Counts per language, most files first */
+  languages: LanguageStats[];
+}
+
+export interface IndexFreshness {
+  /** Indexed files whose content changed on disk since they were indexed */
+  stale: string[];
+  /** Indexable files on disk that are not in the index yet */
+  unindexed: string[];
+  /** Indexed files that were deleted, or would now be ignored or skipped */
+  removed: string[];
+  /** Files on disk that indexing skips, with the reason */
+  skippedFiles: SkippedFile[];
+}
+
+/** Prepared statements that maintain the symbols, occurrences and edges tables */
+interface SymbolStatements {
+  deleteSymbols: Database.Statement;
+  deleteOccurrences: Database.Statement;
+  deleteEdges: Database.Statement;
+  insertSymbol: Database.Statement;
+  insertOccurrence: Database.Statement;
+  insertEdge: Database.Statement;
+}
+
+/** What an update changed, to re-resolve only the graph edges it can affect */
+interface EdgeChanges {
+  /** Files written or removed */
+  files: Set<string>;
+  /** Names of symbols those files defined before or after the update */
+  names: Set<string>;
+  /** Whether files were added or removed, so imports may resolve elsewhere */
+  moved: boolean;
 }
 
 export class Indexer {
   private db: Database.Database;
-  private repoPath: string;
+  readonly dbPath: string;
+  readonly repoPath: string;
+  private chunking: ChunkerOptions;
+  private extensions: Set<string>;
+  private ignorePatterns: string[];
+  private maxFileSize: number;
+  private embeddings?: EmbeddingProvider;
+  private ranking: FusionOptions;
+  private symbolExtractors: SymbolExtractor[];
+  private history?: HistoryIndexOptions;
+  private workers: number;
+  /** Workspace packages, discovered again on full runs and when a manifest changes */
+  private workspace?: WorkspacePackage[];
 
   constructor(config: IndexerConfig) {
     this.repoPath = path.resolve(config.repoPath);
-    const dbPath = config.dbPath ?? path.join(this.repoPath, '.repo-wiki', 'index.db');
+    this.chunking = config.chunking ?? {};
+    this.ignorePatterns = config.ignore ?? [];
+    this.maxFileSize = config.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+    this.embeddings = config.embeddings;
+    this.ranking = config.ranking ?? {};
+    this.symbolExtractors = [...(config.symbolExtractors ?? []), ...DEFAULT_SYMBOL_EXTRACTORS];
+    this.history = config.history === true ? {} : config.history || undefined;
+    this.workers = config.workers ?? DEFAULT_INDEX_WORKERS;
+
+    const normalizeExt = (ext: string) => (ext.startsWith('.') ? ext : `.${ext}`).toLowerCase();
+    this.extensions = new Set([...DEFAULT_INDEXED_EXTENSIONS, ...(config.includeExtensions ?? []).map(normalizeExt)]);
+    for (const ext of config.excludeExtensions ?? []) {
+      this.extensions.delete(normalizeExt(ext));
+    }
+
+    this.dbPath = config.dbPath ?? path.join(this.repoPath, '.repo-wiki', 'index.db');
 
     // Ensure directory exists
-    const dbDir = path.dirname(dbPath);
+    const dbDir = path.dirname(this.dbPath);
     if (!fs.existsSync(dbDir)) {
       fs.mkdirSync(dbDir, { recursive: true });
     }
 
-    this.db = new Database(dbPath);
-    this.initSchema();
+    this.db = new Database(this.dbPath);
+    this.registerFunctions();
+    try {
+      this.initSchema();
+    } catch (error) {
+      this.db.close();
+      if (error instanceof IndexSchemaError) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      throw new IndexSchemaError(`The index at ${this.dbPath} could not be opened: ${message}`, this.dbPath, {
+        cause: error,
+      });
+    }
   }
 
+  /**
+   * Bring the database to SCHEMA_VERSION (see schema.ts)
+   * Throws IndexSchemaError when the index was created by a newer version or cannot be migrated.
+   */
   private initSchema(): void {
+    createMetaTable(this.db);
+    const from = runMigrations(this.db, this.dbPath, this.migrations());
+    if (from < SCHEMA_VERSION) {
+      writeMeta(this.db, { repoRoot: this.repoPath, indexerVersion: INDEXER_VERSION });
+    }
+  }
+
+  /**
+   * Schema changes, oldest first; add a migration with the next version for every change
+   */
+  private migrations(): Migration[] {
+    return [
+      {
+        version: 1,
+        description: 'create tables and upgrade indexes created before schema versioning',
+        up: () => this.createBaseSchema(),
+      },
+    ];
+  }
+
+  private createBaseSchema(): void {
+    // Indexes created before symbol extraction (or occurrences, or graph edges) need them backfilled
+    const hasSymbolTables = ['symbols', 'occurrences', 'edges'].every((table) => this.tableExists(table));
+
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS files (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
         path TEXT UNIQUE NOT NULL,
         content TEXT NOT NULL,
-        last_modified INTEGER NOT NULL
+        last_modified INTEGER NOT NULL,
+        size INTEGER,
+        content_hash TEXT,
+        language TEXT,
+        kind TEXT NOT NULL DEFAULT 'code',
+        is_test INTEGER NOT NULL DEFAULT 0
       );
 
       CREATE INDEX IF NOT EXISTS idx_files_path ON files(path);
-      
-      CREATE VIRTUAL TABLE IF NOT EXISTS files_fts USING fts5(
+
+      -- Whole-file FTS rows were replaced by chunks
+      DROP TRIGGER IF EXISTS files_ai;
+      DROP TRIGGER IF EXISTS files_ad;
+      DROP TRIGGER IF EXISTS files_au;
+      DROP TABLE IF EXISTS files_fts;
+
+      CREATE TABLE IF NOT EXISTS chunks (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        file_id INTEGER NOT NULL,
+        path TEXT NOT NULL,
+        start_line INTEGER NOT NULL,
+        end_line INTEGER NOT NULL,
+        content TEXT NOT NULL,
+        terms TEXT NOT NULL DEFAULT ''
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_chunks_file ON chunks(file_id);
+
+      CREATE TABLE IF NOT EXISTS symbols (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        file_id INTEGER NOT NULL,
+        path TEXT NOT NULL,
+        name TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        container TEXT,
+        start_line INTEGER NOT NULL,
+        end_line INTEGER NOT NULL,
+        exported INTEGER NOT NULL DEFAULT 0,
+        signature TEXT NOT NULL DEFAULT ''
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_symbols_name ON symbols(name);
+      CREATE INDEX IF NOT EXISTS idx_symbols_file ON symbols(file_id);
+
+      CREATE TABLE IF NOT EXISTS occurrences (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        file_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        line INTEGER NOT NULL,
+        role TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_occurrences_name ON occurrences(name);
+      CREATE INDEX IF NOT EXISTS idx_occurrences_file ON occurrences(file_id);
+
+      -- Graph edges. Edges with a specifier (imported module) or symbol (called name)
+      -- are resolved after each run; calls that resolve to nothing keep an empty target.
+      CREATE TABLE IF NOT EXISTS edges (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        file_id INTEGER NOT NULL,
+        source TEXT NOT NULL,
+        target TEXT NOT NULL,
+        relation TEXT NOT NULL,
+        line INTEGER,
+        specifier TEXT,
+        symbol TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_edges_source ON edges(source);
+      CREATE INDEX IF NOT EXISTS idx_edges_target ON edges(target);
+      CREATE INDEX IF NOT EXISTS idx_edges_file ON edges(file_id);
+    `);
+
+    // Indexes created before incremental indexing lack these columns
+    this.ensureColumn('files', 'size', 'INTEGER');
+    this.ensureColumn('files', 'content_hash', 'TEXT');
+
+    // Search filter metadata is derived from the path, so older rows can be backfilled
+    const addedMetadata = [
+      this.ensureColumn('files', 'language', 'TEXT'),
+      this.ensureColumn('files', 'kind', "TEXT NOT NULL DEFAULT 'code'"),
+      this.ensureColumn('files', 'is_test', 'INTEGER NOT NULL DEFAULT 0'),
+    ].some(Boolean);
+    if (addedMetadata) {
+      this.backfillFileMetadata();
+    }
+
+    // Indexes created before identifier-aware search have no terms column;
+    // the FTS table is recreated and rebuilt from the backfilled chunks
+    const backfillTerms = this.ensureColumn('chunks', 'terms', "TEXT NOT NULL DEFAULT ''");
+    if (backfillTerms) {
+      this.db.exec(`
+        DROP TRIGGER IF EXISTS chunks_ai;
+        DROP TRIGGER IF EXISTS chunks_ad;
+        DROP TRIGGER IF EXISTS chunks_au;
+        DROP TABLE IF EXISTS chunks_fts;
+      `);
+      this.backfillChunkTerms();
+    }
+
+    this.db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS chunks_fts USING fts5(
         path,
         content,
-        content='files',
+        terms,
+        content='chunks',
+        content_rowid='id'
+      );
+
+      CREATE TRIGGER IF NOT EXISTS chunks_ai AFTER INSERT ON chunks BEGIN
+        INSERT INTO chunks_fts(rowid, path, content, terms) VALUES (new.id, new.path, new.content, new.terms);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS chunks_ad AFTER DELETE ON chunks BEGIN
+        INSERT INTO chunks_fts(chunks_fts, rowid, path, content, terms)
+        VALUES('delete', old.id, old.path, old.content, old.terms);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS chunks_au AFTER UPDATE ON chunks BEGIN
+        INSERT INTO chunks_fts(chunks_fts, rowid, path, content, terms)
+        VALUES('delete', old.id, old.path, old.content, old.terms);
+        INSERT INTO chunks_fts(rowid, path, content, terms) VALUES (new.id, new.path, new.content, new.terms);
+      END;
+
+      CREATE TABLE IF NOT EXISTS chunk_embeddings (
+        chunk_id INTEGER PRIMARY KEY,
+        model TEXT NOT NULL,
+        embedding BLOB NOT NULL
+      );
+
+      CREATE TRIGGER IF NOT EXISTS chunks_embeddings_ad AFTER DELETE ON chunks BEGIN
+        DELETE FROM chunk_embeddings WHERE chunk_id = old.id;
+      END;
+
+      -- Commit history, filled when history indexing is enabled.
+      -- Rows are only inserted and deleted, never updated.
+      CREATE TABLE IF NOT EXISTS commits (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        sha TEXT UNIQUE NOT NULL,
+        author TEXT NOT NULL,
+        email TEXT NOT NULL,
+        date TEXT NOT NULL,
+        subject TEXT NOT NULL,
+        body TEXT NOT NULL,
+        terms TEXT NOT NULL DEFAULT ''
+      );
+
+      CREATE TABLE IF NOT EXISTS commit_hunks (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        commit_id INTEGER NOT NULL,
+        path TEXT NOT NULL,
+        start_line INTEGER NOT NULL,
+        end_line INTEGER NOT NULL,
+        content TEXT NOT NULL,
+        terms TEXT NOT NULL DEFAULT ''
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_commit_hunks_commit ON commit_hunks(commit_id);
+
+      CREATE VIRTUAL TABLE IF NOT EXISTS commits_fts USING fts5(
+        subject,
+        body,
+        terms,
+        content='commits',
         content_rowid='id'
       );
 
-      CREATE TRIGGER IF NOT EXISTS files_ai AFTER INSERT ON files BEGIN
-        INSERT INTO files_fts(rowid, path, content) VALUES (new.id, new.path, new.content);
+      CREATE TRIGGER IF NOT EXISTS commits_ai AFTER INSERT ON commits BEGIN
+        INSERT INTO commits_fts(rowid, subject, body, terms) VALUES (new.id, new.subject, new.body, new.terms);
       END;
 
-      CREATE TRIGGER IF NOT EXISTS files_ad AFTER DELETE ON files BEGIN
-        INSERT INTO files_fts(files_fts, rowid, path, content) VALUES('delete', old.id, old.path, old.content);
+      CREATE TRIGGER IF NOT EXISTS commits_ad AFTER DELETE ON commits BEGIN
+        INSERT INTO commits_fts(commits_fts, rowid, subject, body, terms)
+        VALUES('delete', old.id, old.subject, old.body, old.terms);
+      END;
+
+      CREATE VIRTUAL TABLE IF NOT EXISTS commit_hunks_fts USING fts5(
+        path,
+        content,
+        terms,
+        content='commit_hunks',
+        content_rowid='id'
+      );
+
+      CREATE TRIGGER IF NOT EXISTS commit_hunks_ai AFTER INSERT ON commit_hunks BEGIN
+        INSERT INTO commit_hunks_fts(rowid, path, content, terms) VALUES (new.id, new.path, new.content, new.terms);
       END;
 
-      CREATE TRIGGER IF NOT EXISTS files_au AFTER UPDATE ON files BEGIN
-        INSERT INTO files_fts(files_fts, rowid, path, content) VALUES('delete', old.id, old.path, old.content);
-        INSERT INTO files_fts(rowid, path, content) VALUES (new.id, new.path, new.content);
+      CREATE TRIGGER IF NOT EXISTS commit_hunks_ad AFTER DELETE ON commit_hunks BEGIN
+        INSERT INTO commit_hunks_fts(commit_hunks_fts, rowid, path, content, terms)
+        VALUES('delete', old.id, old.path, old.content, old.terms);
       END;
     `);
+
+    if (backfillTerms) {
+      this.db.exec(`INSERT INTO chunks_fts(chunks_fts) VALUES('rebuild')`);
+    }
+
+    // Edges created before the call graph have no calls
+    const addedCalls = this.ensureColumn('edges', 'symbol', 'TEXT');
+    if (!hasSymbolTables || addedCalls) {
+      this.backfillSymbols();
+    }
   }
 
   /**
-   * Index all files in the repository
+   * SQL helpers used by search filters
+   */
+  private registerFunctions(): void {
+    const compiled = new Map<string, RegExp>();
+    this.db.function('glob_match', { deterministic: true }, (pattern: unknown, filePath: unknown) => {
+      const source = String(pattern);
+      let regex = compiled.get(source);
+      if (!regex) {
+        regex = globToRegExp(source);
+        compiled.set(source, regex);
+      }
+      return regex.test(toPosixPath(String(filePath))) ? 1 : 0;
+    });
+  }
+
+  private backfillFileMetadata(): void {
+    const rows = this.db.prepare(`SELECT id, path FROM files`).all() as Array<{ id: number; path: string }>;
+    const updateStmt = this.db.prepare(`UPDATE files SET language = ?, kind = ?, is_test = ? WHERE id = ?`);
+
+    this.db.transaction(() => {
+      for (const row of rows) {
+        const metadata = getFileMetadata(row.path);
+        updateStmt.run(metadata.language ?? null, metadata.kind, metadata.isTest ? 1 : 0, row.id);
+      }
+    })();
+  }
+
+  /**
+   * Compute the terms column for existing chunks (FTS triggers must not exist yet)
+   */
+  private backfillChunkTerms(): void {
+    const rows = this.db.prepare(`SELECT id, content FROM chunks`).all() as Array<{ id: number; content: string }>;
+    const updateStmt = this.db.prepare(`UPDATE chunks SET terms = ? WHERE id = ?`);
+
+    this.db.transaction(() => {
+      for (const row of rows) {
+        updateStmt.run(expandIdentifiers(row.content), row.id);
+      }
+    })();
+  }
+
+  /**
+   * Extract symbols, occurrences and graph edges for every indexed file
    */
-  async indexRepository(): Promise<{ indexed: number; skipped: number }> {
-    let indexed = 0;
-    let skipped = 0;
+  private backfillSymbols(): void {
+    const rows = this.db.prepare(`SELECT id, path, content, language FROM files`).all() as Array<{
+      id: number;
+      path: string;
+      content: string;
+      language: string | null;
+    }>;
+    const statements = this.prepareSymbolStatements();
+
+    this.db.transaction(() => {
+      for (const row of rows) {
+        const analysis = analyzeFile(row.path, row.content, row.language ?? undefined, this.symbolExtractors);
+        this.writeSymbols(statements, row.id, row.path, analysis);
+      }
+      this.resolveEdges();
+    })();
+  }
+
+  private prepareSymbolStatements(): SymbolStatements {
+    return {
+      deleteSymbols: this.db.prepare(`DELETE FROM symbols WHERE file_id = ?`),
+      deleteOccurrences: this.db.prepare(`DELETE FROM occurrences WHERE file_id = ?`),
+      deleteEdges: this.db.prepare(`DELETE FROM edges WHERE file_id = ?`),
+      insertSymbol: this.db.prepare(`
+        INSERT INTO symbols (file_id, path, name, kind, container, start_line, end_line, exported, signature)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `),
+      insertOccurrence: this.db.prepare(`
+        INSERT INTO occurrences (file_id, name, line, role) VALUES (?, ?, ?, ?)
+      `),
+      insertEdge: this.db.prepare(`
+        INSERT INTO edges (file_id, source, target, relation, line, specifier, symbol) VALUES (?, ?, ?, ?, ?, ?, ?)
+      `),
+    };
+  }
+
+  /**
+   * Replace a file's symbols, occurrences and graph edges with those from analyzeFile()
+   */
+  private writeSymbols(statements: SymbolStatements, fileId: number, filePath: string, analysis: FileAnalysis): void {
+    statements.deleteSymbols.run(fileId);
+    statements.deleteOccurrences.run(fileId);
+    statements.deleteEdges.run(fileId);
+
+    for (const symbol of analysis.symbols) {
+      statements.insertSymbol.run(
+        fileId,
+        filePath,
+        symbol.name,
+        symbol.kind,
+        symbol.container ?? null,
+        symbol.startLine,
+        symbol.endLine,
+        symbol.exported ? 1 : 0,
+        symbol.signature
+      );
+    }
+    for (const occurrence of analysis.occurrences) {
+      statements.insertOccurrence.run(fileId, occurrence.name, occurrence.line, occurrence.role);
+    }
+    for (const edge of analysis.edges) {
+      statements.insertEdge.run(
+        fileId,
+        edge.source,
+        edge.target,
+        edge.relation,
+        edge.line,
+        edge.specifier ?? null,
+        edge.symbol ?? null
+      );
+    }
+  }
+
+  /**
+   * Point import, call and type hierarchy edges at the files and symbols they resolve to
+   * Without `changes`, every unresolved edge is resolved again so that edges to files
+   * added since (or removed) are updated. With `changes`, only edges the update can
+   * affect are: edges of the changed files and of files importing them (directly or
+   * through re-exports), imports of the changed files (and, when files were added or
+   * removed, imports of files that are not indexed), and lookups of the symbol names
+   * the changed files define.
+   */
+  private resolveEdges(changes?: EdgeChanges): void {
+    const files = this.db.prepare(`SELECT path FROM files`).all() as Array<{ path: string }>;
+    this.workspace ??= discoverWorkspace(this.repoPath);
+    const resolver = new ImportResolver(
+      this.repoPath,
+      files.map((file) => file.path),
+      this.workspace
+    );
+
+    type EdgeRow = {
+      id: number;
+      target: string;
+      relation: GraphRelation;
+      specifier: string | null;
+      symbol: string | null;
+      path: string;
+      language: string | null;
+    };
+    const selectEdges = (where: string) =>
+      this.db.prepare(`
+        SELECT e.id, e.target, e.relation, e.specifier, e.symbol, f.path, f.language
+        FROM edges e
+        JOIN files f ON f.id = e.file_id
+        WHERE (e.specifier IS NOT NULL OR e.symbol IS NOT NULL) AND ${where}
+      `);
+    const collect = (rows: Map<number, EdgeRow>, found: unknown[]) => {
+      for (const row of found as EdgeRow[]) rows.set(row.id, row);
+    };
+    const updateStmt = this.db.prepare(`UPDATE edges SET target = ? WHERE id = ?`);
+    const update = (row: EdgeRow, target: string) => {
+      if (target !== row.target) updateStmt.run(target, row.id);
+    };
 
-    const files = this.walkDirectory(this.repoPath);
+    // Imports come first: calls to imported names follow them through re-exports
+    const imports = new Map<number, EdgeRow>();
+    if (!changes) {
+      collect(imports, selectEdges(`e.relation = 'imports'`).all());
+    } else {
+      const fromFile = selectEdges(`e.relation = 'imports' AND f.path = ?`);
+      const toFile = selectEdges(`e.relation = 'imports' AND e.target = ?`);
+      for (const file of changes.files) {
+        collect(imports, fromFile.all(file));
+        collect(imports, toFile.all(file));
+      }
+      if (changes.moved) {
+        collect(imports, selectEdges(`e.relation = 'imports' AND e.target NOT IN (SELECT path FROM files)`).all());
+      }
+    }
+    for (const row of imports.values()) {
+      update(row, resolver.resolve(row.path, row.specifier!, row.language ?? undefined));
+    }
 
-    const insertStmt = this.db.prepare(`
-      INSERT OR REPLACE INTO files (path, content, last_modified)
-      VALUES (?, ?, ?)
+    const importsStmt = this.db.prepare(`
+      SELECT e.target FROM edges e JOIN files f ON f.id = e.file_id WHERE f.path = ? AND e.relation = 'imports'
     `);
+    const importsByFile = new Map<string, Set<string>>();
+    const importsOf = (file: string): Set<string> => {
+      let targets = importsByFile.get(file);
+      if (!targets) {
+        targets = new Set((importsStmt.all(file) as Array<{ target: string }>).map((row) => row.target));
+        importsByFile.set(file, targets);
+      }
+      return targets;
+    };
+    const exportStmt = this.db.prepare(`SELECT 1 FROM edges WHERE relation = 'exports' AND target = ?`);
+    const findExport = (file: string, name: string): string | undefined => {
+      const visited = new Set<string>();
+      let frontier = [file];
+      // Barrel files (`export * from`) are followed a few levels deep
+      for (let level = 0; level < MAX_REEXPORT_DEPTH && frontier.length > 0; level++) {
+        const next: string[] = [];
+        for (const current of frontier) {
+          if (exportStmt.get(`${current}#${name}`) !== undefined) return `${current}#${name}`;
+          visited.add(current);
+          next.push(...[...importsOf(current)].filter((target) => !visited.has(target)));
+        }
+        frontier = next;
+      }
+      return undefined;
+    };
 
-    const transaction = this.db.transaction(() => {
-      for (const filePath of files) {
-        try {
-          const relativePath = path.relative(this.repoPath, filePath);
-          const stats = fs.statSync(filePath);
-          const content = fs.readFileSync(filePath, 'utf-8');
+    type Candidate = { path: string; name: string; container: string | null; kind: SymbolKind };
+    const definitionStmt = this.db.prepare(`SELECT path, name, container, kind FROM symbols WHERE name = ?`);
+    const definitions = new Map<string, Candidate[]>();
+    const findDefinition = (file: string, name: string, relation: GraphRelation): string | undefined => {
+      let all = definitions.get(name);
+      if (!all) {
+        all = definitionStmt.all(name) as Candidate[];
+        definitions.set(name, all);
+      }
+      // A unique definition in this file or a file it imports, else a unique one anywhere
+      const kinds = relation === 'calls' ? CALLABLE_KINDS : TYPE_KINDS;
+      const candidates = all.filter((c) => kinds.has(c.kind));
+      const nearby = importsOf(file);
+      const near = candidates.filter((c) => c.path === file || nearby.has(c.path));
+      const match = near.length === 1 ? near[0] : candidates.length === 1 ? candidates[0] : undefined;
+      return match ? symbolNodeId(match.path, { name: match.name, container: match.container ?? undefined }) : undefined;
+    };
 
-          insertStmt.run(relativePath, content, stats.mtimeMs);
-          indexed++;
-        } catch {
-          skipped++;
+    const links = new Map<number, EdgeRow>();
+    if (!changes) {
+      collect(links, selectEdges(`e.relation != 'imports'`).all());
+    } else {
+      // Files importing a changed file, as far through re-exports as findExport follows them
+      const importersStmt = this.db.prepare(`
+        SELECT DISTINCT f.path FROM edges e JOIN files f ON f.id = e.file_id
+        WHERE e.relation = 'imports' AND e.target = ?
+      `);
+      const affected = new Set(changes.files);
+      let frontier = [...changes.files];
+      for (let level = 0; level < MAX_REEXPORT_DEPTH && frontier.length > 0; level++) {
+        const next: string[] = [];
+        for (const file of frontier) {
+          for (const { path: importer } of importersStmt.all(file) as Array<{ path: string }>) {
+            if (!affected.has(importer)) {
+              affected.add(importer);
+              next.push(importer);
+            }
+          }
         }
+        frontier = next;
       }
-    });
 
-    transaction();
+      const ofFile = selectEdges(`e.relation != 'imports' AND f.path = ?`);
+      for (const file of affected) {
+        collect(links, ofFile.all(file));
+      }
+      collect(
+        links,
+        selectEdges(`e.specifier IS NULL AND e.symbol IN (SELECT value FROM json_each(?))`).all(
+          JSON.stringify([...changes.names])
+        )
+      );
+    }
+    for (const row of links.values()) {
+      if (row.specifier) {
+        const file = resolver.resolve(row.path, row.specifier, row.language ?? undefined);
+        // `Class.method` is a member of wherever the class is exported from
+        const [exported, ...member] = row.symbol!.split('.');
+        const target = findExport(file, exported!);
+        update(row, target ? [target, ...member].join('.') : `${file}#${row.symbol}`);
+      } else {
+        update(row, findDefinition(row.path, row.symbol!, row.relation) ?? '');
+      }
+    }
+  }
 
-    return { indexed, skipped };
+  private tableExists(name: string): boolean {
+    return this.db.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?`).get(name) !== undefined;
   }
 
-  private walkDirectory(dir: string): string[] {
-    const files: string[] = [];
+  /**
+   * Add a column if missing; returns true when it was added
+   */
+  private ensureColumn(table: string, column: string, definition: string): boolean {
+    const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+    if (columns.some((c) => c.name === column)) {
+      return false;
+    }
+    this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    return true;
+  }
+
+  /**
+   * Index all files in the repository
+   * Files whose mtime and size match the stored row are not re-read; files whose
+   * content hash is unchanged are not re-chunked. Lockfiles, binaries, oversized,
+   * minified and generated files are skipped with a reason.
+   */
+  async indexRepository(options: IndexOptions = {}): Promise<IndexResult> {
+    const { onProgress, signal } = options;
+    signal?.throwIfAborted();
+
+    onProgress?.({ type: 'phase', phase: 'scanning' });
+    const files = this.walkDirectory(this.ignoreMatcher());
+    const result = await this.indexFiles(files, options);
+
+    if (this.history) {
+      signal?.throwIfAborted();
+      onProgress?.({ type: 'phase', phase: 'history' });
+      result.commits = this.indexHistory(this.history, options.force ?? false);
+    }
+
+    if (this.embeddings) {
+      onProgress?.({ type: 'phase', phase: 'embedding' });
+      result.embedded = await this.embedChunks(this.embeddings, signal);
+    }
 
-    const entries = fs.readdirSync(dir, { withFileTypes: true });
+    return result;
+  }
 
-    for (const entry of entries) {
-      const fullPath = path.join(dir, entry.name);
+  /**
+   * Re-index the given repository-relative files and directories
+   * Paths that were deleted or are now ignored are removed from the index with
+   * everything under them. Only graph edges the changed files can affect are
+   * re-resolved, unless a manifest or tsconfig changed. Counts in the result
+   * cover these paths only; the history index is not updated.
+   */
+  async updatePaths(relativePaths: string[], options: IndexOptions = {}): Promise<IndexResult> {
+    options.signal?.throwIfAborted();
+    const matcher = this.ignoreMatcher();
+    const scopes = [...new Set(relativePaths.map((p) => path.normalize(p).replace(/[\\/]+$/, '')))].filter(
+      (p) => p !== '..' && !p.startsWith(`..${path.sep}`) && !path.isAbsolute(p)
+    );
+    if (scopes.includes('.')) {
+      return this.indexRepository(options);
+    }
 
-      if (entry.isDirectory()) {
-        if (!IGNORED_DIRS.has(entry.name) && !entry.name.startsWith('.')) {
-          files.push(...this.walkDirectory(fullPath));
+    options.onProgress?.({ type: 'phase', phase: 'scanning' });
+    const files = new Set<string>();
+    for (const scope of scopes) {
+      const fullPath = path.join(this.repoPath, scope);
+      let stats: fs.Stats;
+      try {
+        stats = fs.statSync(fullPath);
+      } catch {
+        // Deleted; pruned below
+        continue;
+      }
+      if (stats.isDirectory()) {
+        if (!matcher.isIgnored(scope, true)) {
+          this.walkDirectory(matcher, fullPath).forEach((file) => files.add(file));
         }
-      } else if (entry.isFile()) {
-        const ext = path.extname(entry.name).toLowerCase();
-        if (INDEXED_EXTENSIONS.has(ext)) {
-          files.push(fullPath);
+      } else if (stats.isFile() && !matcher.isIgnored(scope)) {
+        if (this.extensions.has(path.extname(scope).toLowerCase())) files.add(fullPath);
+      }
+    }
+
+    const result = await this.indexFiles([...files], options, scopes);
+
+    if (this.embeddings) {
+      options.onProgress?.({ type: 'phase', phase: 'embedding' });
+      result.embedded = await this.embedChunks(this.embeddings, options.signal);
+    }
+
+    return result;
+  }
+
+  /**
+   * Gitignore-style rules applied when indexing (ignore files are re-read on each call)
+   */
+  ignoreMatcher(): IgnoreMatcher {
+    return createIgnoreMatcher(this.repoPath, { extraPatterns: this.ignorePatterns });
+  }
+
+  /**
+   * Index the given files, prune rows of files that are gone (only under
+   * `scopes` when given) and re-resolve graph edges
+   * Files are parsed by a ParsePool and written in batches of INDEX_BATCH_SIZE,
+   * one transaction per batch. When `options.signal` aborts, the batch being
+   * parsed is dropped, edges are resolved for what was written and nothing is pruned.
+   */
+  private async indexFiles(files: string[], options: IndexOptions, scopes?: string[]): Promise<IndexResult> {
+    const result: IndexResult = {
+      indexed: 0,
+      added: 0,
+      updated: 0,
+      unchanged: 0,
+      skipped: 0,
+      skippedFiles: [],
+      removed: 0,
+      embedded: 0,
+      commits: 0,
+    };
+    const { onProgress, signal } = options;
+    const seen = new Set<string>();
+    const existing = this.indexedFileStates();
+    const changes: EdgeChanges = { files: new Set(), names: new Set(), moved: false };
+
+    // Upsert keeps the file id stable so chunks can be replaced by file_id
+    const upsertFileStmt = this.db.prepare(`
+      INSERT INTO files (path, content, last_modified, size, content_hash, language, kind, is_test)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(path) DO UPDATE SET
+        content = excluded.content,
+        last_modified = excluded.last_modified,
+        size = excluded.size,
+        content_hash = excluded.content_hash,
+        language = excluded.language,
+        kind = excluded.kind,
+        is_test = excluded.is_test
+      RETURNING id
+    `);
+    const touchFileStmt = this.db.prepare(`
+      UPDATE files SET last_modified = ?, size = ? WHERE path = ?
+    `);
+    const deleteChunksStmt = this.db.prepare(`DELETE FROM chunks WHERE file_id = ?`);
+    const symbolNamesStmt = this.db.prepare(`SELECT DISTINCT name FROM symbols WHERE file_id = ?`);
+    const symbolStatements = this.prepareSymbolStatements();
+    const insertChunkStmt = this.db.prepare(`
+      INSERT INTO chunks (file_id, path, start_line, end_line, content, terms)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+
+    const writeBatch = this.db.transaction(
+      (batch: string[], outcomes: Array<PromiseSettledResult<ParseOutcome>>) => {
+        batch.forEach((filePath, i) => {
+          const relativePath = path.relative(this.repoPath, filePath);
+          const settled = outcomes[i]!;
+          const skip = (decision: SkipDecision) => {
+            const file: SkippedFile = { path: relativePath, ...decision };
+            result.skippedFiles.push(file);
+            onProgress?.({ type: 'skipped', ...file });
+          };
+          if (settled.status === 'rejected') {
+            const detail = settled.reason instanceof Error ? settled.reason.message : String(settled.reason);
+            skip({ reason: 'unreadable', detail });
+            return;
+          }
+
+          const outcome = settled.value;
+          if (outcome.status === 'skipped') {
+            skip(outcome.decision);
+            return;
+          }
+
+          seen.add(relativePath);
+          if (outcome.status === 'unchanged') {
+            if (outcome.touched) {
+              touchFileStmt.run(outcome.mtimeMs, outcome.size, relativePath);
+            }
+            result.unchanged++;
+            onProgress?.({ type: 'processed', path: relativePath, change: 'unchanged' });
+            return;
+          }
+
+          const { metadata } = outcome;
+          const { id } = upsertFileStmt.get(
+            relativePath,
+            outcome.content,
+            outcome.mtimeMs,
+            outcome.size,
+            outcome.contentHash,
+            metadata.language ?? null,
+            metadata.kind,
+            metadata.isTest ? 1 : 0
+          ) as { id: number };
+          deleteChunksStmt.run(id);
+          for (const chunk of outcome.chunks) {
+            insertChunkStmt.run(id, relativePath, chunk.startLine, chunk.endLine, chunk.content, chunk.terms);
+          }
+          const analysis =
+            outcome.analysis ?? analyzeFile(relativePath, outcome.content, metadata.language, this.symbolExtractors);
+          const change: FileChange = existing.has(relativePath) ? 'updated' : 'added';
+          if (scopes) {
+            changes.files.add(relativePath);
+            changes.moved ||= change === 'added';
+            for (const { name } of symbolNamesStmt.all(id) as Array<{ name: string }>) changes.names.add(name);
+            for (const symbol of analysis.symbols) changes.names.add(symbol.name);
+          }
+          this.writeSymbols(symbolStatements, id, relativePath, analysis);
+
+          result[change]++;
+          onProgress?.({ type: 'processed', path: relativePath, change });
+        });
+      }
+    );
+
+    const workers = Math.min(this.workers, Math.floor(files.length / MIN_FILES_PER_WORKER));
+    const parseOptions = { maxFileSize: this.maxFileSize, chunking: this.chunking };
+    const pool = new ParsePool(workers, parseOptions, this.symbolExtractors);
+    const parseBatch = (batch: string[]) =>
+      Promise.allSettled(
+        batch.map((filePath) => {
+          const relativePath = path.relative(this.repoPath, filePath);
+          const previous = existing.get(relativePath);
+          return pool.parse({ filePath, relativePath, previous, force: options.force ?? false });
+        })
+      );
+
+    onProgress?.({ type: 'discovered', files: files.length });
+    onProgress?.({ type: 'phase', phase: 'parsing' });
+    const startedAt = Date.now();
+    try {
+      // The next batch is parsed while this one is written
+      let parsing = parseBatch(files.slice(0, INDEX_BATCH_SIZE));
+      for (let start = 0; start < files.length; start += INDEX_BATCH_SIZE) {
+        const batch = files.slice(start, start + INDEX_BATCH_SIZE);
+        const outcomes = await parsing;
+        if (signal?.aborted) break;
+        parsing = parseBatch(files.slice(start + INDEX_BATCH_SIZE, start + 2 * INDEX_BATCH_SIZE));
+        writeBatch(batch, outcomes);
+        onProgress?.({ type: 'progress', ...measureProgress(start + batch.length, files.length, startedAt) });
+        // Parsing on this thread never waits on I/O; let timers and signal handlers run
+        await setImmediate();
+      }
+    } finally {
+      await pool.close();
+    }
+
+    onProgress?.({ type: 'phase', phase: 'linking' });
+    this.db.transaction(() => {
+      // Files that were not reached are missing from `seen`, so pruning would delete them
+      if (!signal?.aborted) {
+        result.removed = this.pruneFiles(seen, scopes, changes);
+      }
+      // A changed manifest or tsconfig can move any import
+      if (!scopes || [...scopes, ...changes.files].some((p) => RESOLUTION_CONFIG_FILES.has(path.basename(p)))) {
+        this.workspace = undefined;
+        this.resolveEdges();
+      } else {
+        this.resolveEdges(changes);
+      }
+      if (!signal?.aborted) {
+        writeMeta(this.db, {
+          indexedAt: new Date().toISOString(),
+          indexerVersion: INDEXER_VERSION,
+          repoRoot: this.repoPath,
+        });
+      }
+    })();
+    signal?.throwIfAborted();
+
+    result.indexed = result.added + result.updated + result.unchanged;
+    result.skipped = result.skippedFiles.length;
+    return result;
+  }
+
+  private indexedFileStates(): Map<string, IndexedFileState> {
+    const rows = this.db
+      .prepare(`SELECT path, last_modified as lastModified, size, content_hash as contentHash FROM files`)
+      .all() as Array<IndexedFileState & { path: string }>;
+    return new Map(rows.map((row) => [row.path, row]));
+  }
+
+  /**
+   * Remove rows (and their chunks, symbols, occurrences and edges) for files that no longer exist on disk
+   * With `scopes`, only rows at or under those paths are considered, and removed
+   * files are recorded in `changes`.
+   */
+  private pruneFiles(seen: Set<string>, scopes?: string[], changes?: EdgeChanges): number {
+    const rows = (this.db.prepare(`SELECT id, path FROM files`).all() as Array<{ id: number; path: string }>).filter(
+      (row) => !scopes || scopes.some((scope) => row.path === scope || row.path.startsWith(scope + path.sep))
+    );
+    const deleteChunksStmt = this.db.prepare(`DELETE FROM chunks WHERE file_id = ?`);
+    const symbolStatements = this.prepareSymbolStatements();
+    const deleteFileStmt = this.db.prepare(`DELETE FROM files WHERE id = ?`);
+    const symbolNamesStmt = this.db.prepare(`SELECT DISTINCT name FROM symbols WHERE file_id = ?`);
+
+    let removed = 0;
+    for (const row of rows) {
+      if (seen.has(row.path)) continue;
+      if (changes) {
+        changes.files.add(row.path);
+        changes.moved = true;
+        for (const { name } of symbolNamesStmt.all(row.id) as Array<{ name: string }>) changes.names.add(name);
+      }
+      deleteChunksStmt.run(row.id);
+      symbolStatements.deleteSymbols.run(row.id);
+      symbolStatements.deleteOccurrences.run(row.id);
+      symbolStatements.deleteEdges.run(row.id);
+      deleteFileStmt.run(row.id);
+      removed++;
+    }
+
+    return removed;
+  }
+
+  /**
+   * Add commits (message and diff hunks) that are new among the newest
+   * `maxCommits` and drop the ones that fell out or are no longer reachable
+   * Hunks in ignored files and lockfiles are not stored. Returns the number of commits added.
+   */
+  private indexHistory(options: HistoryIndexOptions, force: boolean): number {
+    if (!isGitRepository(this.repoPath)) {
+      return 0;
+    }
+
+    const shas = listCommits(this.repoPath, options.maxCommits ?? DEFAULT_HISTORY_MAX_COMMITS);
+    const wanted = new Set(shas);
+    const stored = this.db.prepare(`SELECT id, sha FROM commits`).all() as Array<{ id: number; sha: string }>;
+    const known = new Set(force ? [] : stored.map((row) => row.sha));
+    const diffs = readCommitDiffs(this.repoPath, shas.filter((sha) => !known.has(sha)));
+    const matcher = this.ignoreMatcher();
+
+    const deleteHunksStmt = this.db.prepare(`DELETE FROM commit_hunks WHERE commit_id = ?`);
+    const deleteCommitStmt = this.db.prepare(`DELETE FROM commits WHERE id = ?`);
+    const insertCommitStmt = this.db.prepare(`
+      INSERT INTO commits (sha, author, email, date, subject, body, terms)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      RETURNING id
+    `);
+    const insertHunkStmt = this.db.prepare(`
+      INSERT INTO commit_hunks (commit_id, path, start_line, end_line, content, terms)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+
+    this.db.transaction(() => {
+      for (const row of stored) {
+        if (known.has(row.sha) && wanted.has(row.sha)) continue;
+        deleteHunksStmt.run(row.id);
+        deleteCommitStmt.run(row.id);
+      }
+
+      for (const commit of diffs) {
+        const { id } = insertCommitStmt.get(
+          commit.sha,
+          commit.author,
+          commit.email,
+          commit.date,
+          commit.subject,
+          commit.body,
+          expandIdentifiers(`${commit.subject}\n${commit.body}`)
+        ) as { id: number };
+
+        const hunks = commit.hunks
+          .filter((hunk) => !matcher.isIgnored(hunk.path) && !classifyByName(hunk.path))
+          .slice(0, MAX_HISTORY_HUNKS_PER_COMMIT);
+        for (const hunk of hunks) {
+          insertHunkStmt.run(
+            id,
+            // Git prints POSIX paths; stored paths use OS separators
+            hunk.path.split('/').join(path.sep),
+            hunk.startLine,
+            hunk.endLine,
+            hunk.content,
+            expandIdentifiers(hunk.content)
+          );
         }
       }
+    })();
+
+    return diffs.length;
+  }
+
+  /**
+   * Embed every chunk that has no vector for the provider's model yet
+   * Runs outside the indexing transaction so a failing provider leaves the
+   * keyword index intact; missing vectors are retried on the next run. Each
+   * request is committed on its own, and `signal` is checked before the next.
+   */
+  private async embedChunks(provider: EmbeddingProvider, signal?: AbortSignal): Promise<number> {
+    const pending = this.db
+      .prepare(`
+        SELECT c.id, c.path, c.content
+        FROM chunks c
+        LEFT JOIN chunk_embeddings e ON e.chunk_id = c.id AND e.model = ?
+        WHERE e.chunk_id IS NULL
+        ORDER BY c.id
+      `)
+      .all(provider.model) as Array<{ id: number; path: string; content: string }>;
+
+    const upsertStmt = this.db.prepare(`
+      INSERT OR REPLACE INTO chunk_embeddings (chunk_id, model, embedding) VALUES (?, ?, ?)
+    `);
+    const insertBatch = this.db.transaction((ids: number[], vectors: Float32Array[]) => {
+      ids.forEach((id, i) => upsertStmt.run(id, provider.model, vectorToBlob(vectors[i]!)));
+    });
+
+    let embedded = 0;
+    for (let start = 0; start < pending.length; start += EMBEDDING_BATCH_SIZE) {
+      signal?.throwIfAborted();
+      const batch = pending.slice(start, start + EMBEDDING_BATCH_SIZE);
+      // The path gives the model context the chunk text often lacks
+      const vectors = await provider.embed(batch.map((chunk) => `${chunk.path}\n${chunk.content}`));
+      insertBatch(
+        batch.map((chunk) => chunk.id),
+        vectors
+      );
+      embedded += batch.length;
+    }
+
+    return embedded;
+  }
+
+  private walkDirectory(matcher: IgnoreMatcher, from: string = this.repoPath): string[] {
+    const files: string[] = [];
+
+    for (const entry of walkRepository(this.repoPath, matcher, from)) {
+      const ext = path.extname(entry.fullPath).toLowerCase();
+      if (this.extensions.has(ext)) {
+        files.push(entry.fullPath);
+      }
     }
 
     return files;
   }
 
   /**
-   * Search indexed files using FTS5
+   * Search indexed chunks using FTS5
+   * Accepts the query syntax in query.ts (phrases, +required, -excluded, prefix*, NEAR).
    */
-  search(query: string, topK: number = 10): SearchResult[] {
-    // Escape special FTS5 characters and create search query
-    const sanitizedQuery = query
-      .replace(/['"]/g, '')
-      .split(/\s+/)
-      .filter((term) => term.length > 0)
-      .map((term) => `"${term}"`)
-      .join(' OR ');
-
+  search(query: string, topK: number = 10, filters: SearchFilters = {}): SearchResult[] {
+    const sanitizedQuery = compileQuery(query);
     if (!sanitizedQuery) {
       return [];
     }
 
+    const filter = buildFilterClause(filters);
+
     const stmt = this.db.prepare(`
       SELECT 
-        f.path,
-        f.content,
-        bm25(files_fts) as score
-      FROM files_fts fts
-      JOIN files f ON fts.rowid = f.id
-      WHERE files_fts MATCH ?
+        c.path,
+        c.content,
+        c.start_line as startLine,
+        c.end_line as endLine,
+        bm25(chunks_fts) as score
+      FROM chunks_fts fts
+      JOIN chunks c ON fts.rowid = c.id
+      JOIN files f ON f.id = c.file_id
+      WHERE chunks_fts MATCH ?${filter.sql}
       ORDER BY score
       LIMIT ?
     `);
 
-    const results = stmt.all(sanitizedQuery, topK) as Array<{
+    const results = stmt.all(sanitizedQuery, ...filter.params, topK) as Array<{
       path: string;
       content: string;
+      startLine: number;
+      endLine: number;
       score: number;
     }>;
 
-    return results.map((row) => {
-      const lines = row.content.split('\n');
-      const matchIndex = this.findBestMatchLine(lines, query);
-      const startLine = Math.max(1, matchIndex - 5);
-      const endLine = Math.min(lines.length, matchIndex + 15);
-
-      return {
-        path: row.path,
-        score: Math.abs(row.score),
-        snippet: lines.slice(startLine - 1, endLine).join('\n'),
-        startLine,
-        endLine,
-      };
+    return results.map((row) => ({
+      path: row.path,
+      score: Math.abs(row.score),
+      snippet: row.content,
+      startLine: row.startLine,
+      endLine: row.endLine,
+    }));
+  }
+
+  /**
+   * Search indexed chunks by embedding similarity
+   * Requires an embedding provider; only chunks embedded with the same model
+   * are compared. Scores are cosine similarities (higher is better).
+   */
+  async semanticSearch(query: string, topK: number = 10, filters: SearchFilters = {}): Promise<SearchResult[]> {
+    if (!this.embeddings) {
+      throw new Error('Semantic search requires an embedding provider (set "embeddings" in repowiki.config)');
+    }
+    // Operators and excluded terms carry no meaning for embeddings
+    const text = queryText(query);
+    if (!text.trim()) {
+      return [];
+    }
+
+    const [queryVector] = await this.embeddings.embed([text]);
+    if (!queryVector) {
+      return [];
+    }
+
+    const filter = buildFilterClause(filters);
+    const rows = this.db
+      .prepare(`
+        SELECT e.chunk_id as chunkId, e.embedding
+        FROM chunk_embeddings e
+        JOIN chunks c ON c.id = e.chunk_id
+        JOIN files f ON f.id = c.file_id
+        WHERE e.model = ?${filter.sql}
+      `)
+      .iterate(this.embeddings.model, ...filter.params) as IterableIterator<{ chunkId: number; embedding: Buffer }>;
+
+    // Brute-force top-K; keeps only topK candidates in memory
+    const top: Array<{ chunkId: number; score: number }> = [];
+    for (const row of rows) {
+      const score = cosineSimilarity(queryVector, blobToVector(row.embedding));
+      if (top.length < topK) {
+        top.push({ chunkId: row.chunkId, score });
+        top.sort((a, b) => b.score - a.score);
+      } else if (score > top[top.length - 1]!.score) {
+        top[top.length - 1] = { chunkId: row.chunkId, score };
+        top.sort((a, b) => b.score - a.score);
+      }
+    }
+
+    const chunkStmt = this.db.prepare(`
+      SELECT path, content, start_line as startLine, end_line as endLine FROM chunks WHERE id = ?
+    `);
+
+    return top.flatMap(({ chunkId, score }) => {
+      const chunk = chunkStmt.get(chunkId) as
+        | { path: string; content: string; startLine: number; endLine: number }
+        | undefined;
+      if (!chunk) return [];
+      return [{
+        path: chunk.path,
+        score,
+        snippet: chunk.content,
+        startLine: chunk.startLine,
+        endLine: chunk.endLine,
+      }];
     });
   }
 
-  private findBestMatchLine(lines: string[], query: string): number {
-    const queryTerms = query.toLowerCase().split(/\s+/);
-    let bestLine = 1;
-    let bestScore = 0;
+  /**
+   * Search with both BM25 and embeddings and fuse the two rankings
+   * Without an embedding provider only the keyword list contributes. Per-call
+   * options override the configured ranking defaults; every result carries a
+   * scoreBreakdown.
+   */
+  async hybridSearch(query: string, options: HybridSearchOptions = {}): Promise<SearchResult[]> {
+    const { topK = 10, filters = {}, ...fusion } = options;
+    const candidates = topK * HYBRID_CANDIDATE_FACTOR;
+
+    const keyword = this.search(query, candidates, filters);
+    const semantic = this.embeddings ? await this.semanticSearch(query, candidates, filters) : [];
 
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i]?.toLowerCase() ?? '';
-      let score = 0;
-      for (const term of queryTerms) {
-        if (line.includes(term)) {
-          score++;
-        }
+    return fuseResults(keyword, semantic, topK, { ...this.ranking, ...stripUndefined(fusion) });
+  }
+
+  /**
+   * Whether semantic search is available
+   */
+  hasEmbeddings(): boolean {
+    return this.embeddings !== undefined;
+  }
+
+  /**
+   * Schema version, indexer version, repository root and last indexing time of the index
+   */
+  getMeta(): IndexMeta {
+    return readMeta(this.db);
+  }
+
+  /**
+   * Location, size, metadata and row counts of the index, with per-language counts
+   */
+  getStats(): IndexStats {
+    const count = (table: string) => (this.db.prepare(`SELECT COUNT(*) as n FROM ${table}`).get() as { n: number }).n;
+    const languages = this.db
+      .prepare(
+        `
+      SELECT
+        f.language as language,
+        COUNT(*) as files,
+        SUM((SELECT COUNT(*) FROM chunks c WHERE c.file_id = f.id)) as chunks,
+        SUM((SELECT COUNT(*) FROM symbols s WHERE s.file_id = f.id)) as symbols
+      FROM files f
+      GROUP BY f.language
+      ORDER BY files DESC, f.language
+    `
+      )
+      .all() as Array<{ language: string | null; files: number; chunks: number; symbols: number }>;
+    const sizeBytes = ['', '-wal'].reduce(
+      (total, suffix) => total + (fs.statSync(`${this.dbPath}${suffix}`, { throwIfNoEntry: false })?.size ?? 0),
+      0
+    );
+
+    return {
+      ...readMeta(this.db),
+      dbPath: this.dbPath,
+      sizeBytes,
+      files: count('files'),
+      chunks: count('chunks'),
+      symbols: count('symbols'),
+      embeddedChunks: count('chunk_embeddings'),
+      commits: count('commits'),
+      languages: languages.map(({ language, ...counts }) => ({ language: language ?? undefined, ...counts })),
+    };
+  }
+
+  /**
+   * Compare the working tree with the index without changing it
+   * Uses the same ignore rules, extensions and skip rules as indexRepository;
+   * files whose mtime and size match the index are not read.
+   */
+  checkFreshness(): IndexFreshness {
+    const freshness: IndexFreshness = { stale: [], unindexed: [], removed: [], skippedFiles: [] };
+    const existing = this.indexedFileStates();
+    const seen = new Set<string>();
+
+    for (const filePath of this.walkDirectory(this.ignoreMatcher())) {
+      const relativePath = path.relative(this.repoPath, filePath);
+      const previous = existing.get(relativePath);
+      let inspection: FileInspection;
+      try {
+        inspection = inspectFile(filePath, relativePath, previous, false, this.maxFileSize);
+      } catch (error) {
+        const detail = error instanceof Error ? error.message : String(error);
+        freshness.skippedFiles.push({ path: relativePath, reason: 'unreadable', detail });
+        continue;
+      }
+
+      if (inspection.status === 'skipped') {
+        freshness.skippedFiles.push({ path: relativePath, ...inspection.decision });
+        continue;
+      }
+      seen.add(relativePath);
+      if (!previous) {
+        freshness.unindexed.push(relativePath);
+      } else if (inspection.status === 'changed') {
+        freshness.stale.push(relativePath);
+      }
+    }
+
+    freshness.removed = [...existing.keys()].filter((p) => !seen.has(p)).sort();
+    return freshness;
+  }
+
+  /**
+   * Whether the history index has any commits
+   */
+  hasHistory(): boolean {
+    return this.db.prepare(`SELECT 1 FROM commits LIMIT 1`).get() !== undefined;
+  }
+
+  /**
+   * Search commit messages and diff hunks in the history index
+   * Accepts the same query syntax as search(). A commit's score is its
+   * message match plus its best hunk match; ties go to the newer commit.
+   */
+  searchHistory(query: string, options: HistorySearchOptions = {}): HistorySearchResult[] {
+    const compiled = compileQuery(query);
+    if (!compiled) {
+      return [];
+    }
+
+    const limit = options.limit ?? 10;
+    const maxHunks = options.maxHunks ?? 3;
+    const commitConditions: string[] = [];
+    const commitParams: unknown[] = [];
+    if (options.author) {
+      const pattern = `%${escapeLike(options.author)}%`;
+      commitConditions.push(`(c.author LIKE ? ESCAPE '\\' OR c.email LIKE ? ESCAPE '\\')`);
+      commitParams.push(pattern, pattern);
+    }
+    const commitFilter = commitConditions.map((condition) => `\n        AND ${condition}`).join('');
+    const prefix = options.pathPrefix ? pathPrefixCondition('h.path', options.pathPrefix) : undefined;
+    const hunkFilter = prefix ? `\n        AND ${prefix.sql}` : '';
+    const changedFilter = prefix
+      ? `\n        AND EXISTS (SELECT 1 FROM commit_hunks h WHERE h.commit_id = c.id AND ${prefix.sql})`
+      : '';
+
+    const messages = this.db
+      .prepare(`
+        SELECT c.id, bm25(commits_fts, 2.0, 1.0, 1.0) as score
+        FROM commits_fts fts
+        JOIN commits c ON c.id = fts.rowid
+        WHERE commits_fts MATCH ?${commitFilter}${changedFilter}
+        ORDER BY score
+        LIMIT ?
+      `)
+      .all(compiled, ...commitParams, ...(prefix?.params ?? []), limit * HISTORY_CANDIDATE_FACTOR) as Array<{
+      id: number;
+      score: number;
+    }>;
+    const hunks = this.db
+      .prepare(`
+        SELECT
+          h.commit_id as commitId,
+          h.path,
+          h.start_line as startLine,
+          h.end_line as endLine,
+          h.content,
+          bm25(commit_hunks_fts) as score
+        FROM commit_hunks_fts fts
+        JOIN commit_hunks h ON h.id = fts.rowid
+        JOIN commits c ON c.id = h.commit_id
+        WHERE commit_hunks_fts MATCH ?${commitFilter}${hunkFilter}
+        ORDER BY score
+        LIMIT ?
+      `)
+      .all(compiled, ...commitParams, ...(prefix?.params ?? []), limit * HISTORY_CANDIDATE_FACTOR * maxHunks) as Array<
+      DiffHunk & { commitId: number; score: number }
+    >;
+
+    const matches = new Map<number, { score: number; messageMatch: boolean; hunks: DiffHunk[] }>();
+    for (const row of messages) {
+      matches.set(row.id, { score: Math.abs(row.score), messageMatch: true, hunks: [] });
+    }
+    // Hunks arrive best first, so the first hunk of a commit is its best match
+    for (const { commitId, score, ...hunk } of hunks) {
+      let match = matches.get(commitId);
+      if (!match) {
+        match = { score: 0, messageMatch: false, hunks: [] };
+        matches.set(commitId, match);
+      }
+      if (match.hunks.length === 0) {
+        match.score += Math.abs(score);
       }
-      if (score > bestScore) {
-        bestScore = score;
-        bestLine = i + 1;
+      if (match.hunks.length < maxHunks) {
+        match.hunks.push(hunk);
       }
     }
+    if (matches.size === 0) {
+      return [];
+    }
 
-    return bestLine;
+    const ids = [...matches.keys()];
+    const commits = this.db
+      .prepare(`
+        SELECT id, sha, author, email, date, subject, body
+        FROM commits
+        WHERE id IN (${ids.map(() => '?').join(', ')})
+      `)
+      .all(...ids) as Array<Omit<CommitDiff, 'shortSha' | 'hunks'> & { id: number }>;
+
+    return commits
+      .map(({ id, ...commit }) => ({ ...commit, shortSha: commit.sha.slice(0, 7), ...matches.get(id)! }))
+      .sort((a, b) => b.score - a.score || b.date.localeCompare(a.date))
+      .slice(0, limit);
   }
 
   /**
@@ -239,6 +1662,269 @@ export class Indexer {
     return result ?? null;
   }
 
+  /**
+   * Find where a symbol is defined
+   * `name` may be qualified with its container (`ToolRegistry.executeToolCall`,
+   * `Server::handle`). Exact-case matches win; otherwise the lookup is
+   * case-insensitive. Exported symbols and non-test files are listed first.
+   */
+  findDefinitions(name: string, options: FindDefinitionOptions = {}): SymbolDefinition[] {
+    const qualified = name.trim().match(/^(.*?)(?:\.|::|#)([^.:#]+)$/);
+    const symbolName = qualified ? qualified[2]! : name.trim();
+    const container = qualified?.[1];
+
+    const lookup = (collate: string) => {
+      const conditions = [`s.name = ?${collate}`];
+      const params: unknown[] = [symbolName];
+      if (container) {
+        conditions.push(`s.container = ?${collate}`);
+        params.push(container);
+      }
+      if (options.kind) {
+        conditions.push(`s.kind = ?`);
+        params.push(options.kind);
+      }
+
+      const rows = this.db
+        .prepare(`
+          SELECT s.name, s.kind, s.container, s.path, s.start_line AS startLine, s.end_line AS endLine,
+            s.exported, s.signature
+          FROM symbols s
+          JOIN files f ON f.id = s.file_id
+          WHERE ${conditions.join(' AND ')}
+          ORDER BY s.exported DESC, f.is_test ASC, s.path, s.start_line
+          LIMIT ?
+        `)
+        .all(...params, options.limit ?? 10) as Array<
+        Omit<SymbolDefinition, 'exported' | 'container'> & { exported: number; container: string | null }
+      >;
+
+      return rows.map(({ container: rowContainer, exported, ...rest }) => ({
+        ...rest,
+        ...(rowContainer ? { container: rowContainer } : {}),
+        exported: exported === 1,
+      }));
+    };
+
+    const exact = lookup('');
+    return exact.length > 0 ? exact : lookup(' COLLATE NOCASE');
+  }
+
+  /**
+   * Find every occurrence of an identifier
+   * A qualified name (`ToolRegistry.executeToolCall`) is looked up by its last
+   * segment, since occurrences are recorded per identifier.
+   */
+  findReferences(name: string, options: FindReferencesOptions = {}): FindReferencesResult {
+    const identifier = name.trim().split(/\.|::|#/).pop() ?? '';
+    const limit = options.limit ?? 50;
+    const contextLines = options.contextLines ?? 0;
+    const filter = buildFilterClause(options.filters ?? {});
+
+    const rows = this.db
+      .prepare(`
+        SELECT o.file_id AS fileId, f.path, o.line, o.role
+        FROM occurrences o
+        JOIN files f ON f.id = o.file_id
+        WHERE o.name = ?${filter.sql}
+        ORDER BY f.is_test ASC, f.path, o.line
+      `)
+      .all(identifier, ...filter.params) as Array<{ fileId: number; path: string; line: number; role: OccurrenceRole }>;
+
+    const counts = Object.fromEntries(OCCURRENCE_ROLES.map((role) => [role, 0])) as Record<OccurrenceRole, number>;
+    for (const row of rows) counts[row.role]++;
+    const selected = rows.filter((row) => !options.role || row.role === options.role).slice(0, limit);
+
+    // Line text comes from the stored content, read once per file
+    const contentStmt = this.db.prepare(`SELECT content FROM files WHERE id = ?`);
+    const fileLines = new Map<number, string[]>();
+    const references = selected.map((row): SymbolReference => {
+      let lines = fileLines.get(row.fileId);
+      if (!lines) {
+        const file = contentStmt.get(row.fileId) as { content: string } | undefined;
+        lines = (file?.content ?? '').split('\n').map((line) => line.replace(/\r$/, ''));
+        fileLines.set(row.fileId, lines);
+      }
+
+      const reference: SymbolReference = { path: row.path, line: row.line, role: row.role, text: lines[row.line - 1] ?? '' };
+      if (contextLines > 0) {
+        reference.before = lines.slice(Math.max(0, row.line - 1 - contextLines), row.line - 1);
+        reference.after = lines.slice(row.line, row.line + contextLines);
+      }
+      return reference;
+    });
+
+    return { references, counts, files: new Set(rows.map((row) => row.fileId)).size };
+  }
+
+  /**
+   * Walk the code graph breadth-first from a file, symbol (`path#name`) or module
+   * Outgoing edges keep their relation; incoming ones are reported reversed
+   * (`importedBy`, `calledBy`). External modules are not expanded past, so a
+   * common dependency doesn't pull in every file that imports it.
+   */
+  graphNeighbors(nodeId: string, options: GraphNeighborsOptions = {}): GraphNeighbor[] {
+    const maxDepth = options.depth ?? 1;
+    const direction = options.direction ?? 'both';
+    const limit = options.limit ?? 100;
+    const relations = options.relations ?? [];
+    const relationFilter = relations.length > 0 ? ` AND relation IN (${relations.map(() => '?').join(', ')})` : '';
+
+    const outgoingStmt = this.db.prepare(`
+      SELECT DISTINCT target AS id, relation FROM edges
+      WHERE source = ? AND target <> ''${relationFilter}
+      ORDER BY relation, target
+    `);
+    const incomingStmt = this.db.prepare(`
+      SELECT DISTINCT source AS id, relation FROM edges WHERE target = ?${relationFilter} ORDER BY relation, source
+    `);
+
+    const start = this.normalizeNodeId(nodeId);
+    const visited = new Set([start]);
+    const neighbors: GraphNeighbor[] = [];
+    let frontier = [start];
+
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+      const next: string[] = [];
+      for (const current of frontier) {
+        const steps: Array<Pick<GraphNeighbor, 'relation'> & { id: string }> = [];
+        if (direction !== 'incoming') {
+          const rows = outgoingStmt.all(current, ...relations) as Array<{ id: string; relation: GraphRelation }>;
+          steps.push(...rows);
+        }
+        if (direction !== 'outgoing') {
+          const rows = incomingStmt.all(current, ...relations) as Array<{ id: string; relation: GraphRelation }>;
+          steps.push(...rows.map((row) => ({ id: row.id, relation: REVERSE_RELATIONS[row.relation] })));
+        }
+
+        for (const step of steps) {
+          if (visited.has(step.id)) continue;
+          visited.add(step.id);
+
+          const node = this.graphNode(step.id);
+          neighbors.push({ node, relation: step.relation, depth, ...(depth > 1 ? { via: current } : {}) });
+          if (neighbors.length >= limit) return neighbors;
+          if (node.type !== 'module') next.push(step.id);
+        }
+      }
+      frontier = next;
+    }
+
+    return neighbors;
+  }
+
+  /**
+   * Supertypes and subtypes of a class, interface or trait
+   * `name` is a type name (as for findDefinitions) or a `path#Name` node id.
+   * @returns null when no such type is indexed
+   */
+  typeHierarchy(name: string, options: TypeHierarchyOptions = {}): TypeHierarchy | null {
+    let id: string;
+    if (name.includes('#')) {
+      id = this.normalizeNodeId(name);
+    } else {
+      const definition = this.findDefinitions(name, { limit: 50 }).find((d) => TYPE_KINDS.has(d.kind));
+      if (!definition) return null;
+      id = symbolNodeId(definition.path, definition);
+    }
+
+    const type = this.graphNode(id);
+    if (!type.kind) return null;
+
+    const direction = options.direction ?? 'both';
+    const traverse = (edgeDirection: 'outgoing' | 'incoming') =>
+      this.graphNeighbors(id, { depth: options.depth ?? 5, direction: edgeDirection, relations: ['extends', 'implements'] });
+
+    return {
+      type,
+      supertypes: direction === 'subtypes' ? [] : traverse('outgoing'),
+      subtypes: direction === 'supertypes' ? [] : traverse('incoming'),
+    };
+  }
+
+  /**
+   * Stored form of a node id: file paths use OS separators, without `./`;
+   * `path#method` names a member when it is the only symbol of that name in the file
+   */
+  private normalizeNodeId(nodeId: string): string {
+    const trimmed = nodeId.trim();
+    const hash = trimmed.indexOf('#');
+    const filePath = hash === -1 ? trimmed : trimmed.slice(0, hash);
+    const normalized = path.normalize(filePath);
+    const exists = this.db.prepare(`SELECT 1 FROM files WHERE path = ?`).get(normalized) !== undefined;
+    if (!exists) return trimmed;
+    if (hash === -1) return normalized;
+
+    const qualified = trimmed.slice(hash + 1);
+    const members = this.db
+      .prepare(`SELECT name, container FROM symbols WHERE path = ? AND name = ? AND container IS NOT NULL`)
+      .all(normalized, qualified) as Array<{ name: string; container: string }>;
+    const topLevel = this.db
+      .prepare(`SELECT 1 FROM symbols WHERE path = ? AND name = ? AND container IS NULL`)
+      .get(normalized, qualified);
+    return !topLevel && members.length === 1
+      ? symbolNodeId(normalized, members[0]!)
+      : `${normalized}#${qualified}`;
+  }
+
+  private graphNode(id: string): GraphNode {
+    const hash = id.indexOf('#');
+    if (hash !== -1) {
+      const qualified = id.slice(hash + 1);
+      const dot = qualified.lastIndexOf('.');
+      const symbol = this.db
+        .prepare(`SELECT kind FROM symbols WHERE path = ? AND name = ? AND container IS ? LIMIT 1`)
+        .get(id.slice(0, hash), qualified.slice(dot + 1), dot === -1 ? null : qualified.slice(0, dot)) as
+        | { kind: SymbolKind }
+        | undefined;
+      const kind = symbol?.kind;
+      const type =
+        kind === 'function' || kind === 'method'
+          ? 'function'
+          : kind === 'class' || kind === 'struct'
+            ? 'class'
+            : 'symbol';
+      return { id, type, name: qualified, ...(kind ? { kind } : {}) };
+    }
+
+    const file = this.db.prepare(`SELECT 1 FROM files WHERE path = ?`).get(id);
+    return file ? { id, type: 'file', name: path.basename(id) } : { id, type: 'module', name: id };
+  }
+
+  /**
+   * Regex search over indexed file contents, line by line
+   * Files are scanned in path order so results are stable across calls.
+   */
+  grep(regex: RegExp, options: GrepOptions = {}): GrepResult {
+    const maxMatches = options.maxMatches ?? DEFAULT_GREP_MAX_MATCHES;
+    const contextLines = options.contextLines ?? 0;
+    const filter = buildFilterClause({ glob: options.glob });
+
+    const stmt = this.db.prepare(`
+      SELECT f.path, f.content
+      FROM files f
+      WHERE 1 = 1${filter.sql}
+      ORDER BY f.path
+    `);
+
+    const matches: GrepResult['matches'] = [];
+    let filesSearched = 0;
+    let truncated = false;
+
+    for (const row of stmt.iterate(...filter.params) as Iterable<{ path: string; content: string }>) {
+      filesSearched++;
+      // Ask for one extra match to tell "exactly at the limit" from "truncated"
+      matches.push(...grepContent(row.path, row.content, regex, contextLines, maxMatches + 1 - matches.length));
+      if (matches.length > maxMatches) {
+        matches.length = maxMatches;
+        truncated = true;
+        break;
+      }
+    }
+
+    return { matches, filesSearched, truncated };
+  }
+
   /**
    * List files matching a pattern
    */
@@ -266,3 +1952,67 @@ export class Indexer {
     this.db.close();
   }
 }
+
+function measureProgress(processed: number, total: number, startedAt: number): IndexProgress {
+  const seconds = Math.max(Date.now() - startedAt, 1) / 1000;
+  const filesPerSecond = processed / seconds;
+  return { processed, total, filesPerSecond, etaMs: Math.round(((total - processed) / filesPerSecond) * 1000) };
+}
+
+/**
+ * SQL conditions (prefixed with AND) on the `files f` alias for search filters
+ */
+function buildFilterClause(filters: SearchFilters): { sql: string; params: unknown[] } {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  const prefix = filters.pathPrefix ? pathPrefixCondition('f.path', filters.pathPrefix) : undefined;
+  if (prefix) {
+    conditions.push(prefix.sql);
+    params.push(...prefix.params);
+  }
+  if (filters.glob) {
+    conditions.push(`glob_match(?, f.path)`);
+    params.push(filters.glob);
+  }
+  if (filters.language) {
+    conditions.push(`f.language = ?`);
+    params.push(filters.language.toLowerCase());
+  }
+  if (filters.excludeTests) {
+    conditions.push(`f.is_test = 0`);
+  }
+  if (filters.kind) {
+    conditions.push(`f.kind = ?`);
+    params.push(filters.kind);
+  }
+
+  return {
+    sql: conditions.map((condition) => `\n        AND ${condition}`).join(''),
+    params,
+  };
+}
+
+/**
+ * SQL condition matching `column` against a directory/prefix, or undefined for the repository root
+ */
+function pathPrefixCondition(column: string, pathPrefix: string): { sql: string; params: unknown[] } | undefined {
+  // Stored paths use OS separators
+  const prefix = path.normalize(pathPrefix).replace(/[\\/]+$/, '');
+  if (!prefix || prefix === '.') {
+    return undefined;
+  }
+  return {
+    sql: `(${column} = ? OR ${column} LIKE ? ESCAPE '\\')`,
+    params: [prefix, `${escapeLike(prefix + path.sep)}%`],
+  };
+}
+
+function escapeLike(text: string): string {
+  return text.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
@@ -0,0 +1,124 @@
+/**
+ * File Metadata
+ * Language, kind (code/docs/config) and test-file detection from paths
+ *
+ * Stored per file at index time so search filters can be applied in SQL.
+ */
+
+import * as path from 'node:path';
+import { toPosixPath } from './glob.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type FileKind = 'code' | 'docs' | 'config';
+
+export const FILE_KINDS: readonly FileKind[] = ['code', 'docs', 'config'];
+
+export interface FileMetadata {
+  /** Language id (e.g. 'typescript'), undefined when unknown */
+  language?: string;
+  kind: FileKind;
+  isTest: boolean;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  '.ts': 'typescript',
+  '.tsx': 'typescript',
+  '.mts': 'typescript',
+  '.cts': 'typescript',
+  '.js': 'javascript',
+  '.jsx': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.py': 'python',
+  '.rs': 'rust',
+  '.go': 'go',
+  '.java': 'java',
+  '.kt': 'kotlin',
+  '.swift': 'swift',
+  '.c': 'c',
+  '.h': 'c',
+  '.cpp': 'cpp',
+  '.cc': 'cpp',
+  '.hpp': 'cpp',
+  '.cs': 'csharp',
+  '.rb': 'ruby',
+  '.php': 'php',
+  '.vue': 'vue',
+  '.sql': 'sql',
+  '.proto': 'protobuf',
+  '.sh': 'shell',
+  '.md': 'markdown',
+  '.mdx': 'markdown',
+  '.rst': 'restructuredtext',
+  '.txt': 'text',
+  '.json': 'json',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+  '.toml': 'toml',
+  '.ini': 'ini',
+  '.xml': 'xml',
+};
+
+const DOCS_LANGUAGES = new Set(['markdown', 'restructuredtext', 'text']);
+
+const CONFIG_LANGUAGES = new Set(['json', 'yaml', 'toml', 'ini', 'xml']);
+
+/** Code files that are configuration by convention */
+const CONFIG_FILE_PATTERN = /(?:^|[./-])config\.[cm]?[jt]s$|^\.?[\w-]+rc\.[cm]?js$/i;
+
+const TEST_DIRECTORY_PATTERN = /(?:^|\/)(?:__tests__|__mocks__|__fixtures__|tests?|spec|e2e|fixtures?|testdata)\//;
+
+const TEST_FILE_PATTERNS = [
+  /\.(?:test|spec)\.[^/]+$/, // index.test.ts, app.spec.js
+  /_test\.(?:go|py)$/, // handler_test.go
+  /(?:^|\/)test_[^/]+\.py$/, // test_parser.py
+  /(?:^|\/)[A-Z]\w*Tests?\.java$/, // ParserTest.java
+];
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+/**
+ * Language id for a file path, if recognized
+ */
+export function detectLanguage(filePath: string): string | undefined {
+  return LANGUAGE_BY_EXTENSION[path.extname(filePath).toLowerCase()];
+}
+
+/**
+ * Whether a path looks like a test, fixture or mock
+ */
+export function isTestPath(filePath: string): boolean {
+  const normalized = toPosixPath(filePath);
+  return TEST_DIRECTORY_PATTERN.test(normalized) || TEST_FILE_PATTERNS.some((pattern) => pattern.test(normalized));
+}
+
+/**
+ * Classify a path as code, docs or config
+ */
+export function detectFileKind(filePath: string, language = detectLanguage(filePath)): FileKind {
+  if (language && DOCS_LANGUAGES.has(language)) return 'docs';
+  if (language && CONFIG_LANGUAGES.has(language)) return 'config';
+  if (CONFIG_FILE_PATTERN.test(path.basename(filePath))) return 'config';
+  return 'code';
+}
+
+/**
+ * All path-derived metadata for a file
+ */
+export function getFileMetadata(filePath: string): FileMetadata {
+  const language = detectLanguage(filePath);
+  return {
+    language,
+    kind: detectFileKind(filePath, language),
+    isTest: isTestPath(filePath),
+  };
+}
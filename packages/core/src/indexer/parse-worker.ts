@@ -0,0 +1,20 @@
+/**
+ * Parse Worker
+ * Worker thread entry for ParsePool: parses one file per message with the built-in symbol extractors
+ */
+
+import { parentPort, workerData } from 'node:worker_threads';
+import { parseFile, type ParseOptions, type ParseRequest } from './parse.js';
+import type { WorkerResponse } from './pool.js';
+
+const options = workerData as ParseOptions;
+
+parentPort?.on('message', (request: ParseRequest) => {
+  let response: WorkerResponse;
+  try {
+    response = { outcome: parseFile(request, options) };
+  } catch (error) {
+    response = { error: error instanceof Error ? error.message : String(error) };
+  }
+  parentPort?.postMessage(response);
+});
@@ -0,0 +1,288 @@
+/**
+ * File Parsing
+ * Everything indexing does to a file before it is written to SQLite: reading,
+ * classification, hashing, chunking and symbol / graph edge extraction
+ *
+ * These functions only touch the file system, so they run unchanged on the
+ * main thread and in the worker threads of ParsePool (see pool.ts).
+ */
+
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs';
+import { chunkFile, type ChunkerOptions } from './chunker.js';
+import { classifyByName, classifyContent, isBinaryContent, type SkipDecision } from './detect.js';
+import { detectLanguage, getFileMetadata, type FileMetadata } from './languages.js';
+import { expandIdentifiers } from './tokenize.js';
+import {
+  DEFAULT_SYMBOL_EXTRACTORS,
+  extractOccurrences,
+  extractSymbols,
+  getSymbolExtractor,
+  type ExtractedOccurrence,
+  type ExtractedSymbol,
+  type SymbolExtractor,
+  type SymbolKind,
+} from '../symbols/index.js';
+import {
+  extractCalls,
+  extractHeritage,
+  extractScriptCalls,
+  extractImports,
+  CALLABLE_KINDS,
+  symbolNodeId,
+  TYPE_KINDS,
+  type GraphRelation,
+} from '../graph/index.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** What the files table records about a file when it was indexed */
+export interface IndexedFileState {
+  lastModified: number;
+  size: number | null;
+  contentHash: string | null;
+}
+
+export interface ParseOptions {
+  /** Files larger than this (bytes) are skipped */
+  maxFileSize: number;
+  chunking: ChunkerOptions;
+}
+
+export interface ParseRequest {
+  /** Absolute path */
+  filePath: string;
+  /** Path relative to the repository root, as stored in the index */
+  relativePath: string;
+  /** Indexed state of the file, if it is in the index */
+  previous?: IndexedFileState;
+  /** Parse even if the file looks unchanged */
+  force: boolean;
+  /** Extract symbols and graph edges (default: true) */
+  analyze?: boolean;
+}
+
+/** Outcome of comparing a file on disk with its indexed state */
+export type FileInspection =
+  | { status: 'skipped'; decision: SkipDecision }
+  | { status: 'unchanged'; mtimeMs: number; size: number; touched: boolean }
+  | { status: 'changed'; mtimeMs: number; size: number; content: string; contentHash: string };
+
+export interface ParsedChunk {
+  startLine: number;
+  endLine: number;
+  content: string;
+  /** Identifier sub-words for the FTS terms column */
+  terms: string;
+}
+
+/** A graph edge; edges with a specifier or symbol are resolved after the run */
+export interface EdgeRecord {
+  source: string;
+  target: string;
+  relation: GraphRelation;
+  line: number;
+  specifier?: string;
+  symbol?: string;
+}
+
+export interface FileAnalysis {
+  symbols: ExtractedSymbol[];
+  occurrences: ExtractedOccurrence[];
+  edges: EdgeRecord[];
+}
+
+export type ParseOutcome =
+  | Exclude<FileInspection, { status: 'changed' }>
+  | (Extract<FileInspection, { status: 'changed' }> & {
+      metadata: FileMetadata;
+      chunks: ParsedChunk[];
+      /** Missing when the request did not ask for analysis */
+      analysis?: FileAnalysis;
+    });
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Classify a file and compare it with its indexed state
+ * The content is read only when mtime or size differ from the index (or with
+ * `force`); a file whose content hash still matches is `unchanged` and
+ * `touched`. Throws when the file cannot be read.
+ */
+export function inspectFile(
+  filePath: string,
+  relativePath: string,
+  previous: IndexedFileState | undefined,
+  force: boolean,
+  maxFileSize: number
+): FileInspection {
+  const byName = classifyByName(relativePath);
+  if (byName) {
+    return { status: 'skipped', decision: byName };
+  }
+
+  const { mtimeMs, size } = fs.statSync(filePath);
+  if (size > maxFileSize) {
+    return { status: 'skipped', decision: { reason: 'too-large', detail: `${size} bytes (limit ${maxFileSize})` } };
+  }
+
+  if (!force && previous?.contentHash && previous.lastModified === mtimeMs && previous.size === size) {
+    return { status: 'unchanged', mtimeMs, size, touched: false };
+  }
+
+  const buffer = fs.readFileSync(filePath);
+  if (isBinaryContent(buffer)) {
+    return { status: 'skipped', decision: { reason: 'binary' } };
+  }
+
+  const content = buffer.toString('utf-8');
+  const byContent = classifyContent(content, detectLanguage(relativePath));
+  if (byContent) {
+    return { status: 'skipped', decision: byContent };
+  }
+
+  const contentHash = hashContent(content);
+  if (!force && previous?.contentHash === contentHash) {
+    return { status: 'unchanged', mtimeMs, size, touched: true };
+  }
+
+  return { status: 'changed', mtimeMs, size, content, contentHash };
+}
+
+/**
+ * Inspect a file and, when it changed, chunk it and extract its symbols and graph edges
+ */
+export function parseFile(
+  request: ParseRequest,
+  options: ParseOptions,
+  extractors: readonly SymbolExtractor[] = DEFAULT_SYMBOL_EXTRACTORS
+): ParseOutcome {
+  const { filePath, relativePath } = request;
+  const inspection = inspectFile(filePath, relativePath, request.previous, request.force, options.maxFileSize);
+  if (inspection.status !== 'changed') {
+    return inspection;
+  }
+
+  const metadata = getFileMetadata(relativePath);
+  const chunks = chunkFile(relativePath, inspection.content, options.chunking).map((chunk) => ({
+    ...chunk,
+    terms: expandIdentifiers(chunk.content),
+  }));
+  const analysis =
+    request.analyze === false
+      ? undefined
+      : analyzeFile(relativePath, inspection.content, metadata.language, extractors);
+
+  return { ...inspection, metadata, chunks, analysis };
+}
+
+/**
+ * Extract a file's symbols, occurrences and graph edges
+ * Only languages with a symbol extractor get occurrences, so prose and config stay out.
+ * Import edges and calls to names not defined in the file start out unresolved
+ * (with a specifier or symbol); see Indexer.resolveEdges().
+ */
+export function analyzeFile(
+  filePath: string,
+  content: string,
+  language: string | undefined,
+  extractors: readonly SymbolExtractor[] = DEFAULT_SYMBOL_EXTRACTORS
+): FileAnalysis {
+  const analysis: FileAnalysis = { symbols: [], occurrences: [], edges: [] };
+  if (!getSymbolExtractor(language, extractors)) return analysis;
+
+  const symbols = extractSymbols(content, language, extractors);
+  const occurrences = extractOccurrences(content, language, symbols);
+  analysis.symbols = symbols;
+  analysis.occurrences = occurrences;
+
+  const addEdge = (
+    source: string,
+    target: string,
+    relation: GraphRelation,
+    line: number,
+    unresolved: { specifier?: string; symbol?: string } = {}
+  ) => analysis.edges.push({ source, target, relation, line, ...unresolved });
+
+  const bindings = new Map<string, { specifier: string; imported: string }>();
+  for (const imported of extractImports(content, language)) {
+    addEdge(filePath, imported.specifier, 'imports', imported.line, { specifier: imported.specifier });
+    for (const binding of imported.bindings) {
+      bindings.set(binding.local, { specifier: imported.specifier, imported: binding.imported });
+    }
+  }
+  for (const symbol of symbols) {
+    if (symbol.exported && !symbol.container) {
+      addEdge(filePath, symbolNodeId(filePath, symbol), 'exports', symbol.startLine);
+    }
+  }
+
+  // Calls and supertypes resolve to this file's symbols (members of the caller's
+  // class first), then to imported names; anything else is looked up across the index later
+  const link = (
+    source: string,
+    name: string,
+    relation: GraphRelation,
+    line: number,
+    kinds: ReadonlySet<SymbolKind>,
+    container?: string
+  ) => {
+    // `ns.Base` / `fmt::Display` name a member of an imported module
+    const [head, ...rest] = name.split(/\.|::/);
+    const symbolName = rest[rest.length - 1] ?? head!;
+    const candidates = rest.length > 0 ? [] : symbols.filter((s) => s.name === symbolName && kinds.has(s.kind));
+    const local =
+      candidates.find((s) => s.container && s.container === container) ?? candidates.find((s) => !s.container);
+    const binding = bindings.get(head!);
+
+    if (local) {
+      const target = symbolNodeId(filePath, local);
+      if (target !== source) addEdge(source, target, relation, line);
+    } else if (binding && (rest.length > 0) === (binding.imported === '*')) {
+      const symbol = rest.length > 0 ? symbolName : binding.imported === 'default' ? head! : binding.imported;
+      addEdge(source, '', relation, line, { specifier: binding.specifier, symbol });
+    } else {
+      addEdge(source, '', relation, line, { symbol: symbolName });
+    }
+  };
+
+  // Member calls resolve to a member of the receiver's class in this file, or
+  // through the import that binds the receiver; other receivers are dropped
+  const linkMember = (source: string, receiver: string, member: string, line: number) => {
+    const local = symbols.find((s) => s.name === member && s.container === receiver && CALLABLE_KINDS.has(s.kind));
+    const binding = bindings.get(receiver);
+    if (local) {
+      const target = symbolNodeId(filePath, local);
+      if (target !== source) addEdge(source, target, 'calls', line);
+    } else if (binding) {
+      const owner = binding.imported === 'default' ? receiver : binding.imported;
+      const symbol = binding.imported === '*' ? member : `${owner}.${member}`;
+      addEdge(source, '', 'calls', line, { specifier: binding.specifier, symbol });
+    }
+  };
+
+  const script = language === 'typescript' || language === 'javascript';
+  const calls = script ? extractScriptCalls(filePath, content, symbols) : extractCalls(symbols, occurrences);
+  for (const call of calls) {
+    const source = symbolNodeId(filePath, call.caller);
+    if (call.receiver) {
+      linkMember(source, call.receiver, call.callee, call.line);
+    } else {
+      // Without a syntax tree `obj.run()` looks like `run()`, so members of the caller's class come first
+      link(source, call.callee, 'calls', call.line, CALLABLE_KINDS, script ? undefined : call.caller.container);
+    }
+  }
+  for (const entry of extractHeritage(content, language, symbols)) {
+    link(symbolNodeId(filePath, entry.type), entry.supertype, entry.relation, entry.line, TYPE_KINDS);
+  }
+
+  return analysis;
+}
+
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
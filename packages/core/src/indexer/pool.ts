@@ -0,0 +1,164 @@
+/**
+ * Parse Pool
+ * Fans file parsing (see parse.ts) out to worker threads
+ *
+ * Each worker parses one file at a time; requests queue until a worker is
+ * free. Functions cannot be sent to a worker, so workers use the built-in
+ * symbol extractors and files in a language handled by a configured extractor
+ * are analyzed back on the calling thread. Without workers (size 0, or when
+ * running from TypeScript sources where there is no compiled worker script)
+ * files are parsed on the calling thread.
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import { fileURLToPath } from 'node:url';
+import { Worker } from 'node:worker_threads';
+import { analyzeFile, parseFile, type ParseOptions, type ParseOutcome, type ParseRequest } from './parse.js';
+import { getFileMetadata } from './languages.js';
+import { DEFAULT_SYMBOL_EXTRACTORS, getSymbolExtractor, type SymbolExtractor } from '../symbols/index.js';
+
+/** One thread is left for the main thread, which writes to SQLite */
+export const DEFAULT_INDEX_WORKERS = Math.min(4, Math.max(0, os.availableParallelism() - 1));
+
+/** Fewer files than this per worker are parsed on the main thread; starting workers would cost more */
+export const MIN_FILES_PER_WORKER = 50;
+
+/** Message a worker posts back for each request */
+export type WorkerResponse = { outcome: ParseOutcome; error?: undefined } | { outcome?: undefined; error: string };
+
+interface Task {
+  request: ParseRequest;
+  resolve: (outcome: ParseOutcome) => void;
+  reject: (error: Error) => void;
+}
+
+/** Compiled worker entry; missing when running from TypeScript sources */
+const WORKER_SCRIPT = new URL('./parse-worker.js', import.meta.url);
+
+export class ParsePool {
+  private options: ParseOptions;
+  private extractors: readonly SymbolExtractor[];
+  private customExtractors: SymbolExtractor[];
+  private workers: Worker[] = [];
+  private idle: Worker[] = [];
+  private active = new Map<Worker, Task>();
+  private queue: Task[] = [];
+  private workerScript: URL;
+
+  /**
+   * @param workerScript Worker entry; it must answer each ParseRequest with a WorkerResponse
+   */
+  constructor(
+    size: number,
+    options: ParseOptions,
+    extractors: readonly SymbolExtractor[] = DEFAULT_SYMBOL_EXTRACTORS,
+    workerScript: URL = WORKER_SCRIPT
+  ) {
+    this.options = options;
+    this.extractors = extractors;
+    this.customExtractors = extractors.filter((extractor) => !DEFAULT_SYMBOL_EXTRACTORS.includes(extractor));
+    this.workerScript = workerScript;
+
+    if (size > 0 && fs.existsSync(fileURLToPath(workerScript))) {
+      for (let i = 0; i < size; i++) {
+        this.spawn();
+      }
+    }
+  }
+
+  /**
+   * Number of worker threads (0 when parsing on the calling thread)
+   */
+  get size(): number {
+    return this.workers.length;
+  }
+
+  /**
+   * Parse a file; rejects when it cannot be read
+   */
+  async parse(request: ParseRequest): Promise<ParseOutcome> {
+    if (this.workers.length === 0) {
+      return parseFile(request, this.options, this.extractors);
+    }
+
+    const language = getFileMetadata(request.relativePath).language;
+    const analyzeHere = getSymbolExtractor(language, this.customExtractors) !== undefined;
+    const outcome = await new Promise<ParseOutcome>((resolve, reject) => {
+      this.queue.push({ request: { ...request, analyze: !analyzeHere }, resolve, reject });
+      this.dispatch();
+    });
+
+    if (analyzeHere && outcome.status === 'changed') {
+      outcome.analysis = analyzeFile(request.relativePath, outcome.content, language, this.extractors);
+    }
+    return outcome;
+  }
+
+  /**
+   * Stop the workers; requests not answered yet are rejected
+   */
+  async close(): Promise<void> {
+    const pending = [...this.queue.splice(0), ...this.active.values()];
+    this.active.clear();
+    for (const task of pending) {
+      task.reject(new Error('Parse pool closed'));
+    }
+    const workers = this.workers.splice(0);
+    this.idle = [];
+    await Promise.all(workers.map((worker) => worker.terminate()));
+  }
+
+  private spawn(): void {
+    const worker = new Worker(this.workerScript, { workerData: this.options });
+
+    worker.on('message', (response: WorkerResponse) => {
+      const task = this.active.get(worker);
+      this.active.delete(worker);
+      this.idle.push(worker);
+      if (response.error !== undefined) {
+        task?.reject(new Error(response.error));
+      } else {
+        task?.resolve(response.outcome);
+      }
+      this.dispatch();
+    });
+
+    // A crashed worker is dropped; its file fails and the others carry on
+    worker.on('error', (error) => this.drop(worker, error));
+    // Exiting without an error (process.exit(), termination) is a crash too; after 'error' this is a no-op
+    worker.on('exit', (code) => this.drop(worker, new Error(`Parse worker exited with code ${code}`)));
+
+    this.workers.push(worker);
+    this.idle.push(worker);
+  }
+
+  private drop(worker: Worker, error: Error): void {
+    this.active.get(worker)?.reject(error);
+    this.active.delete(worker);
+    this.workers = this.workers.filter((w) => w !== worker);
+    this.idle = this.idle.filter((w) => w !== worker);
+    this.dispatch();
+  }
+
+  private dispatch(): void {
+    if (this.workers.length === 0) {
+      // Every worker crashed
+      for (const task of this.queue.splice(0)) {
+        try {
+          task.resolve(parseFile(task.request, this.options, this.extractors));
+        } catch (error) {
+          task.reject(error instanceof Error ? error : new Error(String(error)));
+        }
+      }
+      return;
+    }
+
+    while (this.idle.length > 0 && this.queue.length > 0) {
+      const worker = this.idle.pop()!;
+      const task = this.queue.shift()!;
+      this.active.set(worker, task);
+      worker.postMessage(task.request);
+    }
+  }
+}
@@ -0,0 +1,244 @@
+/**
+ * Search Query Language
+ * Parses user/agent queries and compiles them to FTS5 MATCH expressions
+ *
+ * Syntax:
+ *   tool registry        any of the words (identifier-aware, see tokenize.ts)
+ *   "tool calls"         exact phrase
+ *   +required            chunk must contain the term (or +"phrase")
+ *   -excluded            chunk must not contain the term (or -"phrase", NOT term)
+ *   regist*              prefix match
+ *   agent NEAR loop      terms within 10 tokens of each other (NEAR/5 for 5)
+ *
+ * Every term and phrase is emitted as a quoted FTS5 string, so characters in
+ * the input can never be interpreted as FTS5 operators.
+ */
+
+import { extractIdentifiers, identifierTerms, wholeIdentifier } from './tokenize.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type QueryModifier = 'optional' | 'required' | 'excluded';
+
+export type QueryOperand =
+  | { type: 'term'; text: string }
+  | { type: 'phrase'; text: string }
+  | { type: 'prefix'; text: string };
+
+export type QueryClause =
+  | (QueryOperand & { modifier: QueryModifier })
+  | { type: 'near'; operands: QueryOperand[]; distance: number; modifier: QueryModifier };
+
+export interface ParsedQuery {
+  clauses: QueryClause[];
+}
+
+/** FTS5's default NEAR distance */
+export const DEFAULT_NEAR_DISTANCE = 10;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+const NEAR_PATTERN = /^NEAR(?:\/(\d+))?$/;
+
+interface Token {
+  operand?: QueryOperand;
+  modifier: QueryModifier;
+  /** NEAR keyword; distance when given as NEAR/N */
+  near?: { distance: number };
+}
+
+/**
+ * Parse a query string into clauses
+ * Parsing never fails: unbalanced quotes close at the end of the input and
+ * dangling operators are ignored.
+ */
+export function parseQuery(query: string): ParsedQuery {
+  const tokens = tokenizeQuery(query);
+  const clauses: QueryClause[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]!;
+    if (!token.operand) continue;
+
+    // Collect `a NEAR b NEAR/3 c` into a single group
+    const operands = [token.operand];
+    let distance = DEFAULT_NEAR_DISTANCE;
+    while (tokens[i + 1]?.near && tokens[i + 2]?.operand) {
+      distance = tokens[i + 1]!.near!.distance;
+      operands.push(tokens[i + 2]!.operand!);
+      i += 2;
+    }
+
+    if (operands.length > 1) {
+      clauses.push({ type: 'near', operands, distance, modifier: token.modifier });
+    } else {
+      clauses.push({ ...token.operand, modifier: token.modifier });
+    }
+  }
+
+  return { clauses };
+}
+
+function tokenizeQuery(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  let pendingNot = false;
+
+  while (i < query.length) {
+    if (/\s/.test(query[i]!)) {
+      i++;
+      continue;
+    }
+
+    let modifier: QueryModifier = pendingNot ? 'excluded' : 'optional';
+    pendingNot = false;
+    if (query[i] === '+' || query[i] === '-') {
+      modifier = query[i] === '+' ? 'required' : 'excluded';
+      i++;
+    }
+
+    if (query[i] === '"') {
+      const end = query.indexOf('"', i + 1);
+      const text = query.slice(i + 1, end === -1 ? query.length : end).trim();
+      i = end === -1 ? query.length : end + 1;
+      if (text) {
+        tokens.push({ operand: { type: 'phrase', text }, modifier });
+      }
+      continue;
+    }
+
+    let end = i;
+    while (end < query.length && !/[\s"]/.test(query[end]!)) end++;
+    const word = query.slice(i, end);
+    i = end;
+
+    if (modifier === 'optional') {
+      const near = word.match(NEAR_PATTERN);
+      if (near) {
+        tokens.push({ modifier, near: { distance: near[1] ? parseInt(near[1], 10) : DEFAULT_NEAR_DISTANCE } });
+        continue;
+      }
+      if (word === 'AND' || word === 'OR') continue;
+      if (word === 'NOT') {
+        pendingNot = true;
+        continue;
+      }
+    }
+
+    if (word.endsWith('*') && word.length > 1) {
+      tokens.push({ operand: { type: 'prefix', text: word.replace(/\*+$/, '') }, modifier });
+    } else if (word) {
+      tokens.push({ operand: { type: 'term', text: word }, modifier });
+    }
+  }
+
+  return tokens;
+}
+
+// ============================================================================
+// Compilation
+// ============================================================================
+
+/**
+ * Compile a query to an FTS5 MATCH expression
+ * Returns null when nothing searchable remains (e.g. only excluded terms).
+ *
+ * Required and excluded clauses become AND / NOT. Optional clauses are joined
+ * with OR; when required clauses exist the optional group also contains the
+ * first required clause, so it never filters results but still feeds bm25.
+ */
+export function compileQuery(query: string | ParsedQuery): string | null {
+  const { clauses } = typeof query === 'string' ? parseQuery(query) : query;
+
+  const optional: string[] = [];
+  const required: string[] = [];
+  const excluded: string[] = [];
+
+  for (const clause of clauses) {
+    const compiled = compileClause(clause);
+    if (!compiled) continue;
+
+    if (clause.modifier === 'required') required.push(compiled);
+    else if (clause.modifier === 'excluded') excluded.push(compiled);
+    else optional.push(compiled);
+  }
+
+  const positive: string[] = [...required];
+  if (optional.length > 0) {
+    const group = required.length > 0 ? [required[0]!, ...optional] : optional;
+    positive.push(group.length > 1 ? `(${group.join(' OR ')})` : group[0]!);
+  }
+
+  if (positive.length === 0) {
+    return null;
+  }
+
+  let match = positive.join(' AND ');
+  if (excluded.length > 0) {
+    match = `${positive.length > 1 ? `(${match})` : match} NOT ${
+      excluded.length > 1 ? `(${excluded.join(' OR ')})` : excluded[0]
+    }`;
+  }
+  return match;
+}
+
+function compileClause(clause: QueryClause): string | null {
+  if (clause.type === 'near') {
+    const operands = clause.operands.map(compileNearOperand).filter((o): o is string => o !== null);
+    if (operands.length === 0) return null;
+    if (operands.length === 1) return operands[0]!;
+    return `NEAR(${operands.join(' ')}, ${clause.distance})`;
+  }
+
+  if (clause.type === 'term' && clause.modifier === 'optional') {
+    // Optional words match any identifier spelling: whole form or sub-words
+    const terms = extractIdentifiers(clause.text).flatMap(identifierTerms);
+    const unique = Array.from(new Set(terms)).map(quote);
+    if (unique.length === 0) return null;
+    return unique.length > 1 ? `(${unique.join(' OR ')})` : unique[0]!;
+  }
+
+  return compileNearOperand(clause);
+}
+
+/**
+ * Compile a single term, phrase or prefix to one FTS5 phrase
+ * Terms use their whole identifier form so `+ToolRegistry` also matches `tool_registry`.
+ */
+function compileNearOperand(operand: QueryOperand): string | null {
+  switch (operand.type) {
+    case 'phrase':
+      return quote(operand.text);
+    case 'prefix': {
+      const whole = wholeIdentifier(extractIdentifiers(operand.text).join(''));
+      return whole ? `${quote(whole)}*` : null;
+    }
+    case 'term': {
+      const words = extractIdentifiers(operand.text).map(wholeIdentifier).filter(Boolean);
+      if (words.length === 0) return null;
+      // Punctuation-separated input (e.g. `foo::bar`) becomes a phrase
+      return quote(words.join(' '));
+    }
+  }
+}
+
+/**
+ * Searchable text of a query without operators or excluded clauses
+ * Used as the input for embedding-based search.
+ */
+export function queryText(query: string | ParsedQuery): string {
+  const { clauses } = typeof query === 'string' ? parseQuery(query) : query;
+  return clauses
+    .filter((clause) => clause.modifier !== 'excluded')
+    .flatMap((clause) => (clause.type === 'near' ? clause.operands : [clause]))
+    .map((operand) => operand.text)
+    .join(' ');
+}
+
+function quote(text: string): string {
+  return `"${text.replace(/"/g, '""')}"`;
+}
@@ -0,0 +1,116 @@
+/**
+ * Hybrid Ranking
+ * Fuses lexical (BM25) and semantic (embedding) result lists into one ranking
+ *
+ * Two fusion methods are supported:
+ * - `rrf`: reciprocal rank fusion, sum of weight / (k + rank). Only ranks matter,
+ *   so the incomparable BM25 and cosine scales never have to be reconciled.
+ * - `weighted`: weighted sum of min-max normalized scores; sensitive to score
+ *   gaps, e.g. one very strong keyword hit.
+ */
+
+import type { ScoreBreakdown, SearchResult } from '../types.js';
+
+export type FusionMethod = 'rrf' | 'weighted';
+
+export interface FusionOptions {
+  /** Fusion method (default: 'rrf') */
+  fusion?: FusionMethod;
+  /** Weight of the keyword (BM25) list (default: 1) */
+  keywordWeight?: number;
+  /** Weight of the semantic (embedding) list (default: 1) */
+  semanticWeight?: number;
+  /** RRF rank constant; larger values flatten the curve (default: 60) */
+  rrfK?: number;
+}
+
+export const DEFAULT_FUSION_OPTIONS: Required<FusionOptions> = {
+  fusion: 'rrf',
+  keywordWeight: 1,
+  semanticWeight: 1,
+  rrfK: 60,
+};
+
+/**
+ * Merge keyword and semantic results (each sorted best-first)
+ * Chunks are identified by path and line range; every returned result carries
+ * a scoreBreakdown explaining its fused score.
+ */
+export function fuseResults(
+  keyword: SearchResult[],
+  semantic: SearchResult[],
+  topK: number,
+  options: FusionOptions = {}
+): SearchResult[] {
+  const { fusion, keywordWeight, semanticWeight, rrfK } = { ...DEFAULT_FUSION_OPTIONS, ...options };
+
+  const merged = new Map<string, { result: SearchResult; breakdown: ScoreBreakdown }>();
+  const entryFor = (result: SearchResult) => {
+    const key = `${result.path}:${result.startLine}-${result.endLine}`;
+    let entry = merged.get(key);
+    if (!entry) {
+      entry = { result, breakdown: { fusion, fused: 0 } };
+      merged.set(key, entry);
+    }
+    return entry;
+  };
+
+  const normalizedKeyword = normalizeScores(keyword);
+  keyword.forEach((result, index) => {
+    entryFor(result).breakdown.keyword = { rank: index + 1, score: result.score };
+  });
+
+  const normalizedSemantic = normalizeScores(semantic);
+  semantic.forEach((result, index) => {
+    entryFor(result).breakdown.semantic = { rank: index + 1, score: result.score };
+  });
+
+  for (const { breakdown } of merged.values()) {
+    let fused = 0;
+    if (breakdown.keyword) {
+      fused += fusion === 'rrf'
+        ? keywordWeight / (rrfK + breakdown.keyword.rank)
+        : keywordWeight * normalizedKeyword[breakdown.keyword.rank - 1]!;
+    }
+    if (breakdown.semantic) {
+      fused += fusion === 'rrf'
+        ? semanticWeight / (rrfK + breakdown.semantic.rank)
+        : semanticWeight * normalizedSemantic[breakdown.semantic.rank - 1]!;
+    }
+    breakdown.fused = fused;
+  }
+
+  return Array.from(merged.values())
+    .sort((a, b) => b.breakdown.fused - a.breakdown.fused)
+    .slice(0, topK)
+    .map(({ result, breakdown }) => ({ ...result, score: breakdown.fused, scoreBreakdown: breakdown }));
+}
+
+/**
+ * Describe a score breakdown in one line, e.g. "rrf 0.033 = keyword #1 (12.40) + semantic #3 (0.812)"
+ */
+export function formatScoreBreakdown(breakdown: ScoreBreakdown): string {
+  const parts: string[] = [];
+  if (breakdown.keyword) {
+    parts.push(`keyword #${breakdown.keyword.rank} (${breakdown.keyword.score.toFixed(2)})`);
+  }
+  if (breakdown.semantic) {
+    parts.push(`semantic #${breakdown.semantic.rank} (${breakdown.semantic.score.toFixed(3)})`);
+  }
+  return `${breakdown.fusion} ${breakdown.fused.toFixed(3)} = ${parts.join(' + ')}`;
+}
+
+/**
+ * Min-max normalize scores (higher is better) to [0, 1]
+ * A list whose scores are all equal normalizes to 1.
+ */
+function normalizeScores(results: SearchResult[]): number[] {
+  if (results.length === 0) return [];
+
+  const scores = results.map((r) => r.score);
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+  if (max === min) return scores.map(() => 1);
+
+  return scores.map((score) => (score - min) / (max - min));
+}
@@ -0,0 +1,142 @@
+/**
+ * Index Schema Versioning
+ * The meta table and the migration runner that brings older index databases up to date
+ *
+ * Every schema change is a new migration with the next version number; the
+ * `schema_version` row in `meta` records the last one applied. Databases
+ * created before versioning have no `meta` table and count as version 0.
+ */
+
+import type Database from 'better-sqlite3';
+import * as fs from 'node:fs';
+
+/** Schema version written by this indexer */
+export const SCHEMA_VERSION = 1;
+
+/** Version of the @repo-wiki/core package, recorded in the index */
+export const INDEXER_VERSION = readPackageVersion();
+
+export interface IndexMeta {
+  /** Schema version of the database (0 for indexes created before versioning) */
+  schemaVersion: number;
+  /** @repo-wiki/core version that last wrote the index */
+  indexerVersion?: string;
+  /** Repository root the index was built from */
+  repoRoot?: string;
+  /** When the last indexing run finished (ISO 8601) */
+  indexedAt?: string;
+}
+
+export interface Migration {
+  /** Schema version after this migration */
+  version: number;
+  description: string;
+  up: () => void;
+}
+
+/**
+ * The index database cannot be used by this indexer: it was created by a newer
+ * version, or migrating it failed. Deleting the database and re-indexing fixes it.
+ */
+export class IndexSchemaError extends Error {
+  /** Path of the database that could not be opened */
+  readonly dbPath: string;
+
+  constructor(message: string, dbPath: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'IndexSchemaError';
+    this.dbPath = dbPath;
+  }
+}
+
+const META_KEYS = {
+  schemaVersion: 'schema_version',
+  indexerVersion: 'indexer_version',
+  repoRoot: 'repo_root',
+  indexedAt: 'indexed_at',
+} as const satisfies Record<keyof IndexMeta, string>;
+
+export function createMetaTable(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS meta (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL
+    )
+  `);
+}
+
+export function readMeta(db: Database.Database): IndexMeta {
+  const rows = db.prepare(`SELECT key, value FROM meta`).all() as Array<{ key: string; value: string }>;
+  const values = new Map(rows.map((row) => [row.key, row.value]));
+
+  return {
+    schemaVersion: Number(values.get(META_KEYS.schemaVersion) ?? 0),
+    indexerVersion: values.get(META_KEYS.indexerVersion),
+    repoRoot: values.get(META_KEYS.repoRoot),
+    indexedAt: values.get(META_KEYS.indexedAt),
+  };
+}
+
+export function writeMeta(db: Database.Database, meta: Partial<IndexMeta>): void {
+  const upsert = db.prepare(`
+    INSERT INTO meta (key, value) VALUES (?, ?)
+    ON CONFLICT(key) DO UPDATE SET value = excluded.value
+  `);
+  for (const [field, key] of Object.entries(META_KEYS) as Array<[keyof IndexMeta, string]>) {
+    const value = meta[field];
+    if (value !== undefined) upsert.run(key, String(value));
+  }
+}
+
+/**
+ * Apply the migrations newer than the database's schema version, each in its own transaction
+ * Returns the version the database was at before.
+ */
+export function runMigrations(db: Database.Database, dbPath: string, migrations: Migration[]): number {
+  const from = readMeta(db).schemaVersion;
+  if (from > SCHEMA_VERSION) {
+    throw new IndexSchemaError(
+      `The index at ${dbPath} was created by a newer version of repo-wiki ` +
+        `(schema version ${from}, this version supports up to ${SCHEMA_VERSION})`,
+      dbPath
+    );
+  }
+
+  for (let version = from + 1; version <= SCHEMA_VERSION; version++) {
+    const migration = migrations.find((m) => m.version === version);
+    if (!migration) {
+      throw new IndexSchemaError(
+        `The index at ${dbPath} cannot be migrated: no migration to schema version ${version}`,
+        dbPath
+      );
+    }
+    try {
+      db.transaction(() => {
+        migration.up();
+        writeMeta(db, { schemaVersion: version });
+      })();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new IndexSchemaError(
+        `The index at ${dbPath} could not be migrated to schema version ${version} ` +
+          `(${migration.description}): ${message}`,
+        dbPath,
+        { cause: error }
+      );
+    }
+  }
+
+  return from;
+}
+
+function readPackageVersion(): string {
+  try {
+    // Same relative location from src/indexer and dist/indexer
+    const manifest = JSON.parse(fs.readFileSync(new URL('../../package.json', import.meta.url), 'utf-8')) as {
+      version?: unknown;
+    };
+    return typeof manifest.version === 'string' ? manifest.version : 'unknown';
+  } catch {
+    return 'unknown';
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Identifier-Aware Tokenization
+ * Expands code identifiers into whole-token and sub-word search terms
+ *
+ * FTS5's unicode61 tokenizer keeps `createToolRegistry` as one opaque token and
+ * splits `create_tool_registry` into words without a whole form. Each chunk
+ * therefore gets an extra `terms` column holding, for every compound identifier,
+ * its separator-free whole form followed by its sub-words:
+ *
+ *   createToolRegistry   -> createtoolregistry create tool registry
+ *   create_tool_registry -> createtoolregistry create tool registry
+ *   path.join            -> pathjoin path join
+ *
+ * Query words are expanded the same way (see query.ts), so "tool registry" matches both
+ * `ToolRegistry` and `create_tool_registry`, and `createToolRegistry` matches
+ * its snake_case spelling.
+ */
+
+/** Identifiers, including dotted member paths */
+const IDENTIFIER_PATTERN = /[\p{L}\p{N}_$]+(?:\.[\p{L}\p{N}_$]+)*/gu;
+
+/** Separators removed to form the whole-token spelling */
+const SEPARATOR_PATTERN = /[_.$]+/g;
+
+/**
+ * Identifiers (words, compound and dotted names) in free text, in order
+ */
+export function extractIdentifiers(text: string): string[] {
+  return text.match(IDENTIFIER_PATTERN) ?? [];
+}
+
+/**
+ * Split an identifier into lowercase sub-words
+ * Handles camelCase, PascalCase, acronyms (`HTTPServer` -> http, server),
+ * snake_case, dotted member paths and letter/digit boundaries.
+ */
+export function splitIdentifier(identifier: string): string[] {
+  return identifier
+    .split(/[_.$]+/)
+    .flatMap((part) => part.match(/\p{Lu}+(?!\p{Ll})|\p{Lu}?\p{Ll}+|\p{N}+|\p{Lo}+/gu) ?? [])
+    .map((word) => word.toLowerCase());
+}
+
+/**
+ * Lowercase, separator-free spelling of an identifier
+ */
+export function wholeIdentifier(identifier: string): string {
+  return identifier.replace(SEPARATOR_PATTERN, '').toLowerCase();
+}
+
+/**
+ * Expand one identifier to its search terms: the whole form first, then sub-words
+ * Simple words expand to themselves.
+ */
+export function identifierTerms(identifier: string): string[] {
+  const whole = wholeIdentifier(identifier);
+  if (!whole) return [];
+
+  const subWords = splitIdentifier(identifier);
+  if (subWords.length <= 1) return [whole];
+
+  return [whole, ...subWords];
+}
+
+/**
+ * Build the `terms` column for a chunk of source text
+ * Only compound identifiers contribute; each distinct identifier is expanded once.
+ */
+export function expandIdentifiers(text: string): string {
+  const seen = new Set<string>();
+  const groups: string[] = [];
+
+  for (const identifier of extractIdentifiers(text)) {
+    if (seen.has(identifier)) continue;
+    seen.add(identifier);
+
+    const terms = identifierTerms(identifier);
+    if (terms.length > 1) {
+      groups.push(terms.join(' '));
+    }
+  }
+
+  return groups.join('\n');
+}
@@ -0,0 +1,243 @@
+/**
+ * Index Watcher
+ * Keeps an index up to date while files are edited
+ *
+ * Changes reported by a recursive `fs.watch` are filtered through the indexing
+ * ignore rules, collected until the repository has been quiet for `debounceMs`,
+ * and applied with Indexer.updatePaths. A change to an ignore file re-indexes
+ * the whole repository, since it can include or exclude any path.
+ *
+ * Where recursive watching is unavailable (Linux before Node 20), every
+ * non-ignored directory gets its own watcher, added and closed as directories
+ * come and go.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { IGNORE_FILES, type IgnoreMatcher } from './ignore.js';
+import type { Indexer, IndexResult } from './index.js';
+
+/** Quiet period after the last change before the index is updated */
+export const DEFAULT_WATCH_DEBOUNCE_MS = 300;
+
+/** The index database and the files SQLite keeps next to it */
+const DATABASE_SUFFIXES = ['', '-wal', '-journal', '-shm'];
+
+export interface IndexWatcherOptions {
+  /** Milliseconds without changes before an update runs (default: DEFAULT_WATCH_DEBOUNCE_MS) */
+  debounceMs?: number;
+  /** Called after each update */
+  onUpdate?: (update: WatchUpdate) => void;
+  /** Called when watching or an update fails; the watcher keeps running */
+  onError?: (error: Error) => void;
+  /**
+   * Watch with a single recursive fs.watch (default: when the platform supports it,
+   * otherwise one watcher per directory)
+   */
+  recursive?: boolean;
+}
+
+export interface WatchUpdate {
+  /** Changed repository-relative paths (empty when the whole repository was re-indexed) */
+  paths: string[];
+  /** Whether the whole repository was re-indexed */
+  full: boolean;
+  result: IndexResult;
+}
+
+export class IndexWatcher {
+  private indexer: Indexer;
+  private debounceMs: number;
+  private onUpdate?: (update: WatchUpdate) => void;
+  private onError?: (error: Error) => void;
+  private recursive?: boolean;
+  // Keyed by repository-relative directory ('' is the root); a recursive watcher is stored under ''
+  private watchers = new Map<string, fs.FSWatcher>();
+  private perDirectory = false;
+  private matcher: IgnoreMatcher;
+  // Repository-relative paths of the index database files
+  private databaseFiles: Set<string>;
+  private pending = new Set<string>();
+  private fullUpdate = false;
+  private timer?: NodeJS.Timeout;
+  // Updates run one after another
+  private running: Promise<void> = Promise.resolve();
+  // Aborted by close() to cancel an update in progress
+  private closing = new AbortController();
+
+  constructor(indexer: Indexer, options: IndexWatcherOptions = {}) {
+    this.indexer = indexer;
+    this.debounceMs = options.debounceMs ?? DEFAULT_WATCH_DEBOUNCE_MS;
+    this.onUpdate = options.onUpdate;
+    this.onError = options.onError;
+    this.recursive = options.recursive;
+    this.matcher = indexer.ignoreMatcher();
+    const database = path.relative(indexer.repoPath, path.resolve(indexer.dbPath));
+    this.databaseFiles = new Set(DATABASE_SUFFIXES.map((suffix) => database + suffix));
+  }
+
+  /**
+   * Start watching the repository
+   * Throws when the repository cannot be watched (e.g. the inotify watch limit is reached).
+   */
+  start(): void {
+    if (this.watchers.size > 0) return;
+    if (this.closing.signal.aborted) this.closing = new AbortController();
+
+    if (this.recursive !== false) {
+      try {
+        const watcher = fs.watch(this.indexer.repoPath, { recursive: true }, (_event, filename) =>
+          this.handleChange(filename)
+        );
+        watcher.on('error', (error) => this.onError?.(error));
+        this.watchers.set('', watcher);
+        this.perDirectory = false;
+        return;
+      } catch (error) {
+        // Linux before Node 20
+        const unsupported = (error as NodeJS.ErrnoException).code === 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM';
+        if (this.recursive === true || !unsupported) throw error;
+      }
+    }
+
+    this.perDirectory = true;
+    try {
+      this.watchTree('');
+    } catch (error) {
+      this.closeWatchers('');
+      throw error;
+    }
+  }
+
+  /**
+   * Apply pending changes now instead of waiting for the debounce
+   */
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.running = this.running.then(() => this.update());
+    return this.running;
+  }
+
+  /**
+   * Stop watching; cancels an update in progress and resolves once it has stopped
+   * Changes not yet applied are dropped. Close the indexer only after this resolves.
+   */
+  async close(): Promise<void> {
+    this.closing.abort();
+    this.closeWatchers('');
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.pending.clear();
+    this.fullUpdate = false;
+    await this.running;
+  }
+
+  private handleChange(filename: string | null): void {
+    // Every update writes the index database, which need not be in an ignored directory
+    if (filename && this.databaseFiles.has(path.normalize(filename))) return;
+
+    if (filename && this.perDirectory) {
+      this.syncDirectoryWatchers(filename);
+    }
+
+    if (!filename) {
+      // The platform did not say what changed
+      this.fullUpdate = true;
+    } else if (IGNORE_FILES.includes(path.basename(filename))) {
+      this.matcher = this.indexer.ignoreMatcher();
+      this.fullUpdate = true;
+    } else if (this.matcher.isIgnored(filename, this.isDirectory(filename))) {
+      return;
+    } else {
+      this.pending.add(filename);
+    }
+
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => void this.flush(), this.debounceMs);
+  }
+
+  /**
+   * Watch a directory and every non-ignored directory below it (per-directory mode)
+   */
+  private watchTree(relativeDir: string): void {
+    if (this.watchers.has(relativeDir)) return;
+
+    const fullPath = path.join(this.indexer.repoPath, relativeDir);
+    const watcher = fs.watch(fullPath, (_event, filename) =>
+      this.handleChange(filename ? path.join(relativeDir, filename) : null)
+    );
+    watcher.on('error', (error) => {
+      // Deleting a watched directory ends its watcher; the parent reports the deletion
+      if (fs.existsSync(fullPath)) this.onError?.(error);
+      this.closeWatchers(relativeDir);
+    });
+    this.watchers.set(relativeDir, watcher);
+
+    for (const entry of fs.readdirSync(fullPath, { withFileTypes: true })) {
+      const child = path.join(relativeDir, entry.name);
+      if (entry.isDirectory() && !this.matcher.isIgnored(child, true)) {
+        this.watchTree(child);
+      }
+    }
+  }
+
+  /**
+   * Start watching a directory that appeared, or stop watching one that is gone
+   */
+  private syncDirectoryWatchers(relativePath: string): void {
+    if (this.isDirectory(relativePath)) {
+      if (!this.matcher.isIgnored(relativePath, true)) {
+        try {
+          this.watchTree(relativePath);
+        } catch (error) {
+          // Removed again before it could be watched
+          if (this.isDirectory(relativePath)) this.onError?.(error as Error);
+        }
+      }
+    } else {
+      this.closeWatchers(relativePath);
+    }
+  }
+
+  /**
+   * Close the watchers of a directory and everything below it ('' closes all)
+   */
+  private closeWatchers(relativeDir: string): void {
+    for (const [dir, watcher] of this.watchers) {
+      if (relativeDir === '' || dir === relativeDir || dir.startsWith(relativeDir + path.sep)) {
+        watcher.close();
+        this.watchers.delete(dir);
+      }
+    }
+  }
+
+  private isDirectory(relativePath: string): boolean {
+    const stats = fs.statSync(path.join(this.indexer.repoPath, relativePath), { throwIfNoEntry: false });
+    return stats?.isDirectory() ?? false;
+  }
+
+  private async update(): Promise<void> {
+    if (!this.fullUpdate && this.pending.size === 0) return;
+
+    const full = this.fullUpdate;
+    const paths = full ? [] : [...this.pending].sort();
+    this.pending.clear();
+    this.fullUpdate = false;
+
+    const options = { signal: this.closing.signal };
+    try {
+      const result = full
+        ? await this.indexer.indexRepository(options)
+        : await this.indexer.updatePaths(paths, options);
+      this.onUpdate?.({ paths, full, result });
+    } catch (error) {
+      if (options.signal.aborted) return;
+      this.onError?.(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+}
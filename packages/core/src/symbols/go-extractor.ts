@@ -0,0 +1,93 @@
+/**
+ * Go Symbol Extractor
+ * Functions, methods, types and exported package-level constants/variables
+ */
+
+import type { ExtractedSymbol, SymbolExtractor, SymbolKind } from './types.js';
+import { findBlockEnd, scanLines, signatureOf } from './scanner.js';
+
+const METHOD = /^func\s*\(\s*(?:\w+\s+)?\*?\s*(\w+)(?:\[[^\]]*\])?\s*\)\s*(\w+)/;
+const FUNCTION = /^func\s+(\w+)/;
+const TYPE = /^(?:type\s+)?(\w+)(?:\[[^\]]*\])?\s+(?:=\s*)?(struct|interface)?\b/;
+const VALUE = /^(const|var)\s+(\w+)/;
+const GROUP = /^(type|const|var)\s*\($/;
+
+export class GoSymbolExtractor implements SymbolExtractor {
+  readonly languages = ['go'] as const;
+
+  extract(content: string): ExtractedSymbol[] {
+    const rawLines = content.split('\n');
+    const lines = scanLines(content, { backtickStrings: true });
+    const symbols: ExtractedSymbol[] = [];
+
+    const add = (start: number, name: string, kind: SymbolKind, container?: string) => {
+      const symbol: ExtractedSymbol = {
+        name,
+        kind,
+        startLine: start + 1,
+        endLine: findBlockEnd(lines, start) + 1,
+        exported: /^[A-Z]/.test(name),
+        signature: signatureOf(rawLines[start]!),
+      };
+      if (container) symbol.container = container;
+      symbols.push(symbol);
+    };
+
+    const addType = (start: number, code: string) => {
+      const match = code.match(TYPE);
+      if (match) {
+        add(start, match[1]!, match[2] === 'struct' ? 'struct' : match[2] === 'interface' ? 'interface' : 'type');
+      }
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i]!;
+      if (line.depth !== 0) continue;
+      const code = line.code.trim();
+
+      const method = code.match(METHOD);
+      if (method) {
+        add(i, method[2]!, 'method', method[1]);
+        continue;
+      }
+
+      const fn = code.match(FUNCTION);
+      if (fn) {
+        add(i, fn[1]!, 'function');
+        continue;
+      }
+
+      // type ( ... ), const ( ... ) and var ( ... ) declare one name per line
+      const group = code.match(GROUP);
+      if (group) {
+        const end = findBlockEnd(lines, i);
+        for (let j = i + 1; j < end; j++) {
+          if (lines[j]!.depth !== 1) continue;
+          const spec = lines[j]!.code.trim();
+          if (group[1] === 'type') {
+            addType(j, spec);
+          } else {
+            const name = spec.match(/^(\w+)/)?.[1];
+            if (name && name !== '_' && /^[A-Z]/.test(name)) {
+              add(j, name, group[1] === 'const' ? 'const' : 'variable');
+            }
+          }
+        }
+        i = end;
+        continue;
+      }
+
+      if (code.startsWith('type ')) {
+        addType(i, code);
+        continue;
+      }
+
+      const value = code.match(VALUE);
+      if (value && /^[A-Z]/.test(value[2]!)) {
+        add(i, value[2]!, value[1] === 'const' ? 'const' : 'variable');
+      }
+    }
+
+    return symbols;
+  }
+}
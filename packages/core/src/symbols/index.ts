@@ -0,0 +1,57 @@
+/**
+ * Symbols Module
+ * Pluggable per-language symbol extraction
+ */
+
+import type { ExtractedSymbol, SymbolExtractor } from './types.js';
+import { TypeScriptSymbolExtractor } from './typescript-extractor.js';
+import { PythonSymbolExtractor } from './python-extractor.js';
+import { GoSymbolExtractor } from './go-extractor.js';
+import { RustSymbolExtractor } from './rust-extractor.js';
+import { JavaSymbolExtractor } from './java-extractor.js';
+
+export * from './types.js';
+export { TypeScriptSymbolExtractor } from './typescript-extractor.js';
+export { PythonSymbolExtractor } from './python-extractor.js';
+export { GoSymbolExtractor } from './go-extractor.js';
+export { RustSymbolExtractor } from './rust-extractor.js';
+export { JavaSymbolExtractor } from './java-extractor.js';
+export {
+  extractOccurrences,
+  findImportStatements,
+  OCCURRENCE_ROLES,
+  type OccurrenceRole,
+  type ExtractedOccurrence,
+  type ImportStatement,
+  type SymbolReference,
+} from './occurrences.js';
+
+export const DEFAULT_SYMBOL_EXTRACTORS: readonly SymbolExtractor[] = [
+  new TypeScriptSymbolExtractor(),
+  new PythonSymbolExtractor(),
+  new GoSymbolExtractor(),
+  new RustSymbolExtractor(),
+  new JavaSymbolExtractor(),
+];
+
+/**
+ * Find the extractor for a language; earlier extractors take precedence
+ */
+export function getSymbolExtractor(
+  language: string | undefined,
+  extractors: readonly SymbolExtractor[] = DEFAULT_SYMBOL_EXTRACTORS
+): SymbolExtractor | undefined {
+  if (!language) return undefined;
+  return extractors.find((extractor) => extractor.languages.includes(language));
+}
+
+/**
+ * Extract symbols from file content; files in unsupported languages have none
+ */
+export function extractSymbols(
+  content: string,
+  language: string | undefined,
+  extractors: readonly SymbolExtractor[] = DEFAULT_SYMBOL_EXTRACTORS
+): ExtractedSymbol[] {
+  return getSymbolExtractor(language, extractors)?.extract(content) ?? [];
+}
@@ -0,0 +1,95 @@
+/**
+ * Java Symbol Extractor
+ * Classes, interfaces, enums and records (including nested ones), methods and constants
+ */
+
+import type { ExtractedSymbol, SymbolExtractor, SymbolKind } from './types.js';
+import { findBlockEnd, scanLines, signatureOf } from './scanner.js';
+
+const ANNOTATIONS = String.raw`(?:@[\w.]+(?:\([^)]*\))?\s+)*`;
+const TYPE_MODIFIERS = String.raw`((?:(?:public|protected|private|static|final|abstract|sealed|non-sealed|strictfp)\s+)*)`;
+const MEMBER_MODIFIERS = String.raw`((?:(?:public|protected|private|static|final|abstract|synchronized|native|default|strictfp|transient|volatile)\s+)*)`;
+
+const TYPE = new RegExp(String.raw`^${ANNOTATIONS}${TYPE_MODIFIERS}(class|interface|enum|record|@interface)\s+(\w+)`);
+const METHOD = new RegExp(String.raw`^${ANNOTATIONS}${MEMBER_MODIFIERS}(?:<[^>]+>\s+)?([\w$][\w$<>\[\].,? ]*?)\s+([\w$]+)\s*\(`);
+const CONSTANT = new RegExp(String.raw`^${ANNOTATIONS}${MEMBER_MODIFIERS}[\w$][\w$<>\[\].,? ]*?\s+([\w$]+)\s*=`);
+
+const TYPE_KINDS: Record<string, SymbolKind> = {
+  class: 'class',
+  record: 'class',
+  interface: 'interface',
+  '@interface': 'interface',
+  enum: 'enum',
+};
+
+/** Words that can precede `name(` in statements but never as a return type */
+const NOT_RETURN_TYPES = new Set(['new', 'return', 'throw', 'else', 'case', 'yield']);
+
+export class JavaSymbolExtractor implements SymbolExtractor {
+  readonly languages = ['java'] as const;
+
+  extract(content: string): ExtractedSymbol[] {
+    const rawLines = content.split('\n');
+    const lines = scanLines(content);
+    const symbols: ExtractedSymbol[] = [];
+    // Enclosing type declarations, innermost last
+    const types: Array<{ name: string; isInterface: boolean; bodyDepth: number; endLine: number }> = [];
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i]!;
+      while (types.length > 0 && i > types[types.length - 1]!.endLine) types.pop();
+      const owner = types[types.length - 1];
+
+      // Type declarations at top level and members directly in a type body
+      if (line.depth !== (owner?.bodyDepth ?? 0)) continue;
+      const code = line.code.trim();
+
+      const add = (name: string, kind: SymbolKind, exported: boolean, endLine: number) => {
+        const symbol: ExtractedSymbol = {
+          name,
+          kind,
+          startLine: i + 1,
+          endLine: endLine + 1,
+          exported,
+          signature: signatureOf(rawLines[i]!),
+        };
+        if (owner) symbol.container = owner.name;
+        symbols.push(symbol);
+      };
+      // Interface members are implicitly public
+      const isPublic = (modifiers: string | undefined) =>
+        /\bpublic\b/.test(modifiers ?? '') || (owner?.isInterface === true && !/\bprivate\b/.test(modifiers ?? ''));
+
+      const type = code.match(TYPE);
+      if (type) {
+        const [, modifiers, keyword, name] = type;
+        const endLine = findBlockEnd(lines, i);
+        const exported = isPublic(modifiers);
+        add(name!, TYPE_KINDS[keyword!]!, exported, endLine);
+        types.push({
+          name: name!,
+          isInterface: keyword === 'interface' || keyword === '@interface',
+          bodyDepth: line.depth + 1,
+          endLine,
+        });
+        continue;
+      }
+      if (!owner) continue;
+
+      const method = code.match(METHOD);
+      // Constructors match with a modifier taken for the return type
+      if (method && method[3] !== owner.name && !NOT_RETURN_TYPES.has(method[2]!.trim())) {
+        add(method[3]!, 'method', isPublic(method[1]), findBlockEnd(lines, i));
+        continue;
+      }
+
+      const constant = code.match(CONSTANT);
+      // Interface fields are implicitly static final
+      if (constant && (owner.isInterface || (/\bstatic\b/.test(constant[1]!) && /\bfinal\b/.test(constant[1]!)))) {
+        add(constant[2]!, 'const', isPublic(constant[1]), findBlockEnd(lines, i));
+      }
+    }
+
+    return symbols;
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * Identifier Occurrences
+ * Every identifier use in a code file, classified as declaration, import, call or reference
+ *
+ * Comments and string contents are skipped; one row is kept per identifier and
+ * line, with the strongest role (declaration > import > call > reference).
+ */
+
+import type { GrepMatch } from '../types.js';
+import type { ExtractedSymbol } from './types.js';
+import { findBlockEnd, scanLines, type ScannedLine, type ScanOptions } from './scanner.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type OccurrenceRole = 'declaration' | 'import' | 'call' | 'reference';
+
+export const OCCURRENCE_ROLES: readonly OccurrenceRole[] = ['declaration', 'import', 'call', 'reference'];
+
+/**
+ * An import statement, possibly spanning several lines
+ */
+export interface ImportStatement {
+  /** 1-indexed, inclusive */
+  startLine: number;
+  endLine: number;
+  /** Raw statement text (comments and strings intact) */
+  text: string;
+}
+
+export interface ExtractedOccurrence {
+  name: string;
+  /** 1-indexed line number */
+  line: number;
+  role: OccurrenceRole;
+}
+
+/**
+ * An occurrence stored in the index, with its line text
+ */
+export interface SymbolReference extends GrepMatch {
+  role: OccurrenceRole;
+}
+
+interface LanguageSyntax {
+  scan: ScanOptions;
+  /** Lines that may start an import statement */
+  importStart?: RegExp;
+  /** Confirms a statement (joined from its lines) is an import; defaults to importStart */
+  importStatement?: RegExp;
+}
+
+// ============================================================================
+// Language Syntax
+// ============================================================================
+
+const SCRIPT_SYNTAX: LanguageSyntax = {
+  scan: { backtickStrings: true, regexLiterals: true, templateExpressions: true },
+  importStart: /^\s*(?:import|export)\b/,
+  // Re-exports (`export { a } from "./a"`) are imports too; dynamic import() is a call
+  importStatement: /^\s*import\b(?!\s*\()|\bfrom\s*["']/,
+};
+
+const SYNTAX: Record<string, LanguageSyntax> = {
+  typescript: SCRIPT_SYNTAX,
+  javascript: SCRIPT_SYNTAX,
+  python: {
+    scan: { lineComment: '#', blockComments: false, tripleQuotes: true },
+    importStart: /^\s*(?:import|from)\s/,
+    importStatement: /^\s*(?:import\s|from\s+\S+\s+import\b)/,
+  },
+  go: {
+    scan: { backtickStrings: true },
+    importStart: /^\s*import\b/,
+  },
+  rust: {
+    scan: { charLiterals: true },
+    importStart: /^\s*(?:pub(?:\s*\([^)]*\))?\s+)?(?:use|extern\s+crate)\b/,
+  },
+  java: {
+    scan: {},
+    importStart: /^\s*import\b/,
+  },
+};
+
+/** Languages without an entry are scanned as C-like code without import detection */
+const DEFAULT_SYNTAX: LanguageSyntax = { scan: {} };
+
+/** CommonJS imports */
+const REQUIRE = /\brequire\s*\(/;
+
+const IDENTIFIER = /(?<![\w$])[A-Za-z_$][\w$]*/g;
+
+/** Keywords that introduce a declared name */
+const DECLARATION_KEYWORD =
+  /\b(?:const|let|var|function\*?|class|interface|type|enum|namespace|def|fn|struct|trait|union|mod|func|record)\s+$/;
+
+/** `name(`, `name<T>(`, `name::<T>(` and macro calls `name!(` */
+const CALL_SUFFIX = /^\s*!?\s*(?:(?:::)?<[\w$<>,.\s[\]]*>)?\s*\(/;
+const NEW_PREFIX = /\bnew\s+(?:[\w$]+\.)*$/;
+
+/**
+ * Keywords and literals of the supported languages; never recorded as occurrences
+ */
+const KEYWORDS = new Set([
+  // Shared
+  'if', 'else', 'for', 'while', 'do', 'switch', 'case', 'default', 'break', 'continue', 'return', 'try',
+  'catch', 'finally', 'throw', 'new', 'class', 'interface', 'enum', 'const', 'static', 'import', 'export',
+  'extends', 'implements', 'public', 'private', 'protected', 'abstract', 'final', 'void', 'true', 'false',
+  'null', 'this', 'super', 'in', 'as', 'is', 'and', 'or', 'not', 'async', 'await', 'yield', 'type',
+  // TypeScript / JavaScript
+  'let', 'var', 'function', 'typeof', 'instanceof', 'delete', 'undefined', 'of', 'from', 'readonly',
+  'declare', 'namespace', 'module', 'keyof', 'infer', 'satisfies', 'get', 'set', 'constructor', 'require',
+  // Python
+  'def', 'elif', 'except', 'raise', 'pass', 'lambda', 'with', 'global', 'nonlocal', 'None', 'True',
+  'False', 'self', 'cls',
+  // Go
+  'func', 'package', 'go', 'defer', 'chan', 'select', 'range', 'map', 'struct', 'fallthrough', 'goto', 'nil',
+  // Rust
+  'fn', 'pub', 'use', 'mod', 'crate', 'impl', 'trait', 'where', 'mut', 'ref', 'match', 'loop', 'unsafe',
+  'move', 'dyn', 'Self', 'extern',
+  // Java
+  'synchronized', 'throws', 'native', 'transient', 'volatile', 'strictfp', 'assert', 'record',
+]);
+
+// ============================================================================
+// Extraction
+// ============================================================================
+
+const ROLE_STRENGTH: Record<OccurrenceRole, number> = { declaration: 3, import: 2, call: 1, reference: 0 };
+
+/**
+ * Extract identifier occurrences
+ * @param symbols - Symbols extracted from the same content; their lines are declarations
+ */
+export function extractOccurrences(
+  content: string,
+  language: string | undefined,
+  symbols: ExtractedSymbol[] = []
+): ExtractedOccurrence[] {
+  const syntax = (language && SYNTAX[language]) || DEFAULT_SYNTAX;
+  const lines = scanLines(content, syntax.scan);
+  const importLines = new Set<number>();
+  for (const [start, end] of findImportSpans(lines, syntax)) {
+    for (let i = start; i <= end; i++) importLines.add(i);
+  }
+
+  const declared = new Map<number, Set<string>>();
+  for (const symbol of symbols) {
+    const names = declared.get(symbol.startLine) ?? new Set<string>();
+    names.add(symbol.name);
+    declared.set(symbol.startLine, names);
+  }
+
+  const occurrences: ExtractedOccurrence[] = [];
+
+  lines.forEach((line, index) => {
+    const lineNo = index + 1;
+    const roles = new Map<string, OccurrenceRole>();
+    const isImport = importLines.has(index) || REQUIRE.test(line.code);
+
+    for (const match of line.code.matchAll(IDENTIFIER)) {
+      const name = match[0];
+      if (name.length < 2 || KEYWORDS.has(name)) continue;
+
+      const before = line.code.slice(0, match.index);
+      const after = line.code.slice(match.index! + name.length);
+      const role: OccurrenceRole =
+        declared.get(lineNo)?.has(name) || DECLARATION_KEYWORD.test(before)
+          ? 'declaration'
+          : isImport
+            ? 'import'
+            : CALL_SUFFIX.test(after) || NEW_PREFIX.test(before)
+              ? 'call'
+              : 'reference';
+
+      const previous = roles.get(name);
+      if (!previous || ROLE_STRENGTH[role] > ROLE_STRENGTH[previous]) {
+        roles.set(name, role);
+      }
+    }
+
+    for (const [name, role] of roles) {
+      occurrences.push({ name, line: lineNo, role });
+    }
+  });
+
+  return occurrences;
+}
+
+/**
+ * Import statements of a file, including CommonJS `require` lines
+ */
+export function findImportStatements(content: string, language: string | undefined): ImportStatement[] {
+  const syntax = (language && SYNTAX[language]) || DEFAULT_SYNTAX;
+  const rawLines = content.split('\n');
+  const lines = scanLines(content, syntax.scan);
+
+  const spans = findImportSpans(lines, syntax);
+  const covered = new Set(spans.flatMap(([start, end]) => Array.from({ length: end - start + 1 }, (_, i) => start + i)));
+  lines.forEach((line, index) => {
+    if (!covered.has(index) && REQUIRE.test(line.code)) spans.push([index, index]);
+  });
+
+  return spans
+    .sort((a, b) => a[0] - b[0])
+    .map(([start, end]) => ({
+      startLine: start + 1,
+      endLine: end + 1,
+      text: rawLines.slice(start, end + 1).join('\n'),
+    }));
+}
+
+/**
+ * Line index ranges (inclusive) of import statements, which may span lines
+ */
+function findImportSpans(lines: ScannedLine[], syntax: LanguageSyntax): Array<[number, number]> {
+  const spans: Array<[number, number]> = [];
+  if (!syntax.importStart) return spans;
+
+  for (let i = 0; i < lines.length; i++) {
+    if (lines[i]!.depth !== 0 || !syntax.importStart.test(lines[i]!.code)) continue;
+
+    const end = findBlockEnd(lines, i);
+    const statement = lines.slice(i, end + 1).map((line) => line.code).join('\n');
+    if ((syntax.importStatement ?? syntax.importStart).test(statement)) {
+      spans.push([i, end]);
+    }
+    i = end;
+  }
+
+  return spans;
+}
@@ -0,0 +1,72 @@
+/**
+ * Python Symbol Extractor
+ * Functions, classes, methods and module-level constants
+ */
+
+import type { ExtractedSymbol, SymbolExtractor, SymbolKind } from './types.js';
+import { findIndentedBlockEnd, indentOf, scanLines, signatureOf } from './scanner.js';
+
+const DEFINITION = /^(\s*)(?:async\s+)?(def|class)\s+(\w+)/;
+
+/** UPPER_CASE names assigned at module level */
+const CONSTANT = /^([A-Z_][A-Z0-9_]*)\s*(?::[^=]+)?=(?!=)/;
+
+export class PythonSymbolExtractor implements SymbolExtractor {
+  readonly languages = ['python'] as const;
+
+  extract(content: string): ExtractedSymbol[] {
+    const rawLines = content.split('\n');
+    const lines = scanLines(content, { lineComment: '#', blockComments: false, tripleQuotes: true });
+    const symbols: ExtractedSymbol[] = [];
+    // Enclosing definitions, innermost last
+    const scopes: Array<{ name: string; kind: 'def' | 'class'; indent: number; endLine: number }> = [];
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i]!;
+      if (line.depth !== 0 || !line.code.trim()) continue;
+
+      const indent = indentOf(line.code);
+      while (scopes.length > 0 && (i > scopes[scopes.length - 1]!.endLine || indent <= scopes[scopes.length - 1]!.indent)) {
+        scopes.pop();
+      }
+      const parent = scopes[scopes.length - 1];
+
+      const definition = line.code.match(DEFINITION);
+      if (definition) {
+        const [, , keyword, name] = definition;
+        const end = findIndentedBlockEnd(lines, i);
+        scopes.push({ name: name!, kind: keyword as 'def' | 'class', indent, endLine: end });
+
+        // Functions nested in functions are implementation details
+        if (parent?.kind === 'def') continue;
+
+        const kind: SymbolKind = keyword === 'class' ? 'class' : parent ? 'method' : 'function';
+        const symbol: ExtractedSymbol = {
+          name: name!,
+          kind,
+          startLine: i + 1,
+          endLine: end + 1,
+          exported: !name!.startsWith('_') || /^__\w+__$/.test(name!),
+          signature: signatureOf(rawLines[i]!),
+        };
+        if (parent) symbol.container = parent.name;
+        symbols.push(symbol);
+        continue;
+      }
+
+      const constant = indent === 0 ? line.code.match(CONSTANT) : null;
+      if (constant) {
+        symbols.push({
+          name: constant[1]!,
+          kind: 'const',
+          startLine: i + 1,
+          endLine: i + 1,
+          exported: !constant[1]!.startsWith('_'),
+          signature: signatureOf(rawLines[i]!),
+        });
+      }
+    }
+
+    return symbols;
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Rust Symbol Extractor
+ * Items at module level, plus functions inside impl and trait blocks
+ */
+
+import type { ExtractedSymbol, SymbolExtractor, SymbolKind } from './types.js';
+import { findBlockEnd, scanLines, signatureOf } from './scanner.js';
+
+const VISIBILITY = String.raw`(pub(?:\s*\([^)]*\))?\s+)?`;
+
+const FUNCTION = new RegExp(
+  String.raw`^${VISIBILITY}(?:default\s+)?(?:const\s+)?(?:async\s+)?(?:unsafe\s+)?(?:extern\s+(?:""\s+)?)?fn\s+(\w+)`
+);
+const ITEM = new RegExp(String.raw`^${VISIBILITY}(?:unsafe\s+)?(struct|enum|union|trait|type|mod|const|static)\s+(?:mut\s+)?(\w+)`);
+const MACRO = /^macro_rules!\s*(\w+)/;
+/** `impl<T> Trait for Type<T>` or `impl Type`: methods belong to Type */
+const IMPL = /^(?:unsafe\s+)?impl\b(?:\s*<.*?>)?\s+(?:.*?\s+for\s+)?(?:[\w:]+::)?(\w+)/;
+
+const ITEM_KINDS: Record<string, SymbolKind> = {
+  struct: 'struct',
+  enum: 'enum',
+  union: 'struct',
+  trait: 'trait',
+  type: 'type',
+  mod: 'module',
+  const: 'const',
+  static: 'variable',
+};
+
+export class RustSymbolExtractor implements SymbolExtractor {
+  readonly languages = ['rust'] as const;
+
+  extract(content: string): ExtractedSymbol[] {
+    const rawLines = content.split('\n');
+    const lines = scanLines(content, { charLiterals: true });
+    const symbols: ExtractedSymbol[] = [];
+    // Enclosing mod/impl/trait blocks, innermost last
+    const blocks: Array<{ kind: 'mod' | 'impl' | 'trait'; name: string; bodyDepth: number; endLine: number }> = [];
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i]!;
+      while (blocks.length > 0 && i > blocks[blocks.length - 1]!.endLine) blocks.pop();
+      const block = blocks[blocks.length - 1];
+
+      // Only items directly in a module, impl or trait body
+      if (line.depth !== (block?.bodyDepth ?? 0)) continue;
+      const code = line.code.trim();
+      const end = () => findBlockEnd(lines, i);
+
+      const add = (name: string, kind: SymbolKind, exported: boolean, endLine: number) => {
+        const symbol: ExtractedSymbol = {
+          name,
+          kind,
+          startLine: i + 1,
+          endLine: endLine + 1,
+          exported,
+          signature: signatureOf(rawLines[i]!),
+        };
+        if (block && block.kind !== 'mod') symbol.container = block.name;
+        symbols.push(symbol);
+      };
+
+      const fn = code.match(FUNCTION);
+      if (fn) {
+        const isMember = block !== undefined && block.kind !== 'mod';
+        // Trait members and trait impls are as visible as the trait itself
+        add(fn[2]!, isMember ? 'method' : 'function', Boolean(fn[1]) || block?.kind === 'trait', end());
+        continue;
+      }
+
+      if (block && block.kind !== 'mod') continue;
+
+      const impl = code.match(IMPL);
+      if (impl) {
+        blocks.push({ kind: 'impl', name: impl[1]!, bodyDepth: line.depth + 1, endLine: end() });
+        continue;
+      }
+
+      const item = code.match(ITEM);
+      if (item) {
+        const [, visibility, keyword, name] = item;
+        const endLine = end();
+        add(name!, ITEM_KINDS[keyword!]!, Boolean(visibility), endLine);
+        if ((keyword === 'mod' || keyword === 'trait') && lines[i]!.maxDepth > line.depth) {
+          blocks.push({ kind: keyword, name: name!, bodyDepth: line.depth + 1, endLine });
+        }
+        continue;
+      }
+
+      const macro = code.match(MACRO);
+      if (macro) {
+        const exported = i > 0 && rawLines[i - 1]!.includes('#[macro_export]');
+        add(macro[1]!, 'macro', exported, end());
+      }
+    }
+
+    return symbols;
+  }
+}
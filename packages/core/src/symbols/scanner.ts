@@ -0,0 +1,265 @@
+/**
+ * Source Scanner
+ * Line-level nesting depth with comments and string contents removed
+ *
+ * Extractors work on declaration lines, so a full parser is not needed: it is
+ * enough to know how deeply each line is nested and where a block closes.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ScannedLine {
+  /** Nesting depth ({, [ and () at the start of the line */
+  depth: number;
+  /** Deepest nesting reached on the line */
+  maxDepth: number;
+  /** Nesting depth at the end of the line */
+  endDepth: number;
+  /** Line text with comments removed and string contents blanked */
+  code: string;
+}
+
+export interface ScanOptions {
+  /** Line comment marker (default: '//') */
+  lineComment?: string;
+  /** Recognize block comments (default: true) */
+  blockComments?: boolean;
+  /** Backtick strings may span lines (JS template literals, Go raw strings) */
+  backtickStrings?: boolean;
+  /** Triple-quoted strings may span lines (Python) */
+  tripleQuotes?: boolean;
+  /** A quote only starts a char literal when it closes like one (Rust lifetimes) */
+  charLiterals?: boolean;
+  /** `/.../` after an operator or keyword is a regex literal (JavaScript) */
+  regexLiterals?: boolean;
+  /** `${...}` inside backtick strings is code (JavaScript template literals) */
+  templateExpressions?: boolean;
+}
+
+// ============================================================================
+// Scanning
+// ============================================================================
+
+const OPENERS = '{[(';
+const CLOSERS = '}])';
+const CHAR_LITERAL = /^'(?:\\.[^']*|[^\\'])'/;
+/** Code before a `/` that makes it start a regex rather than divide */
+const BEFORE_REGEX = /(?:^|[=(,:[!&|?{};+\-*%<>~^]|\b(?:return|typeof|case|in|of|delete|void|throw|yield|await))\s*$/;
+
+type Mode = { type: 'code' } | { type: 'comment' } | { type: 'string'; delimiter: string };
+
+/**
+ * Scan content line by line
+ */
+export function scanLines(content: string, options: ScanOptions = {}): ScannedLine[] {
+  const lineComment = options.lineComment ?? '//';
+  const blockComments = options.blockComments ?? true;
+  const lines: ScannedLine[] = [];
+  let mode: Mode = { type: 'code' };
+  let depth = 0;
+  // Depths at which open `${` template expressions return to their string
+  const templates: number[] = [];
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/\r$/, '');
+    const start = depth;
+    let maxDepth = depth;
+    let code = '';
+    let i = 0;
+
+    while (i < line.length) {
+      if (mode.type === 'comment') {
+        const end = line.indexOf('*/', i);
+        if (end === -1) break;
+        mode = { type: 'code' };
+        code += ' ';
+        i = end + 2;
+        continue;
+      }
+
+      if (mode.type === 'string') {
+        if (mode.delimiter === '`' && options.templateExpressions && line.startsWith('${', i)) {
+          templates.push(depth);
+          depth++;
+          maxDepth = Math.max(maxDepth, depth);
+          code += ' ';
+          i += 2;
+          mode = { type: 'code' };
+        } else if (line[i] === '\\') {
+          i += 2;
+        } else if (line.startsWith(mode.delimiter, i)) {
+          code += mode.delimiter;
+          i += mode.delimiter.length;
+          mode = { type: 'code' };
+        } else {
+          i++;
+        }
+        continue;
+      }
+
+      const char = line[i]!;
+
+      if (line.startsWith(lineComment, i)) break;
+      if (blockComments && line.startsWith('/*', i)) {
+        mode = { type: 'comment' };
+        i += 2;
+        continue;
+      }
+
+      // Strings that may span lines
+      const multiline = options.tripleQuotes && (line.startsWith('"""', i) || line.startsWith("'''", i))
+        ? line.slice(i, i + 3)
+        : options.backtickStrings && char === '`'
+          ? '`'
+          : undefined;
+      if (multiline) {
+        code += multiline;
+        i += multiline.length;
+        mode = { type: 'string', delimiter: multiline };
+        continue;
+      }
+
+      if (options.regexLiterals && char === '/' && BEFORE_REGEX.test(code)) {
+        const end = findRegexEnd(line, i);
+        if (end !== -1) {
+          code += '//';
+          i = end + 1;
+          continue;
+        }
+      }
+
+      if (char === '"' || char === "'") {
+        if (char === "'" && options.charLiterals && !CHAR_LITERAL.test(line.slice(i))) {
+          // Rust lifetime ('a)
+          code += char;
+          i++;
+          continue;
+        }
+        let end = i + 1;
+        while (end < line.length && line[end] !== char) {
+          end += line[end] === '\\' ? 2 : 1;
+        }
+        code += char + char;
+        i = end + 1;
+        continue;
+      }
+
+      if (char === '}' && templates.length > 0 && depth - 1 === templates[templates.length - 1]) {
+        templates.pop();
+        depth--;
+        code += ' ';
+        i++;
+        mode = { type: 'string', delimiter: '`' };
+        continue;
+      }
+
+      if (OPENERS.includes(char)) {
+        depth++;
+        maxDepth = Math.max(maxDepth, depth);
+      } else if (CLOSERS.includes(char)) {
+        depth = Math.max(0, depth - 1);
+      }
+      code += char;
+      i++;
+    }
+
+    lines.push({ depth: start, maxDepth, endDepth: depth, code });
+  }
+
+  return lines;
+}
+
+/**
+ * Index of the `/` closing a regex literal that starts at `start`, or -1
+ */
+function findRegexEnd(line: string, start: number): number {
+  let inClass = false;
+  for (let i = start + 1; i < line.length; i++) {
+    const char = line[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === ']') {
+      inClass = false;
+    } else if (char === '/' && !inClass) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+// ============================================================================
+// Block Boundaries
+// ============================================================================
+
+/** A line ending like this continues on the next line */
+const CONTINUATION_END = /(?:[=,|&+*/?:<(]|=>|->)\s*$/;
+/** A line starting like this continues the previous line */
+const CONTINUATION_START = /^\s*(?:[|&.?:+*/]|=>|->)/;
+
+/**
+ * Index of the last line of the declaration starting at `start`
+ * A declaration ends on the first line that closes every bracket it opened
+ * and does not continue onto the next line (operators, `|` unions, `.` chains).
+ */
+export function findBlockEnd(lines: ScannedLine[], start: number): number {
+  const base = lines[start]!.depth;
+
+  for (let i = start; i < lines.length; i++) {
+    const line = lines[i]!;
+    if (line.endDepth > base) continue;
+
+    const code = line.code.trimEnd();
+    const next = lines[i + 1]?.code ?? '';
+    if (code.endsWith(';') || !next.trim()) return i;
+    if (!CONTINUATION_END.test(code) && !CONTINUATION_START.test(next)) return i;
+  }
+
+  return lines.length - 1;
+}
+
+/**
+ * Index of the last line of an indentation-delimited block (Python)
+ * The header may span several lines; the body is every following line
+ * indented deeper than the header.
+ */
+export function findIndentedBlockEnd(lines: ScannedLine[], start: number): number {
+  const indent = indentOf(lines[start]!.code);
+  let i = start;
+  while (i < lines.length - 1 && lines[i]!.endDepth > 0) i++;
+
+  let end = i;
+  for (i = i + 1; i < lines.length; i++) {
+    const line = lines[i]!;
+    if (!line.code.trim()) continue;
+    if (line.depth === 0 && indentOf(line.code) <= indent) break;
+    end = i;
+  }
+  return end;
+}
+
+/**
+ * Width of the leading whitespace (tabs count as 4)
+ */
+export function indentOf(code: string): number {
+  let width = 0;
+  for (const char of code) {
+    if (char === ' ') width++;
+    else if (char === '\t') width += 4;
+    else break;
+  }
+  return width;
+}
+
+const MAX_SIGNATURE_LENGTH = 200;
+
+/**
+ * Declaration line as shown in tool output
+ */
+export function signatureOf(rawLine: string): string {
+  const trimmed = rawLine.trim();
+  return trimmed.length > MAX_SIGNATURE_LENGTH ? `${trimmed.slice(0, MAX_SIGNATURE_LENGTH)}…` : trimmed;
+}
@@ -0,0 +1,68 @@
+/**
+ * Symbol Types
+ * Definitions extracted from source files at index time
+ */
+
+export type SymbolKind =
+  | 'function'
+  | 'method'
+  | 'class'
+  | 'interface'
+  | 'type'
+  | 'enum'
+  | 'struct'
+  | 'trait'
+  | 'module'
+  | 'const'
+  | 'variable'
+  | 'macro';
+
+export const SYMBOL_KINDS: readonly SymbolKind[] = [
+  'function',
+  'method',
+  'class',
+  'interface',
+  'type',
+  'enum',
+  'struct',
+  'trait',
+  'module',
+  'const',
+  'variable',
+  'macro',
+];
+
+/**
+ * A symbol found in a single file
+ */
+export interface ExtractedSymbol {
+  name: string;
+  kind: SymbolKind;
+  /** Enclosing class, impl block or receiver type (methods and nested types) */
+  container?: string;
+  /** Start line (1-indexed, inclusive) */
+  startLine: number;
+  /** End line (1-indexed, inclusive) */
+  endLine: number;
+  /** Visible outside its file/module (export, pub, public, capitalized in Go) */
+  exported: boolean;
+  /** The declaration line, trimmed */
+  signature: string;
+}
+
+/**
+ * A symbol stored in the index
+ */
+export interface SymbolDefinition extends ExtractedSymbol {
+  path: string;
+}
+
+/**
+ * Extracts symbol definitions for one or more languages
+ * Register custom extractors through IndexerConfig.symbolExtractors.
+ */
+export interface SymbolExtractor {
+  /** Language ids as returned by detectLanguage (e.g. 'typescript') */
+  readonly languages: readonly string[];
+  extract(content: string): ExtractedSymbol[];
+}
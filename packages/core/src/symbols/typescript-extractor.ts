@@ -0,0 +1,132 @@
+/**
+ * TypeScript / JavaScript Symbol Extractor
+ * Top-level declarations, exported variables and class members
+ */
+
+import type { ExtractedSymbol, SymbolExtractor, SymbolKind } from './types.js';
+import { findBlockEnd, scanLines, signatureOf, type ScannedLine } from './scanner.js';
+
+const DECLARATIONS: Array<{ pattern: RegExp; kind: SymbolKind }> = [
+  { pattern: /^(export\s+)?(?:default\s+)?(?:declare\s+)?(?:async\s+)?function\s*\*?\s*([\w$]+)/, kind: 'function' },
+  { pattern: /^(export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?class\s+([\w$]+)/, kind: 'class' },
+  { pattern: /^(export\s+)?(?:declare\s+)?interface\s+([\w$]+)/, kind: 'interface' },
+  { pattern: /^(export\s+)?(?:declare\s+)?type\s+([\w$]+)\s*(?:<|=)/, kind: 'type' },
+  { pattern: /^(export\s+)?(?:declare\s+)?(?:const\s+)?enum\s+([\w$]+)/, kind: 'enum' },
+  { pattern: /^(export\s+)?(?:declare\s+)?(?:namespace|module)\s+([\w$]+)/, kind: 'module' },
+];
+
+const VARIABLE = /^(export\s+)?(?:declare\s+)?(const|let|var)\s+([\w$]+)\s*(?::[^=]+)?=\s*(.*)$/;
+
+/** Initializers that define a function */
+const FUNCTION_VALUE = /^(?:async\s+)?(?:function\b|(?:<[^>]*>\s*)?\(.*=>|[\w$]+\s*=>)/;
+
+/** `export { a, b as c }` without `from` */
+const EXPORT_LIST = /^export\s*(?:type\s*)?\{([^}]*)\}\s*;?\s*$/;
+
+const MEMBER_MODIFIERS = String.raw`(?:(?:public|private|protected|static|readonly|async|override|abstract|declare|accessor|get|set)\s+)*`;
+const METHOD = new RegExp(String.raw`^\s*(${MEMBER_MODIFIERS})\*?\s*(#?[\w$]+)\s*\??\s*(?:<[^>(]*>)?\s*\(`);
+const ARROW_PROPERTY = new RegExp(
+  String.raw`^\s*(${MEMBER_MODIFIERS})(#?[\w$]+)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:\(.*=>|[\w$]+\s*=>)`
+);
+
+const NOT_METHOD_NAMES = new Set(['if', 'for', 'while', 'switch', 'catch', 'return', 'function', 'constructor', 'super']);
+
+export class TypeScriptSymbolExtractor implements SymbolExtractor {
+  readonly languages = ['typescript', 'javascript'] as const;
+
+  extract(content: string): ExtractedSymbol[] {
+    const rawLines = content.split('\n');
+    const lines = scanLines(content, { backtickStrings: true, regexLiterals: true, templateExpressions: true });
+    const symbols: ExtractedSymbol[] = [];
+    const exportedNames = new Set<string>();
+
+    const add = (start: number, name: string, kind: SymbolKind, exported: boolean, container?: string) => {
+      const symbol: ExtractedSymbol = {
+        name,
+        kind,
+        startLine: start + 1,
+        endLine: findBlockEnd(lines, start) + 1,
+        exported,
+        signature: signatureOf(rawLines[start]!),
+      };
+      if (container) symbol.container = container;
+      symbols.push(symbol);
+      return symbol;
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i]!;
+      if (line.depth !== 0) continue;
+      const code = line.code.trim();
+
+      const exportList = code.match(EXPORT_LIST);
+      if (exportList) {
+        for (const entry of exportList[1]!.split(',')) {
+          const local = entry.trim().replace(/^type\s+/, '').split(/\s+as\s+/)[0];
+          if (local) exportedNames.add(local);
+        }
+        continue;
+      }
+
+      const declaration = matchDeclaration(code);
+      if (declaration) {
+        const symbol = add(i, declaration.name, declaration.kind, declaration.exported);
+        if (declaration.kind === 'class') {
+          this.extractMembers(lines, i, symbol, add);
+        }
+        continue;
+      }
+
+      const variable = code.match(VARIABLE);
+      if (variable) {
+        const [, exportKeyword, keyword, name, value] = variable;
+        const isFunction = FUNCTION_VALUE.test(value ?? '');
+        // Unexported plain values are locals, not definitions worth indexing
+        if (!exportKeyword && !isFunction) continue;
+        add(i, name!, isFunction ? 'function' : keyword === 'const' ? 'const' : 'variable', Boolean(exportKeyword));
+      }
+    }
+
+    // Declarations exported later through an export list
+    for (const symbol of symbols) {
+      const owner = symbol.container ?? symbol.name;
+      if (exportedNames.has(owner) && !/\bprivate\b|^#/.test(symbol.signature)) {
+        symbol.exported = true;
+      }
+    }
+
+    return symbols;
+  }
+
+  private extractMembers(
+    lines: ScannedLine[],
+    classStart: number,
+    owner: ExtractedSymbol,
+    add: (start: number, name: string, kind: SymbolKind, exported: boolean, container?: string) => ExtractedSymbol
+  ): void {
+    const bodyDepth = lines[classStart]!.depth + 1;
+
+    for (let i = classStart + 1; i < owner.endLine - 1; i++) {
+      const line = lines[i]!;
+      if (line.depth !== bodyDepth) continue;
+
+      const match = line.code.match(METHOD) ?? line.code.match(ARROW_PROPERTY);
+      if (!match) continue;
+      const [, modifiers, name] = match;
+      if (NOT_METHOD_NAMES.has(name!)) continue;
+
+      const isPrivate = /\bprivate\b/.test(modifiers ?? '') || name!.startsWith('#');
+      add(i, name!, 'method', owner.exported && !isPrivate, owner.name);
+    }
+  }
+}
+
+function matchDeclaration(code: string): { name: string; kind: SymbolKind; exported: boolean } | null {
+  for (const { pattern, kind } of DECLARATIONS) {
+    const match = code.match(pattern);
+    if (match) {
+      return { name: match[2]!, kind, exported: Boolean(match[1]) };
+    }
+  }
+  return null;
+}
@@ -13,6 +13,12 @@ import type {
   GraphNeighbor,
   FileEntry,
   RepoSummary,
+  GrepToolResult,
+  TypeHierarchy,
+  WorkspacePackage,
+  GitCommit,
+  BlameHunk,
+  DiffHunk,
 } from './types.js';
 import type {
   SearchChunksArgs,
@@ -20,7 +26,52 @@ import type {
   GraphNeighborsArgs,
   ListFilesArgs,
   GetRepoSummaryArgs,
+  GrepArgs,
+  FindDefinitionArgs,
+  FindReferencesArgs,
+  TypeHierarchyArgs,
+  ListPackagesArgs,
+  GitLogArgs,
+  GitBlameArgs,
+  SearchHistoryArgs,
 } from './schemas.js';
+import type { SearchResult } from '../types.js';
+import type {
+  FindDefinitionOptions,
+  FindReferencesOptions,
+  FindReferencesResult,
+  HistorySearchOptions,
+  HistorySearchResult,
+  HybridSearchOptions,
+  SearchFilters,
+} from '../indexer/index.js';
+import type { SymbolDefinition } from '../symbols/types.js';
+import { formatScoreBreakdown } from '../indexer/ranking.js';
+import { createIgnoreMatcher, walkRepository, type IgnoreMatcher } from '../indexer/ignore.js';
+import { matchGlob } from '../indexer/glob.js';
+import { isBinaryContent } from '../indexer/detect.js';
+import { detectLanguage } from '../indexer/languages.js';
+import {
+  extractImports,
+  GRAPH_RELATIONS,
+  ImportResolver,
+  type GraphNeighborsOptions,
+  type TypeHierarchyOptions,
+} from '../graph/index.js';
+import { discoverWorkspace } from '../workspace/index.js';
+import { isGitRepository, readGitBlame, readGitLog } from '../git/index.js';
+import { DEFAULT_AGENT_LOOP_CONFIG } from '../agent/loop-types.js';
+import {
+  compileGrepPattern,
+  DEFAULT_GREP_MAX_MATCHES,
+  formatGrepMatches,
+  grepContent,
+  type GrepOptions,
+  type GrepResult,
+} from '../indexer/grep.js';
+
+/** Files larger than this are skipped when grep walks the working tree */
+const GREP_MAX_FILE_SIZE = 1024 * 1024;
 
 // ============================================================================
 // search_chunks
@@ -31,10 +82,22 @@ export async function searchChunks(
   context: ToolContext
 ): Promise<ToolResult<ChunkSearchResult[]>> {
   try {
-    const { query, topK = 10 } = args;
+    const { query, topK = 10, keywordWeight, semanticWeight, fusion } = args;
+    const filters: SearchFilters = {
+      pathPrefix: args.pathPrefix,
+      glob: args.glob,
+      language: args.language,
+      excludeTests: args.excludeTests,
+      kind: args.kind,
+    };
     
     // Use indexer if available, otherwise return empty
-    const indexer = context.indexer as { search?: (q: string, k: number) => unknown[] } | undefined;
+    const indexer = context.indexer as {
+      search?: (q: string, k: number, filters?: SearchFilters) => SearchResult[];
+      semanticSearch?: (q: string, k: number, filters?: SearchFilters) => Promise<SearchResult[]>;
+      hybridSearch?: (q: string, options: HybridSearchOptions) => Promise<SearchResult[]>;
+      hasEmbeddings?: () => boolean;
+    } | undefined;
     
     if (!indexer?.search) {
       return {
@@ -44,14 +107,44 @@ export async function searchChunks(
       };
     }
 
-    const results = indexer.search(query, topK) as ChunkSearchResult[];
+    const hasEmbeddings = indexer.hasEmbeddings?.() ?? false;
+    const mode = args.mode ?? (hasEmbeddings && indexer.hybridSearch ? 'hybrid' : 'keyword');
+
+    if (mode === 'semantic' && !hasEmbeddings) {
+      return {
+        success: false,
+        data: [],
+        outputSummary: `Semantic search is not configured (no embedding provider). Use mode "keyword" instead.`,
+        error: 'Semantic search is not configured',
+      };
+    }
+
+    let rawResults: SearchResult[];
+    if (mode === 'semantic') {
+      rawResults = await indexer.semanticSearch!(query, topK, filters);
+    } else if (mode === 'hybrid' && indexer.hybridSearch) {
+      rawResults = await indexer.hybridSearch(query, { topK, filters, keywordWeight, semanticWeight, fusion });
+    } else {
+      rawResults = indexer.search(query, topK, filters);
+    }
+
+    const results: ChunkSearchResult[] = rawResults.map((r) => ({
+      path: r.path,
+      startLine: r.startLine,
+      endLine: r.endLine,
+      content: r.snippet,
+      score: r.score,
+      ...(r.scoreBreakdown ? { scoreBreakdown: r.scoreBreakdown } : {}),
+    }));
     
     return {
       success: true,
       data: results,
       outputSummary: results.length > 0
         ? `Found ${results.length} chunks matching "${query}":\n${results.map((r, i) => 
-            `[${i + 1}] ${r.path}:${r.startLine}-${r.endLine} (score: ${r.score.toFixed(3)})`
+            `[${i + 1}] ${r.path}:${r.startLine}-${r.endLine} (score: ${
+              r.scoreBreakdown ? formatScoreBreakdown(r.scoreBreakdown) : r.score.toFixed(3)
+            })`
           ).join('\n')}`
         : `No chunks found for query: "${query}"`,
     };
@@ -78,8 +171,7 @@ export async function getExcerpt(
     const fullPath = path.join(context.repoPath, filePath);
     
     // Security: ensure path is within repo
-    const resolvedPath = path.resolve(fullPath);
-    if (!resolvedPath.startsWith(path.resolve(context.repoPath))) {
+    if (!isInsideRepo(context.repoPath, fullPath)) {
       return {
         success: false,
         data: { path: filePath, startLine, endLine, content: '', totalLines: 0 },
@@ -131,6 +223,203 @@ export async function getExcerpt(
   }
 }
 
+// ============================================================================
+// grep
+// ============================================================================
+
+export async function grep(
+  args: GrepArgs,
+  context: ToolContext
+): Promise<ToolResult<GrepToolResult>> {
+  const empty: GrepToolResult = { matches: [], filesSearched: 0, truncated: false };
+  try {
+    const { pattern, glob, ignoreCase = false, contextLines = 0, maxMatches = 50 } = args;
+
+    // Security: same rule as get_excerpt, the glob may not reach outside the repo
+    if (glob && (path.isAbsolute(glob) || !isInsideRepo(context.repoPath, path.join(context.repoPath, glob)))) {
+      return {
+        success: false,
+        data: empty,
+        outputSummary: `Access denied: path outside repository`,
+        error: 'Path outside repository',
+      };
+    }
+
+    let regex: RegExp;
+    try {
+      regex = compileGrepPattern(pattern, ignoreCase);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        data: empty,
+        outputSummary: `Invalid regular expression: ${message}`,
+        error: message,
+      };
+    }
+
+    // Prefer the index: file contents are already in SQLite
+    const indexer = context.indexer as {
+      grep?: (regex: RegExp, options: GrepOptions) => GrepResult;
+    } | undefined;
+
+    const options: GrepOptions = { glob, contextLines, maxMatches };
+    const result = indexer?.grep
+      ? indexer.grep(regex, options)
+      : grepWorkingTree(context, regex, options);
+
+    const target = glob ? ` in "${glob}"` : '';
+    return {
+      success: true,
+      data: result,
+      outputSummary: result.matches.length > 0
+        ? `Found ${result.matches.length} matches for /${pattern}/${target} (${result.filesSearched} files searched)${
+            result.truncated ? ` (limit of ${maxMatches} reached)` : ''
+          }:\n${formatGrepMatches(result.matches)}`
+        : `No matches for /${pattern}/${target} (${result.filesSearched} files searched)`,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      data: empty,
+      outputSummary: `Grep failed: ${error instanceof Error ? error.message : String(error)}`,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Grep without an index: walk the working tree, skipping ignored, large and binary files
+ */
+function grepWorkingTree(context: ToolContext, regex: RegExp, options: GrepOptions): GrepResult {
+  const maxMatches = options.maxMatches ?? DEFAULT_GREP_MAX_MATCHES;
+  const matches: GrepResult['matches'] = [];
+  let filesSearched = 0;
+
+  for (const entry of walkRepository(context.repoPath, ignoreMatcher(context))) {
+    if (options.glob && !matchGlob(entry.relativePath, options.glob)) continue;
+
+    let buffer: Buffer;
+    try {
+      if (fs.statSync(entry.fullPath).size > GREP_MAX_FILE_SIZE) continue;
+      buffer = fs.readFileSync(entry.fullPath);
+    } catch {
+      // File vanished or is unreadable
+      continue;
+    }
+    if (isBinaryContent(buffer)) continue;
+
+    filesSearched++;
+    matches.push(
+      ...grepContent(entry.relativePath, buffer.toString('utf-8'), regex, options.contextLines ?? 0, maxMatches + 1 - matches.length)
+    );
+    if (matches.length > maxMatches) {
+      matches.length = maxMatches;
+      return { matches, filesSearched, truncated: true };
+    }
+  }
+
+  return { matches, filesSearched, truncated: false };
+}
+
+// ============================================================================
+// find_definition
+// ============================================================================
+
+export async function findDefinition(
+  args: FindDefinitionArgs,
+  context: ToolContext
+): Promise<ToolResult<SymbolDefinition[]>> {
+  try {
+    const { name, kind, limit = 10 } = args;
+
+    const indexer = context.indexer as {
+      findDefinitions?: (name: string, options: FindDefinitionOptions) => SymbolDefinition[];
+    } | undefined;
+
+    if (!indexer?.findDefinitions) {
+      return {
+        success: true,
+        data: [],
+        outputSummary: `No indexer available. Please run 'repo-wiki index' first.`,
+      };
+    }
+
+    const definitions = indexer.findDefinitions(name, { kind, limit });
+
+    return {
+      success: true,
+      data: definitions,
+      outputSummary: definitions.length > 0
+        ? `Found ${definitions.length} definitions of "${name}":\n${definitions.map((d) =>
+            `- ${d.path}:${d.startLine}-${d.endLine} ${d.kind} ${d.container ? `${d.container}.` : ''}${d.name}${
+              d.exported ? ' (exported)' : ''
+            }\n    ${d.signature}`
+          ).join('\n')}`
+        : `No definition found for "${name}"${kind ? ` (kind: ${kind})` : ''}. Try search_chunks or grep instead.`,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      data: [],
+      outputSummary: `Definition lookup failed: ${error instanceof Error ? error.message : String(error)}`,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+// ============================================================================
+// find_references
+// ============================================================================
+
+export async function findReferences(
+  args: FindReferencesArgs,
+  context: ToolContext
+): Promise<ToolResult<FindReferencesResult>> {
+  const empty: FindReferencesResult = {
+    references: [],
+    counts: { declaration: 0, import: 0, call: 0, reference: 0 },
+    files: 0,
+  };
+  try {
+    const { name, role, glob, excludeTests, contextLines = 1, limit = 50 } = args;
+
+    const indexer = context.indexer as {
+      findReferences?: (name: string, options: FindReferencesOptions) => FindReferencesResult;
+    } | undefined;
+
+    if (!indexer?.findReferences) {
+      return {
+        success: true,
+        data: empty,
+        outputSummary: `No indexer available. Please run 'repo-wiki index' first.`,
+      };
+    }
+
+    const result = indexer.findReferences(name, { role, contextLines, limit, filters: { glob, excludeTests } });
+    const { counts } = result;
+    const matching = role ? counts[role] : Object.values(counts).reduce((sum, count) => sum + count, 0);
+    const breakdown = `${counts.declaration} declarations, ${counts.import} imports, ${counts.call} calls, ${counts.reference} other references`;
+
+    return {
+      success: true,
+      data: result,
+      outputSummary: result.references.length > 0
+        ? `"${name}": ${breakdown} in ${result.files} files${
+            matching > result.references.length ? ` (showing ${result.references.length} of ${matching})` : ''
+          }:\n${formatGrepMatches(result.references.map((r) => ({ ...r, text: `[${r.role}] ${r.text}` })))}`
+        : `No references found for "${name}"${role ? ` (role: ${role})` : ''}`,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      data: empty,
+      outputSummary: `Reference lookup failed: ${error instanceof Error ? error.message : String(error)}`,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
 // ============================================================================
 // graph_neighbors
 // ============================================================================
@@ -140,51 +429,28 @@ export async function graphNeighbors(
   context: ToolContext
 ): Promise<ToolResult<GraphNeighbor[]>> {
   try {
-    const { nodeId, depth = 1 } = args;
-    
-    // Graph functionality is a placeholder - would need code analysis
-    // For now, return basic file-level relationships based on imports
-    
-    const neighbors: GraphNeighbor[] = [];
-    
-    // Try to parse the file for imports if nodeId is a file path
-    const fullPath = path.join(context.repoPath, nodeId);
-    if (fs.existsSync(fullPath) && fs.statSync(fullPath).isFile()) {
-      const content = fs.readFileSync(fullPath, 'utf-8');
-      
-      // Simple import detection (TypeScript/JavaScript)
-      const importRegex = /import\s+.*?\s+from\s+['"]([^'"]+)['"]/g;
-      let match;
-      
-      while ((match = importRegex.exec(content)) !== null) {
-        const importPath = match[1];
-        if (importPath && !importPath.startsWith('.')) {
-          // External package
-          neighbors.push({
-            node: { id: importPath, type: 'module', name: importPath },
-            relation: 'imports',
-            depth: 1,
-          });
-        } else if (importPath) {
-          // Relative import
-          const resolvedImport = path.resolve(path.dirname(fullPath), importPath);
-          const relativePath = path.relative(context.repoPath, resolvedImport);
-          neighbors.push({
-            node: { id: relativePath, type: 'file', name: path.basename(relativePath) },
-            relation: 'imports',
-            depth: 1,
-          });
-        }
-      }
-    }
+    const { nodeId, depth = 1, direction = 'both', relation, limit = 100 } = args;
+
+    const indexer = context.indexer as {
+      graphNeighbors?: (nodeId: string, options: GraphNeighborsOptions) => GraphNeighbor[];
+    } | undefined;
+
+    // Without an index, fall back to the imports of a single file
+    const neighbors = indexer?.graphNeighbors
+      ? indexer.graphNeighbors(nodeId, { depth, direction, relations: relation ? [relation] : undefined, limit })
+      : direction !== 'incoming' && (!relation || relation === 'imports')
+        ? fileImportNeighbors(context, nodeId).slice(0, limit)
+        : [];
 
     return {
       success: true,
       data: neighbors,
       outputSummary: neighbors.length > 0
-        ? `Found ${neighbors.length} neighbors for "${nodeId}" (depth: ${depth}):\n${neighbors.map(n => 
-            `- ${n.relation} → ${n.node.name} (${n.node.type})`
-          ).join('\n')}`
+        ? `Found ${neighbors.length} neighbors for "${nodeId}" (depth: ${depth}, direction: ${direction}${
+            relation ? `, relation: ${relation}` : ''
+          })${neighbors.length >= limit ? ` (limit ${limit} reached)` : ''}:\n${neighbors
+            .map((n) => `- ${formatNeighbor(n)}${n.via ? ` [depth ${n.depth}, via ${n.via}]` : ''}`)
+            .join('\n')}`
         : `No graph data available for: "${nodeId}"`,
     };
   } catch (error) {
@@ -197,6 +463,123 @@ export async function graphNeighbors(
   }
 }
 
+/**
+ * Resolved imports of one file in the working tree
+ */
+function fileImportNeighbors(context: ToolContext, nodeId: string): GraphNeighbor[] {
+  const { repoPath } = context;
+  const matcher = ignoreMatcher(context);
+  const fullPath = path.resolve(repoPath, nodeId);
+  if (
+    !isInsideRepo(repoPath, fullPath) ||
+    matcher.isIgnored(nodeId) ||
+    !fs.existsSync(fullPath) ||
+    !fs.statSync(fullPath).isFile()
+  ) {
+    return [];
+  }
+
+  const relativePath = path.relative(repoPath, fullPath);
+  const language = detectLanguage(relativePath);
+  const files = Array.from(walkRepository(repoPath, matcher), (entry) => entry.relativePath);
+  const resolver = new ImportResolver(repoPath, files, discoverWorkspace(repoPath));
+  const known = new Set(files);
+
+  const neighbors: GraphNeighbor[] = [];
+  const seen = new Set<string>();
+  for (const imported of extractImports(fs.readFileSync(fullPath, 'utf-8'), language)) {
+    const target = resolver.resolve(relativePath, imported.specifier, language);
+    if (seen.has(target)) continue;
+    seen.add(target);
+    neighbors.push({
+      node: known.has(target)
+        ? { id: target, type: 'file', name: path.basename(target) }
+        : { id: target, type: 'module', name: target },
+      relation: 'imports',
+      depth: 1,
+    });
+  }
+  return neighbors;
+}
+
+// ============================================================================
+// type_hierarchy
+// ============================================================================
+
+export async function typeHierarchy(
+  args: TypeHierarchyArgs,
+  context: ToolContext
+): Promise<ToolResult<TypeHierarchy | null>> {
+  try {
+    const { name, direction = 'both', depth = 5 } = args;
+
+    const indexer = context.indexer as {
+      typeHierarchy?: (name: string, options: TypeHierarchyOptions) => TypeHierarchy | null;
+    } | undefined;
+
+    if (!indexer?.typeHierarchy) {
+      return {
+        success: true,
+        data: null,
+        outputSummary: `No indexer available. Please run 'repo-wiki index' first.`,
+      };
+    }
+
+    const hierarchy = indexer.typeHierarchy(name, { direction, depth });
+    if (!hierarchy) {
+      return {
+        success: true,
+        data: null,
+        outputSummary: `No class, interface or trait found for "${name}"`,
+      };
+    }
+
+    const sections: string[] = [];
+    if (direction !== 'subtypes') {
+      sections.push(`Supertypes (${hierarchy.supertypes.length}):\n${formatHierarchy(hierarchy.type.id, hierarchy.supertypes)}`);
+    }
+    if (direction !== 'supertypes') {
+      sections.push(`Subtypes (${hierarchy.subtypes.length}):\n${formatHierarchy(hierarchy.type.id, hierarchy.subtypes)}`);
+    }
+
+    return {
+      success: true,
+      data: hierarchy,
+      outputSummary: `Type hierarchy of ${hierarchy.type.id} (${hierarchy.type.kind}):\n${sections.join('\n')}`,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      data: null,
+      outputSummary: `Type hierarchy lookup failed: ${error instanceof Error ? error.message : String(error)}`,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Indented tree of traversal results; children are listed under the node they were reached from
+ */
+function formatHierarchy(rootId: string, neighbors: GraphNeighbor[]): string {
+  if (neighbors.length === 0) return '  (none)';
+
+  const children = new Map<string, GraphNeighbor[]>();
+  for (const neighbor of neighbors) {
+    const parent = neighbor.via ?? rootId;
+    children.set(parent, [...(children.get(parent) ?? []), neighbor]);
+  }
+
+  const lines: string[] = [];
+  const visit = (id: string, indent: string) => {
+    for (const child of children.get(id) ?? []) {
+      lines.push(`${indent}- ${formatNeighbor(child)}`);
+      visit(child.node.id, `${indent}  `);
+    }
+  };
+  visit(rootId, '  ');
+  return lines.join('\n');
+}
+
 // ============================================================================
 // list_files
 // ============================================================================
@@ -208,47 +591,26 @@ export async function listFiles(
   try {
     const { glob: globPattern, limit = 100 } = args;
     
-    // Simple glob matching (basic implementation)
     const files: FileEntry[] = [];
+    const matcher = ignoreMatcher(context);
     
-    function walkDir(dir: string, pattern: string): void {
-      if (files.length >= limit) return;
+    for (const entry of walkRepository(context.repoPath, matcher)) {
+      if (files.length >= limit) break;
       
-      try {
-        const entries = fs.readdirSync(dir, { withFileTypes: true });
-        
-        for (const entry of entries) {
-          if (files.length >= limit) break;
-          
-          // Skip hidden and common ignored directories
-          if (entry.name.startsWith('.') || entry.name === 'node_modules') {
-            continue;
-          }
-          
-          const fullPath = path.join(dir, entry.name);
-          const relativePath = path.relative(context.repoPath, fullPath);
-          
-          if (entry.isDirectory()) {
-            walkDir(fullPath, pattern);
-          } else if (entry.isFile()) {
-            // Simple glob matching
-            if (matchGlob(relativePath, pattern)) {
-              const stats = fs.statSync(fullPath);
-              files.push({
-                path: relativePath,
-                type: 'file',
-                size: stats.size,
-              });
-            }
-          }
+      if (matchGlob(entry.relativePath, globPattern)) {
+        try {
+          const stats = fs.statSync(entry.fullPath);
+          files.push({
+            path: entry.relativePath,
+            type: 'file',
+            size: stats.size,
+          });
+        } catch {
+          // File vanished or is unreadable
         }
-      } catch {
-        // Ignore permission errors
       }
     }
     
-    walkDir(context.repoPath, globPattern);
-    
     return {
       success: true,
       data: files,
@@ -266,20 +628,252 @@ export async function listFiles(
   }
 }
 
-/**
- * Simple glob matcher (supports *, **, ?)
- */
-function matchGlob(filepath: string, pattern: string): boolean {
-  // Convert glob to regex
-  const regexPattern = pattern
-    .replace(/\./g, '\\.')
-    .replace(/\*\*/g, '{{GLOBSTAR}}')
-    .replace(/\*/g, '[^/]*')
-    .replace(/\?/g, '.')
-    .replace(/\{\{GLOBSTAR\}\}/g, '.*');
-  
-  const regex = new RegExp(`^${regexPattern}$`);
-  return regex.test(filepath);
+// ============================================================================
+// list_packages
+// ============================================================================
+
+export async function listPackages(
+  args: ListPackagesArgs,
+  context: ToolContext
+): Promise<ToolResult<WorkspacePackage[]>> {
+  try {
+    const packages = discoverWorkspace(context.repoPath).filter((pkg) => !args.kind || pkg.kind === args.kind);
+
+    if (packages.length === 0) {
+      return {
+        success: true,
+        data: [],
+        outputSummary: `No ${args.kind ? `${args.kind} ` : ''}packages found (looked for package.json, Cargo.toml, go.mod/go.work and pyproject.toml)`,
+      };
+    }
+
+    const lines = packages.map((pkg) => {
+      const details = [
+        `- ${pkg.name} (${pkg.path}) [${pkg.kind}${pkg.version ? ` ${pkg.version}` : ''}]`,
+        `  entry points: ${pkg.entryPoints.length > 0 ? pkg.entryPoints.join(', ') : '(none found)'}`,
+      ];
+      if (pkg.dependencies.length > 0) {
+        details.push(`  depends on: ${pkg.dependencies.join(', ')}`);
+      }
+      return details.join('\n');
+    });
+
+    return {
+      success: true,
+      data: packages,
+      outputSummary: `Found ${packages.length} packages:\n${lines.join('\n')}`,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      data: [],
+      outputSummary: `Failed to list packages: ${error instanceof Error ? error.message : String(error)}`,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+// ============================================================================
+// git_log
+// ============================================================================
+
+export async function gitLog(args: GitLogArgs, context: ToolContext): Promise<ToolResult<GitCommit[]>> {
+  try {
+    const { path: filePath, range, limit = 10, stats = true } = args;
+    if (filePath && !isInsideRepo(context.repoPath, path.resolve(context.repoPath, filePath))) {
+      return { success: false, data: [], outputSummary: `Path outside repository: ${filePath}`, error: 'Path outside repository' };
+    }
+    if (!isGitRepository(context.repoPath)) {
+      return { success: false, data: [], outputSummary: 'Not a git repository', error: 'Not a git repository' };
+    }
+
+    const commits = readGitLog(context.repoPath, { path: filePath, range, limit, stats });
+    const scope = `${filePath ? ` touching ${filePath}` : ''}${range ? ` in ${range}` : ''}`;
+    if (commits.length === 0) {
+      return { success: true, data: [], outputSummary: `No commits found${scope}` };
+    }
+
+    // Most detailed first: full message and files, subject and files, subject and totals, one line
+    const header = `Found ${commits.length} commits${scope}${commits.length >= limit ? ' (limit reached)' : ''}:`;
+    const body = fitToBudget(
+      commits,
+      [
+        (c) => [commitHeader(c), ...indent(c.body), ...fileStats(c)].join('\n'),
+        (c) => [commitHeader(c), ...fileStats(c)].join('\n'),
+        (c) => [commitHeader(c), ...statTotals(c)].join('\n'),
+        (c) => `${c.shortSha} ${c.date.slice(0, 10)} ${c.author}: ${c.subject}`,
+      ],
+      outputBudget(context) - header.length,
+      'commits'
+    );
+
+    return { success: true, data: commits, outputSummary: `${header}\n${body}` };
+  } catch (error) {
+    return {
+      success: false,
+      data: [],
+      outputSummary: `git log failed: ${error instanceof Error ? error.message : String(error)}`,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+function commitHeader(commit: GitCommit): string {
+  return `${commit.shortSha} ${commit.date.slice(0, 10)} ${commit.author} <${commit.email}>\n  ${commit.subject}`;
+}
+
+function fileStats(commit: GitCommit): string[] {
+  return (commit.files ?? []).map((file) =>
+    file.additions === null ? `    binary ${file.path}` : `    +${file.additions} -${file.deletions} ${file.path}`
+  );
+}
+
+function statTotals(commit: GitCommit): string[] {
+  if (!commit.files?.length) return [];
+  const added = commit.files.reduce((sum, file) => sum + (file.additions ?? 0), 0);
+  const deleted = commit.files.reduce((sum, file) => sum + (file.deletions ?? 0), 0);
+  return [`    ${commit.files.length} files changed, +${added} -${deleted}`];
+}
+
+function indent(text: string): string[] {
+  return text ? text.split('\n').map((line) => `  ${line}`.trimEnd()) : [];
+}
+
+// ============================================================================
+// git_blame
+// ============================================================================
+
+export async function gitBlame(args: GitBlameArgs, context: ToolContext): Promise<ToolResult<BlameHunk[]>> {
+  try {
+    const { path: filePath, startLine, endLine, rev } = args;
+    if (!isInsideRepo(context.repoPath, path.resolve(context.repoPath, filePath))) {
+      return { success: false, data: [], outputSummary: `Path outside repository: ${filePath}`, error: 'Path outside repository' };
+    }
+    if (startLine !== undefined && endLine !== undefined && endLine < startLine) {
+      return {
+        success: false,
+        data: [],
+        outputSummary: `Invalid line range: ${startLine}-${endLine}`,
+        error: 'endLine must be >= startLine',
+      };
+    }
+    if (!isGitRepository(context.repoPath)) {
+      return { success: false, data: [], outputSummary: 'Not a git repository', error: 'Not a git repository' };
+    }
+
+    const hunks = readGitBlame(context.repoPath, filePath, { startLine, endLine, rev });
+    if (hunks.length === 0) {
+      return { success: true, data: [], outputSummary: `No lines to blame in ${filePath}` };
+    }
+
+    const first = hunks[0]!.startLine;
+    const last = hunks[hunks.length - 1]!.endLine;
+    const commits = new Set(hunks.map((hunk) => hunk.sha)).size;
+    const header = `Blame of ${filePath}:${first}-${last}${rev ? ` at ${rev}` : ''} (${commits} commits):`;
+    const width = String(last).length;
+    const body = fitToBudget(
+      hunks,
+      [
+        (h) =>
+          [
+            blameHeader(h),
+            ...h.lines.map((line, i) => `  ${String(h.startLine + i).padStart(width)} | ${line}`),
+          ].join('\n'),
+        (h) => blameHeader(h),
+      ],
+      outputBudget(context) - header.length,
+      'hunks'
+    );
+
+    return { success: true, data: hunks, outputSummary: `${header}\n${body}` };
+  } catch (error) {
+    return {
+      success: false,
+      data: [],
+      outputSummary: `git blame failed: ${error instanceof Error ? error.message : String(error)}`,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+function blameHeader(hunk: BlameHunk): string {
+  const lines = hunk.startLine === hunk.endLine ? `${hunk.startLine}` : `${hunk.startLine}-${hunk.endLine}`;
+  return `${lines}: ${hunk.sha.slice(0, 7)} ${hunk.date.slice(0, 10)} ${hunk.author} "${hunk.summary}"`;
+}
+
+// ============================================================================
+// search_history
+// ============================================================================
+
+/** Diff lines shown per matching hunk */
+const HISTORY_HUNK_PREVIEW_LINES = 12;
+
+export async function searchHistory(
+  args: SearchHistoryArgs,
+  context: ToolContext
+): Promise<ToolResult<HistorySearchResult[]>> {
+  try {
+    const { query, path: pathPrefix, author, limit = 10 } = args;
+
+    const indexer = context.indexer as {
+      searchHistory?: (query: string, options: HistorySearchOptions) => HistorySearchResult[];
+      hasHistory?: () => boolean;
+    } | undefined;
+
+    if (!indexer?.searchHistory) {
+      return {
+        success: true,
+        data: [],
+        outputSummary: `No indexer available. Please run 'repo-wiki index' first.`,
+      };
+    }
+    if (indexer.hasHistory && !indexer.hasHistory()) {
+      return {
+        success: true,
+        data: [],
+        outputSummary: `History is not indexed. Run 'repo-wiki index --history' first, or use git_log.`,
+      };
+    }
+
+    const commits = indexer.searchHistory(query, { limit, pathPrefix, author });
+    const scope = `${pathPrefix ? ` touching ${pathPrefix}` : ''}${author ? ` by ${author}` : ''}`;
+    if (commits.length === 0) {
+      return { success: true, data: [], outputSummary: `No commits found for query: "${query}"${scope}` };
+    }
+
+    // Most detailed first: message and diff excerpts, hunk locations, one line
+    const header = `Found ${commits.length} commits matching "${query}"${scope}:`;
+    const body = fitToBudget(
+      commits,
+      [
+        (c) => [commitHeader(c), ...indent(c.body), ...c.hunks.flatMap(hunkPreview)].join('\n'),
+        (c) => [commitHeader(c), ...c.hunks.map((h) => `    ${h.path}:${h.startLine}-${h.endLine}`)].join('\n'),
+        (c) => `${c.shortSha} ${c.date.slice(0, 10)} ${c.author}: ${c.subject}`,
+      ],
+      outputBudget(context) - header.length,
+      'commits'
+    );
+
+    return { success: true, data: commits, outputSummary: `${header}\n${body}` };
+  } catch (error) {
+    return {
+      success: false,
+      data: [],
+      outputSummary: `History search failed: ${error instanceof Error ? error.message : String(error)}`,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+function hunkPreview(hunk: DiffHunk): string[] {
+  const lines = hunk.content.split('\n');
+  const shown = lines.slice(0, HISTORY_HUNK_PREVIEW_LINES).map((line) => `      ${line}`.trimEnd());
+  const more = lines.length - shown.length;
+  return [
+    `    ${hunk.path}:${hunk.startLine}-${hunk.endLine}`,
+    ...shown,
+    ...(more > 0 ? [`      ... ${more} more lines`] : []),
+  ];
 }
 
 // ============================================================================
@@ -311,47 +905,30 @@ export async function getRepoSummary(
       '.yml': 'YAML',
     };
 
-    function walkDir(dir: string): void {
-      try {
-        const entries = fs.readdirSync(dir, { withFileTypes: true });
+    const matcher = ignoreMatcher(context);
+    
+    for (const entry of walkRepository(context.repoPath, matcher)) {
+      const segments = entry.relativePath.split(path.sep);
+      if (segments.length > 1 && segments[0]) {
+        directories.add(segments[0]);
+      }
+      
+      const ext = path.extname(entry.relativePath).toLowerCase();
+      const lang = extToLang[ext];
+      
+      if (lang) {
+        totalFiles++;
+        languages[lang] = (languages[lang] ?? 0) + 1;
         
-        for (const entry of entries) {
-          if (entry.name.startsWith('.') || entry.name === 'node_modules') {
-            continue;
-          }
-          
-          const fullPath = path.join(dir, entry.name);
-          
-          if (entry.isDirectory()) {
-            const relativePath = path.relative(context.repoPath, fullPath);
-            if (relativePath.split(path.sep).length === 1) {
-              directories.add(relativePath);
-            }
-            walkDir(fullPath);
-          } else if (entry.isFile()) {
-            const ext = path.extname(entry.name).toLowerCase();
-            const lang = extToLang[ext];
-            
-            if (lang) {
-              totalFiles++;
-              languages[lang] = (languages[lang] ?? 0) + 1;
-              
-              try {
-                const content = fs.readFileSync(fullPath, 'utf-8');
-                totalLines += content.split('\n').length;
-              } catch {
-                // Skip unreadable files
-              }
-            }
-          }
+        try {
+          const content = fs.readFileSync(entry.fullPath, 'utf-8');
+          totalLines += content.split('\n').length;
+        } catch {
+          // Skip unreadable files
         }
-      } catch {
-        // Ignore permission errors
       }
     }
     
-    walkDir(context.repoPath);
-    
     // Get repo name from directory
     const repoName = path.basename(context.repoPath);
     
@@ -405,3 +982,60 @@ Top directories: ${summary.topDirectories.join(', ') || 'None'}`,
     };
   }
 }
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * `relation → id (type)`, with the arrow pointing away from the node for outgoing edges
+ */
+function formatNeighbor(neighbor: GraphNeighbor): string {
+  const arrow = (GRAPH_RELATIONS as readonly string[]).includes(neighbor.relation) ? '→' : '←';
+  const { node } = neighbor;
+  const type = node.kind && node.type === 'symbol' ? `${node.type}: ${node.kind}` : node.type;
+  return `${neighbor.relation} ${arrow} ${node.id} (${type})`;
+}
+
+/**
+ * The indexer's ignore rules: ignore files plus the configured `index.ignore` patterns
+ */
+function ignoreMatcher(context: ToolContext): IgnoreMatcher {
+  return createIgnoreMatcher(context.repoPath, { extraPatterns: context.ignore });
+}
+
+function outputBudget(context: ToolContext): number {
+  return context.maxOutputChars ?? DEFAULT_AGENT_LOOP_CONFIG.maxToolOutputChars;
+}
+
+/**
+ * Render items at the most detailed level that fits the budget; when even the
+ * most compact level does not fit, trailing items are dropped
+ */
+function fitToBudget<T>(items: T[], levels: Array<(item: T) => string>, budget: number, noun: string): string {
+  for (const render of levels) {
+    const text = items.map(render).join('\n');
+    if (text.length <= budget) return text;
+  }
+
+  const render = levels[levels.length - 1]!;
+  const kept: string[] = [];
+  // Leave room for the "... more" line
+  let remaining = budget - 40;
+  for (const item of items) {
+    const text = render(item);
+    if (text.length + 1 > remaining) break;
+    kept.push(text);
+    remaining -= text.length + 1;
+  }
+  return [...kept, `... ${items.length - kept.length} more ${noun} not shown`].join('\n');
+}
+
+/**
+ * Whether a path resolves to the repository root or somewhere below it
+ */
+function isInsideRepo(repoPath: string, targetPath: string): boolean {
+  const root = path.resolve(repoPath);
+  const resolved = path.resolve(targetPath);
+  return resolved === root || resolved.startsWith(root + path.sep);
+}
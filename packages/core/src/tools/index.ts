@@ -13,6 +13,14 @@ export {
   GraphNeighborsArgsSchema,
   ListFilesArgsSchema,
   GetRepoSummaryArgsSchema,
+  GrepArgsSchema,
+  FindDefinitionArgsSchema,
+  FindReferencesArgsSchema,
+  TypeHierarchyArgsSchema,
+  ListPackagesArgsSchema,
+  GitLogArgsSchema,
+  GitBlameArgsSchema,
+  SearchHistoryArgsSchema,
   zodToJsonSchema,
   TOOL_JSON_SCHEMAS,
   type SearchChunksArgs,
@@ -20,6 +28,14 @@ export {
   type GraphNeighborsArgs,
   type ListFilesArgs,
   type GetRepoSummaryArgs,
+  type GrepArgs,
+  type FindDefinitionArgs,
+  type FindReferencesArgs,
+  type TypeHierarchyArgs,
+  type ListPackagesArgs,
+  type GitLogArgs,
+  type GitBlameArgs,
+  type SearchHistoryArgs,
 } from './schemas.js';
 
 // Implementations
@@ -29,6 +45,14 @@ export {
   graphNeighbors,
   listFiles,
   getRepoSummary,
+  grep,
+  findDefinition,
+  findReferences,
+  typeHierarchy,
+  listPackages,
+  gitLog,
+  gitBlame,
+  searchHistory,
 } from './implementations.js';
 
 // Registry
@@ -12,6 +12,14 @@ import {
   GraphNeighborsArgsSchema,
   ListFilesArgsSchema,
   GetRepoSummaryArgsSchema,
+  GrepArgsSchema,
+  FindDefinitionArgsSchema,
+  FindReferencesArgsSchema,
+  TypeHierarchyArgsSchema,
+  ListPackagesArgsSchema,
+  GitLogArgsSchema,
+  GitBlameArgsSchema,
+  SearchHistoryArgsSchema,
   zodToJsonSchema,
 } from './schemas.js';
 import {
@@ -20,6 +28,14 @@ import {
   graphNeighbors,
   listFiles,
   getRepoSummary,
+  grep,
+  findDefinition,
+  findReferences,
+  typeHierarchy,
+  listPackages,
+  gitLog,
+  gitBlame,
+  searchHistory,
 } from './implementations.js';
 
 // ============================================================================
@@ -36,7 +52,7 @@ export interface ToolDefinition {
 const TOOL_DEFINITIONS: ToolDefinition[] = [
   {
     name: 'search_chunks',
-    description: 'Search indexed code chunks for relevant content. Returns matching code snippets with file paths and line numbers.',
+    description: 'Search indexed code chunks for relevant content. Returns matching code snippets with file paths and line numbers. Use mode "semantic" for conceptual queries when exact identifiers are unknown.',
     schema: SearchChunksArgsSchema,
     handler: searchChunks as (args: unknown, context: ToolContext) => Promise<ToolResult>,
   },
@@ -48,7 +64,7 @@ const TOOL_DEFINITIONS: ToolDefinition[] = [
   },
   {
     name: 'graph_neighbors',
-    description: 'Find related code elements (imports, exports, dependencies) for a given file or symbol.',
+    description: 'Walk the code graph from a file or "path#symbol": imports, exports, function calls, extends and implements, and the reverse of each (importedBy, calledBy, implementedBy). Use direction and relation to narrow it, depth to follow chains.',
     schema: GraphNeighborsArgsSchema,
     handler: graphNeighbors as (args: unknown, context: ToolContext) => Promise<ToolResult>,
   },
@@ -64,6 +80,54 @@ const TOOL_DEFINITIONS: ToolDefinition[] = [
     schema: GetRepoSummaryArgsSchema,
     handler: getRepoSummary as (args: unknown, context: ToolContext) => Promise<ToolResult>,
   },
+  {
+    name: 'grep',
+    description: 'Regex search over file contents, line by line. Returns exact path:line matches. Use it for exact identifiers or strings (e.g. all call sites of a function), where search_chunks ranks by relevance instead.',
+    schema: GrepArgsSchema,
+    handler: grep as (args: unknown, context: ToolContext) => Promise<ToolResult>,
+  },
+  {
+    name: 'find_definition',
+    description: 'Find where a function, class, method, interface, type or constant is defined. Returns exact file paths and line ranges; use it instead of searching when you know the symbol name.',
+    schema: FindDefinitionArgsSchema,
+    handler: findDefinition as (args: unknown, context: ToolContext) => Promise<ToolResult>,
+  },
+  {
+    name: 'find_references',
+    description: 'List every place a symbol is used, with surrounding lines. Each hit is labeled as a declaration, import, call or other reference; use it to answer impact questions like "what breaks if I change X".',
+    schema: FindReferencesArgsSchema,
+    handler: findReferences as (args: unknown, context: ToolContext) => Promise<ToolResult>,
+  },
+  {
+    name: 'type_hierarchy',
+    description: 'Show what a class, interface or trait extends/implements and every type that extends/implements it, e.g. all implementations of an interface in one call.',
+    schema: TypeHierarchyArgsSchema,
+    handler: typeHierarchy as (args: unknown, context: ToolContext) => Promise<ToolResult>,
+  },
+  {
+    name: 'list_packages',
+    description: 'List the packages of a monorepo (npm/yarn/pnpm workspaces, Cargo workspaces, Go modules, Python projects) with their paths, entry points and dependencies on each other. Start here to find where a package lives before reading its code.',
+    schema: ListPackagesArgsSchema,
+    handler: listPackages as (args: unknown, context: ToolContext) => Promise<ToolResult>,
+  },
+  {
+    name: 'git_log',
+    description: 'Show commit history (SHA, author, date, message, changed files) for the repository, a file or a directory, optionally within a revision range. Use it for "why was this changed" and "what changed recently"; cite commits by SHA.',
+    schema: GitLogArgsSchema,
+    handler: gitLog as (args: unknown, context: ToolContext) => Promise<ToolResult>,
+  },
+  {
+    name: 'git_blame',
+    description: 'Show which commit, author and date last changed each line of a file (optionally a line range). Use it for "who last touched this" and to find the commit behind a piece of code.',
+    schema: GitBlameArgsSchema,
+    handler: gitBlame as (args: unknown, context: ToolContext) => Promise<ToolResult>,
+  },
+  {
+    name: 'search_history',
+    description: 'Search commit messages and the lines commits added or removed (requires an index built with --history). Use it for "when/why did we switch from X to Y" questions whose answer is only in past commits; cite commits by SHA.',
+    schema: SearchHistoryArgsSchema,
+    handler: searchHistory as (args: unknown, context: ToolContext) => Promise<ToolResult>,
+  },
 ];
 
 // ============================================================================
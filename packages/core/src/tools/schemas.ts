@@ -8,6 +8,10 @@
 
 import { z } from 'zod';
 import type { JsonSchema } from '../llm/types.js';
+import { SYMBOL_KINDS, type SymbolKind } from '../symbols/types.js';
+import { OCCURRENCE_ROLES, type OccurrenceRole } from '../symbols/occurrences.js';
+import { GRAPH_RELATIONS, type GraphRelation } from '../graph/types.js';
+import { WORKSPACE_KINDS, type WorkspaceKind } from '../workspace/types.js';
 
 // ============================================================================
 // Zod Schemas for Each Tool
@@ -17,8 +21,39 @@ import type { JsonSchema } from '../llm/types.js';
  * search_chunks - Search indexed code chunks
  */
 export const SearchChunksArgsSchema = z.object({
-  query: z.string().min(1).describe('Search query to find relevant code chunks'),
+  query: z
+    .string()
+    .min(1)
+    .describe(
+      'Search query. Words match identifiers and their sub-words; also supports "exact phrase", +required, ' +
+      '-excluded, prefix* and a NEAR b'
+    ),
   topK: z.number().int().min(1).max(50).default(10).describe('Number of results to return'),
+  mode: z
+    .enum(['hybrid', 'keyword', 'semantic'])
+    .optional()
+    .describe(
+      'hybrid: fuse keyword and embedding rankings; keyword: full-text match on terms; semantic: embedding similarity ' +
+      'for conceptual queries. Default: hybrid when embeddings are configured, otherwise keyword'
+    ),
+  keywordWeight: z.number().min(0).max(10).optional().describe('Hybrid mode: weight of the keyword ranking (default: 1)'),
+  semanticWeight: z.number().min(0).max(10).optional().describe('Hybrid mode: weight of the semantic ranking (default: 1)'),
+  fusion: z
+    .enum(['rrf', 'weighted'])
+    .optional()
+    .describe('Hybrid mode: reciprocal rank fusion (rrf) or weighted normalized scores'),
+  pathPrefix: z.string().min(1).optional().describe('Only search files under this directory (e.g. "packages/core/src")'),
+  glob: z.string().min(1).optional().describe('Only search files matching this glob (e.g. "**/*.ts")'),
+  language: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Only search files in this language (e.g. "typescript", "python", "go", "markdown")'),
+  excludeTests: z.boolean().optional().describe('Leave out tests, fixtures and mocks'),
+  kind: z
+    .enum(['code', 'docs', 'config'])
+    .optional()
+    .describe('Only search implementation code, documentation or configuration files'),
 });
 
 export type SearchChunksArgs = z.infer<typeof SearchChunksArgsSchema>;
@@ -38,8 +73,20 @@ export type GetExcerptArgs = z.infer<typeof GetExcerptArgsSchema>;
  * graph_neighbors - Get related nodes in code graph
  */
 export const GraphNeighborsArgsSchema = z.object({
-  nodeId: z.string().min(1).describe('Node ID to find neighbors for (file path or symbol ID)'),
+  nodeId: z
+    .string()
+    .min(1)
+    .describe('Node ID: a file path, "path#symbol" (e.g. "src/agent/loop.ts#runAgent") or an external module name'),
   depth: z.number().int().min(1).max(5).default(1).describe('Depth of neighbor traversal'),
+  direction: z
+    .enum(['outgoing', 'incoming', 'both'])
+    .default('both')
+    .describe('outgoing: what the node imports/exports/calls; incoming: what imports/calls it; both: either'),
+  relation: z
+    .enum(GRAPH_RELATIONS as [GraphRelation, ...GraphRelation[]])
+    .optional()
+    .describe('Only follow this relation (in both directions, e.g. "imports" also covers importedBy)'),
+  limit: z.number().int().min(1).max(500).default(100).describe('Maximum number of neighbors to return'),
 });
 
 export type GraphNeighborsArgs = z.infer<typeof GraphNeighborsArgsSchema>;
@@ -54,6 +101,125 @@ export const ListFilesArgsSchema = z.object({
 
 export type ListFilesArgs = z.infer<typeof ListFilesArgsSchema>;
 
+/**
+ * grep - Regex search over file contents
+ */
+export const GrepArgsSchema = z.object({
+  pattern: z.string().min(1).describe('Regular expression (JavaScript syntax) matched against each line'),
+  glob: z.string().min(1).optional().describe('Only search files matching this glob (e.g. "packages/core/**/*.ts")'),
+  ignoreCase: z.boolean().default(false).describe('Match case-insensitively'),
+  contextLines: z.number().int().min(0).max(10).default(0).describe('Lines of context to show before and after each match'),
+  maxMatches: z.number().int().min(1).max(500).default(50).describe('Maximum number of matching lines to return'),
+});
+
+export type GrepArgs = z.infer<typeof GrepArgsSchema>;
+
+/**
+ * find_definition - Locate where a symbol is declared
+ */
+export const FindDefinitionArgsSchema = z.object({
+  name: z
+    .string()
+    .min(1)
+    .describe('Symbol name, optionally qualified by its class or type (e.g. "runAgent", "ToolRegistry.executeToolCall")'),
+  kind: z
+    .enum(SYMBOL_KINDS as [SymbolKind, ...SymbolKind[]])
+    .optional()
+    .describe('Only definitions of this kind (function, method, class, interface, type, ...)'),
+  limit: z.number().int().min(1).max(50).default(10).describe('Maximum number of definitions to return'),
+});
+
+export type FindDefinitionArgs = z.infer<typeof FindDefinitionArgsSchema>;
+
+/**
+ * find_references - List usage sites of a symbol
+ */
+export const FindReferencesArgsSchema = z.object({
+  name: z.string().min(1).describe('Symbol name (e.g. "ToolResult"); for "Class.method" only the method name is matched'),
+  role: z
+    .enum(OCCURRENCE_ROLES as [OccurrenceRole, ...OccurrenceRole[]])
+    .optional()
+    .describe('Only declarations, imports, calls or other references'),
+  glob: z.string().min(1).optional().describe('Only files matching this glob (e.g. "packages/cli/**")'),
+  excludeTests: z.boolean().optional().describe('Leave out tests, fixtures and mocks'),
+  contextLines: z.number().int().min(0).max(5).default(1).describe('Lines of context before and after each reference'),
+  limit: z.number().int().min(1).max(500).default(50).describe('Maximum number of references to return'),
+});
+
+export type FindReferencesArgs = z.infer<typeof FindReferencesArgsSchema>;
+
+/**
+ * type_hierarchy - Supertypes and subtypes of a type
+ */
+export const TypeHierarchyArgsSchema = z.object({
+  name: z
+    .string()
+    .min(1)
+    .describe('Class, interface or trait name (e.g. "LlmProvider"), or a node ID like "src/llm/types.ts#LlmProvider"'),
+  direction: z
+    .enum(['supertypes', 'subtypes', 'both'])
+    .default('both')
+    .describe('supertypes: what it extends/implements; subtypes: what extends/implements it'),
+  depth: z.number().int().min(1).max(10).default(5).describe('Levels of inheritance to follow'),
+});
+
+export type TypeHierarchyArgs = z.infer<typeof TypeHierarchyArgsSchema>;
+
+/**
+ * list_packages - Packages of a monorepo workspace
+ */
+export const ListPackagesArgsSchema = z.object({
+  kind: z
+    .enum(WORKSPACE_KINDS as [WorkspaceKind, ...WorkspaceKind[]])
+    .optional()
+    .describe('Only packages of this ecosystem: npm (package.json), cargo, go or python'),
+});
+
+export type ListPackagesArgs = z.infer<typeof ListPackagesArgsSchema>;
+
+/**
+ * git_log - Commit history of the repository, a file or a directory
+ */
+export const GitLogArgsSchema = z.object({
+  path: z.string().min(1).optional().describe('Only commits touching this file or directory (relative to repository root)'),
+  range: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Revision or range, e.g. "main", "v1.0..HEAD", "HEAD~50.." (default: HEAD)'),
+  limit: z.number().int().min(1).max(100).default(10).describe('Maximum number of commits to return'),
+  stats: z.boolean().default(true).describe('Include changed files with added/deleted line counts'),
+});
+
+export type GitLogArgs = z.infer<typeof GitLogArgsSchema>;
+
+/**
+ * git_blame - Last commit to change each line of a file
+ */
+export const GitBlameArgsSchema = z.object({
+  path: z.string().min(1).describe('File path relative to repository root'),
+  startLine: z.number().int().min(1).optional().describe('Start line number (1-indexed, inclusive)'),
+  endLine: z.number().int().min(1).optional().describe('End line number (1-indexed, inclusive)'),
+  rev: z.string().min(1).optional().describe('Blame the file as of this revision (default: working tree)'),
+});
+
+export type GitBlameArgs = z.infer<typeof GitBlameArgsSchema>;
+
+/**
+ * search_history - Search commit messages and diffs in the history index
+ */
+export const SearchHistoryArgsSchema = z.object({
+  query: z
+    .string()
+    .min(1)
+    .describe('Search query over commit messages and changed lines (same syntax as search_chunks)'),
+  path: z.string().min(1).optional().describe('Only commits changing files under this file or directory'),
+  author: z.string().min(1).optional().describe('Only commits whose author name or email contains this text'),
+  limit: z.number().int().min(1).max(50).default(10).describe('Maximum number of commits to return'),
+});
+
+export type SearchHistoryArgs = z.infer<typeof SearchHistoryArgsSchema>;
+
 /**
  * get_repo_summary - Get repository overview
  */
@@ -155,4 +321,12 @@ export const TOOL_JSON_SCHEMAS = {
   graph_neighbors: zodToJsonSchema(GraphNeighborsArgsSchema),
   list_files: zodToJsonSchema(ListFilesArgsSchema),
   get_repo_summary: zodToJsonSchema(GetRepoSummaryArgsSchema),
+  grep: zodToJsonSchema(GrepArgsSchema),
+  find_definition: zodToJsonSchema(FindDefinitionArgsSchema),
+  find_references: zodToJsonSchema(FindReferencesArgsSchema),
+  type_hierarchy: zodToJsonSchema(TypeHierarchyArgsSchema),
+  list_packages: zodToJsonSchema(ListPackagesArgsSchema),
+  git_log: zodToJsonSchema(GitLogArgsSchema),
+  git_blame: zodToJsonSchema(GitBlameArgsSchema),
+  search_history: zodToJsonSchema(SearchHistoryArgsSchema),
 } as const;
@@ -4,6 +4,11 @@
  */
 
 import type { ToolSchema, JsonSchema } from '../llm/types.js';
+import type { GrepMatch, ScoreBreakdown } from '../types.js';
+
+export type { GraphNode, GraphNeighbor, TypeHierarchy } from '../graph/types.js';
+export type { WorkspacePackage } from '../workspace/types.js';
+export type { GitCommit, BlameHunk, DiffHunk } from '../git/types.js';
 
 // ============================================================================
 // Tool Result Types
@@ -37,6 +42,10 @@ export interface ToolContext {
   repoPath: string;
   /** Indexer instance for search operations */
   indexer?: unknown; // Will be typed properly when integrated
+  /** Output budget per tool call (the agent's maxToolOutputChars); long outputs are compacted to fit */
+  maxOutputChars?: number;
+  /** Gitignore-style patterns from `index.ignore`; tools that walk the working tree skip what the indexer skips */
+  ignore?: string[];
   /** Additional context data */
   [key: string]: unknown;
 }
@@ -75,6 +84,14 @@ export const TOOL_NAMES = {
   GRAPH_NEIGHBORS: 'graph_neighbors',
   LIST_FILES: 'list_files',
   GET_REPO_SUMMARY: 'get_repo_summary',
+  GREP: 'grep',
+  FIND_DEFINITION: 'find_definition',
+  FIND_REFERENCES: 'find_references',
+  TYPE_HIERARCHY: 'type_hierarchy',
+  LIST_PACKAGES: 'list_packages',
+  GIT_LOG: 'git_log',
+  GIT_BLAME: 'git_blame',
+  SEARCH_HISTORY: 'search_history',
 } as const;
 
 export type ToolName = (typeof TOOL_NAMES)[keyof typeof TOOL_NAMES];
@@ -89,6 +106,15 @@ export interface ChunkSearchResult {
   endLine: number;
   content: string;
   score: number;
+  /** Keyword/semantic contributions to `score` (hybrid mode) */
+  scoreBreakdown?: ScoreBreakdown;
+}
+
+export interface GrepToolResult {
+  matches: GrepMatch[];
+  filesSearched: number;
+  /** True when maxMatches was reached before the search finished */
+  truncated: boolean;
 }
 
 export interface ExcerptResult {
@@ -99,18 +125,6 @@ export interface ExcerptResult {
   totalLines: number;
 }
 
-export interface GraphNode {
-  id: string;
-  type: 'file' | 'function' | 'class' | 'module';
-  name: string;
-}
-
-export interface GraphNeighbor {
-  node: GraphNode;
-  relation: 'imports' | 'exports' | 'calls' | 'extends' | 'implements';
-  depth: number;
-}
-
 export interface FileEntry {
   path: string;
   type: 'file' | 'directory';
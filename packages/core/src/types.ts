@@ -63,12 +63,27 @@ export interface FinalAnswerArgs {
 // Sources & Verification
 // ============================================================================
 
-export interface Source {
+export interface FileSource {
+  /** Optional: file ranges without `kind` are still file sources */
+  kind?: 'file';
   path: string;
   startLine: number;
   endLine: number;
 }
 
+/**
+ * A commit cited from git_log / git_blame output (full or abbreviated SHA)
+ */
+export interface CommitSource {
+  kind: 'commit';
+  commit: string;
+  /** Commits carry no file range; declared so `source.path` reads as undefined */
+  path?: never;
+}
+
+/** `kind === 'commit'` narrows to a commit; anything else is a file range */
+export type Source = FileSource | CommitSource;
+
 export interface VerificationResult {
   valid: boolean;
   errors: string[];
@@ -126,6 +141,37 @@ export interface SearchResult {
   snippet: string;
   startLine: number;
   endLine: number;
+  /** How the score was computed (hybrid search only) */
+  scoreBreakdown?: ScoreBreakdown;
+}
+
+/**
+ * A single line matched by a regex search
+ */
+export interface GrepMatch {
+  path: string;
+  /** 1-indexed line number */
+  line: number;
+  /** The matching line */
+  text: string;
+  /** Lines before the match (closest last) */
+  before?: string[];
+  /** Lines after the match */
+  after?: string[];
+}
+
+/**
+ * Per-signal contributions to a hybrid search score
+ */
+export interface ScoreBreakdown {
+  /** Fusion method that produced `fused` */
+  fusion: 'rrf' | 'weighted';
+  /** Final score the result was ranked by */
+  fused: number;
+  /** Position (1-based) and BM25 score in the keyword results, if matched */
+  keyword?: { rank: number; score: number };
+  /** Position (1-based) and cosine similarity in the semantic results, if matched */
+  semantic?: { rank: number; score: number };
 }
 
 // ============================================================================
@@ -0,0 +1,84 @@
+/**
+ * Cargo Workspaces
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { WorkspacePackage } from './types.js';
+import { expandWorkspaceGlobs, firstExisting, parseToml, readText, tomlString, tomlStrings } from './manifest.js';
+
+const DEPENDENCY_TABLES = ['dependencies', 'dev-dependencies', 'build-dependencies'];
+
+export function discoverCargoPackages(repoPath: string): WorkspacePackage[] {
+  const root = readText(path.join(repoPath, 'Cargo.toml'));
+  if (root === undefined) return [];
+
+  const tables = parseToml(root);
+  const workspace = tables.find((t) => t.table === 'workspace')?.entries;
+  const members = workspace
+    ? expandWorkspaceGlobs(repoPath, [
+        ...tomlStrings(workspace.get('members')),
+        ...tomlStrings(workspace.get('exclude')).map((pattern) => `!${pattern}`),
+      ])
+    : [];
+  // The root manifest may be a package as well as the workspace
+  const dirs = tables.some((t) => t.table === 'package') ? ['.', ...members] : members;
+
+  return dirs.flatMap((dir): WorkspacePackage[] => {
+    const manifest = readText(path.join(repoPath, dir, 'Cargo.toml'));
+    if (manifest === undefined) return [];
+    const crate = parseToml(manifest);
+    const pkg = crate.find((t) => t.table === 'package')?.entries;
+    const name = tomlString(pkg?.get('name'));
+    if (!name) return [];
+
+    const dependencies = crate.flatMap((t) => {
+      // `[dependencies]` lists names as keys; `[dependencies.foo]` names one per table
+      if (DEPENDENCY_TABLES.includes(t.table)) return [...t.entries.keys()];
+      const nested = DEPENDENCY_TABLES.find((table) => t.table.startsWith(`${table}.`));
+      return nested ? [t.table.slice(nested.length + 1)] : [];
+    });
+    const version = tomlString(pkg?.get('version'));
+
+    return [
+      {
+        name,
+        kind: 'cargo',
+        path: dir,
+        ...(version ? { version } : {}),
+        entryPoints: entryPoints(repoPath, dir, crate),
+        dependencies: [...new Set(dependencies)],
+      },
+    ];
+  });
+}
+
+/**
+ * Library root first, then binaries (`[lib] path`, `[[bin]] path` or the default layout)
+ */
+function entryPoints(repoPath: string, dir: string, crate: ReturnType<typeof parseToml>): string[] {
+  const explicit = (table: string) =>
+    crate
+      .filter((t) => t.table === table)
+      .map((t) => tomlString(t.entries.get('path')))
+      .filter((file): file is string => file !== undefined);
+
+  let binaries: string[] = [];
+  try {
+    binaries = fs
+      .readdirSync(path.join(repoPath, dir, 'src', 'bin'))
+      .filter((file) => file.endsWith('.rs'))
+      .sort()
+      .map((file) => `src/bin/${file}`);
+  } catch {
+    // No src/bin directory
+  }
+
+  const candidates = [...explicit('lib'), 'src/lib.rs', ...explicit('bin'), 'src/main.rs', ...binaries];
+  const found = new Set<string>();
+  for (const candidate of candidates) {
+    const entry = firstExisting(repoPath, [path.posix.join(dir, candidate)]);
+    if (entry) found.add(entry);
+  }
+  return [...found];
+}
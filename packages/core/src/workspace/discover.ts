@@ -0,0 +1,56 @@
+/**
+ * Workspace Discovery
+ * All packages of a repository, across npm, Cargo, Go and Python manifests
+ */
+
+import * as path from 'node:path';
+import type { WorkspaceKind, WorkspacePackage } from './types.js';
+import { discoverNpmPackages } from './npm.js';
+import { discoverCargoPackages } from './cargo.js';
+import { discoverGoModules } from './go.js';
+import { discoverPythonPackages, normalizePythonName } from './python.js';
+
+/** How each ecosystem compares package names (`serde-json` is `serde_json` to Cargo) */
+const NAME_KEY: Record<WorkspaceKind, (name: string) => string> = {
+  npm: (name) => name,
+  cargo: (name) => name.replace(/-/g, '_'),
+  go: (name) => name,
+  python: normalizePythonName,
+};
+
+/**
+ * Discover workspace packages
+ * Paths use OS separators like indexed file paths; dependencies are narrowed
+ * to packages of the same workspace.
+ */
+export function discoverWorkspace(repoPath: string): WorkspacePackage[] {
+  const packages = [
+    ...discoverNpmPackages(repoPath),
+    ...discoverCargoPackages(repoPath),
+    ...discoverGoModules(repoPath),
+    ...discoverPythonPackages(repoPath),
+  ];
+
+  return packages
+    .map((pkg) => {
+      const key = NAME_KEY[pkg.kind];
+      const internal = new Map(
+        packages.filter((other) => other.kind === pkg.kind && other !== pkg).map((other) => [key(other.name), other.name])
+      );
+      const dependencies = pkg.dependencies
+        .map((dependency) => internal.get(key(dependency)))
+        .filter((name): name is string => name !== undefined);
+
+      return {
+        ...pkg,
+        path: toOsPath(pkg.path),
+        entryPoints: pkg.entryPoints.map(toOsPath),
+        dependencies: [...new Set(dependencies)].sort(),
+      };
+    })
+    .sort((a, b) => a.path.localeCompare(b.path) || a.kind.localeCompare(b.kind));
+}
+
+function toOsPath(posixPath: string): string {
+  return posixPath.split('/').join(path.sep);
+}
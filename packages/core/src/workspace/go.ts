@@ -0,0 +1,58 @@
+/**
+ * Go Modules (go.work workspaces or a single go.mod)
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { WorkspacePackage } from './types.js';
+import { firstExisting, readText } from './manifest.js';
+
+export function discoverGoModules(repoPath: string): WorkspacePackage[] {
+  const work = readText(path.join(repoPath, 'go.work'));
+  const dirs = work !== undefined ? goWorkUses(work) : ['.'];
+
+  return dirs.flatMap((dir): WorkspacePackage[] => {
+    const goMod = readText(path.join(repoPath, dir, 'go.mod'));
+    const name = goMod?.match(/^module\s+(\S+)/m)?.[1];
+    if (!goMod || !name) return [];
+
+    // `require x v1` lines, alone or inside a `require ( ... )` block
+    const dependencies = [...goMod.matchAll(/^(?:require\s+)?\s*([\w.\-/~]+\.[\w.\-/~]+)\s+v\S+/gm)].map((m) => m[1]!);
+
+    return [{ name, kind: 'go', path: dir, entryPoints: entryPoints(repoPath, dir), dependencies }];
+  });
+}
+
+function goWorkUses(work: string): string[] {
+  const uses: string[] = [];
+  for (const match of work.matchAll(/^use\s*(?:\(([^)]*)\)|(\S+))/gm)) {
+    const block = match[1] ?? match[2]!;
+    for (const line of block.split('\n')) {
+      const dir = line.replace(/\/\/.*$/, '').trim();
+      if (dir) uses.push(path.posix.normalize(dir));
+    }
+  }
+  return uses;
+}
+
+/**
+ * `main.go` and `cmd/<name>/main.go` programs; a library module lists the files of its root package
+ */
+function entryPoints(repoPath: string, dir: string): string[] {
+  const list = (relative: string) => {
+    try {
+      return fs.readdirSync(path.join(repoPath, dir, relative)).sort();
+    } catch {
+      return [];
+    }
+  };
+
+  const mains = ['main.go', ...list('cmd').map((name) => `cmd/${name}/main.go`)]
+    .map((file) => firstExisting(repoPath, [path.posix.join(dir, file)]))
+    .filter((file): file is string => file !== undefined);
+  if (mains.length > 0) return mains;
+
+  return list('.')
+    .filter((file) => file.endsWith('.go') && !file.endsWith('_test.go'))
+    .map((file) => path.posix.join(dir, file));
+}
@@ -0,0 +1,11 @@
+/**
+ * Workspace Module
+ * Exports for monorepo package discovery
+ */
+
+export * from './types.js';
+export { discoverWorkspace } from './discover.js';
+export { discoverNpmPackages } from './npm.js';
+export { discoverCargoPackages } from './cargo.js';
+export { discoverGoModules } from './go.js';
+export { discoverPythonPackages, normalizePythonName } from './python.js';
@@ -0,0 +1,166 @@
+/**
+ * Manifest Helpers
+ * Reading package manifests and expanding workspace member globs
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { createIgnoreMatcher } from '../indexer/ignore.js';
+import { matchGlob } from '../indexer/glob.js';
+import { parseJsonWithComments } from '../graph/tsconfig.js';
+
+/** Member globs like `packages/**` are not followed deeper than this */
+const MAX_GLOB_DEPTH = 5;
+
+export function readText(filePath: string): string | undefined {
+  try {
+    return fs.readFileSync(filePath, 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
+
+export function readJson(filePath: string): Record<string, unknown> | undefined {
+  const text = readText(filePath);
+  if (text === undefined) return undefined;
+  try {
+    const value = parseJsonWithComments(text);
+    return value && typeof value === 'object' ? (value as Record<string, unknown>) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * First of the repository-relative POSIX candidates that exists as a file
+ */
+export function firstExisting(repoPath: string, candidates: string[]): string | undefined {
+  return candidates.find((candidate) => {
+    try {
+      return fs.statSync(path.join(repoPath, candidate)).isFile();
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Directories (repository-relative, POSIX) matching workspace member globs
+ * Patterns starting with `!` exclude; ignored directories (node_modules, dist) are never members.
+ */
+export function expandWorkspaceGlobs(repoPath: string, patterns: string[]): string[] {
+  const normalize = (pattern: string) => path.posix.normalize(pattern.replace(/^!/, '')).replace(/\/+$/, '');
+  const includes = patterns.filter((p) => !p.startsWith('!')).map(normalize);
+  const excludes = patterns.filter((p) => p.startsWith('!')).map(normalize);
+  const matcher = createIgnoreMatcher(repoPath);
+  const found = new Set<string>();
+
+  for (const pattern of includes) {
+    if (!/[*?[]/.test(pattern)) {
+      if (isDirectory(repoPath, pattern)) found.add(pattern);
+      continue;
+    }
+
+    // Walk from the literal prefix, matching every directory below it
+    const segments = pattern.split('/');
+    const globIndex = segments.findIndex((segment) => /[*?[]/.test(segment));
+    const base = segments.slice(0, globIndex).join('/') || '.';
+    const maxDepth = pattern.includes('**') ? MAX_GLOB_DEPTH : segments.length - globIndex;
+
+    const visit = (dir: string, depth: number) => {
+      let entries: fs.Dirent[];
+      try {
+        entries = fs.readdirSync(path.join(repoPath, dir), { withFileTypes: true });
+      } catch {
+        return;
+      }
+      for (const entry of entries) {
+        if (!entry.isDirectory() || entry.name.startsWith('.')) continue;
+        const child = dir === '.' ? entry.name : `${dir}/${entry.name}`;
+        if (matcher.isIgnored(child, true)) continue;
+        if (matchGlob(child, pattern)) found.add(child);
+        if (depth < maxDepth) visit(child, depth + 1);
+      }
+    };
+    visit(base, 1);
+  }
+
+  return [...found].filter((dir) => !excludes.some((exclude) => matchGlob(dir, exclude))).sort();
+}
+
+function isDirectory(repoPath: string, dir: string): boolean {
+  try {
+    return fs.statSync(path.join(repoPath, dir)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+// ============================================================================
+// TOML
+// ============================================================================
+
+/**
+ * Minimal TOML reader: `[table]` / `[[array]]` headers and `key = value` pairs,
+ * with values kept as raw text (multi-line arrays joined). Enough for manifests.
+ */
+export function parseToml(text: string): Array<{ table: string; entries: Map<string, string> }> {
+  const tables: Array<{ table: string; entries: Map<string, string> }> = [{ table: '', entries: new Map() }];
+  const lines = text.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = stripTomlComment(lines[i]!).trim();
+    if (!line) continue;
+
+    const header = line.match(/^\[\[?\s*([^\]]+?)\s*\]\]?$/);
+    if (header) {
+      tables.push({ table: header[1]!.replace(/\s*\.\s*/g, '.').replace(/"/g, ''), entries: new Map() });
+      continue;
+    }
+
+    const pair = line.match(/^("[^"]+"|[\w.-]+)\s*=\s*(.*)$/);
+    if (!pair) continue;
+
+    let value = pair[2]!;
+    // Arrays and inline tables may continue on following lines
+    while (unbalanced(value) && i + 1 < lines.length) {
+      value += ` ${stripTomlComment(lines[++i]!).trim()}`;
+    }
+    tables[tables.length - 1]!.entries.set(pair[1]!.replace(/"/g, ''), value.trim());
+  }
+
+  return tables;
+}
+
+/** Unquoted value of a TOML string */
+export function tomlString(raw: string | undefined): string | undefined {
+  return raw?.match(/^(?:"([^"]*)"|'([^']*)')/)?.slice(1).find((part) => part !== undefined);
+}
+
+/** String items of a TOML array */
+export function tomlStrings(raw: string | undefined): string[] {
+  if (!raw?.startsWith('[')) return [];
+  return [...raw.matchAll(/"([^"]*)"|'([^']*)'/g)].map((match) => match[1] ?? match[2]!);
+}
+
+function stripTomlComment(line: string): string {
+  let quote: string | undefined;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]!;
+    if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#') {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+function unbalanced(value: string): boolean {
+  const text = value.replace(/"[^"]*"|'[^']*'/g, '');
+  const opened = (text.match(/[[{]/g) ?? []).length;
+  const closed = (text.match(/[\]}]/g) ?? []).length;
+  return opened > closed;
+}
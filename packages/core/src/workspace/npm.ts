@@ -0,0 +1,149 @@
+/**
+ * npm / yarn / pnpm Workspaces
+ */
+
+import * as path from 'node:path';
+import type { WorkspacePackage } from './types.js';
+import { expandWorkspaceGlobs, firstExisting, readJson, readText } from './manifest.js';
+
+const DEPENDENCY_FIELDS = ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies'];
+
+/** Build output directories and the source directories they are usually compiled from */
+const OUTPUT_DIRS: Array<[string, string]> = [
+  ['dist', 'src'],
+  ['lib', 'src'],
+  ['build', 'src'],
+  ['out', 'src'],
+];
+
+/** Emitted extension → source extensions */
+const SOURCE_EXTENSIONS: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx', '.js', '.jsx'],
+  '.mjs': ['.mts', '.mjs'],
+  '.cjs': ['.cts', '.cjs'],
+};
+
+interface PackageJson {
+  name?: unknown;
+  version?: unknown;
+  workspaces?: unknown;
+  [field: string]: unknown;
+}
+
+export function discoverNpmPackages(repoPath: string): WorkspacePackage[] {
+  const root: PackageJson | undefined = readJson(path.join(repoPath, 'package.json'));
+  const patterns = workspacePatterns(repoPath, root);
+  // A repository without workspaces is a single package
+  const dirs = patterns.length > 0 ? expandWorkspaceGlobs(repoPath, patterns) : root ? ['.'] : [];
+
+  return dirs.flatMap((dir): WorkspacePackage[] => {
+    const manifest: PackageJson | undefined = dir === '.' ? root : readJson(path.join(repoPath, dir, 'package.json'));
+    if (typeof manifest?.name !== 'string') return [];
+
+    const dependencies = DEPENDENCY_FIELDS.flatMap((field) => {
+      const value = manifest[field];
+      return value && typeof value === 'object' ? Object.keys(value) : [];
+    });
+
+    return [
+      {
+        name: manifest.name,
+        kind: 'npm',
+        path: dir,
+        ...(typeof manifest.version === 'string' ? { version: manifest.version } : {}),
+        entryPoints: entryPoints(repoPath, dir, manifest),
+        dependencies: [...new Set(dependencies)],
+      },
+    ];
+  });
+}
+
+/**
+ * `workspaces` of package.json (array or yarn's `{ packages }`), or pnpm-workspace.yaml
+ */
+function workspacePatterns(repoPath: string, root: PackageJson | undefined): string[] {
+  const workspaces = root?.workspaces;
+  const list = Array.isArray(workspaces)
+    ? workspaces
+    : workspaces && typeof workspaces === 'object'
+      ? (workspaces as { packages?: unknown }).packages
+      : undefined;
+  if (Array.isArray(list)) {
+    return list.filter((item): item is string => typeof item === 'string');
+  }
+
+  const pnpm = readText(path.join(repoPath, 'pnpm-workspace.yaml'));
+  if (!pnpm) return [];
+  const patterns: string[] = [];
+  let inPackages = false;
+  for (const line of pnpm.split('\n')) {
+    if (/^packages\s*:/.test(line)) {
+      inPackages = true;
+    } else if (inPackages) {
+      const item = line.match(/^\s+-\s*['"]?([^'"#]+?)['"]?\s*(?:#.*)?$/);
+      if (item) patterns.push(item[1]!);
+      else if (/^\S/.test(line)) inPackages = false;
+    }
+  }
+  return patterns;
+}
+
+/**
+ * Source files behind `exports`, `main`, `module`, `types` and `bin`
+ * Published entry points usually name build output; they are mapped back to
+ * source through the package's tsconfig (`outDir` → `rootDir`) or common layouts.
+ */
+function entryPoints(repoPath: string, dir: string, manifest: Record<string, unknown>): string[] {
+  const specs: string[] = [];
+  const collect = (value: unknown) => {
+    if (typeof value === 'string') specs.push(value);
+    else if (Array.isArray(value)) value.forEach(collect);
+    else if (value && typeof value === 'object') {
+      // The root export comes before subpaths
+      const entries = Object.entries(value).sort(([a], [b]) => Number(b === '.') - Number(a === '.'));
+      for (const [, nested] of entries) collect(nested);
+    }
+  };
+  for (const field of ['exports', 'source', 'module', 'main', 'types', 'typings', 'bin']) {
+    collect(manifest[field]);
+  }
+
+  const tsconfig = readJson(path.join(repoPath, dir, 'tsconfig.json'))?.['compilerOptions'] as
+    | { outDir?: string; rootDir?: string }
+    | undefined;
+  const outputDirs: Array<[string, string]> = [
+    ...(tsconfig?.outDir ? [[tsconfig.outDir, tsconfig.rootDir ?? '.'] as [string, string]] : []),
+    ...OUTPUT_DIRS,
+  ];
+
+  const found = new Set<string>();
+  for (const spec of specs) {
+    if (spec.includes('*')) continue;
+    const file = path.posix.normalize(spec);
+    // Build output is never the entry point when its source is known
+    const sources = outputDirs
+      .map(([outDir, rootDir]) => [path.posix.normalize(outDir), rootDir] as const)
+      .filter(([out]) => file.startsWith(`${out}/`))
+      .map(([out, rootDir]) => path.posix.join(rootDir, file.slice(out.length + 1)));
+    if (sources.length === 0) sources.push(file);
+
+    const candidates = sources.flatMap((source) => {
+      const extension = source.endsWith('.d.ts') ? '.d.ts' : path.posix.extname(source);
+      const stem = source.slice(0, source.length - extension.length);
+      const extensions = extension === '.d.ts' ? ['.ts', '.tsx', '.d.ts'] : SOURCE_EXTENSIONS[extension];
+      return extensions ? extensions.map((ext) => stem + ext) : [source];
+    });
+    const entry = firstExisting(repoPath, candidates.map((candidate) => path.posix.join(dir, candidate)));
+    if (entry) found.add(entry);
+  }
+
+  if (found.size === 0) {
+    const fallback = firstExisting(
+      repoPath,
+      ['src/index.ts', 'src/index.tsx', 'src/index.js', 'index.ts', 'index.js'].map((file) => path.posix.join(dir, file))
+    );
+    if (fallback) found.add(fallback);
+  }
+
+  return [...found];
+}
@@ -0,0 +1,74 @@
+/**
+ * Python Packages (pyproject.toml at the root and up to two levels below)
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { WorkspacePackage } from './types.js';
+import { createIgnoreMatcher } from '../indexer/ignore.js';
+import { firstExisting, parseToml, readText, tomlString, tomlStrings } from './manifest.js';
+
+const MAX_DEPTH = 2;
+
+export function discoverPythonPackages(repoPath: string): WorkspacePackage[] {
+  const matcher = createIgnoreMatcher(repoPath);
+  const dirs: string[] = [];
+  const visit = (dir: string, depth: number) => {
+    if (fs.existsSync(path.join(repoPath, dir, 'pyproject.toml'))) dirs.push(dir);
+    if (depth >= MAX_DEPTH) return;
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(path.join(repoPath, dir), { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      const child = dir === '.' ? entry.name : `${dir}/${entry.name}`;
+      if (entry.isDirectory() && !entry.name.startsWith('.') && !matcher.isIgnored(child, true)) {
+        visit(child, depth + 1);
+      }
+    }
+  };
+  visit('.', 0);
+
+  return dirs.flatMap((dir): WorkspacePackage[] => {
+    const tables = parseToml(readText(path.join(repoPath, dir, 'pyproject.toml')) ?? '');
+    const project = tables.find((t) => t.table === 'project')?.entries;
+    const poetry = tables.find((t) => t.table === 'tool.poetry')?.entries;
+    const name = tomlString(project?.get('name')) ?? tomlString(poetry?.get('name'));
+    if (!name) return [];
+
+    // PEP 508 requirements (`requests>=2`) and Poetry dependency tables
+    const dependencies = [
+      ...tomlStrings(project?.get('dependencies')).map((requirement) => requirement.match(/^[\w.-]+/)?.[0] ?? ''),
+      ...[...(tables.find((t) => t.table === 'tool.poetry.dependencies')?.entries.keys() ?? [])],
+    ].filter((dependency) => dependency && dependency !== 'python');
+    const version = tomlString(project?.get('version')) ?? tomlString(poetry?.get('version'));
+
+    const module = name.toLowerCase().replace(/[-.]+/g, '_');
+    const entry = firstExisting(
+      repoPath,
+      [`src/${module}/__init__.py`, `${module}/__init__.py`, `src/${module}.py`, `${module}.py`].map((file) =>
+        path.posix.join(dir, file)
+      )
+    );
+
+    return [
+      {
+        name,
+        kind: 'python',
+        path: dir,
+        ...(version ? { version } : {}),
+        entryPoints: entry ? [entry] : [],
+        dependencies: [...new Set(dependencies)],
+      },
+    ];
+  });
+}
+
+/**
+ * PEP 503 normalized name: `My_Package.Utils` → `my-package-utils`
+ */
+export function normalizePythonName(name: string): string {
+  return name.toLowerCase().replace(/[-_.]+/g, '-');
+}
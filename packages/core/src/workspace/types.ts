@@ -0,0 +1,21 @@
+/**
+ * Workspace Types
+ * Packages discovered from workspace manifests (package.json, Cargo.toml, go.work, pyproject.toml)
+ */
+
+export type WorkspaceKind = 'npm' | 'cargo' | 'go' | 'python';
+
+export const WORKSPACE_KINDS: readonly WorkspaceKind[] = ['npm', 'cargo', 'go', 'python'];
+
+export interface WorkspacePackage {
+  /** Name other code imports it by (`@repo-wiki/core`, crate name, Go module path) */
+  name: string;
+  kind: WorkspaceKind;
+  /** Package directory relative to the repository root ('.' for the root) */
+  path: string;
+  version?: string;
+  /** Source files the package exposes, relative to the repository root; the main entry first */
+  entryPoints: string[];
+  /** Names of other packages in the workspace that it depends on */
+  dependencies: string[];
+}